@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAggregations } from './aggregations';
+
+describe('buildAggregations', () => {
+    it('builds nested bucket aggregations', () => {
+        const built = buildAggregations([
+            { id: 'by_status', type: 'terms', field: 'status', children: [{ id: 'p', type: 'percentiles', field: 'took' }] }
+        ]);
+        assert.equal(built.valid, true);
+        assert.deepEqual(built.aggs, {
+            by_status: {
+                terms: { field: 'status', size: 10 },
+                aggs: { p: { percentiles: { field: 'took', percents: [50, 95, 99] } } }
+            }
+        });
+    });
+
+    it('rejects percents and ranges that are not arrays', () => {
+        for (const node of [
+            { id: 'p', type: 'percentiles', field: 'took', percents: 5 },
+            { id: 'p', type: 'percentiles', field: 'took', percents: 'abc' },
+            { id: 'r', type: 'range', field: 'took', ranges: 5 },
+            { id: 'r', type: 'range', field: 'took', ranges: { from: 1 } },
+            { id: 'r', type: 'range', field: 'took', ranges: [null] }
+        ]) {
+            assert.deepEqual(buildAggregations([node]), { valid: false, error: 'AGGREGATION_INVALID', details: node.id });
+        }
+    });
+});
@@ -0,0 +1,137 @@
+// ==================== AGGREGATION BUILDER ====================
+
+export const AGGREGATION_TYPES = [
+    'terms',
+    'histogram',
+    'date_histogram',
+    'range',
+    'stats',
+    'percentiles',
+    'cardinality',
+    'missing'
+] as const;
+
+export type AggregationType = typeof AGGREGATION_TYPES[number];
+
+// Bucket aggregations can hold sub-aggregations, metric aggregations cannot
+const BUCKET_TYPES: AggregationType[] = ['terms', 'histogram', 'date_histogram', 'range'];
+
+// Units accepted as calendar_interval; anything else like "30m" is sent as fixed_interval
+const CALENDAR_INTERVALS = ['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+const FIXED_INTERVAL = /^\d+(ms|s|m|h|d)$/;
+
+const MAX_AGGREGATIONS = 20;
+const MAX_DEPTH = 3;
+const MAX_TERMS_SIZE = 1000;
+
+export interface AggregationNode {
+    // Name of the aggregation in the response
+    id: string;
+    type: AggregationType;
+    field: string;
+    size?: number;
+    interval?: number | string;
+    ranges?: Array<{ from?: number; to?: number }>;
+    percents?: number[];
+    children?: AggregationNode[];
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Aggregation body for a single node, or null when its settings are not usable
+const buildNode = (node: AggregationNode): Record<string, any> | null => {
+    const { type, field } = node;
+
+    switch (type) {
+        case 'terms': {
+            const size = node.size ?? 10;
+            if (!Number.isInteger(size) || size < 1 || size > MAX_TERMS_SIZE) return null;
+            return { terms: { field, size } };
+        }
+        case 'histogram':
+            if (!isFiniteNumber(node.interval) || node.interval <= 0) return null;
+            return { histogram: { field, interval: node.interval, min_doc_count: 1 } };
+        case 'date_histogram': {
+            const interval = String(node.interval ?? 'day');
+            if (CALENDAR_INTERVALS.includes(interval)) {
+                return { date_histogram: { field, calendar_interval: interval, min_doc_count: 1 } };
+            }
+            if (FIXED_INTERVAL.test(interval)) {
+                return { date_histogram: { field, fixed_interval: interval, min_doc_count: 1 } };
+            }
+            return null;
+        }
+        case 'range': {
+            const ranges = node.ranges ?? [];
+            const valid = Array.isArray(ranges) && ranges.length > 0 && ranges.every(range =>
+                !!range && typeof range === 'object' &&
+                (range.from === undefined || isFiniteNumber(range.from)) &&
+                (range.to === undefined || isFiniteNumber(range.to)) &&
+                (range.from !== undefined || range.to !== undefined)
+            );
+            if (!valid) return null;
+            return { range: { field, ranges: ranges.map(({ from, to }) => ({ from, to })) } };
+        }
+        case 'stats':
+            return { stats: { field } };
+        case 'percentiles': {
+            const percents = node.percents ?? [50, 95, 99];
+            if (!Array.isArray(percents) || percents.length === 0 || !percents.every(p => isFiniteNumber(p) && p >= 0 && p <= 100)) return null;
+            return { percentiles: { field, percents } };
+        }
+        case 'cardinality':
+            return { cardinality: { field } };
+        case 'missing':
+            return { missing: { field } };
+        default:
+            return null;
+    }
+};
+
+/**
+ * Turn the aggregation builder definition into the aggs section of a search.
+ * On failure `details` is the name of the offending aggregation.
+ */
+export const buildAggregations = (
+    nodes: unknown
+): { valid: boolean; error?: string; details?: string; aggs?: Record<string, any> } => {
+    let count = 0;
+    let failure: { error: string; details?: string } | null = null;
+
+    const build = (list: AggregationNode[], depth: number): Record<string, any> | null => {
+        const aggs: Record<string, any> = {};
+        for (const item of list) {
+            count++;
+            if (count > MAX_AGGREGATIONS || depth > MAX_DEPTH) {
+                failure = { error: 'AGGREGATIONS_TOO_COMPLEX' };
+                return null;
+            }
+            if (!item || typeof item.id !== 'string' || !/^[\w-]+$/.test(item.id) || aggs[item.id]) {
+                failure = { error: 'AGGREGATION_NAME_INVALID', details: typeof item?.id === 'string' ? item.id : undefined };
+                return null;
+            }
+
+            const agg = typeof item.field === 'string' && item.field ? buildNode(item) : null;
+            const children = Array.isArray(item.children) ? item.children : [];
+            if (!agg || (children.length > 0 && !BUCKET_TYPES.includes(item.type))) {
+                failure = { error: 'AGGREGATION_INVALID', details: item.id };
+                return null;
+            }
+
+            if (children.length > 0) {
+                const sub = build(children, depth + 1);
+                if (!sub) return null;
+                agg.aggs = sub;
+            }
+            aggs[item.id] = agg;
+        }
+        return aggs;
+    };
+
+    if (!Array.isArray(nodes) || nodes.length === 0) {
+        return { valid: false, error: 'AGGREGATIONS_REQUIRED' };
+    }
+    const aggs = build(nodes, 1);
+    if (!aggs) return { valid: false, ...failure! };
+    return { valid: true, aggs };
+};
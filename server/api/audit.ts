@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { AuditLogEntry, AuditLogFilter, createAuditLog, getConnectionById } from '../database';
+import { escapeCsv } from './csv';
+import { ApiSession } from './session';
+
+// ==================== ACTIONS ====================
+
+export const AUDIT_ACTIONS = [
+    'document.create',
+    'document.update',
+    'document.delete',
+    'index.create',
+    'index.delete',
+    'index.open',
+    'index.close',
+    'alias.add',
+    'alias.delete',
+    'reindex',
+    'document.copy',
+    'documents.copy',
+    'documents.import',
+    'documents.delete_by_query',
+    'documents.update_by_query',
+    'documents.bulk_delete',
+    'documents.bulk_update',
+    'task.cancel',
+    'snapshot.create',
+    'snapshot.restore',
+    'snapshot.delete',
+    'ilm.policy_update',
+    'ilm.policy_delete',
+    'ilm.attach',
+    'ilm.detach',
+    'ilm.retry',
+    'rest.request'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+interface AuditDescriptor {
+    action: AuditAction;
+    target: string | null;
+    // Set when the operation runs against another saved connection than the active one
+    connectionId?: number;
+    // REST console calls are logged with the Elasticsearch method and path
+    method?: string;
+    path?: string;
+}
+
+const parseBody = (rawBody: string): any => {
+    try {
+        return rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+        return {};
+    }
+};
+
+// Cheap pre-check so only mutating routes pay for cloning the request body
+export const isAuditedRoute = (method: string, segments: string[]): boolean => {
+    const [first, second, third] = segments;
+    if (method === 'GET') return false;
+    if (first === 'indices' || first === 'reindex' || first === 'rest') return true;
+    if (first === 'copy-document' || first === 'copy-documents' || first === 'snapshots' || first === 'ilm') return true;
+    return first === 'tasks' && !!second && third === 'cancel';
+};
+
+/**
+ * Map a mutating API call to the audit action and target it represents, or
+ * `null` when the call does not change anything (e.g. a GET through /rest).
+ */
+export const describeAuditAction = (method: string, segments: string[], rawBody: string): AuditDescriptor | null => {
+    const [first, second, third, fourth] = segments;
+    const body = parseBody(rawBody);
+
+    if (first === 'indices') {
+        if (method === 'POST' && segments.length === 1) {
+            return { action: 'index.create', target: body.indexName || null };
+        }
+        if (method === 'DELETE' && segments.length === 2) {
+            return { action: 'index.delete', target: second };
+        }
+        if (method === 'POST' && third === 'open' && segments.length === 3) {
+            return { action: 'index.open', target: second };
+        }
+        if (method === 'POST' && third === 'close' && segments.length === 3) {
+            return { action: 'index.close', target: second };
+        }
+        if (method === 'PUT' && third === 'doc' && segments.length === 3) {
+            return { action: 'document.create', target: `${second}/_doc` };
+        }
+        if (method === 'PUT' && third === 'doc' && fourth && segments.length === 4) {
+            return { action: 'document.update', target: `${second}/_doc/${fourth}` };
+        }
+        if (method === 'DELETE' && third === 'doc' && fourth && segments.length === 4) {
+            return { action: 'document.delete', target: `${second}/_doc/${fourth}` };
+        }
+        if (method === 'POST' && (third === 'delete_by_query' || third === 'update_by_query') && segments.length === 3) {
+            return { action: `documents.${third}`, target: second };
+        }
+        if (method === 'POST' && third === 'bulk-action' && segments.length === 3) {
+            const selection = Array.isArray(body.ids) ? String(body.ids.length) : 'query';
+            const target = body.field ? `${second}/${body.field} (${selection})` : `${second} (${selection})`;
+            return { action: body.action === 'delete' ? 'documents.bulk_delete' : 'documents.bulk_update', target };
+        }
+        if (method === 'POST' && third === 'bulk' && segments.length === 3) {
+            const count = Array.isArray(body.documents) ? body.documents.length : 0;
+            return { action: 'documents.import', target: `${second} (${count})` };
+        }
+        if (method === 'POST' && third === 'alias' && segments.length === 3) {
+            return { action: 'alias.add', target: `${second}/_alias/${body.alias ?? ''}` };
+        }
+        if (method === 'DELETE' && third === 'alias' && fourth && segments.length === 4) {
+            return { action: 'alias.delete', target: `${second}/_alias/${fourth}` };
+        }
+        if (method === 'PUT' && third === 'ilm' && segments.length === 3) {
+            return { action: 'ilm.attach', target: `${second} -> ${body.policy ?? ''}` };
+        }
+        if (method === 'DELETE' && third === 'ilm' && segments.length === 3) {
+            return { action: 'ilm.detach', target: second };
+        }
+        if (method === 'POST' && third === 'ilm' && fourth === 'retry' && segments.length === 4) {
+            return { action: 'ilm.retry', target: second };
+        }
+        return null;
+    }
+
+    if (first === 'reindex' && method === 'POST') {
+        return { action: 'reindex', target: `${body.sourceIndex ?? ''} -> ${body.targetIndex ?? ''}` };
+    }
+
+    if (first === 'copy-document' && method === 'POST') {
+        return {
+            action: 'document.copy',
+            target: `${body.targetIndex ?? ''}/_doc/${body.documentId ?? ''}`,
+            connectionId: body.targetConnectionId
+        };
+    }
+
+    if (first === 'copy-documents' && method === 'POST') {
+        const count = Array.isArray(body.documents) ? body.documents.length : 0;
+        return {
+            action: 'documents.copy',
+            target: `${body.targetIndex ?? ''} (${count})`,
+            connectionId: body.targetConnectionId
+        };
+    }
+
+    if (first === 'snapshots' && second) {
+        if (method === 'POST' && segments.length === 2) {
+            return { action: 'snapshot.create', target: `${second}/${body.snapshot ?? ''}` };
+        }
+        if (method === 'POST' && fourth === 'restore' && segments.length === 4) {
+            return { action: 'snapshot.restore', target: `${second}/${third}` };
+        }
+        if (method === 'DELETE' && third && segments.length === 3) {
+            return { action: 'snapshot.delete', target: `${second}/${third}` };
+        }
+        return null;
+    }
+
+    if (first === 'ilm' && second === 'policies' && third && segments.length === 3) {
+        if (method === 'PUT') return { action: 'ilm.policy_update', target: `_ilm/policy/${third}` };
+        if (method === 'DELETE') return { action: 'ilm.policy_delete', target: `_ilm/policy/${third}` };
+        return null;
+    }
+
+    if (first === 'tasks' && method === 'POST') {
+        return { action: 'task.cancel', target: `_tasks/${second}` };
+    }
+
+    if (first === 'rest' && method === 'POST') {
+        const restMethod = typeof body.method === 'string' ? body.method.toUpperCase() : '';
+        if (!restMethod || restMethod === 'GET' || restMethod === 'HEAD') return null;
+        const restPath = typeof body.path === 'string' ? body.path : '';
+        const normalizedPath = restPath.startsWith('/') ? restPath : `/${restPath}`;
+        return { action: 'rest.request', target: normalizedPath, method: restMethod, path: normalizedPath };
+    }
+
+    return null;
+};
+
+// ==================== RECORDING ====================
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const readResponseError = async (response: NextResponse): Promise<string | null> => {
+    try {
+        const data = await response.clone().json();
+        if (data?.errorCode) return data.errorCode;
+        if (typeof data?.error === 'string') return data.error;
+        if (data?.error?.type) return data.error.type;
+        return null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Write the audit record for a routed request. Failures are logged and swallowed:
+ * the operation already happened, so the response must still reach the client.
+ */
+export const recordAudit = async (
+    session: ApiSession,
+    method: string,
+    segments: string[],
+    rawBody: string,
+    response: NextResponse
+): Promise<void> => {
+    const descriptor = describeAuditAction(method, segments, rawBody);
+    if (!descriptor) return;
+
+    try {
+        let connectionId = session.connectionInfo.id;
+        let connectionName: string | null = session.connectionInfo.name || session.connectionInfo.url || null;
+
+        if (descriptor.connectionId !== undefined) {
+            const connection = await getConnectionById(Number(descriptor.connectionId));
+            connectionId = connection?.id ?? null;
+            connectionName = connection?.name ?? null;
+        }
+
+        const success = response.status < 400;
+        await createAuditLog({
+            connection_id: connectionId,
+            connection_name: connectionName,
+            user_id: session.user?.id ?? null,
+            username: session.user?.username ?? null,
+            // Never store the session id itself, it is a bearer credential
+            session_hash: sha256(session.id).slice(0, 16),
+            action: descriptor.action,
+            method: descriptor.method ?? method,
+            path: descriptor.path ?? `/api/${segments.join('/')}`,
+            target: descriptor.target,
+            body_hash: rawBody ? sha256(rawBody) : null,
+            result: success ? 'success' : 'failure',
+            status_code: response.status,
+            error: success ? null : await readResponseError(response)
+        });
+    } catch (error) {
+        console.error('Failed to write audit log:', error);
+    }
+};
+
+// ==================== QUERYING ====================
+
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+// Build a filter from the query string shared by the list and export endpoints
+export const parseAuditFilter = (params: URLSearchParams): AuditLogFilter => {
+    const filter: AuditLogFilter = {};
+    const connectionId = params.get('connectionId');
+    const result = params.get('result');
+
+    if (connectionId && !isNaN(parseInt(connectionId))) filter.connection_id = parseInt(connectionId);
+    if (params.get('username')) filter.username = params.get('username')!;
+    if (params.get('action')) filter.action = params.get('action')!;
+    if (result === 'success' || result === 'failure') filter.result = result;
+    if (params.get('search')) filter.search = params.get('search')!;
+    if (params.get('from')) filter.from = params.get('from')!;
+    if (params.get('to')) filter.to = params.get('to')!;
+
+    return filter;
+};
+
+const AUDIT_CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+    'created_at',
+    'username',
+    'connection_name',
+    'action',
+    'method',
+    'path',
+    'target',
+    'result',
+    'status_code',
+    'error',
+    'body_hash',
+    'session_hash'
+];
+
+export const auditLogsToCsv = (entries: AuditLogEntry[]): string => {
+    const lines = [AUDIT_CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+        lines.push(AUDIT_CSV_COLUMNS.map(column => escapeCsv(entry[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+};
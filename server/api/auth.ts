@@ -0,0 +1,111 @@
+import {
+    User,
+    countUsers,
+    createUser,
+    getUserByUsername,
+    hashPassword,
+    verifyPasswordHash
+} from '../database';
+import { SessionUser } from './session';
+
+// ==================== CONFIGURATION ====================
+
+// Authentication can only be switched off explicitly, e.g. for a single-user local setup
+export const AUTH_ENABLED = (process.env.AUTH_ENABLED || 'true').toLowerCase() !== 'false';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Example passwords from .env.example and the docs, refused for the initial admin
+const PLACEHOLDER_ADMIN_PASSWORDS = ['change-me-please', 'your-admin-password'];
+
+// Compared against when the username does not exist, so a failed lookup costs the same as a wrong password
+const DUMMY_PASSWORD_HASH = hashPassword('elasticscope-dummy-password');
+
+// ==================== HELPERS ====================
+
+export const toSessionUser = (user: User): SessionUser => ({
+    id: user.id,
+    username: user.username,
+    is_admin: user.is_admin
+});
+
+// Strip the password hash before a user record leaves the server
+export const toPublicUser = (user: User) => {
+    const { password_hash: _passwordHash, ...publicUser } = user;
+    return publicUser;
+};
+
+export const validateUserInput = (input: any, requirePassword: boolean): { valid: boolean; error?: string } => {
+    if (input.username !== undefined || requirePassword) {
+        if (!input.username || typeof input.username !== 'string' || input.username.trim().length === 0) {
+            return { valid: false, error: 'USERNAME_REQUIRED' };
+        }
+
+        if (input.username.length > 100 || !/^[A-Za-z0-9._@-]+$/.test(input.username)) {
+            return { valid: false, error: 'USERNAME_INVALID' };
+        }
+    }
+
+    if (input.password !== undefined || requirePassword) {
+        if (!input.password || typeof input.password !== 'string') {
+            return { valid: false, error: 'PASSWORD_REQUIRED' };
+        }
+
+        if (input.password.length < MIN_PASSWORD_LENGTH) {
+            return { valid: false, error: 'PASSWORD_TOO_SHORT' };
+        }
+    }
+
+    return { valid: true };
+};
+
+export const authenticateUser = async (username: string, password: string): Promise<User | null> => {
+    const user = await getUserByUsername(username);
+    const matches = verifyPasswordHash(password, user?.password_hash ?? DUMMY_PASSWORD_HASH);
+    return user && matches ? user : null;
+};
+
+// Routes that must stay reachable without a logged-in user
+export const isPublicRoute = (method: string, segments: string[]): boolean => {
+    const [first, second] = segments;
+    if (first !== 'auth' || segments.length !== 2) return false;
+    return (method === 'GET' && second === 'me') || (method === 'POST' && (second === 'login' || second === 'logout'));
+};
+
+// ==================== INITIAL ADMIN ====================
+
+/**
+ * Create the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD when the
+ * users table is empty. Without those variables nobody can log in, so warn loudly.
+ */
+export const ensureInitialAdmin = async (): Promise<void> => {
+    if (!AUTH_ENABLED) {
+        console.warn('⚠️  AUTH_ENABLED=false: the UI and API are reachable without login');
+        return;
+    }
+
+    if (await countUsers() > 0) return;
+
+    const username = process.env.ADMIN_USERNAME?.trim();
+    const password = process.env.ADMIN_PASSWORD;
+
+    if (!username || !password) {
+        console.warn(
+            '⚠️  No users exist yet. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin account.'
+        );
+        return;
+    }
+
+    const validation = validateUserInput({ username, password }, true);
+    if (!validation.valid) {
+        throw new Error(`Cannot create initial admin from ADMIN_USERNAME/ADMIN_PASSWORD: ${validation.error}`);
+    }
+    if (PLACEHOLDER_ADMIN_PASSWORDS.includes(password)) {
+        throw new Error(
+            'Cannot create initial admin: ADMIN_PASSWORD is the publicly known example password. Choose your own.'
+        );
+    }
+
+    await createUser({ username, password, is_admin: true });
+    console.log(`👤 Created initial admin user "${username}"`);
+};
@@ -0,0 +1,107 @@
+import { Client } from '@elastic/elasticsearch';
+import { BulkImportItemError, collectBulkErrors } from './bulkImport';
+
+// Documents one bulk action may touch; "all matching" selections above this are refused
+export const MAX_BULK_ACTION_DOCUMENTS = 10000;
+
+export const BULK_ACTIONS = ['delete', 'set', 'unset'] as const;
+
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export const isBulkAction = (value: unknown): value is BulkAction =>
+    typeof value === 'string' && (BULK_ACTIONS as readonly string[]).includes(value);
+
+export interface BulkActionResult {
+    succeeded: number;
+    failed: number;
+    errors: BulkImportItemError[];
+    took: number;
+}
+
+// Dotted names address nested objects; missing parents are created when setting
+const SET_FIELD_SCRIPT = `
+def target = ctx._source;
+def parts = params.field.splitOnToken('.');
+for (int i = 0; i < parts.length - 1; i++) {
+    if (!(target[parts[i]] instanceof Map)) { target[parts[i]] = new HashMap(); }
+    target = target[parts[i]];
+}
+target[parts[parts.length - 1]] = params.value;
+`;
+
+const UNSET_FIELD_SCRIPT = `
+def target = ctx._source;
+def parts = params.field.splitOnToken('.');
+for (int i = 0; i < parts.length - 1; i++) {
+    if (!(target[parts[i]] instanceof Map)) { ctx.op = 'noop'; return; }
+    target = target[parts[i]];
+}
+if (target.containsKey(parts[parts.length - 1])) { target.remove(parts[parts.length - 1]); } else { ctx.op = 'noop'; }
+`;
+
+/**
+ * Ids of the documents matching a query, for actions on "all matching" documents.
+ * Returns null when more than MAX_BULK_ACTION_DOCUMENTS match.
+ */
+export const resolveMatchingIds = async (
+    client: Client,
+    index: string,
+    query: object | null | undefined
+): Promise<{ ids: string[]; total: number } | null> => {
+    const response = await client.search({
+        index,
+        body: {
+            query: query || { match_all: {} },
+            size: MAX_BULK_ACTION_DOCUMENTS,
+            _source: false,
+            sort: ['_doc'],
+            track_total_hits: true
+        }
+    });
+
+    const total = typeof response.hits.total === 'number' ? response.hits.total : response.hits.total?.value || 0;
+    if (total > MAX_BULK_ACTION_DOCUMENTS) return null;
+    return { ids: response.hits.hits.map(hit => hit._id as string), total };
+};
+
+/**
+ * Run a delete, set field or unset field action on the given documents as a
+ * single _bulk request. Failures of single documents come back per item.
+ */
+export const runBulkAction = async (
+    client: Client,
+    index: string,
+    ids: string[],
+    action: BulkAction,
+    field?: string,
+    value?: unknown
+): Promise<BulkActionResult> => {
+    const operations: any[] = [];
+    for (const id of ids) {
+        if (action === 'delete') {
+            operations.push({ delete: { _index: index, _id: id } });
+        } else {
+            operations.push({ update: { _index: index, _id: id } });
+            operations.push({
+                script: {
+                    source: action === 'set' ? SET_FIELD_SCRIPT : UNSET_FIELD_SCRIPT,
+                    lang: 'painless',
+                    params: { field, value: value ?? null }
+                }
+            });
+        }
+    }
+
+    const response = await client.bulk({
+        body: operations,
+        refresh: 'wait_for'
+    });
+
+    const errors = collectBulkErrors(response.items);
+    return {
+        succeeded: ids.length - errors.length,
+        failed: errors.length,
+        errors,
+        took: response.took
+    };
+};
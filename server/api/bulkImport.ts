@@ -0,0 +1,96 @@
+import { Client } from '@elastic/elasticsearch';
+
+// Documents accepted per request; the client splits larger files into batches
+export const MAX_BULK_IMPORT_DOCUMENTS = 5000;
+
+export interface BulkImportDocument {
+    id?: string;
+    source: Record<string, unknown>;
+}
+
+export interface BulkImportOptions {
+    opType: 'index' | 'create';
+    refresh: boolean;
+}
+
+export interface BulkImportItemError {
+    position: number;
+    id: string | null;
+    status: number;
+    type: string | null;
+    reason: string;
+}
+
+export interface BulkImportResult {
+    indexed: number;
+    failed: number;
+    errors: BulkImportItemError[];
+    took: number;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Check the documents of an import batch.
+ * Returns the error code, or null when the batch can be sent.
+ */
+export const validateBulkImportDocuments = (documents: unknown): string | null => {
+    if (!Array.isArray(documents) || documents.length === 0) return 'BULK_IMPORT_EMPTY';
+    if (documents.length > MAX_BULK_IMPORT_DOCUMENTS) return 'BULK_IMPORT_TOO_LARGE';
+
+    const valid = documents.every(document =>
+        isPlainObject(document) &&
+        isPlainObject(document.source) &&
+        (document.id === undefined || (typeof document.id === 'string' && document.id !== ''))
+    );
+    return valid ? null : 'BULK_IMPORT_INVALID';
+};
+
+// Failed items of a _bulk response with their position in the request
+export const collectBulkErrors = (items: Record<string, any>[]): BulkImportItemError[] => {
+    const errors: BulkImportItemError[] = [];
+    items.forEach((item, position) => {
+        const result = Object.values(item)[0];
+        if (!result?.error) return;
+        errors.push({
+            position,
+            id: result._id ?? null,
+            status: result.status,
+            type: result.error.type ?? null,
+            reason: result.error.reason ?? result.error.type ?? 'unknown'
+        });
+    });
+    return errors;
+};
+
+/**
+ * Send a batch to _bulk. The request only fails as a whole when Elasticsearch
+ * rejects it; failures of single documents are returned with their position.
+ */
+export const runBulkImport = async (
+    client: Client,
+    index: string,
+    documents: BulkImportDocument[],
+    options: BulkImportOptions
+): Promise<BulkImportResult> => {
+    const operations: any[] = [];
+    for (const document of documents) {
+        const action = document.id !== undefined ? { _index: index, _id: document.id } : { _index: index };
+        operations.push({ [options.opType]: action });
+        operations.push(document.source);
+    }
+
+    const response = await client.bulk({
+        body: operations,
+        refresh: options.refresh ? 'wait_for' : false
+    });
+
+    const errors = collectBulkErrors(response.items);
+    return {
+        indexed: documents.length - errors.length,
+        failed: errors.length,
+        errors,
+        took: response.took
+    };
+};
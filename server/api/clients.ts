@@ -0,0 +1,168 @@
+import { Client } from '@elastic/elasticsearch';
+import { getConnectionById } from '../database';
+import { AuthSettings, buildAuthClientOptions, getConnectionAuthSettings } from './connectionAuth';
+import { TlsSettings, buildTlsClientOptions, getConnectionTlsSettings } from './tls';
+
+// ==================== TYPES ====================
+
+interface CachedClient {
+    client: Client;
+    createdAt: number;
+    lastUsedAt: number;
+    lastHealthCheckAt: number;
+}
+
+export interface CachedClientInfo {
+    createdAt: string;
+    lastUsedAt: string;
+    lastHealthCheckAt: string;
+    idleMs: number;
+    expiresInMs: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+// Cached clients unused for this long are closed (default: 30 minutes)
+const CLIENT_IDLE_TTL_MS =
+    parseInt(process.env.ES_CLIENT_IDLE_TTL_MINUTES || '30', 10) * 60 * 1000;
+// A cached client is pinged before reuse once its last check is older than this (default: 60 seconds)
+const CLIENT_HEALTH_CHECK_INTERVAL_MS =
+    parseInt(process.env.ES_CLIENT_HEALTH_CHECK_SECONDS || '60', 10) * 1000;
+const CLIENT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// ==================== FACTORY ====================
+
+/**
+ * Build an Elasticsearch client from endpoint, credential and TLS settings.
+ * Every client the server creates goes through here so options stay consistent.
+ */
+export const createEsClient = (auth: AuthSettings, tls: TlsSettings): Client =>
+    new Client({
+        ...buildAuthClientOptions(auth),
+        ...buildTlsClientOptions(tls)
+    });
+
+const closeClient = (client: Client) => {
+    client.close().catch(() => {
+        // Client may already be closed, ignore
+    });
+};
+
+// ==================== CACHE ====================
+
+// Clients for saved connections used outside the caller's session (e.g. copy targets)
+const clientsCache: Map<number, CachedClient> = new Map();
+// Clients being created, so concurrent cache misses share one instead of each creating their own
+const pendingClients: Map<number, Promise<Client | null>> = new Map();
+let lastSweepAt = Date.now();
+
+const sweepIdleClients = (now: number) => {
+    if (now - lastSweepAt < CLIENT_SWEEP_INTERVAL_MS) return;
+    lastSweepAt = now;
+
+    for (const [connectionId, cached] of clientsCache) {
+        if (now - cached.lastUsedAt > CLIENT_IDLE_TTL_MS) {
+            evictConnectionClient(connectionId);
+        }
+    }
+};
+
+// Close and forget the cached client of a connection, e.g. after it was edited or deleted
+export const evictConnectionClient = (connectionId: number) => {
+    pendingClients.delete(connectionId);
+    const cached = clientsCache.get(connectionId);
+    if (!cached) return;
+    clientsCache.delete(connectionId);
+    closeClient(cached.client);
+};
+
+// Reuse the cached client while it is fresh; ping it when the last check is stale
+const reuseCachedClient = async (connectionId: number, now: number): Promise<Client | null> => {
+    const cached = clientsCache.get(connectionId);
+    if (!cached) return null;
+
+    if (now - cached.lastUsedAt > CLIENT_IDLE_TTL_MS) {
+        evictConnectionClient(connectionId);
+        return null;
+    }
+
+    if (now - cached.lastHealthCheckAt > CLIENT_HEALTH_CHECK_INTERVAL_MS) {
+        try {
+            await cached.client.ping();
+            cached.lastHealthCheckAt = now;
+        } catch (error) {
+            console.warn(`Cached client for connection ${connectionId} failed its health check, reconnecting`);
+            evictConnectionClient(connectionId);
+            return null;
+        }
+    }
+
+    cached.lastUsedAt = now;
+    return cached.client;
+};
+
+// New client for a saved connection, once it answered a ping
+const createConnectionClient = async (connectionId: number): Promise<Client | null> => {
+    const conn = await getConnectionById(connectionId);
+    if (!conn) return null;
+
+    let client: Client | null = null;
+    try {
+        client = createEsClient(getConnectionAuthSettings(conn), getConnectionTlsSettings(conn));
+        await client.ping();
+    } catch (error) {
+        console.error(`Connection ${connectionId} failed:`, error);
+        if (client) closeClient(client);
+        return null;
+    }
+    return client;
+};
+
+/**
+ * Get a working client for a saved connection, creating and caching one when
+ * needed. Returns `null` when the connection does not exist or is unreachable.
+ */
+export const getClientForConnection = async (connectionId: number): Promise<Client | null> => {
+    const now = Date.now();
+    sweepIdleClients(now);
+
+    const reused = await reuseCachedClient(connectionId, now);
+    if (reused) return reused;
+
+    const inFlight = pendingClients.get(connectionId);
+    if (inFlight) return inFlight;
+
+    const pending = createConnectionClient(connectionId).then(client => {
+        // Evicted meanwhile, e.g. the connection was edited: drop the client built from the old settings
+        if (pendingClients.get(connectionId) !== pending) {
+            if (client) closeClient(client);
+            return null;
+        }
+        pendingClients.delete(connectionId);
+        if (client) {
+            const createdAt = Date.now();
+            clientsCache.set(connectionId, { client, createdAt, lastUsedAt: createdAt, lastHealthCheckAt: createdAt });
+        }
+        return client;
+    }, error => {
+        if (pendingClients.get(connectionId) === pending) pendingClients.delete(connectionId);
+        throw error;
+    });
+    pendingClients.set(connectionId, pending);
+    return pending;
+};
+
+// Diagnostics for the cached client of a connection, or `null` when none is cached
+export const getCachedClientInfo = (connectionId: number): CachedClientInfo | null => {
+    const cached = clientsCache.get(connectionId);
+    if (!cached) return null;
+
+    const now = Date.now();
+    return {
+        createdAt: new Date(cached.createdAt).toISOString(),
+        lastUsedAt: new Date(cached.lastUsedAt).toISOString(),
+        lastHealthCheckAt: new Date(cached.lastHealthCheckAt).toISOString(),
+        idleMs: now - cached.lastUsedAt,
+        expiresInMs: Math.max(0, CLIENT_IDLE_TTL_MS - (now - cached.lastUsedAt))
+    };
+};
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SavedConnection } from '../database';
+import { validateAuthInput } from './connectionAuth';
+
+const basic = { auth_type: 'basic', auth_token: null } as SavedConnection;
+const withToken = { auth_type: 'apiKey', auth_token: 'encrypted-token' } as SavedConnection;
+
+describe('validateAuthInput', () => {
+    it('requires a token for token auth on create', () => {
+        assert.equal(validateAuthInput({ auth_type: 'apiKey' }).error, 'AUTH_TOKEN_REQUIRED');
+        assert.equal(validateAuthInput({ auth_type: 'bearer', auth_token: 'abc' }).valid, true);
+    });
+
+    it('requires a token when an update switches to token auth without a stored one', () => {
+        assert.equal(validateAuthInput({ auth_type: 'apiKey' }, basic).error, 'AUTH_TOKEN_REQUIRED');
+        assert.equal(validateAuthInput({ auth_type: 'apiKey', auth_token: 'abc' }, basic).valid, true);
+    });
+
+    it('keeps the stored token when an update omits it', () => {
+        assert.equal(validateAuthInput({ name: 'renamed' }, withToken).valid, true);
+        assert.equal(validateAuthInput({ auth_type: 'bearer' }, withToken).valid, true);
+        assert.equal(validateAuthInput({ auth_token: '' }, withToken).error, 'AUTH_TOKEN_REQUIRED');
+    });
+});
@@ -0,0 +1,108 @@
+import { ClientOptions } from '@elastic/elasticsearch';
+import { ConnectionAuthType, SavedConnection, decryptPassword } from '../database';
+
+// ==================== TYPES ====================
+
+export const AUTH_TYPES: ConnectionAuthType[] = ['basic', 'apiKey', 'bearer', 'none'];
+
+export interface AuthSettings {
+    url: string | null;
+    cloudId: string | null;
+    authType: ConnectionAuthType;
+    username: string | null;
+    password: string | null;
+    token: string | null;
+}
+
+export const isAuthType = (value: unknown): value is ConnectionAuthType =>
+    typeof value === 'string' && (AUTH_TYPES as string[]).includes(value);
+
+// ==================== VALIDATION ====================
+
+// A Cloud ID is `<deployment-name>:<base64 of host$es-uuid$kibana-uuid>`
+export const isValidCloudId = (cloudId: string): boolean => {
+    const separator = cloudId.indexOf(':');
+    if (separator <= 0) return false;
+    const decoded = Buffer.from(cloudId.slice(separator + 1), 'base64').toString('utf8');
+    const [host, esId] = decoded.split('$');
+    return !!host && !!esId;
+};
+
+/**
+ * Validate the auth and endpoint fields of a connection payload. On update,
+ * `existing` is the saved connection: an omitted auth type or token keeps the
+ * stored one, so the token check applies to the resulting connection.
+ */
+export const validateAuthInput = (input: any, existing?: SavedConnection): { valid: boolean; error?: string } => {
+    if (input.auth_type !== undefined && !isAuthType(input.auth_type)) {
+        return { valid: false, error: 'AUTH_TYPE_INVALID' };
+    }
+
+    if (input.cloud_id && (typeof input.cloud_id !== 'string' || !isValidCloudId(input.cloud_id.trim()))) {
+        return { valid: false, error: 'CLOUD_ID_INVALID' };
+    }
+
+    const authType = input.auth_type ?? existing?.auth_type;
+    const token = input.auth_token !== undefined ? input.auth_token : existing?.auth_token;
+    if ((authType === 'apiKey' || authType === 'bearer') && (!token || typeof token !== 'string')) {
+        return { valid: false, error: 'AUTH_TOKEN_REQUIRED' };
+    }
+
+    return { valid: true };
+};
+
+// ==================== CLIENT OPTIONS ====================
+
+// Read the endpoint and credentials of a saved connection, decrypting stored secrets
+export const getConnectionAuthSettings = (conn: SavedConnection): AuthSettings => ({
+    url: conn.url || null,
+    cloudId: conn.cloud_id,
+    authType: conn.auth_type,
+    username: conn.username,
+    password: conn.password ? decryptPassword(conn.password) : null,
+    token: conn.auth_token ? decryptPassword(conn.auth_token) : null
+});
+
+// Endpoint and credentials of an ad-hoc /connect request; defaults to basic auth like saved connections
+export const parseAuthSettings = (body: any): AuthSettings => ({
+    url: body.url || null,
+    cloudId: body.cloud_id || null,
+    authType: isAuthType(body.auth_type) ? body.auth_type : 'basic',
+    username: body.username || null,
+    password: body.password || null,
+    token: body.auth_token || null
+});
+
+// Human-readable endpoint for the session status and logs
+export const describeEndpoint = (settings: AuthSettings): string => {
+    if (settings.cloudId) {
+        return `${settings.cloudId.split(':')[0]} (Elastic Cloud)`;
+    }
+    return settings.url || '';
+};
+
+/**
+ * Translate auth settings into Elasticsearch client options. A Cloud ID takes
+ * precedence over the URL, matching how the client itself resolves them.
+ */
+export const buildAuthClientOptions = (settings: AuthSettings): Pick<ClientOptions, 'node' | 'cloud' | 'auth'> => {
+    const endpoint = settings.cloudId
+        ? { cloud: { id: settings.cloudId.trim() } }
+        : { node: settings.url ?? undefined };
+
+    switch (settings.authType) {
+        case 'apiKey':
+            return { ...endpoint, ...(settings.token && { auth: { apiKey: settings.token } }) };
+        case 'bearer':
+            return { ...endpoint, ...(settings.token && { auth: { bearer: settings.token } }) };
+        case 'none':
+            return endpoint;
+        default:
+            return {
+                ...endpoint,
+                ...(settings.username && settings.password && {
+                    auth: { username: settings.username, password: settings.password }
+                })
+            };
+    }
+};
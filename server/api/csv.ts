@@ -0,0 +1,10 @@
+// ==================== CSV ====================
+
+// One CSV cell, quoted when it holds commas, quotes or line breaks
+export const escapeCsv = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    // Keep spreadsheet apps from evaluating user-controlled values as formulas
+    if (/^[=+\-@]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -1,5 +1,4 @@
 import 'dotenv/config';
-import { Client } from '@elastic/elasticsearch';
 import { NextRequest, NextResponse } from 'next/server';
 import {
     initializeDatabase,
@@ -13,56 +12,130 @@ import {
     createQuery,
     updateQuery,
     deleteQuery,
+    markQueryUsed,
     getAllSearchQueries,
+    getSearchQueryById,
     createSearchQuery,
+    updateSearchQuery,
     deleteSearchQuery,
-    decryptPassword
+    markSearchQueryUsed,
+    getAllUsers,
+    getUserById,
+    getUserByUsername,
+    createUser,
+    updateUser,
+    recordUserLogin,
+    deleteUser,
+    getConnectionPermissionsForUser,
+    setConnectionPermission,
+    deleteConnectionPermission,
+    getAuditLogs,
+    getRequestPolicyRules,
+    replaceRequestPolicyRules,
+    getMigrationStatus,
+    getRestHistory,
+    getRestHistoryEntry,
+    deleteRestHistoryEntry,
+    clearRestHistory,
+    ConnectionRole,
+    SavedConnection,
+    CreateConnectionInput,
+    decryptPassword,
+    verifyPasswordHash,
+    DecryptionError
 } from '../database';
-
-const DANGEROUS_PATHS = [
-    '/_all',
-    '/_cluster/settings',
-    '/_security',
-    '/_snapshot',
-    '/_slm',
-    '/_ilm',
-    '/_license',
-    '/_xpack/security',
-    '/_nodes/shutdown',
-    '/_shutdown',
-];
-
-const DANGEROUS_PATH_PATTERNS = [
-    /^\/_all\//,
-    /^\/_template$/,
-    /^\/_index_template$/,
-];
-
-const isDangerousRequest = (method: string, requestPath: string): boolean => {
-    const normalizedPath = requestPath.toLowerCase();
-    const normalizedMethod = method.toUpperCase();
-
-    if (DANGEROUS_PATHS.includes(normalizedPath)) {
-        return true;
-    }
-
-    for (const pattern of DANGEROUS_PATH_PATTERNS) {
-        if (pattern.test(normalizedPath)) {
-            return true;
-        }
-    }
-
-    if (normalizedMethod === 'DELETE') {
-        if (normalizedPath === '/' || normalizedPath === '/_all' || normalizedPath.startsWith('/_all/')) {
-            return true;
-        }
-        if (normalizedPath === '/*' || normalizedPath === '/_all') {
-            return true;
-        }
-    }
-
-    return false;
-};
+import {
+    ApiSession,
+    SESSION_COOKIE_NAME,
+    resolveSession,
+    persistSession,
+    applySessionCookie,
+    clearSessionCookie,
+    startAuthenticatedSession,
+    destroySession,
+    destroyUserSessions,
+    updateUserSessions,
+    setSessionConnection,
+    clearSessionConnection,
+    clearUserConnectionSessions,
+    clearConnectionSessions,
+    getConnectionSessions
+} from './session';
+import {
+    AUTH_ENABLED,
+    authenticateUser,
+    ensureInitialAdmin,
+    isPublicRoute,
+    toPublicUser,
+    toSessionUser,
+    validateUserInput
+} from './auth';
+import {
+    getConnectionAccessError,
+    getRestRequestRole,
+    getUserConnectionRole,
+    hasRole,
+    isConnectionRole
+} from './permissions';
+import { getConnectionTlsSettings, parseTlsSettings, validateTlsInput } from './tls';
+import { describeEndpoint, getConnectionAuthSettings, parseAuthSettings, validateAuthInput } from './connectionAuth';
+import { createEsClient, evictConnectionClient, getCachedClientInfo, getClientForConnection } from './clients';
+import {
+    MAX_AUDIT_EXPORT_ROWS,
+    auditLogsToCsv,
+    isAuditedRoute,
+    parseAuditFilter,
+    recordAudit
+} from './audit';
+import {
+    DEFAULT_REQUEST_POLICY,
+    consumeConfirmation,
+    evaluateRequestPolicy,
+    issueConfirmation,
+    validateRequestPolicyRules
+} from './requestPolicy';
+import {
+    normalizeQueryName,
+    validateSavedQueryMetadata,
+    exportSavedQueries,
+    importSavedQueries,
+    validateSavedQueriesImport,
+    QUERY_IMPORT_STRATEGIES,
+    QueryImportStrategy,
+} from './savedQueries';
+import {
+    MAX_REST_HISTORY_PAGE_SIZE,
+    getRestHistoryScope,
+    getRestHistorySettings,
+    recordRestHistory
+} from './restHistory';
+import { createSearchExport, getSearchExportFileName, isSearchExportFormat } from './searchExport';
+import { searchPage, closeSearchPit } from './searchPaging';
+import { buildAggregations } from './aggregations';
+import {
+    createSnapshot,
+    deleteSnapshot,
+    getSnapshotProgress,
+    listRepositories,
+    listSnapshots,
+    restoreSnapshot,
+    validateRename,
+    validateSnapshotIndices,
+    validateSnapshotName
+} from './snapshots';
+import {
+    attachPolicy,
+    deletePolicy,
+    detachPolicy,
+    explainIndex,
+    listPolicies,
+    putPolicy,
+    retryIndex,
+    validatePolicy,
+    validatePolicyName
+} from './ilm';
+import { runBulkImport, validateBulkImportDocuments } from './bulkImport';
+import { MAX_BULK_ACTION_DOCUMENTS, isBulkAction, resolveMatchingIds, runBulkAction } from './bulkActions';
 
 const validateIndexName = (indexName: string): { valid: boolean; error?: string } => {
     if (!indexName || typeof indexName !== 'string') {
@@ -108,7 +181,37 @@ const validateAliasName = (aliasName: string): { valid: boolean; error?: string
     return { valid: true };
 };
 
-const validateConnectionInput = (input: any): { valid: boolean; error?: string } => {
+const MASKED_SECRET = '••••••••';
+
+// Mask stored secrets before a connection record leaves the server
+const toSafeConnection = (connection: SavedConnection) => ({
+    ...connection,
+    password: connection.password ? MASKED_SECRET : null,
+    auth_token: connection.auth_token ? MASKED_SECRET : null,
+    tls_ca: connection.tls_ca ? MASKED_SECRET : null,
+    tls_cert: connection.tls_cert ? MASKED_SECRET : null,
+    tls_key: connection.tls_key ? MASKED_SECRET : null
+});
+
+const pickConnectionInput = (body: any): Partial<CreateConnectionInput> => {
+    const {
+        name, url, cloud_id, auth_type, username, password, auth_token, color,
+        tls_verify, tls_ca, tls_cert, tls_key, tls_ca_fingerprint, read_only
+    } = body;
+    return {
+        name, url, cloud_id, auth_type, username, password, auth_token, color,
+        tls_verify, tls_ca, tls_cert, tls_key, tls_ca_fingerprint, read_only
+    };
+};
+
+const validateReadOnlyInput = (input: any): { valid: boolean; error?: string } => {
+    if (input.read_only !== undefined && typeof input.read_only !== 'boolean') {
+        return { valid: false, error: 'READ_ONLY_INVALID' };
+    }
+    return { valid: true };
+};
+
+const validateConnectionInput = (input: any, existing?: SavedConnection): { valid: boolean; error?: string } => {
     if (!input.name || typeof input.name !== 'string' || input.name.trim().length === 0) {
         return { valid: false, error: 'NAME_REQUIRED' };
     }
@@ -117,34 +220,59 @@ const validateConnectionInput = (input: any): { valid: boolean; error?: string }
         return { valid: false, error: 'NAME_TOO_LONG' };
     }
 
-    if (!input.url || typeof input.url !== 'string') {
-        return { valid: false, error: 'URL_REQUIRED' };
-    }
+    // Elastic Cloud connections are addressed by their Cloud ID instead of a URL
+    if (!input.cloud_id) {
+        if (!input.url || typeof input.url !== 'string') {
+            return { valid: false, error: 'URL_REQUIRED' };
+        }
 
-    try {
-        new URL(input.url);
-    } catch {
-        return { valid: false, error: 'URL_INVALID' };
+        try {
+            new URL(input.url);
+        } catch {
+            return { valid: false, error: 'URL_INVALID' };
+        }
     }
 
-    return { valid: true };
+    const authValidation = validateAuthInput(input, existing);
+    if (!authValidation.valid) return authValidation;
+
+    const readOnlyValidation = validateReadOnlyInput(input);
+    if (!readOnlyValidation.valid) return readOnlyValidation;
+
+    return validateTlsInput(input, existing);
 };
 
-let databaseInit: Promise<unknown> | null = null;
-let esClient: Client | null = null;
-let connectionInfo: { id: number | null; url: string; connected: boolean; name: string; color: string } = {
-    id: null,
-    url: '',
-    connected: false,
-    name: '',
-    color: ''
+const ENDPOINT_FIELDS = [
+    'url', 'cloud_id', 'auth_type', 'username', 'password', 'auth_token',
+    'tls_verify', 'tls_ca', 'tls_cert', 'tls_key', 'tls_ca_fingerprint'
+] as const;
+
+// Whether an update changes where or how the server connects. The edit form sends
+// every field back, so values are compared with the decrypted stored ones.
+const changesConnectionEndpoint = (body: any, existing: SavedConnection): boolean => {
+    const auth = getConnectionAuthSettings(existing);
+    const tls = getConnectionTlsSettings(existing);
+    const stored: Record<typeof ENDPOINT_FIELDS[number], unknown> = {
+        url: existing.url,
+        cloud_id: existing.cloud_id,
+        auth_type: existing.auth_type,
+        username: existing.username,
+        password: auth.password,
+        auth_token: auth.token,
+        tls_verify: existing.tls_verify,
+        tls_ca: tls.ca,
+        tls_cert: tls.cert,
+        tls_key: tls.key,
+        tls_ca_fingerprint: existing.tls_ca_fingerprint
+    };
+    return ENDPOINT_FIELDS.some(field => body[field] !== undefined && (body[field] || null) !== (stored[field] || null));
 };
 
-const esClientsCache: Map<number, Client> = new Map();
+let databaseInit: Promise<unknown> | null = null;
 
 const ensureDatabase = async () => {
     if (!databaseInit) {
-        databaseInit = initializeDatabase();
+        databaseInit = initializeDatabase().then(() => ensureInitialAdmin());
     }
     await databaseInit;
 };
@@ -163,13 +291,114 @@ const readJson = async <T = any>(request: NextRequest): Promise<T> => {
     }
 };
 
-const requireConnection = (): NextResponse | null => {
-    if (!esClient) {
+const requireConnection = (session: ApiSession): NextResponse | null => {
+    if (!session.esClient) {
         return json({ errorCode: 'NO_ES_CONNECTION' }, 400);
     }
     return null;
 };
 
+const requireAdmin = (session: ApiSession): NextResponse | null => {
+    if (AUTH_ENABLED && !session.user?.is_admin) {
+        return json({ errorCode: 'ADMIN_REQUIRED' }, 403);
+    }
+    return null;
+};
+
+const insufficientRole = (required: ConnectionRole) =>
+    json({ errorCode: 'INSUFFICIENT_ROLE', details: required }, 403);
+
+const connectionReadOnly = () => json({ errorCode: 'CONNECTION_READ_ONLY' }, 403);
+
+/**
+ * Guard for routes acting on the session's active connection. The role is
+ * re-resolved for saved connections so grant changes apply without reconnecting.
+ * Every route that needs more than viewer writes to the cluster, so those are
+ * also refused on read-only connections.
+ */
+const requireConnectionRole = async (session: ApiSession, required: ConnectionRole): Promise<NextResponse | null> => {
+    const blocked = requireConnection(session);
+    if (blocked) return blocked;
+
+    const { id } = session.connectionInfo;
+    const role = id !== null ? await getUserConnectionRole(session.user, id) : session.connectionInfo.role;
+    session.connectionInfo.role = role;
+
+    const accessError = getConnectionAccessError(role, required, session.connectionInfo.readOnly);
+    if (accessError === 'INSUFFICIENT_ROLE') return insufficientRole(required);
+    return accessError === 'CONNECTION_READ_ONLY' ? connectionReadOnly() : null;
+};
+
+// Guard for routes that address a saved connection by id rather than the active one
+const requireSavedConnectionRole = async (
+    session: ApiSession,
+    connectionId: number,
+    required: ConnectionRole
+): Promise<NextResponse | null> => {
+    const role = await getUserConnectionRole(session.user, connectionId);
+    return hasRole(role, required) ? null : insufficientRole(required);
+};
+
+// Guard for writes to a saved connection other than the active one, e.g. copy targets
+const requireWritableSavedConnection = async (
+    session: ApiSession,
+    connectionId: number
+): Promise<NextResponse | null> => {
+    const forbidden = await requireSavedConnectionRole(session, connectionId, 'editor');
+    if (forbidden) return forbidden;
+
+    const connection = await getConnectionById(connectionId);
+    return connection?.read_only ? connectionReadOnly() : null;
+};
+
+// Saved connections the user may see, with their role on each
+const getVisibleConnections = async (
+    session: ApiSession
+): Promise<{ connection: SavedConnection; role: ConnectionRole }[]> => {
+    const connections = await getAllConnections();
+    if (!AUTH_ENABLED || session.user?.is_admin) {
+        return connections.map(connection => ({ connection, role: 'admin' as ConnectionRole }));
+    }
+
+    const grants = new Map<number, ConnectionRole>();
+    if (session.user) {
+        for (const permission of await getConnectionPermissionsForUser(session.user.id)) {
+            grants.set(permission.connection_id, permission.role);
+        }
+    }
+    return connections
+        .filter(c => grants.has(c.id))
+        .map(connection => ({ connection, role: grants.get(connection.id)! }));
+};
+
+// Guard for scoping a saved query to a connection: it must exist and be visible to the user
+const requireQueryConnectionAccess = async (
+    session: ApiSession,
+    connectionId: number | null | undefined
+): Promise<NextResponse | null> => {
+    if (connectionId === undefined || connectionId === null) return null;
+    if (!await getConnectionById(connectionId)) {
+        return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
+    }
+    return requireSavedConnectionRole(session, connectionId, 'viewer');
+};
+
+// Saved queries scoped to a connection the user cannot see count as missing
+const isQueryVisible = async (
+    session: ApiSession,
+    query: { connection_id: number | null } | undefined
+): Promise<boolean> =>
+    !!query && !await requireQueryConnectionAccess(session, query.connection_id);
+
+// REST history entry of the session's user and connection; others' entries count as missing
+const findRestHistoryEntry = async (session: ApiSession, id: number) => {
+    const scope = getRestHistoryScope(session);
+    const entry = await getRestHistoryEntry(id);
+    return entry && entry.user_id === scope.user_id && entry.connection_id === scope.connection_id
+        ? entry
+        : undefined;
+};
+
 const cleanIndexSettings = (settings: Record<string, any>) => {
     const cleanSettings = { ...settings };
     delete cleanSettings.uuid;
@@ -181,52 +410,322 @@ const cleanIndexSettings = (settings: Record<string, any>) => {
     return cleanSettings;
 };
 
-const getClientForConnection = async (connectionId: number): Promise<Client | null> => {
-    if (esClientsCache.has(connectionId)) {
-        return esClientsCache.get(connectionId)!;
-    }
-
-    const conn = await getConnectionById(connectionId);
-    if (!conn) return null;
+export const handleApiRequest = async (request: NextRequest, segments: string[]) => {
+    await ensureDatabase();
 
-    try {
-        const decryptedPassword = conn.password ? decryptPassword(conn.password) : null;
+    const { session, isNew } = resolveSession(request);
+    const method = request.method.toUpperCase() === 'HEAD' ? 'GET' : request.method.toUpperCase();
 
-        const client = new Client({
-            node: conn.url,
-            ...(conn.username && decryptedPassword && {
-                auth: { username: conn.username, password: decryptedPassword }
-            }),
-            tls: {
-                rejectUnauthorized: false
-            }
-        });
+    let response: NextResponse;
+    if (AUTH_ENABLED && !session.user && !isPublicRoute(method, segments)) {
+        response = json({ errorCode: 'AUTH_REQUIRED' }, 401);
+    } else {
+        // The route consumes the body, so keep a copy for the audit record
+        const auditBody = isAuditedRoute(method, segments) ? await request.clone().text() : null;
+        response = await routeRequest(request, segments, session);
+        if (auditBody !== null) {
+            await recordAudit(session, method, segments, auditBody, response);
+        }
+    }
 
-        await client.ping();
-        esClientsCache.set(connectionId, client);
-        return client;
-    } catch (error) {
-        console.error(`Connection ${connectionId} failed:`, error);
-        return null;
+    // Login and logout set (or clear) the cookie themselves; any other new session
+    // is only kept once the request left something in it, such as a connection
+    if (isNew && !response.cookies.get(SESSION_COOKIE_NAME) && (session.user || session.esClient)) {
+        persistSession(session);
+        applySessionCookie(request, response, session);
     }
+    return response;
 };
 
-export const handleApiRequest = async (request: NextRequest, segments: string[]) => {
-    await ensureDatabase();
-
+const routeRequest = async (request: NextRequest, segments: string[], session: ApiSession): Promise<NextResponse> => {
     const requestMethod = request.method.toUpperCase();
     const method = requestMethod === 'HEAD' ? 'GET' : requestMethod;
     const [first, second, third, fourth] = segments;
 
+    if (method === 'GET' && first === 'auth' && second === 'me' && segments.length === 2) {
+        return json({ authEnabled: AUTH_ENABLED, user: session.user });
+    }
+
+    if (method === 'POST' && first === 'auth' && second === 'login' && segments.length === 2) {
+        if (!AUTH_ENABLED) {
+            return json({ errorCode: 'AUTH_DISABLED' }, 400);
+        }
+
+        const body = await readJson(request);
+        const { username, password } = body;
+        if (!username || !password || typeof username !== 'string' || typeof password !== 'string') {
+            return json({ errorCode: 'USERNAME_PASSWORD_REQUIRED' }, 400);
+        }
+
+        try {
+            const user = await authenticateUser(username.trim(), password);
+            if (!user) {
+                return json({ errorCode: 'INVALID_CREDENTIALS' }, 401);
+            }
+
+            await recordUserLogin(user.id);
+            const authenticated = startAuthenticatedSession(session, toSessionUser(user));
+            const response = json({ success: true, user: authenticated.user });
+            applySessionCookie(request, response, authenticated);
+            return response;
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'POST' && first === 'auth' && second === 'logout' && segments.length === 2) {
+        destroySession(session);
+        const response = json({ success: true });
+        clearSessionCookie(response);
+        return response;
+    }
+
+    if (method === 'POST' && first === 'auth' && second === 'password' && segments.length === 2) {
+        if (!session.user) {
+            return json({ errorCode: 'AUTH_REQUIRED' }, 401);
+        }
+
+        const body = await readJson(request);
+        const { currentPassword, newPassword } = body;
+
+        try {
+            const user = await getUserById(session.user.id);
+            if (!user || !currentPassword || !verifyPasswordHash(currentPassword, user.password_hash)) {
+                return json({ errorCode: 'INVALID_CREDENTIALS' }, 400);
+            }
+
+            const validation = validateUserInput({ password: newPassword }, false);
+            if (!validation.valid || !newPassword) {
+                return json({ errorCode: validation.error || 'PASSWORD_REQUIRED' }, 400);
+            }
+
+            await updateUser(user.id, { password: newPassword });
+            destroyUserSessions(user.id, session.id);
+            return json({ success: true, messageCode: 'PASSWORD_CHANGED' });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'users' && segments.length === 1) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const users = await getAllUsers();
+            return json(users.map(toPublicUser));
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'POST' && first === 'users' && segments.length === 1) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const body = await readJson(request);
+            const { username, password, is_admin } = body;
+            const validation = validateUserInput(body, true);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+
+            if (await getUserByUsername(username.trim())) {
+                return json({ errorCode: 'USERNAME_TAKEN' }, 409);
+            }
+
+            const user = await createUser({ username: username.trim(), password, is_admin: !!is_admin });
+            return json(toPublicUser(user), 201);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'PUT' && first === 'users' && second && segments.length === 2) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const userId = parseInt(second);
+            const body = await readJson(request);
+            const { username, password, is_admin } = body;
+            const validation = validateUserInput({ username, password: password || undefined }, false);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+
+            if (userId === session.user!.id && is_admin === false) {
+                return json({ errorCode: 'CANNOT_DEMOTE_SELF' }, 400);
+            }
+
+            if (username) {
+                const sameName = await getUserByUsername(username.trim());
+                if (sameName && sameName.id !== userId) {
+                    return json({ errorCode: 'USERNAME_TAKEN' }, 409);
+                }
+            }
+
+            const user = await updateUser(userId, {
+                username: username ? username.trim() : undefined,
+                password: password || undefined,
+                is_admin: typeof is_admin === 'boolean' ? is_admin : undefined
+            });
+            if (!user) {
+                return json({ errorCode: 'USER_NOT_FOUND' }, 404);
+            }
+
+            if (password) {
+                destroyUserSessions(user.id, session.id);
+            } else {
+                updateUserSessions(toSessionUser(user));
+            }
+            return json(toPublicUser(user));
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'DELETE' && first === 'users' && second && segments.length === 2) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const userId = parseInt(second);
+            if (userId === session.user!.id) {
+                return json({ errorCode: 'CANNOT_DELETE_SELF' }, 400);
+            }
+
+            const success = await deleteUser(userId);
+            if (!success) {
+                return json({ errorCode: 'USER_NOT_FOUND' }, 404);
+            }
+            destroyUserSessions(userId);
+            return json({ success: true });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'users' && second && third === 'permissions' && segments.length === 3) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const user = await getUserById(parseInt(second));
+            if (!user) {
+                return json({ errorCode: 'USER_NOT_FOUND' }, 404);
+            }
+            return json(await getConnectionPermissionsForUser(user.id));
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'PUT' && first === 'users' && second && third === 'permissions' && fourth && segments.length === 4) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const { role } = await readJson(request);
+            if (!isConnectionRole(role)) {
+                return json({ errorCode: 'INVALID_ROLE' }, 400);
+            }
+
+            const user = await getUserById(parseInt(second));
+            if (!user) {
+                return json({ errorCode: 'USER_NOT_FOUND' }, 404);
+            }
+            const connection = await getConnectionById(parseInt(fourth));
+            if (!connection) {
+                return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
+            }
+
+            return json(await setConnectionPermission(user.id, connection.id, role));
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'DELETE' && first === 'users' && second && third === 'permissions' && fourth && segments.length === 4) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const userId = parseInt(second);
+            const connectionId = parseInt(fourth);
+            const success = await deleteConnectionPermission(userId, connectionId);
+            if (!success) {
+                return json({ errorCode: 'PERMISSION_NOT_FOUND' }, 404);
+            }
+            clearUserConnectionSessions(userId, connectionId);
+            return json({ success: true });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'audit' && segments.length === 1) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const params = request.nextUrl.searchParams;
+            const limit = Math.min(Math.max(parseInt(params.get('limit') || '50', 10) || 50, 1), 500);
+            const offset = Math.max(parseInt(params.get('offset') || '0', 10) || 0, 0);
+            const result = await getAuditLogs({ ...parseAuditFilter(params), limit, offset });
+            return json(result);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'audit' && second === 'export' && segments.length === 2) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            const params = request.nextUrl.searchParams;
+            const format = params.get('format') === 'json' ? 'json' : 'csv';
+            const { entries } = await getAuditLogs({ ...parseAuditFilter(params), limit: MAX_AUDIT_EXPORT_ROWS });
+            const fileName = `elasticscope-audit-${new Date().toISOString().split('T')[0]}.${format}`;
+
+            return new NextResponse(
+                format === 'json' ? JSON.stringify(entries, null, 2) : auditLogsToCsv(entries),
+                {
+                    headers: {
+                        'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+                        'Content-Disposition': `attachment; filename="${fileName}"`
+                    }
+                }
+            );
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    // Applied and pending schema migrations of the ElasticScope database
+    if (method === 'GET' && first === 'database' && second === 'migrations' && segments.length === 2) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
+        try {
+            return json(await getMigrationStatus());
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'GET' && first === 'connections' && second === 'export' && segments.length === 2) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
         try {
             const connections = await getAllConnections();
             const exportConnections = connections.map(c => ({
                 name: c.name,
                 url: c.url,
+                cloud_id: c.cloud_id || undefined,
+                auth_type: c.auth_type,
                 username: c.username || undefined,
                 password: c.password ? decryptPassword(c.password) : undefined,
+                auth_token: c.auth_token ? decryptPassword(c.auth_token) : undefined,
                 color: c.color,
+                tls_verify: c.tls_verify,
+                tls_ca: c.tls_ca ? decryptPassword(c.tls_ca) : undefined,
+                tls_cert: c.tls_cert ? decryptPassword(c.tls_cert) : undefined,
+                tls_key: c.tls_key ? decryptPassword(c.tls_key) : undefined,
+                tls_ca_fingerprint: c.tls_ca_fingerprint || undefined,
+                read_only: c.read_only || undefined,
             }));
             return json(exportConnections);
         } catch (error: any) {
@@ -236,138 +735,261 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
 
     if (method === 'GET' && first === 'connections' && segments.length === 1) {
         try {
-            const connections = await getAllConnections();
-            const safeConnections = connections.map(c => ({
-                ...c,
-                password: c.password ? '••••••••' : null
-            }));
-            return json(safeConnections);
+            const connections = await getVisibleConnections(session);
+            return json(connections.map(({ connection, role }) => ({ ...toSafeConnection(connection), role })));
         } catch (error: any) {
             return errorMessage(error);
         }
     }
 
     if (method === 'GET' && first === 'connections' && second && segments.length === 2) {
+        const forbidden = await requireSavedConnectionRole(session, parseInt(second), 'admin');
+        if (forbidden) return forbidden;
         try {
             const connection = await getConnectionById(parseInt(second));
             if (!connection) {
                 return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
             }
-            return json({ ...connection, password: connection.password ? decryptPassword(connection.password) : null });
+            const auth = getConnectionAuthSettings(connection);
+            const tls = getConnectionTlsSettings(connection);
+            return json({
+                ...connection,
+                password: auth.password,
+                auth_token: auth.token,
+                tls_ca: tls.ca,
+                tls_cert: tls.cert,
+                tls_key: tls.key
+            });
         } catch (error: any) {
             return internalError(error);
         }
     }
 
+    // Like ad-hoc connects, saving a connection lets the server reach any URL, so it is for global admins only
     if (method === 'POST' && first === 'connections' && segments.length === 1) {
+        const forbidden = requireAdmin(session);
+        if (forbidden) return forbidden;
         try {
             const body = await readJson(request);
-            const { name, url, username, password, color } = body;
             const validation = validateConnectionInput(body);
             if (!validation.valid) {
                 return json({ errorCode: validation.error }, 400);
             }
 
-            const connection = await createConnection({ name, url, username, password, color });
-            return json({ ...connection, password: connection.password ? '••••••••' : null });
+            const connection = await createConnection(pickConnectionInput(body) as CreateConnectionInput);
+            return json(toSafeConnection(connection));
         } catch (error: any) {
             return internalError(error);
         }
     }
 
     if (method === 'PUT' && first === 'connections' && second && segments.length === 2) {
+        const forbidden = await requireSavedConnectionRole(session, parseInt(second), 'admin');
+        if (forbidden) return forbidden;
         try {
             const body = await readJson(request);
-            const { name, url, username, password, color } = body;
-            const connection = await updateConnection(parseInt(second), {
-                name, url, username, password, color
-            });
+            const connectionId = parseInt(second);
+            const existing = await getConnectionById(connectionId);
+            if (!existing) {
+                return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
+            }
+            // Pointing a connection elsewhere is as powerful as saving a new one
+            if (changesConnectionEndpoint(body, existing)) {
+                const notAdmin = requireAdmin(session);
+                if (notAdmin) return notAdmin;
+            }
+            const validation = validateConnectionInput({
+                ...body,
+                name: body.name ?? existing.name,
+                url: body.url ?? existing.url,
+                cloud_id: body.cloud_id !== undefined ? body.cloud_id : existing.cloud_id
+            }, existing);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+
+            const connection = await updateConnection(connectionId, pickConnectionInput(body));
             if (!connection) {
                 return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
             }
-            return json({ ...connection, password: connection.password ? '••••••••' : null });
+            // Clients built from the old URL, credentials or TLS settings must not be reused
+            evictConnectionClient(connectionId);
+            clearConnectionSessions(connectionId);
+            return json(toSafeConnection(connection));
         } catch (error: any) {
             return internalError(error);
         }
     }
 
     if (method === 'DELETE' && first === 'connections' && second && segments.length === 2) {
+        const forbidden = await requireSavedConnectionRole(session, parseInt(second), 'admin');
+        if (forbidden) return forbidden;
         try {
-            const success = await deleteConnection(parseInt(second));
+            const connectionId = parseInt(second);
+            const success = await deleteConnection(connectionId);
             if (!success) {
                 return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
             }
+            evictConnectionClient(connectionId);
+            clearConnectionSessions(connectionId);
             return json({ success: true });
         } catch (error: any) {
             return internalError(error);
         }
     }
 
+    if (method === 'GET' && first === 'connections' && second && third === 'request-policy' && segments.length === 3) {
+        const connectionId = parseInt(second);
+        const forbidden = await requireSavedConnectionRole(session, connectionId, 'admin');
+        if (forbidden) return forbidden;
+        try {
+            const connection = await getConnectionById(connectionId);
+            if (!connection) {
+                return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
+            }
+            return json({ rules: await getRequestPolicyRules(connectionId), defaults: DEFAULT_REQUEST_POLICY });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'PUT' && first === 'connections' && second && third === 'request-policy' && segments.length === 3) {
+        const connectionId = parseInt(second);
+        const forbidden = await requireSavedConnectionRole(session, connectionId, 'admin');
+        if (forbidden) return forbidden;
+        try {
+            const { rules } = await readJson(request);
+            const validation = validateRequestPolicyRules(rules);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error, details: validation.details }, 400);
+            }
+
+            const connection = await getConnectionById(connectionId);
+            if (!connection) {
+                return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
+            }
+
+            const saved = await replaceRequestPolicyRules(connectionId, validation.rules!);
+            return json({ rules: saved, defaults: DEFAULT_REQUEST_POLICY });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'connections' && second && third === 'clients' && segments.length === 3) {
+        const forbidden = await requireSavedConnectionRole(session, parseInt(second), 'admin');
+        if (forbidden) return forbidden;
+        try {
+            const connectionId = parseInt(second);
+            const connection = await getConnectionById(connectionId);
+            if (!connection) {
+                return json({ errorCode: 'CONNECTION_NOT_FOUND' }, 404);
+            }
+            return json({
+                connectionId,
+                cachedClient: getCachedClientInfo(connectionId),
+                sessions: getConnectionSessions(connectionId)
+            });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'GET' && first === 'status' && segments.length === 1) {
-        return json(connectionInfo);
+        if (session.connectionInfo.id !== null) {
+            session.connectionInfo.role = await getUserConnectionRole(session.user, session.connectionInfo.id);
+        }
+        return json(session.connectionInfo);
     }
 
     if (method === 'POST' && first === 'connect' && segments.length === 1) {
         const body = await readJson(request);
-        const { connectionId, url, username, password } = body;
+        const { connectionId } = body;
 
-        let connUrl = url;
-        let connUsername = username;
-        let connPassword = password;
+        let connAuth = parseAuthSettings(body);
+        let connTls = parseTlsSettings(body);
         let connName = '';
         let connColor = '';
         let connId: number | null = null;
+        let connRole: ConnectionRole | null = 'admin';
+        let connReadOnly = false;
 
         if (connectionId) {
             const savedConn = await getConnectionById(connectionId);
             if (!savedConn) {
                 return json({ errorCode: 'SAVED_CONNECTION_NOT_FOUND' }, 404);
             }
-            connUrl = savedConn.url;
-            connUsername = savedConn.username;
-            connPassword = savedConn.password ? decryptPassword(savedConn.password) : null;
+            connRole = await getUserConnectionRole(session.user, savedConn.id);
+            if (!connRole) {
+                return json({ errorCode: 'CONNECTION_ACCESS_DENIED' }, 403);
+            }
+            try {
+                connAuth = getConnectionAuthSettings(savedConn);
+                connTls = getConnectionTlsSettings(savedConn);
+            } catch (error: any) {
+                if (error instanceof DecryptionError) {
+                    return json({ errorCode: 'SECRET_DECRYPTION_FAILED', details: error.message }, 500);
+                }
+                throw error;
+            }
             connName = savedConn.name;
             connColor = savedConn.color;
             connId = savedConn.id;
+            connReadOnly = savedConn.read_only;
         }
 
-        if (!connUrl) {
+        if (!connAuth.url && !connAuth.cloudId) {
             return json({ errorCode: 'URL_REQUIRED' }, 400);
         }
 
-        try {
-            esClient = new Client({
-                node: connUrl,
-                ...(connUsername && connPassword && {
-                    auth: { username: connUsername, password: connPassword }
-                }),
-                tls: {
-                    rejectUnauthorized: false
-                }
-            });
+        // Ad-hoc URLs bypass per-connection grants, so only admins may use them
+        if (!connId && AUTH_ENABLED && !session.user?.is_admin) {
+            return json({ errorCode: 'ADMIN_REQUIRED' }, 403);
+        }
 
-            await esClient.ping();
+        if (!connId) {
+            const validation = validateAuthInput(body);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+            const tlsValidation = validateTlsInput(body);
+            if (!tlsValidation.valid) {
+                return json({ errorCode: tlsValidation.error }, 400);
+            }
+        }
 
-            connectionInfo = { id: connId, url: connUrl, connected: true, name: connName, color: connColor };
+        try {
+            const client = createEsClient(connAuth, connTls);
+
+            await client.ping();
+
+            const connUrl = describeEndpoint(connAuth);
+            setSessionConnection(session, client, {
+                id: connId,
+                url: connUrl,
+                connected: true,
+                name: connName,
+                color: connColor,
+                role: connRole,
+                readOnly: connReadOnly
+            });
             return json({ success: true, messageCode: 'CONNECTION_SUCCESS' });
         } catch (error: any) {
-            esClient = null;
-            connectionInfo = { id: null, url: '', connected: false, name: '', color: '' };
+            clearSessionConnection(session);
             return json({ errorCode: 'CONNECTION_FAILED', details: error.message }, 500);
         }
     }
 
     if (method === 'POST' && first === 'disconnect' && segments.length === 1) {
-        esClient = null;
-        connectionInfo = { id: null, url: '', connected: false, name: '', color: '' };
+        clearSessionConnection(session);
         return json({ success: true });
     }
 
     if (method === 'GET' && first === 'cluster' && second === 'health' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const health = await esClient!.cluster.health();
+            const health = await session.esClient!.cluster.health();
             return json(health);
         } catch (error: any) {
             return errorMessage(error);
@@ -375,10 +997,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cluster' && second === 'info' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const info = await esClient!.info();
+            const info = await session.esClient!.info();
             return json(info);
         } catch (error: any) {
             return errorMessage(error);
@@ -386,10 +1008,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cluster' && second === 'stats' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const stats = await esClient!.cluster.stats();
+            const stats = await session.esClient!.cluster.stats();
             return json(stats);
         } catch (error: any) {
             return errorMessage(error);
@@ -397,10 +1019,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'nodes' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const nodes = await esClient!.nodes.stats();
+            const nodes = await session.esClient!.nodes.stats();
             return json(nodes);
         } catch (error: any) {
             return errorMessage(error);
@@ -408,10 +1030,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'nodes' && second === 'info' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const info = await esClient!.nodes.info();
+            const info = await session.esClient!.nodes.info();
             return json(info);
         } catch (error: any) {
             return errorMessage(error);
@@ -419,10 +1041,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'nodes' && second === 'stats' && third === 'all' && segments.length === 3) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const stats = await esClient!.nodes.stats({
+            const stats = await session.esClient!.nodes.stats({
                 metric: ['jvm', 'os', 'fs', 'indices', 'thread_pool', 'transport', 'http', 'breaker', 'process']
             });
             return json(stats);
@@ -432,10 +1054,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'nodes' && second === 'breakers' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const stats = await esClient!.nodes.stats({
+            const stats = await session.esClient!.nodes.stats({
                 metric: ['breaker']
             });
             return json(stats);
@@ -445,10 +1067,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cat' && second === 'nodes' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const nodes = await esClient!.cat.nodes({
+            const nodes = await session.esClient!.cat.nodes({
                 format: 'json',
                 h: 'name,ip,node.role,master,heap.percent,ram.percent,cpu,load_1m,load_5m,load_15m,disk.used_percent,disk.total,disk.used'
             });
@@ -459,10 +1081,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cat' && second === 'shards' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const shards = await esClient!.cat.shards({
+            const shards = await session.esClient!.cat.shards({
                 format: 'json',
                 h: 'index,shard,prirep,state,docs,store,node'
             });
@@ -473,10 +1095,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cat' && second === 'segments' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const segmentsResponse = await esClient!.cat.segments({
+            const segmentsResponse = await session.esClient!.cat.segments({
                 format: 'json',
                 h: 'index,shard,segment,generation,docs.count,docs.deleted,size,size.memory'
             });
@@ -487,10 +1109,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cat' && second === 'recovery' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const recovery = await esClient!.cat.recovery({
+            const recovery = await session.esClient!.cat.recovery({
                 format: 'json',
                 active_only: true
             });
@@ -501,10 +1123,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'tasks' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const tasks = await esClient!.tasks.list({
+            const tasks = await session.esClient!.tasks.list({
                 detailed: true,
                 group_by: 'parents'
             });
@@ -515,10 +1137,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'cluster' && second === 'pending_tasks' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const pending = await esClient!.cluster.pendingTasks();
+            const pending = await session.esClient!.cluster.pendingTasks();
             return json(pending);
         } catch (error: any) {
             return errorMessage(error);
@@ -526,10 +1148,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'thread_pool' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const threadPool = await esClient!.cat.threadPool({
+            const threadPool = await session.esClient!.cat.threadPool({
                 format: 'json',
                 h: 'node_name,name,active,queue,rejected,completed,type,size,queue_size'
             });
@@ -540,10 +1162,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'stats' && second === 'indexing' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const stats = await esClient!.indices.stats({
+            const stats = await session.esClient!.indices.stats({
                 metric: ['indexing', 'search', 'get', 'merge', 'refresh', 'flush', 'segments']
             });
             return json(stats);
@@ -553,10 +1175,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'nodes' && second === 'hot_threads' && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const hotThreads = await esClient!.nodes.hotThreads({
+            const hotThreads = await session.esClient!.nodes.hotThreads({
                 threads: 3,
                 interval: '500ms'
             });
@@ -566,11 +1188,26 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
         }
     }
 
+    // Status of a single task, used to follow operations started with wait_for_completion=false
+    if (method === 'GET' && first === 'tasks' && second && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const task = await session.esClient!.tasks.get({ task_id: second });
+            return json(task);
+        } catch (error: any) {
+            if (error?.meta?.statusCode === 404) {
+                return json({ errorCode: 'TASK_NOT_FOUND' }, 404);
+            }
+            return errorMessage(error);
+        }
+    }
+
     if (method === 'POST' && first === 'tasks' && second && third === 'cancel' && segments.length === 3) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
-            const result = await esClient!.tasks.cancel({
+            const result = await session.esClient!.tasks.cancel({
                 task_id: second
             });
             return json(result);
@@ -579,13 +1216,149 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
         }
     }
 
+    // Snapshot repositories registered on the cluster
+    if (method === 'GET' && first === 'snapshots' && segments.length === 1) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            return json({ repositories: await listRepositories(session.esClient!) });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'snapshots' && second && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            return json({ snapshots: await listSnapshots(session.esClient!, second) });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'POST' && first === 'snapshots' && second && segments.length === 2) {
+        const blocked = await requireConnectionRole(session, 'editor');
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const nameValidation = validateSnapshotName(body.snapshot);
+        if (!nameValidation.valid) {
+            return json({ errorCode: nameValidation.error }, 400);
+        }
+        const indicesValidation = validateSnapshotIndices(body.indices, true);
+        if (!indicesValidation.valid) {
+            return json({ errorCode: indicesValidation.error }, 400);
+        }
+        try {
+            await createSnapshot(session.esClient!, second, body.snapshot, indicesValidation.indices!, !!body.includeGlobalState);
+            return json({ success: true, messageCode: 'SNAPSHOT_STARTED', snapshot: body.snapshot });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'snapshots' && second && third && fourth === 'status' && segments.length === 4) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const progress = await getSnapshotProgress(session.esClient!, second, third);
+            if (!progress) {
+                return json({ errorCode: 'SNAPSHOT_NOT_FOUND' }, 404);
+            }
+            return json(progress);
+        } catch (error: any) {
+            if (error?.meta?.statusCode === 404) {
+                return json({ errorCode: 'SNAPSHOT_NOT_FOUND' }, 404);
+            }
+            return errorMessage(error);
+        }
+    }
+
+    // Restoring can replace closed indices, so it needs the same role as deleting one
+    if (method === 'POST' && first === 'snapshots' && second && third && fourth === 'restore' && segments.length === 4) {
+        const blocked = await requireConnectionRole(session, 'admin');
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const indicesValidation = validateSnapshotIndices(body.indices, false);
+        if (!indicesValidation.valid) {
+            return json({ errorCode: indicesValidation.error }, 400);
+        }
+        const renameValidation = validateRename(body.renamePattern, body.renameReplacement);
+        if (!renameValidation.valid) {
+            return json({ errorCode: renameValidation.error }, 400);
+        }
+        try {
+            await restoreSnapshot(session.esClient!, second, third, {
+                indices: indicesValidation.indices!,
+                renamePattern: body.renamePattern || undefined,
+                renameReplacement: body.renameReplacement || undefined
+            });
+            return json({ success: true, messageCode: 'SNAPSHOT_RESTORE_STARTED', snapshot: third });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'DELETE' && first === 'snapshots' && second && third && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'admin');
+        if (blocked) return blocked;
+        try {
+            await deleteSnapshot(session.esClient!, second, third);
+            return json({ success: true, messageCode: 'SNAPSHOT_DELETED', snapshot: third });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'ilm' && second === 'policies' && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            return json({ policies: await listPolicies(session.esClient!) });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    // Creates or replaces a policy; policies can delete indices, so this needs admin
+    if (method === 'PUT' && first === 'ilm' && second === 'policies' && third && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'admin');
+        if (blocked) return blocked;
+        const nameValidation = validatePolicyName(third);
+        if (!nameValidation.valid) {
+            return json({ errorCode: nameValidation.error }, 400);
+        }
+        const body = await readJson(request);
+        const policyValidation = validatePolicy(body.policy);
+        if (!policyValidation.valid) {
+            return json({ errorCode: policyValidation.error, details: policyValidation.details }, 400);
+        }
+        try {
+            await putPolicy(session.esClient!, third, body.policy);
+            return json({ success: true, messageCode: 'ILM_POLICY_SAVED', policy: third });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'DELETE' && first === 'ilm' && second === 'policies' && third && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'admin');
+        if (blocked) return blocked;
+        try {
+            await deletePolicy(session.esClient!, third);
+            return json({ success: true, messageCode: 'ILM_POLICY_DELETED', policy: third });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
     if (method === 'GET' && first === 'indices' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const indicesResponse = await esClient!.cat.indices({ format: 'json', h: 'index,health,status,docs.count,store.size' });
-            const aliasesResponse = await esClient!.cat.aliases({ format: 'json', h: 'alias,index' });
-            const settingsResponse = await esClient!.indices.getSettings({});
+            const indicesResponse = await session.esClient!.cat.indices({ format: 'json', h: 'index,health,status,docs.count,store.size' });
+            const aliasesResponse = await session.esClient!.cat.aliases({ format: 'json', h: 'alias,index' });
+            const settingsResponse = await session.esClient!.indices.getSettings({});
 
             const aliasMap: Record<string, string[]> = {};
             (aliasesResponse as any[]).forEach((alias: any) => {
@@ -613,50 +1386,98 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
                     };
                 });
 
-            return json(indices);
+            return json(indices);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'indices' && second && third === 'mapping' && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const response = await session.esClient!.indices.getMapping({ index: second });
+            return json(response);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'indices' && second && third === 'settings' && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const response = await session.esClient!.indices.getSettings({ index: second });
+            return json(response);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'indices' && second && third === 'stats' && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const response = await session.esClient!.indices.stats({ index: second });
+            return json(response);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    if (method === 'GET' && first === 'indices' && second && third === 'ilm' && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            return json(await explainIndex(session.esClient!, second));
         } catch (error: any) {
             return errorMessage(error);
         }
     }
 
-    if (method === 'GET' && first === 'indices' && second && third === 'mapping' && segments.length === 3) {
-        const blocked = requireConnection();
+    if (method === 'POST' && first === 'indices' && second && third === 'ilm' && fourth === 'retry' && segments.length === 4) {
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
-            const response = await esClient!.indices.getMapping({ index: second });
-            return json(response);
+            await retryIndex(session.esClient!, second);
+            return json({ success: true, messageCode: 'ILM_RETRIED', index: second });
         } catch (error: any) {
             return errorMessage(error);
         }
     }
 
-    if (method === 'GET' && first === 'indices' && second && third === 'settings' && segments.length === 3) {
-        const blocked = requireConnection();
+    if (method === 'PUT' && first === 'indices' && second && third === 'ilm' && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'admin');
         if (blocked) return blocked;
+        const body = await readJson(request);
+        const nameValidation = validatePolicyName(body.policy);
+        if (!nameValidation.valid) {
+            return json({ errorCode: nameValidation.error }, 400);
+        }
         try {
-            const response = await esClient!.indices.getSettings({ index: second });
-            return json(response);
+            await attachPolicy(session.esClient!, second, body.policy);
+            return json({ success: true, messageCode: 'ILM_POLICY_ATTACHED', index: second, policy: body.policy });
         } catch (error: any) {
             return errorMessage(error);
         }
     }
 
-    if (method === 'GET' && first === 'indices' && second && third === 'stats' && segments.length === 3) {
-        const blocked = requireConnection();
+    if (method === 'DELETE' && first === 'indices' && second && third === 'ilm' && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'admin');
         if (blocked) return blocked;
         try {
-            const response = await esClient!.indices.stats({ index: second });
-            return json(response);
+            await detachPolicy(session.esClient!, second);
+            return json({ success: true, messageCode: 'ILM_POLICY_DETACHED', index: second });
         } catch (error: any) {
             return errorMessage(error);
         }
     }
 
     if (method === 'DELETE' && first === 'indices' && second && segments.length === 2) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'admin');
         if (blocked) return blocked;
         try {
-            await esClient!.indices.delete({ index: second });
+            await session.esClient!.indices.delete({ index: second });
             return json({ success: true, messageCode: 'INDEX_DELETED', index: second });
         } catch (error: any) {
             return errorMessage(error);
@@ -664,10 +1485,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'POST' && first === 'indices' && second && third === 'open' && segments.length === 3) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
-            await esClient!.indices.open({ index: second });
+            await session.esClient!.indices.open({ index: second });
             return json({ success: true, messageCode: 'INDEX_OPENED', index: second });
         } catch (error: any) {
             return errorMessage(error);
@@ -675,10 +1496,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'POST' && first === 'indices' && second && third === 'close' && segments.length === 3) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'admin');
         if (blocked) return blocked;
         try {
-            await esClient!.indices.close({ index: second });
+            await session.esClient!.indices.close({ index: second });
             return json({ success: true, messageCode: 'INDEX_CLOSED', index: second });
         } catch (error: any) {
             return errorMessage(error);
@@ -686,7 +1507,7 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'POST' && first === 'indices' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         const body = await readJson(request);
         const { indexName, settings, mappings } = body;
@@ -704,7 +1525,7 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
                 createBody.mappings = mappings;
             }
 
-            await esClient!.indices.create({
+            await session.esClient!.indices.create({
                 index: indexName,
                 body: createBody
             });
@@ -716,7 +1537,7 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'POST' && first === 'reindex' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         const body = await readJson(request);
         const { sourceIndex, targetIndex, createNew, settings, mappings } = body;
@@ -745,10 +1566,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
                     createBody.mappings = mappings;
                 }
 
-                await esClient!.indices.create({ index: targetIndex, body: createBody });
+                await session.esClient!.indices.create({ index: targetIndex, body: createBody });
             }
 
-            const result = await esClient!.reindex({
+            const result = await session.esClient!.reindex({
                 body: {
                     source: { index: sourceIndex },
                     dest: { index: targetIndex },
@@ -763,16 +1584,84 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
         }
     }
 
+    if (method === 'POST' && first === 'indices' && second && (third === 'delete_by_query' || third === 'update_by_query') && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'editor');
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const { query, script, proceedOnConflicts } = body;
+
+        // No default here: a missing query would silently match the whole index
+        if (!query || typeof query !== 'object' || Array.isArray(query)) {
+            return json({ errorCode: 'QUERY_REQUIRED' }, 400);
+        }
+
+        if (third === 'update_by_query') {
+            if (typeof script?.source !== 'string' || !script.source.trim()) {
+                return json({ errorCode: 'SCRIPT_REQUIRED' }, 400);
+            }
+            if (script.params !== undefined && (!script.params || typeof script.params !== 'object' || Array.isArray(script.params))) {
+                return json({ errorCode: 'SCRIPT_PARAMS_INVALID' }, 400);
+            }
+        }
+
+        try {
+            const params: any = {
+                index: second,
+                body: { query },
+                conflicts: proceedOnConflicts ? 'proceed' : 'abort',
+                wait_for_completion: false
+            };
+
+            let result: any;
+            if (third === 'delete_by_query') {
+                result = await session.esClient!.deleteByQuery(params);
+            } else {
+                params.body.script = { source: script.source, lang: 'painless', params: script.params || {} };
+                result = await session.esClient!.updateByQuery(params);
+            }
+
+            const taskId = result.task ?? result.body?.task ?? null;
+            return json({ success: true, taskId });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
     if (method === 'POST' && first === 'aggregations' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         const body = await readJson(request);
-        const { index, fields, dateField, query } = body;
+        const { index, fields, dateField, query, aggregations } = body;
 
         if (!index) {
             return json({ errorCode: 'INDEX_REQUIRED' }, 400);
         }
 
+        // Aggregation builder definition; fields and dateField keep the fixed facets
+        if (aggregations !== undefined) {
+            try {
+                const built = buildAggregations(aggregations);
+                if (!built.valid) {
+                    return json({ errorCode: built.error, details: built.details }, 400);
+                }
+
+                const response = await session.esClient!.search({
+                    index,
+                    body: {
+                        size: 0,
+                        query: query || { match_all: {} },
+                        aggs: built.aggs
+                    }
+                });
+                return json({
+                    aggregations: response.aggregations ?? null,
+                    took: response.took
+                });
+            } catch (error: any) {
+                return errorMessage(error);
+            }
+        }
+
         try {
             const aggs: Record<string, any> = {};
 
@@ -820,7 +1709,7 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
                 searchBody.query = query;
             }
 
-            const response = await esClient!.search({
+            const response = await session.esClient!.search({
                 index,
                 body: searchBody
             });
@@ -834,42 +1723,102 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'POST' && first === 'search' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         const body = await readJson(request);
-        const { index, query, from = 0, size = 20, sort } = body;
+        const { index, query, from = 0, size = 20, sort, pitId, searchAfter, highlight } = body;
 
         if (!index) {
             return json({ errorCode: 'INDEX_REQUIRED' }, 400);
         }
 
         try {
-            const searchBody: any = {
+            const result = await searchPage(session.esClient!, {
+                index,
+                query,
                 from,
-                size
-            };
+                size,
+                sort,
+                pitId: typeof pitId === 'string' && pitId ? pitId : undefined,
+                searchAfter: Array.isArray(searchAfter) ? searchAfter : undefined,
+                highlightFields: Array.isArray(highlight)
+                    ? highlight.filter((field: unknown): field is string => typeof field === 'string' && field !== '')
+                    : undefined
+            });
+            return json(result);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
 
-            if (query) {
-                searchBody.query = query;
-            } else {
-                searchBody.query = { match_all: {} };
-            }
+    // Closes the point in time of a deep paging search when the user leaves it
+    if (method === 'DELETE' && first === 'search' && second === 'pit' && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        const body = await readJson(request);
 
-            if (sort) {
-                searchBody.sort = sort;
-            }
+        if (typeof body.id !== 'string' || !body.id) {
+            return json({ errorCode: 'PIT_ID_REQUIRED' }, 400);
+        }
+
+        await closeSearchPit(session.esClient!, body.id);
+        return json({ success: true });
+    }
+
+    if (method === 'POST' && first === 'count' && segments.length === 1) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const { index, query } = body;
+
+        if (!index) {
+            return json({ errorCode: 'INDEX_REQUIRED' }, 400);
+        }
 
-            const response = await esClient!.search({
+        try {
+            const response = await session.esClient!.count({
                 index,
-                body: searchBody
+                body: { query: query || { match_all: {} } }
             });
+            return json({ count: response.count });
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
 
-            return json({
-                total: typeof response.hits.total === 'number'
-                    ? response.hits.total
-                    : response.hits.total?.value || 0,
-                hits: response.hits.hits,
-                took: response.took
+    // Streams every document matching the query, paging with a point in time and search_after
+    if (method === 'POST' && first === 'search' && second === 'export' && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const { index, query, sort, format } = body;
+
+        if (!index) {
+            return json({ errorCode: 'INDEX_REQUIRED' }, 400);
+        }
+        if (!isSearchExportFormat(format)) {
+            return json({ errorCode: 'SEARCH_EXPORT_FORMAT_INVALID' }, 400);
+        }
+        const columns = Array.isArray(body.columns)
+            ? body.columns.filter((column: unknown): column is string => typeof column === 'string' && column !== '')
+            : [];
+
+        try {
+            const { stream, total, contentType } = await createSearchExport(session.esClient!, {
+                index,
+                query,
+                sort,
+                format,
+                columns
+            });
+
+            return new NextResponse(stream, {
+                headers: {
+                    'Content-Type': contentType,
+                    'Content-Disposition': `attachment; filename="${getSearchExportFileName(index, format)}"`,
+                    'Cache-Control': 'no-store',
+                    'X-Total-Count': String(total)
+                }
             });
         } catch (error: any) {
             return errorMessage(error);
@@ -877,10 +1826,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'indices' && second && third === 'doc' && fourth && segments.length === 4) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         try {
-            const response = await esClient!.get({ index: second, id: fourth });
+            const response = await session.esClient!.get({ index: second, id: fourth });
             return json(response);
         } catch (error: any) {
             return errorMessage(error);
@@ -888,10 +1837,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'DELETE' && first === 'indices' && second && third === 'doc' && fourth && segments.length === 4) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
-            const response = await esClient!.delete({ index: second, id: fourth });
+            const response = await session.esClient!.delete({ index: second, id: fourth });
             return json(response);
         } catch (error: any) {
             return errorMessage(error);
@@ -899,11 +1848,11 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'PUT' && first === 'indices' && second && third === 'doc' && fourth && segments.length === 4) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
             const document = await readJson(request);
-            const response = await esClient!.index({
+            const response = await session.esClient!.index({
                 index: second,
                 id: fourth,
                 body: document,
@@ -917,11 +1866,11 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'PUT' && first === 'indices' && second && third === 'doc' && segments.length === 3) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
             const document = await readJson(request);
-            const response = await esClient!.index({
+            const response = await session.esClient!.index({
                 index: second,
                 body: document,
                 refresh: true
@@ -933,8 +1882,89 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
         }
     }
 
+    // One batch of a file import, the client sends the rows in several requests
+    if (method === 'POST' && first === 'indices' && second && third === 'bulk' && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'editor');
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const invalid = validateBulkImportDocuments(body.documents);
+        if (invalid) {
+            return json({ errorCode: invalid }, 400);
+        }
+        if (body.op_type !== undefined && body.op_type !== 'index' && body.op_type !== 'create') {
+            return json({ errorCode: 'BULK_IMPORT_INVALID' }, 400);
+        }
+
+        try {
+            const result = await runBulkImport(session.esClient!, second, body.documents, {
+                opType: body.op_type || 'index',
+                refresh: body.refresh === true
+            });
+            return json(result);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    // Ids of every document matching a query, for actions on "all matching" selections
+    if (method === 'POST' && first === 'indices' && second && third === 'ids' && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        const body = await readJson(request);
+
+        try {
+            const matching = await resolveMatchingIds(session.esClient!, second, body.query);
+            if (!matching) {
+                return json({ errorCode: 'BULK_ACTION_TOO_MANY', details: MAX_BULK_ACTION_DOCUMENTS }, 400);
+            }
+            return json(matching);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
+    // Delete, set a field or unset a field on selected documents (ids) or on all documents matching a query
+    if (method === 'POST' && first === 'indices' && second && third === 'bulk-action' && segments.length === 3) {
+        const blocked = await requireConnectionRole(session, 'editor');
+        if (blocked) return blocked;
+        const body = await readJson(request);
+        const { action, field, value, ids, query } = body;
+
+        if (!isBulkAction(action)) {
+            return json({ errorCode: 'BULK_ACTION_INVALID' }, 400);
+        }
+        if (action !== 'delete' && (typeof field !== 'string' || !field.trim() || field.startsWith('_'))) {
+            return json({ errorCode: 'BULK_ACTION_FIELD_REQUIRED' }, 400);
+        }
+        if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== 'string' || !id))) {
+            return json({ errorCode: 'BULK_ACTION_INVALID' }, 400);
+        }
+        if (Array.isArray(ids) && ids.length > MAX_BULK_ACTION_DOCUMENTS) {
+            return json({ errorCode: 'BULK_ACTION_TOO_MANY', details: MAX_BULK_ACTION_DOCUMENTS }, 400);
+        }
+
+        try {
+            let targetIds: string[] = ids;
+            if (!Array.isArray(ids)) {
+                const matching = await resolveMatchingIds(session.esClient!, second, query);
+                if (!matching) {
+                    return json({ errorCode: 'BULK_ACTION_TOO_MANY', details: MAX_BULK_ACTION_DOCUMENTS }, 400);
+                }
+                targetIds = matching.ids;
+            }
+            if (targetIds.length === 0) {
+                return json({ succeeded: 0, failed: 0, errors: [], took: 0 });
+            }
+
+            const result = await runBulkAction(session.esClient!, second, targetIds, action, field?.trim(), value);
+            return json(result);
+        } catch (error: any) {
+            return errorMessage(error);
+        }
+    }
+
     if (method === 'POST' && first === 'indices' && second && third === 'alias' && segments.length === 3) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
             const body = await readJson(request);
@@ -944,7 +1974,7 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
                 return json({ errorCode: aliasValidation.error }, 400);
             }
 
-            await esClient!.indices.putAlias({
+            await session.esClient!.indices.putAlias({
                 index: second,
                 name: alias
             });
@@ -956,10 +1986,10 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'DELETE' && first === 'indices' && second && third === 'alias' && fourth && segments.length === 4) {
-        const blocked = requireConnection();
+        const blocked = await requireConnectionRole(session, 'editor');
         if (blocked) return blocked;
         try {
-            await esClient!.indices.deleteAlias({
+            await session.esClient!.indices.deleteAlias({
                 index: second,
                 name: fourth
             });
@@ -971,49 +2001,181 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'POST' && first === 'rest' && segments.length === 1) {
-        const blocked = requireConnection();
+        const blocked = requireConnection(session);
         if (blocked) return blocked;
         const body = await readJson(request);
-        const { method: restMethod, path: requestPath, body: restBody } = body;
+        const { method: restMethod, path: requestPath, body: restBody, confirmToken, confirmPhrase } = body;
 
         if (!restMethod || !requestPath) {
             return json({ errorCode: 'METHOD_PATH_REQUIRED' }, 400);
         }
 
         const normalizedPath = requestPath.startsWith('/') ? requestPath : `/${requestPath}`;
-        if (isDangerousRequest(restMethod, normalizedPath)) {
-            return json({ errorCode: 'DANGEROUS_REQUEST_BLOCKED' }, 403);
+        const forbidden = await requireConnectionRole(session, getRestRequestRole(restMethod, normalizedPath));
+        if (forbidden) return forbidden;
+
+        const target = { method: restMethod, path: normalizedPath, body: restBody };
+        try {
+            const decision = await evaluateRequestPolicy(session.connectionInfo.id, restMethod, normalizedPath);
+            if (decision.action === 'deny') {
+                return json({ errorCode: 'DANGEROUS_REQUEST_BLOCKED', details: decision.rule?.path_pattern }, 403);
+            }
+            if (decision.action === 'confirm') {
+                if (!confirmToken) {
+                    return json({
+                        errorCode: 'CONFIRMATION_REQUIRED',
+                        confirmation: issueConfirmation(session, target, decision.rule)
+                    }, 428);
+                }
+                if (!consumeConfirmation(session, confirmToken, confirmPhrase, target)) {
+                    return json({ errorCode: 'CONFIRMATION_INVALID' }, 403);
+                }
+            }
+        } catch (error: any) {
+            return internalError(error);
         }
 
+        const startedAt = Date.now();
+        const record = (statusCode: number, response: unknown) => recordRestHistory(session, {
+            method: restMethod,
+            path: normalizedPath,
+            body: restBody,
+            statusCode,
+            executionTimeMs: Date.now() - startedAt,
+            response
+        });
+
         try {
-            const response = await esClient!.transport.request({
+            const response = await session.esClient!.transport.request({
                 method: restMethod.toUpperCase(),
                 path: normalizedPath,
                 body: restBody || undefined,
             } as any);
 
+            await record(200, response);
             return json(response);
         } catch (error: any) {
             if (error.meta?.body) {
-                return json(error.meta.body, error.meta.statusCode || 500);
+                const statusCode = error.meta.statusCode || 500;
+                await record(statusCode, error.meta.body);
+                return json(error.meta.body, statusCode);
             }
+            await record(500, { error: error.message });
             return errorMessage(error);
         }
     }
 
+    // REST console history of the current user on the active connection, newest first
+    if (method === 'GET' && first === 'rest' && second === 'history' && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const params = request.nextUrl.searchParams;
+            const limit = Math.min(parseInt(params.get('limit') || '50', 10) || 50, MAX_REST_HISTORY_PAGE_SIZE);
+            const offset = Math.max(parseInt(params.get('offset') || '0', 10) || 0, 0);
+            const { entries, total } = await getRestHistory({
+                ...getRestHistoryScope(session),
+                search: params.get('search') || undefined,
+                limit,
+                offset
+            });
+            return json({ entries, total, settings: getRestHistorySettings() });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'DELETE' && first === 'rest' && second === 'history' && segments.length === 2) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const deleted = await clearRestHistory(getRestHistoryScope(session));
+            return json({ success: true, deleted });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    // A single entry including the stored response, e.g. to re-open it in a tab
+    if (method === 'GET' && first === 'rest' && second === 'history' && third && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const entry = await findRestHistoryEntry(session, parseInt(third));
+            if (!entry) {
+                return json({ errorCode: 'REST_HISTORY_NOT_FOUND' }, 404);
+            }
+            return json(entry);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    if (method === 'DELETE' && first === 'rest' && second === 'history' && third && segments.length === 3) {
+        const blocked = requireConnection(session);
+        if (blocked) return blocked;
+        try {
+            const entry = await findRestHistoryEntry(session, parseInt(third));
+            if (!entry) {
+                return json({ errorCode: 'REST_HISTORY_NOT_FOUND' }, 404);
+            }
+            await deleteRestHistoryEntry(entry.id);
+            return json({ success: true });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'GET' && first === 'queries' && segments.length === 1) {
         try {
-            const queries = await getAllQueries();
+            // Shared queries plus those scoped to the active saved connection
+            const queries = await getAllQueries(session.connectionInfo.id);
             return json(queries);
         } catch (error: any) {
             return errorMessage(error);
         }
     }
 
+    // Versioned export of the saved REST and search queries visible to the user
+    if (method === 'GET' && first === 'queries' && second === 'export' && segments.length === 2) {
+        try {
+            const connections = await getVisibleConnections(session);
+            const data = await exportSavedQueries(new Map(connections.map(({ connection }) => [connection.id, connection.name])));
+            return json(data);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
+    // Import an export file; with dry_run the planned outcome is returned for preview
+    if (method === 'POST' && first === 'queries' && second === 'import' && segments.length === 2) {
+        try {
+            const { data, strategy = 'skip', dry_run } = await readJson(request);
+            const validation = validateSavedQueriesImport(data);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+            if (!QUERY_IMPORT_STRATEGIES.includes(strategy)) {
+                return json({ errorCode: 'QUERY_IMPORT_STRATEGY_INVALID' }, 400);
+            }
+
+            const connections = await getVisibleConnections(session);
+            const result = await importSavedQueries(
+                data,
+                strategy as QueryImportStrategy,
+                new Map(connections.map(({ connection }) => [connection.name, connection.id])),
+                !!dry_run
+            );
+            return json(result);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'GET' && first === 'queries' && second && segments.length === 2) {
         try {
             const query = await getQueryById(parseInt(second));
-            if (!query) {
+            if (!query || !await isQueryVisible(session, query)) {
                 return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
             }
             return json(query);
@@ -1025,11 +2187,18 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     if (method === 'POST' && first === 'queries' && segments.length === 1) {
         try {
             const body = await readJson(request);
-            const { name, method: queryMethod, path, body: queryBody } = body;
+            const { method: queryMethod, path, body: queryBody } = body;
+            const name = normalizeQueryName(body.name);
             if (!name || !queryMethod || !path) {
                 return json({ errorCode: 'NAME_METHOD_PATH_REQUIRED' }, 400);
             }
-            const query = await createQuery({ name, method: queryMethod, path, body: queryBody });
+            const validation = validateSavedQueryMetadata(body);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+            const forbidden = await requireQueryConnectionAccess(session, validation.metadata?.connection_id);
+            if (forbidden) return forbidden;
+            const query = await createQuery({ name, method: queryMethod, path, body: queryBody, ...validation.metadata });
             return json(query);
         } catch (error: any) {
             return internalError(error);
@@ -1039,9 +2208,22 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     if (method === 'PUT' && first === 'queries' && second && segments.length === 2) {
         try {
             const body = await readJson(request);
-            const { name, method: queryMethod, path, body: queryBody } = body;
+            const { method: queryMethod, path, body: queryBody } = body;
+            const name = body.name !== undefined ? normalizeQueryName(body.name) : undefined;
+            if (name === null) {
+                return json({ errorCode: 'NAME_REQUIRED' }, 400);
+            }
+            const validation = validateSavedQueryMetadata(body);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+            if (!await isQueryVisible(session, await getQueryById(parseInt(second)))) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
+            const forbidden = await requireQueryConnectionAccess(session, validation.metadata?.connection_id);
+            if (forbidden) return forbidden;
             const query = await updateQuery(parseInt(second), {
-                name, method: queryMethod, path, body: queryBody
+                name, method: queryMethod, path, body: queryBody, ...validation.metadata
             });
             if (!query) {
                 return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
@@ -1054,6 +2236,9 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
 
     if (method === 'DELETE' && first === 'queries' && second && segments.length === 2) {
         try {
+            if (!await isQueryVisible(session, await getQueryById(parseInt(second)))) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
             const success = await deleteQuery(parseInt(second));
             if (!success) {
                 return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
@@ -1064,31 +2249,99 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
         }
     }
 
+    // Record that a saved query was loaded, for "last used" sorting
+    if (method === 'POST' && first === 'queries' && second && third === 'use' && segments.length === 3) {
+        try {
+            if (
+                !await isQueryVisible(session, await getQueryById(parseInt(second))) ||
+                !await markQueryUsed(parseInt(second))
+            ) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
+            return json({ success: true });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'GET' && first === 'search-queries' && segments.length === 1) {
         try {
-            const queries = await getAllSearchQueries();
+            const queries = await getAllSearchQueries(session.connectionInfo.id);
             return json(queries);
         } catch (error: any) {
             return internalError(error);
         }
     }
 
+    if (method === 'GET' && first === 'search-queries' && second && segments.length === 2) {
+        try {
+            const query = await getSearchQueryById(parseInt(second));
+            if (!query || !await isQueryVisible(session, query)) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
+            return json(query);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'POST' && first === 'search-queries' && segments.length === 1) {
         try {
             const body = await readJson(request);
-            const { name, index_pattern, query, sort_field, sort_order, ui_state } = body;
+            const { index_pattern, query, sort_field, sort_order, ui_state } = body;
+            const name = normalizeQueryName(body.name);
             if (!name || !index_pattern || !query) {
                 return json({ errorCode: 'MISSING_REQUIRED_FIELDS' }, 400);
             }
-            const savedQuery = await createSearchQuery({ name, index_pattern, query, sort_field, sort_order, ui_state });
+            const validation = validateSavedQueryMetadata(body);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+            const forbidden = await requireQueryConnectionAccess(session, validation.metadata?.connection_id);
+            if (forbidden) return forbidden;
+            const savedQuery = await createSearchQuery({
+                name, index_pattern, query, sort_field, sort_order, ui_state, ...validation.metadata
+            });
             return json(savedQuery, 201);
         } catch (error: any) {
             return internalError(error);
         }
     }
 
+    if (method === 'PUT' && first === 'search-queries' && second && segments.length === 2) {
+        try {
+            const body = await readJson(request);
+            const { index_pattern, query, sort_field, sort_order, ui_state } = body;
+            const name = body.name !== undefined ? normalizeQueryName(body.name) : undefined;
+            if (name === null || index_pattern === '' || query === '') {
+                return json({ errorCode: 'MISSING_REQUIRED_FIELDS' }, 400);
+            }
+            const validation = validateSavedQueryMetadata(body);
+            if (!validation.valid) {
+                return json({ errorCode: validation.error }, 400);
+            }
+            if (!await isQueryVisible(session, await getSearchQueryById(parseInt(second)))) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
+            const forbidden = await requireQueryConnectionAccess(session, validation.metadata?.connection_id);
+            if (forbidden) return forbidden;
+            const savedQuery = await updateSearchQuery(parseInt(second), {
+                name, index_pattern, query, sort_field, sort_order, ui_state, ...validation.metadata
+            });
+            if (!savedQuery) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
+            return json(savedQuery);
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'DELETE' && first === 'search-queries' && second && segments.length === 2) {
         try {
+            if (!await isQueryVisible(session, await getSearchQueryById(parseInt(second)))) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
             const success = await deleteSearchQuery(parseInt(second));
             if (!success) {
                 return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
@@ -1099,7 +2352,23 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
         }
     }
 
+    if (method === 'POST' && first === 'search-queries' && second && third === 'use' && segments.length === 3) {
+        try {
+            if (
+                !await isQueryVisible(session, await getSearchQueryById(parseInt(second))) ||
+                !await markSearchQueryUsed(parseInt(second))
+            ) {
+                return json({ errorCode: 'QUERY_NOT_FOUND' }, 404);
+            }
+            return json({ success: true });
+        } catch (error: any) {
+            return internalError(error);
+        }
+    }
+
     if (method === 'GET' && first === 'connections' && second && third === 'indices' && segments.length === 3) {
+        const forbidden = await requireSavedConnectionRole(session, parseInt(second), 'viewer');
+        if (forbidden) return forbidden;
         try {
             const client = await getClientForConnection(parseInt(second));
 
@@ -1137,6 +2406,8 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
     }
 
     if (method === 'GET' && first === 'connections' && second && third === 'indices' && fourth && segments[4] === 'mapping' && segments.length === 5) {
+        const forbidden = await requireSavedConnectionRole(session, parseInt(second), 'viewer');
+        if (forbidden) return forbidden;
         try {
             const client = await getClientForConnection(parseInt(second));
 
@@ -1167,8 +2438,15 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
             return json({ errorCode: 'TARGET_CONNECTION_INDEX_ID_REQUIRED' }, 400);
         }
 
+        const sourceForbidden = sourceConnectionId
+            ? await requireSavedConnectionRole(session, sourceConnectionId, 'viewer')
+            : requireConnection(session);
+        if (sourceForbidden) return sourceForbidden;
+        const targetForbidden = await requireWritableSavedConnection(session, targetConnectionId);
+        if (targetForbidden) return targetForbidden;
+
         try {
-            const sourceClient = sourceConnectionId ? await getClientForConnection(sourceConnectionId) : esClient;
+            const sourceClient = sourceConnectionId ? await getClientForConnection(sourceConnectionId) : session.esClient;
 
             if (!sourceClient) {
                 return json({ errorCode: 'SOURCE_CONNECTION_NOT_FOUND' }, 400);
@@ -1238,8 +2516,15 @@ export const handleApiRequest = async (request: NextRequest, segments: string[])
             return json({ errorCode: 'TARGET_CONNECTION_INDEX_DOCUMENTS_REQUIRED' }, 400);
         }
 
+        const sourceForbidden = sourceConnectionId
+            ? await requireSavedConnectionRole(session, sourceConnectionId, 'viewer')
+            : requireConnection(session);
+        if (sourceForbidden) return sourceForbidden;
+        const targetForbidden = await requireWritableSavedConnection(session, targetConnectionId);
+        if (targetForbidden) return targetForbidden;
+
         try {
-            const sourceClient = sourceConnectionId ? await getClientForConnection(sourceConnectionId) : esClient;
+            const sourceClient = sourceConnectionId ? await getClientForConnection(sourceConnectionId) : session.esClient;
 
             if (!sourceClient) {
                 return json({ errorCode: 'SOURCE_CONNECTION_NOT_FOUND' }, 400);
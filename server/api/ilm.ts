@@ -0,0 +1,102 @@
+import { Client } from '@elastic/elasticsearch';
+
+// ==================== VALIDATION ====================
+
+export const ILM_PHASES = ['hot', 'warm', 'cold', 'frozen', 'delete'] as const;
+
+export const validatePolicyName = (name: unknown): { valid: boolean; error?: string } => {
+    if (!name || typeof name !== 'string') {
+        return { valid: false, error: 'ILM_POLICY_NAME_REQUIRED' };
+    }
+    if (name.length > 255 || name.startsWith('_') || /[\\/*?"<>|,#:\s]/.test(name)) {
+        return { valid: false, error: 'ILM_POLICY_NAME_INVALID' };
+    }
+    return { valid: true };
+};
+
+/**
+ * Shape check of a policy before it is sent; Elasticsearch validates the actions
+ * themselves. On failure `details` names the offending phase.
+ */
+export const validatePolicy = (policy: unknown): { valid: boolean; error?: string; details?: string } => {
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+        return { valid: false, error: 'ILM_POLICY_INVALID' };
+    }
+    const phases = (policy as Record<string, any>).phases;
+    if (!phases || typeof phases !== 'object' || Array.isArray(phases) || Object.keys(phases).length === 0) {
+        return { valid: false, error: 'ILM_POLICY_PHASES_REQUIRED' };
+    }
+    for (const [phase, definition] of Object.entries(phases as Record<string, any>)) {
+        const valid = (ILM_PHASES as readonly string[]).includes(phase) &&
+            !!definition && typeof definition === 'object' &&
+            (definition.min_age === undefined || typeof definition.min_age === 'string') &&
+            (definition.actions === undefined || (typeof definition.actions === 'object' && !Array.isArray(definition.actions)));
+        if (!valid) {
+            return { valid: false, error: 'ILM_PHASE_INVALID', details: phase };
+        }
+    }
+    return { valid: true };
+};
+
+// ==================== POLICIES ====================
+
+export interface IlmPolicySummary {
+    name: string;
+    version: number | null;
+    modifiedDate: string | null;
+    policy: { phases: Record<string, any>; _meta?: Record<string, any> };
+    // Not reported by clusters before 7.12
+    inUseBy: { indices: string[]; dataStreams: string[]; composableTemplates: string[] } | null;
+}
+
+export const listPolicies = async (client: Client): Promise<IlmPolicySummary[]> => {
+    const response: Record<string, any> = await client.ilm.getLifecycle();
+    return Object.entries(response)
+        .map(([name, entry]) => ({
+            name,
+            version: entry.version ?? null,
+            modifiedDate: entry.modified_date ?? null,
+            policy: entry.policy,
+            inUseBy: entry.in_use_by
+                ? {
+                    indices: [...(entry.in_use_by.indices || [])].sort(),
+                    dataStreams: entry.in_use_by.data_streams || [],
+                    composableTemplates: entry.in_use_by.composable_templates || []
+                }
+                : null
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const putPolicy = (client: Client, name: string, policy: IlmPolicySummary['policy']) =>
+    client.ilm.putLifecycle({
+        name,
+        policy: {
+            phases: policy.phases,
+            ...(policy._meta ? { _meta: policy._meta } : {})
+        }
+    });
+
+export const deletePolicy = (client: Client, name: string) =>
+    client.ilm.deleteLifecycle({ name });
+
+// ==================== INDEX LIFECYCLE ====================
+
+// _ilm/explain of a single index; `managed: false` when no policy is attached
+export const explainIndex = async (client: Client, index: string): Promise<Record<string, any>> => {
+    const response: any = await client.ilm.explainLifecycle({ index });
+    return response.indices?.[index] ?? { index, managed: false };
+};
+
+// Move an index whose lifecycle stopped on an ERROR step back to the failed step
+export const retryIndex = (client: Client, index: string) =>
+    client.ilm.retry({ index });
+
+export const attachPolicy = (client: Client, index: string, policy: string) =>
+    client.indices.putSettings({
+        index,
+        settings: { 'index.lifecycle.name': policy }
+    });
+
+export const detachPolicy = (client: Client, index: string) =>
+    client.ilm.removePolicy({ index });
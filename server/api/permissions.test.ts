@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getConnectionAccessError, getRestRequestRole, isReadRestRequest } from './permissions';
+
+describe('isReadRestRequest', () => {
+    it('treats GET and HEAD as reads', () => {
+        assert.equal(isReadRestRequest('GET', '/logs/_doc/1'), true);
+        assert.equal(isReadRestRequest('head', '/logs'), true);
+    });
+
+    it('treats query endpoints as reads, with or without an index', () => {
+        for (const path of [
+            '/_search',
+            '/logs/_search?size=0',
+            '/logs-*,metrics/_count',
+            '/_all/_search',
+            '/logs/_search/template',
+            '/_search/scroll',
+            '/_msearch',
+            '/logs/_validate/query',
+            '/logs/_explain/1',
+            '/logs/_termvectors/1',
+            '/_render/template',
+            '/_analyze'
+        ]) {
+            assert.equal(isReadRestRequest('POST', path), true, path);
+        }
+    });
+
+    it('does not treat document writes with an endpoint name in the path as reads', () => {
+        for (const path of [
+            '/logs/_doc/_search',
+            '/logs/_update/_count',
+            '/logs/_create/_mget',
+            '/logs/_doc/1/_search',
+            '/_search/logs/_doc',
+            '/logs/_validate',
+            '/_doc/_search'
+        ]) {
+            assert.equal(isReadRestRequest('POST', path), false, path);
+        }
+    });
+
+    it('treats opening and closing a point in time or scroll as reads', () => {
+        assert.equal(isReadRestRequest('POST', '/logs/_pit?keep_alive=1m'), true);
+        assert.equal(isReadRestRequest('DELETE', '/_pit'), true);
+        assert.equal(isReadRestRequest('DELETE', '/_search/scroll'), true);
+        assert.equal(isReadRestRequest('DELETE', '/logs/_pit'), false);
+        assert.equal(getConnectionAccessError('viewer', getRestRequestRole('DELETE', '/_pit'), true), null);
+    });
+
+    it('does not treat other methods as reads', () => {
+        assert.equal(isReadRestRequest('PUT', '/logs/_search'), false);
+        assert.equal(isReadRestRequest('DELETE', '/logs/_search'), false);
+        assert.equal(isReadRestRequest('DELETE', '/logs'), false);
+    });
+});
+
+describe('getConnectionAccessError', () => {
+    it('refuses writes on a read-only connection whatever the role', () => {
+        const required = getRestRequestRole('POST', '/logs/_doc/_search');
+        assert.equal(required, 'editor');
+        assert.equal(getConnectionAccessError('admin', required, true), 'CONNECTION_READ_ONLY');
+        assert.equal(getConnectionAccessError('admin', required, false), null);
+    });
+
+    it('allows reads on a read-only connection', () => {
+        const required = getRestRequestRole('POST', '/logs/_search');
+        assert.equal(getConnectionAccessError('viewer', required, true), null);
+    });
+
+    it('refuses writes for viewers', () => {
+        assert.equal(getConnectionAccessError('viewer', 'editor', false), 'INSUFFICIENT_ROLE');
+        assert.equal(getConnectionAccessError(null, 'viewer', false), 'INSUFFICIENT_ROLE');
+    });
+});
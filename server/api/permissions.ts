@@ -0,0 +1,111 @@
+import { ConnectionRole, getConnectionPermission } from '../database';
+import { AUTH_ENABLED } from './auth';
+import { SessionUser } from './session';
+
+// ==================== ROLES ====================
+
+export const CONNECTION_ROLES: ConnectionRole[] = ['viewer', 'editor', 'admin'];
+
+const ROLE_RANK: Record<ConnectionRole, number> = {
+    viewer: 1,
+    editor: 2,
+    admin: 3
+};
+
+export const isConnectionRole = (value: unknown): value is ConnectionRole =>
+    typeof value === 'string' && (CONNECTION_ROLES as string[]).includes(value);
+
+export const hasRole = (role: ConnectionRole | null, required: ConnectionRole): boolean =>
+    !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+
+/**
+ * Resolve what a user may do on a saved connection. Global admins (and everyone,
+ * when authentication is disabled) act as connection admins; other users need an
+ * explicit grant and get `null` without one.
+ */
+export const getUserConnectionRole = async (
+    user: SessionUser | null,
+    connectionId: number
+): Promise<ConnectionRole | null> => {
+    if (!AUTH_ENABLED || user?.is_admin) return 'admin';
+    if (!user) return null;
+
+    const permission = await getConnectionPermission(user.id, connectionId);
+    return permission && isConnectionRole(permission.role) ? permission.role : null;
+};
+
+// ==================== REST CLASSIFICATION ====================
+
+/**
+ * POST endpoints that only read data and are therefore fine for viewers, as the
+ * path after an optional index; `{id}` stands for exactly one path segment.
+ */
+const READ_ONLY_POST_ENDPOINTS = [
+    '_search',
+    '_search/template',
+    '_search/scroll',
+    '_msearch',
+    '_msearch/template',
+    '_count',
+    '_field_caps',
+    '_validate/query',
+    '_explain/{id}',
+    '_mget',
+    '_termvectors',
+    '_termvectors/{id}',
+    '_mtermvectors',
+    '_analyze',
+    '_render/template',
+    '_render/template/{id}',
+    '_pit'
+].map(endpoint => endpoint.split('/'));
+
+// Closing a point in time or a scroll only releases the search context a read opened
+const READ_ONLY_DELETE_ENDPOINTS = [
+    '_pit',
+    '_search/scroll',
+    '_search/scroll/{id}'
+].map(endpoint => endpoint.split('/'));
+
+// Index names never start with "_", so a leading segment that does is an API, except `_all`
+const stripIndex = (parts: string[]): string[] =>
+    parts.length > 0 && (!parts[0].startsWith('_') || parts[0] === '_all') ? parts.slice(1) : parts;
+
+const matchesEndpoint = (patterns: string[][], endpoint: string[]): boolean =>
+    patterns.some(pattern =>
+        pattern.length === endpoint.length &&
+        pattern.every((part, i) => part === '{id}' || part === endpoint[i])
+    );
+
+/**
+ * Whether a raw REST console request only reads from the cluster. GET/HEAD are
+ * always reads; POST and DELETE are reads only when the whole path is one of the
+ * endpoints above, so e.g. `POST /logs/_doc/_search` (a document with id "_search") is a write.
+ */
+export const isReadRestRequest = (method: string, requestPath: string): boolean => {
+    const normalizedMethod = method.toUpperCase();
+    if (normalizedMethod === 'GET' || normalizedMethod === 'HEAD') return true;
+
+    const parts = requestPath.split('?')[0].toLowerCase().split('/').filter(Boolean);
+    if (normalizedMethod === 'DELETE') return matchesEndpoint(READ_ONLY_DELETE_ENDPOINTS, parts);
+    if (normalizedMethod !== 'POST') return false;
+    return matchesEndpoint(READ_ONLY_POST_ENDPOINTS, stripIndex(parts));
+};
+
+/**
+ * Why a request needing `required` is refused for `role` on a connection, or null
+ * when it is allowed. Everything beyond viewer writes to the cluster, so read-only
+ * connections refuse it whatever the role.
+ */
+export const getConnectionAccessError = (
+    role: ConnectionRole | null,
+    required: ConnectionRole,
+    readOnly: boolean
+): 'INSUFFICIENT_ROLE' | 'CONNECTION_READ_ONLY' | null => {
+    if (!hasRole(role, required)) return 'INSUFFICIENT_ROLE';
+    return required !== 'viewer' && readOnly ? 'CONNECTION_READ_ONLY' : null;
+};
+
+// Role a REST console request needs on the active connection
+export const getRestRequestRole = (method: string, requestPath: string): ConnectionRole =>
+    isReadRestRequest(method, requestPath) ? 'viewer' : 'editor';
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    compileGlob,
+    consumeConfirmation,
+    evaluateRequestPolicy,
+    issueConfirmation,
+    normalizePolicyPath,
+    RestRequestTarget
+} from './requestPolicy';
+import { ApiSession, emptyConnectionInfo } from './session';
+
+const makeSession = (id: string): ApiSession => ({
+    id,
+    user: null,
+    esClient: null,
+    connectionInfo: { ...emptyConnectionInfo(), id: 1, name: 'prod', connected: true },
+    lastAccessedAt: Date.now()
+});
+
+describe('compileGlob', () => {
+    it('matches * within one segment and ** across segments', () => {
+        assert.equal(compileGlob('/logs-*/_doc/*').test('/logs-2024/_doc/1'), true);
+        assert.equal(compileGlob('/logs-*').test('/logs-2024/_doc'), false);
+        assert.equal(compileGlob('/**/_delete_by_query').test('/a/b/_delete_by_query'), true);
+    });
+
+    it('lets a trailing /** match the parent path', () => {
+        const glob = compileGlob('/_snapshot/**');
+        assert.equal(glob.test('/_snapshot'), true);
+        assert.equal(glob.test('/_snapshot/repo/snap'), true);
+        assert.equal(glob.test('/_snapshots'), false);
+    });
+
+    it('treats a backslash as an escape', () => {
+        assert.equal(compileGlob('/\\*').test('/*'), true);
+        assert.equal(compileGlob('/\\*').test('/logs'), false);
+    });
+});
+
+describe('normalizePolicyPath', () => {
+    it('drops the query string, duplicate and trailing slashes and decodes the path', () => {
+        assert.equal(normalizePolicyPath('//_snapshot//repo/?pretty'), '/_snapshot/repo');
+        assert.equal(normalizePolicyPath('_cluster/settings'), '/_cluster/settings');
+        assert.equal(normalizePolicyPath('/%5Fall/_search'), '/_all/_search');
+        assert.equal(normalizePolicyPath('/'), '/');
+    });
+});
+
+describe('evaluateRequestPolicy', () => {
+    it('asks to confirm mutating calls below the built-in admin APIs', async () => {
+        for (const [method, path] of [
+            ['PUT', '/_snapshot/repo/snap'],
+            ['POST', '/_snapshot/repo/snap/_restore'],
+            ['PUT', '/_cluster/settings'],
+            ['PUT', '/_ilm/policy/hot-warm'],
+            ['DELETE', '/_index_template/logs'],
+            ['POST', '/_security/user/alice']
+        ]) {
+            const decision = await evaluateRequestPolicy(null, method, path);
+            assert.equal(decision.action, 'confirm', `${method} ${path}`);
+        }
+    });
+
+    it('denies wiping every index and allows ordinary requests', async () => {
+        assert.equal((await evaluateRequestPolicy(null, 'DELETE', '/*')).action, 'deny');
+        assert.equal((await evaluateRequestPolicy(null, 'POST', '/_all/_delete_by_query')).action, 'deny');
+        assert.equal((await evaluateRequestPolicy(null, 'DELETE', '/logs')).action, 'allow');
+        assert.equal((await evaluateRequestPolicy(null, 'POST', '/logs/_search')).action, 'allow');
+    });
+});
+
+describe('confirmation tokens', () => {
+    const target: RestRequestTarget = { method: 'put', path: '/_cluster/settings', body: { persistent: {} } };
+
+    it('can be redeemed once', () => {
+        const session = makeSession('once');
+        const { token, phrase } = issueConfirmation(session, target, null);
+        assert.equal(consumeConfirmation(session, token, phrase, target), true);
+        assert.equal(consumeConfirmation(session, token, phrase, target), false);
+    });
+
+    it('is bound to the session, method, path, body and phrase', () => {
+        const session = makeSession('bound');
+        const attempts: [ApiSession, string, RestRequestTarget][] = [
+            [makeSession('other'), 'prod', target],
+            [session, 'prod', { ...target, method: 'DELETE' }],
+            [session, 'prod', { ...target, path: '/_cluster/settings/x' }],
+            [session, 'prod', { ...target, body: { transient: {} } }],
+            [session, 'staging', target]
+        ];
+        for (const [caller, phrase, attempt] of attempts) {
+            const { token } = issueConfirmation(session, target, null);
+            assert.equal(consumeConfirmation(caller, token, phrase, attempt), false);
+        }
+    });
+
+    it('expires', (context) => {
+        context.mock.timers.enable({ apis: ['Date'], now: 0 });
+        const session = makeSession('expiry');
+        const { token, phrase } = issueConfirmation(session, target, null);
+        context.mock.timers.tick(2 * 60 * 1000);
+        assert.equal(consumeConfirmation(session, token, phrase, target), false);
+    });
+});
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import {
+    RequestPolicyAction,
+    RequestPolicyRuleInput,
+    getRequestPolicyRules
+} from '../database';
+import { ApiSession } from './session';
+
+// ==================== TYPES ====================
+
+export const REQUEST_POLICY_ACTIONS: RequestPolicyAction[] = ['allow', 'confirm', 'deny'];
+export const REQUEST_POLICY_METHODS = ['*', 'GET', 'POST', 'PUT', 'DELETE', 'HEAD', 'PATCH'];
+export const MAX_REQUEST_POLICY_RULES = 100;
+
+export interface RequestPolicyMatch extends RequestPolicyRuleInput {
+    // Whether the rule came from the connection's policy or the built-in defaults
+    source: 'connection' | 'default';
+}
+
+export interface RequestPolicyDecision {
+    action: RequestPolicyAction;
+    rule: RequestPolicyMatch | null;
+}
+
+export interface RestRequestTarget {
+    method: string;
+    path: string;
+    body: unknown;
+}
+
+export interface RequestConfirmation {
+    token: string;
+    // Text the user has to type back before the request is re-submitted
+    phrase: string;
+    method: string;
+    path: string;
+    rule: RequestPolicyMatch | null;
+    expiresAt: string;
+}
+
+/**
+ * Built-in rules evaluated after a connection's own rules. Cluster-wide admin
+ * APIs need confirmation; wiping every index or shutting nodes down is denied
+ * unless a connection rule explicitly allows it. A trailing `/**` covers the
+ * API root as well as everything below it, e.g. `PUT /_snapshot/repo/snap`.
+ */
+export const DEFAULT_REQUEST_POLICY: RequestPolicyRuleInput[] = [
+    { action: 'deny', method: '*', path_pattern: '/_all/**' },
+    { action: 'deny', method: 'DELETE', path_pattern: '/' },
+    { action: 'deny', method: 'DELETE', path_pattern: '/\\*' },
+    { action: 'deny', method: '*', path_pattern: '/_shutdown' },
+    { action: 'deny', method: '*', path_pattern: '/_nodes/shutdown' },
+    { action: 'confirm', method: '*', path_pattern: '/_cluster/settings/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_security/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_xpack/security/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_snapshot/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_slm/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_ilm/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_license/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_template/**' },
+    { action: 'confirm', method: '*', path_pattern: '/_index_template/**' }
+];
+
+// ==================== MATCHING ====================
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a path glob: `*` matches within one segment, `**` across segments,
+ * `?` one character and a backslash escapes the next character. A trailing
+ * `/**` also matches the parent path itself.
+ */
+export const compileGlob = (pattern: string): RegExp => {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[++i]);
+        } else if (char === '/' && pattern.slice(i) === '/**') {
+            source += '(?:/.*)?';
+            break;
+        } else if (char === '*' && pattern[i + 1] === '*') {
+            source += '.*';
+            i++;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+};
+
+// Compare paths without query string, duplicate slashes, a trailing slash or percent-encoding
+export const normalizePolicyPath = (requestPath: string): string => {
+    let pathOnly = requestPath.split('?')[0];
+    try {
+        pathOnly = decodeURIComponent(pathOnly);
+    } catch {
+        // Keep malformed escapes as typed
+    }
+    const collapsed = `/${pathOnly}`.replace(/\/+/g, '/');
+    return collapsed.length > 1 ? collapsed.replace(/\/$/, '') : collapsed;
+};
+
+const ruleMatches = (rule: RequestPolicyRuleInput, method: string, path: string): boolean =>
+    (rule.method === '*' || rule.method === method) && compileGlob(rule.path_pattern).test(path);
+
+/**
+ * Decide what happens to a REST console request: the connection's rules are
+ * checked in order, then the built-in defaults; the first match wins and
+ * anything unmatched is allowed. Ad-hoc connections only get the defaults.
+ */
+export const evaluateRequestPolicy = async (
+    connectionId: number | null,
+    method: string,
+    requestPath: string
+): Promise<RequestPolicyDecision> => {
+    const normalizedMethod = method.toUpperCase();
+    const path = normalizePolicyPath(requestPath);
+    const connectionRules = connectionId !== null ? await getRequestPolicyRules(connectionId) : [];
+
+    const candidates: RequestPolicyMatch[] = [
+        ...connectionRules.map(({ action, method, path_pattern }) => ({ action, method, path_pattern, source: 'connection' as const })),
+        ...DEFAULT_REQUEST_POLICY.map(rule => ({ ...rule, source: 'default' as const }))
+    ];
+
+    const rule = candidates.find(candidate => ruleMatches(candidate, normalizedMethod, path));
+    return rule ? { action: rule.action, rule } : { action: 'allow', rule: null };
+};
+
+// ==================== VALIDATION ====================
+
+/**
+ * Validate a replacement rule list. On failure `details` is the 1-based number
+ * of the offending rule so the form can point at it.
+ */
+export const validateRequestPolicyRules = (
+    rules: unknown
+): { valid: boolean; error?: string; details?: number; rules?: RequestPolicyRuleInput[] } => {
+    if (!Array.isArray(rules) || rules.length > MAX_REQUEST_POLICY_RULES) {
+        return { valid: false, error: 'POLICY_RULES_INVALID' };
+    }
+
+    const normalized: RequestPolicyRuleInput[] = [];
+    for (const [index, rule] of rules.entries()) {
+        const details = index + 1;
+        if (!rule || typeof rule !== 'object') {
+            return { valid: false, error: 'POLICY_RULES_INVALID', details };
+        }
+        if (!REQUEST_POLICY_ACTIONS.includes(rule.action)) {
+            return { valid: false, error: 'POLICY_ACTION_INVALID', details };
+        }
+
+        const method = typeof rule.method === 'string' ? rule.method.trim().toUpperCase() : '';
+        if (!REQUEST_POLICY_METHODS.includes(method)) {
+            return { valid: false, error: 'POLICY_METHOD_INVALID', details };
+        }
+
+        const pathPattern = typeof rule.path_pattern === 'string' ? rule.path_pattern.trim() : '';
+        if (!pathPattern.startsWith('/') || pathPattern.length > 500) {
+            return { valid: false, error: 'POLICY_PATH_INVALID', details };
+        }
+
+        normalized.push({ action: rule.action, method, path_pattern: pathPattern });
+    }
+
+    return { valid: true, rules: normalized };
+};
+
+// ==================== CONFIRMATION TOKENS ====================
+
+interface PendingConfirmation {
+    sessionId: string;
+    connectionId: number | null;
+    method: string;
+    path: string;
+    bodyHash: string;
+    phrase: string;
+    expiresAt: number;
+}
+
+const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+
+const pendingConfirmations: Map<string, PendingConfirmation> = new Map();
+
+const hashBody = (body: unknown) =>
+    crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+
+const sweepExpiredConfirmations = (now: number) => {
+    for (const [token, pending] of pendingConfirmations) {
+        if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+    }
+};
+
+/**
+ * Issue a one-time token for a request that needs confirmation. The token is
+ * bound to the session, the active connection and the exact request, so it
+ * cannot be replayed for anything else.
+ */
+export const issueConfirmation = (
+    session: ApiSession,
+    target: RestRequestTarget,
+    rule: RequestPolicyMatch | null
+): RequestConfirmation => {
+    const now = Date.now();
+    sweepExpiredConfirmations(now);
+
+    const token = crypto.randomBytes(24).toString('hex');
+    const method = target.method.toUpperCase();
+    const phrase = session.connectionInfo.name || target.path;
+    const expiresAt = now + CONFIRMATION_TTL_MS;
+
+    pendingConfirmations.set(token, {
+        sessionId: session.id,
+        connectionId: session.connectionInfo.id,
+        method,
+        path: target.path,
+        bodyHash: hashBody(target.body),
+        phrase,
+        expiresAt
+    });
+
+    return { token, phrase, method, path: target.path, rule, expiresAt: new Date(expiresAt).toISOString() };
+};
+
+// Redeem a confirmation token; it is spent whether or not it matches
+export const consumeConfirmation = (
+    session: ApiSession,
+    token: unknown,
+    phrase: unknown,
+    target: RestRequestTarget
+): boolean => {
+    if (typeof token !== 'string') return false;
+
+    const pending = pendingConfirmations.get(token);
+    if (!pending) return false;
+    pendingConfirmations.delete(token);
+
+    return pending.expiresAt > Date.now()
+        && pending.sessionId === session.id
+        && pending.connectionId === session.connectionInfo.id
+        && pending.method === target.method.toUpperCase()
+        && pending.path === target.path
+        && pending.bodyHash === hashBody(target.body)
+        && pending.phrase === phrase;
+};
@@ -0,0 +1,92 @@
+import { createRestHistoryEntry, pruneRestHistory, RestHistoryScope } from '../database';
+import { ApiSession } from './session';
+
+// ==================== CONFIGURATION ====================
+
+// Set REST_HISTORY_ENABLED=false to stop recording REST console requests
+const REST_HISTORY_ENABLED = (process.env.REST_HISTORY_ENABLED || 'true').toLowerCase() !== 'false';
+// Requests kept per user and connection (default: 500)
+const REST_HISTORY_MAX_ENTRIES =
+    Math.max(1, parseInt(process.env.REST_HISTORY_MAX_ENTRIES || '500', 10) || 500);
+// Requests older than this are dropped; 0 keeps them until the entry limit is hit (default: 30 days)
+const REST_HISTORY_RETENTION_DAYS =
+    Math.max(0, parseInt(process.env.REST_HISTORY_RETENTION_DAYS || '30', 10) || 0);
+// Request bodies and responses are stored up to this size (default: 64 KB)
+const REST_HISTORY_MAX_PAYLOAD_BYTES =
+    Math.max(1, parseInt(process.env.REST_HISTORY_MAX_PAYLOAD_KB || '64', 10) || 64) * 1024;
+
+export const MAX_REST_HISTORY_PAGE_SIZE = 200;
+
+export interface RestHistorySettings {
+    enabled: boolean;
+    max_entries: number;
+    retention_days: number;
+    max_payload_kb: number;
+}
+
+export const getRestHistorySettings = (): RestHistorySettings => ({
+    enabled: REST_HISTORY_ENABLED,
+    max_entries: REST_HISTORY_MAX_ENTRIES,
+    retention_days: REST_HISTORY_RETENTION_DAYS,
+    max_payload_kb: REST_HISTORY_MAX_PAYLOAD_BYTES / 1024
+});
+
+// History is kept per user and per saved connection
+export const getRestHistoryScope = (session: ApiSession): RestHistoryScope => ({
+    user_id: session.user?.id ?? null,
+    connection_id: session.connectionInfo.id
+});
+
+// ==================== RECORDING ====================
+
+const serialize = (value: unknown): string | null => {
+    if (value === undefined || value === null || value === '') return null;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const truncate = (value: string | null): { text: string | null; truncated: boolean } => {
+    if (value === null) return { text: null, truncated: false };
+    const bytes = Buffer.from(value);
+    if (bytes.length <= REST_HISTORY_MAX_PAYLOAD_BYTES) return { text: value, truncated: false };
+    return { text: bytes.subarray(0, REST_HISTORY_MAX_PAYLOAD_BYTES).toString(), truncated: true };
+};
+
+interface RestExecution {
+    method: string;
+    path: string;
+    body: unknown;
+    statusCode: number;
+    executionTimeMs: number;
+    response: unknown;
+}
+
+/**
+ * Store an executed REST console request and apply the retention limits to the
+ * user's history on that connection. Failures are logged and swallowed so the
+ * response still reaches the client.
+ */
+export const recordRestHistory = async (session: ApiSession, execution: RestExecution): Promise<void> => {
+    if (!REST_HISTORY_ENABLED) return;
+
+    try {
+        const scope = getRestHistoryScope(session);
+        const response = truncate(serialize(execution.response));
+        await createRestHistoryEntry({
+            ...scope,
+            method: execution.method.toUpperCase(),
+            path: execution.path,
+            body: truncate(serialize(execution.body)).text,
+            status_code: execution.statusCode,
+            execution_time_ms: execution.executionTimeMs,
+            response: response.text,
+            response_truncated: response.truncated
+        });
+
+        const before = REST_HISTORY_RETENTION_DAYS > 0
+            ? new Date(Date.now() - REST_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+            : null;
+        await pruneRestHistory(scope, REST_HISTORY_MAX_ENTRIES, before);
+    } catch (error) {
+        console.error('Failed to write REST history:', error);
+    }
+};
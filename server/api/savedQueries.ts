@@ -0,0 +1,322 @@
+import {
+    SavedQuery,
+    SavedSearchQuery,
+    SavedQueryMetadataInput,
+    getAllQueries,
+    getAllSearchQueries,
+    createQuery,
+    updateQuery,
+    createSearchQuery,
+    updateSearchQuery,
+} from '../database';
+
+// ==================== LIMITS ====================
+
+export const MAX_QUERY_NAME_LENGTH = 255;
+export const MAX_QUERY_FOLDER_LENGTH = 100;
+export const MAX_QUERY_TAGS = 20;
+export const MAX_QUERY_TAG_LENGTH = 50;
+export const MAX_QUERY_DESCRIPTION_LENGTH = 1000;
+export const MAX_QUERY_IMPORT_ITEMS = 5000;
+
+// Bump the major version when the file format changes incompatibly
+export const SAVED_QUERIES_EXPORT_VERSION = '1.0';
+
+// ==================== VALIDATION ====================
+
+// Trimmed name, or null when it is missing or too long
+export const normalizeQueryName = (name: unknown): string | null => {
+    if (typeof name !== 'string') return null;
+    const trimmed = name.trim();
+    return trimmed && trimmed.length <= MAX_QUERY_NAME_LENGTH ? trimmed : null;
+};
+
+/**
+ * Validate the connection scope, folder, tags and description of a saved REST or search query.
+ * Only fields present in `body` are returned, so a partial update leaves the
+ * others untouched; an empty folder or description clears it.
+ */
+export const validateSavedQueryMetadata = (
+    body: any
+): { valid: boolean; error?: string; metadata?: SavedQueryMetadataInput } => {
+    const metadata: SavedQueryMetadataInput = {};
+
+    if (body.connection_id !== undefined) {
+        if (body.connection_id !== null && !(Number.isInteger(body.connection_id) && body.connection_id > 0)) {
+            return { valid: false, error: 'QUERY_CONNECTION_INVALID' };
+        }
+        metadata.connection_id = body.connection_id;
+    }
+
+    if (body.folder !== undefined) {
+        if (body.folder !== null && typeof body.folder !== 'string') {
+            return { valid: false, error: 'QUERY_FOLDER_INVALID' };
+        }
+        const folder = (body.folder || '').trim();
+        if (folder.length > MAX_QUERY_FOLDER_LENGTH) {
+            return { valid: false, error: 'QUERY_FOLDER_INVALID' };
+        }
+        metadata.folder = folder || null;
+    }
+
+    if (body.tags !== undefined) {
+        if (!Array.isArray(body.tags) || body.tags.some((tag: unknown) => typeof tag !== 'string')) {
+            return { valid: false, error: 'QUERY_TAGS_INVALID' };
+        }
+        const tags = Array.from(new Set<string>(body.tags.map((tag: string) => tag.trim()).filter(Boolean)));
+        if (tags.length > MAX_QUERY_TAGS || tags.some(tag => tag.length > MAX_QUERY_TAG_LENGTH)) {
+            return { valid: false, error: 'QUERY_TAGS_INVALID' };
+        }
+        metadata.tags = tags;
+    }
+
+    if (body.description !== undefined) {
+        if (body.description !== null && typeof body.description !== 'string') {
+            return { valid: false, error: 'QUERY_DESCRIPTION_INVALID' };
+        }
+        const description = (body.description || '').trim();
+        if (description.length > MAX_QUERY_DESCRIPTION_LENGTH) {
+            return { valid: false, error: 'QUERY_DESCRIPTION_INVALID' };
+        }
+        metadata.description = description || null;
+    }
+
+    return { valid: true, metadata };
+};
+
+// ==================== EXPORT / IMPORT ====================
+
+// Scoped queries carry the connection name, since ids differ between instances
+export interface ExportedSavedQuery {
+    name: string;
+    method: string;
+    path: string;
+    body: string | null;
+    folder: string | null;
+    tags: string[];
+    description: string | null;
+    connection_name: string | null;
+}
+
+export interface ExportedSavedSearchQuery {
+    name: string;
+    index_pattern: string;
+    query: string;
+    sort_field: string | null;
+    sort_order: string | null;
+    ui_state: string | null;
+    folder: string | null;
+    tags: string[];
+    description: string | null;
+    connection_name: string | null;
+}
+
+export interface SavedQueriesExportData {
+    version: string;
+    exportedAt: string;
+    queries: ExportedSavedQuery[];
+    search_queries: ExportedSavedSearchQuery[];
+}
+
+export type QueryImportStrategy = 'skip' | 'rename' | 'overwrite';
+
+export const QUERY_IMPORT_STRATEGIES: QueryImportStrategy[] = ['skip', 'rename', 'overwrite'];
+
+export interface QueryImportItem {
+    kind: 'rest' | 'search';
+    name: string;
+    action: 'create' | 'rename' | 'overwrite' | 'skip' | 'invalid';
+    // Name the query is saved under; differs from `name` when renamed
+    final_name: string;
+    connection_name: string | null;
+    error?: string;
+}
+
+export interface QueryImportResult {
+    imported: number;
+    overwritten: number;
+    skipped: number;
+    invalid: number;
+    items: QueryImportItem[];
+}
+
+const exportMetadata = (query: SavedQuery | SavedSearchQuery, connectionNames: Map<number, string>) => ({
+    folder: query.folder,
+    tags: query.tags,
+    description: query.description,
+    connection_name: query.connection_id !== null ? connectionNames.get(query.connection_id) ?? null : null,
+});
+
+/**
+ * Collect shared queries and those scoped to `connectionNames` (id to name of the
+ * connections the user can see); queries of other connections are left out.
+ */
+export const exportSavedQueries = async (connectionNames: Map<number, string>): Promise<SavedQueriesExportData> => {
+    const visible = (query: SavedQuery | SavedSearchQuery) =>
+        query.connection_id === null || connectionNames.has(query.connection_id);
+
+    const [queries, searchQueries] = await Promise.all([getAllQueries(), getAllSearchQueries()]);
+    return {
+        version: SAVED_QUERIES_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        queries: queries.filter(visible).map(q => ({
+            name: q.name,
+            method: q.method,
+            path: q.path,
+            body: q.body,
+            ...exportMetadata(q, connectionNames),
+        })),
+        search_queries: searchQueries.filter(visible).map(q => ({
+            name: q.name,
+            index_pattern: q.index_pattern,
+            query: q.query,
+            sort_field: q.sort_field,
+            sort_order: q.sort_order,
+            ui_state: q.ui_state,
+            ...exportMetadata(q, connectionNames),
+        })),
+    };
+};
+
+// Shape and version check of an uploaded export file
+export const validateSavedQueriesImport = (data: any): { valid: boolean; error?: string } => {
+    if (!data || typeof data !== 'object' || !Array.isArray(data.queries) || !Array.isArray(data.search_queries)) {
+        return { valid: false, error: 'QUERY_IMPORT_INVALID' };
+    }
+    if (typeof data.version !== 'string'
+        || data.version.split('.')[0] !== SAVED_QUERIES_EXPORT_VERSION.split('.')[0]) {
+        return { valid: false, error: 'QUERY_IMPORT_VERSION_UNSUPPORTED' };
+    }
+    if (data.queries.length + data.search_queries.length > MAX_QUERY_IMPORT_ITEMS) {
+        return { valid: false, error: 'QUERY_IMPORT_TOO_LARGE' };
+    }
+    return { valid: true };
+};
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// Next free "name (n)" for a renamed duplicate
+const uniqueName = (name: string, taken: Map<string, number>): string => {
+    for (let n = 2; ; n++) {
+        const suffix = ` (${n})`;
+        const candidate = name.slice(0, MAX_QUERY_NAME_LENGTH - suffix.length) + suffix;
+        if (!taken.has(candidate)) return candidate;
+    }
+};
+
+/**
+ * Import the queries of an export file, resolving name clashes with `strategy`:
+ * skip the incoming query, save it under a free name, or replace the existing
+ * one. Queries scoped to a connection are scoped to the local connection with
+ * the same name in `connectionIds`, or shared when there is none. Only shared
+ * queries and those on the connections in `connectionIds`, i.e. the ones the
+ * user can see, count as clashes. With `dryRun` nothing is written and the
+ * result is the preview of the import.
+ */
+export const importSavedQueries = async (
+    data: SavedQueriesExportData,
+    strategy: QueryImportStrategy,
+    connectionIds: Map<string, number>,
+    dryRun: boolean
+): Promise<QueryImportResult> => {
+    const result: QueryImportResult = { imported: 0, overwritten: 0, skipped: 0, invalid: 0, items: [] };
+    const visibleIds = new Set(connectionIds.values());
+    const visible = (query: SavedQuery | SavedSearchQuery) =>
+        query.connection_id === null || visibleIds.has(query.connection_id);
+    const [queries, searchQueries] = await Promise.all([getAllQueries(), getAllSearchQueries()]);
+
+    // Name to id per kind; later entries of the file clash with earlier ones too
+    const restNames = new Map(queries.filter(visible).map(q => [q.name, q.id]));
+    const searchNames = new Map(searchQueries.filter(visible).map(q => [q.name, q.id]));
+
+    const importOne = async (
+        kind: QueryImportItem['kind'],
+        entry: any,
+        taken: Map<string, number>,
+        fieldsError: string | null,
+        save: (name: string, metadata: SavedQueryMetadataInput, existingId?: number) => Promise<number>
+    ) => {
+        const name = normalizeQueryName(entry?.name);
+        const metadata = entry && typeof entry === 'object' ? validateSavedQueryMetadata({
+            // Missing fields are cleared, so an overwrite replaces the query as a whole
+            folder: entry.folder ?? null,
+            tags: entry.tags ?? [],
+            description: entry.description ?? null,
+        }) : { valid: false, error: 'QUERY_IMPORT_INVALID' };
+        const connectionName = typeof entry?.connection_name === 'string' ? entry.connection_name : null;
+        const connectionId = connectionName !== null ? connectionIds.get(connectionName) ?? null : null;
+
+        const item: QueryImportItem = {
+            kind,
+            name: name ?? String(entry?.name ?? ''),
+            action: 'create',
+            final_name: name ?? '',
+            connection_name: connectionId !== null ? connectionName : null,
+        };
+        result.items.push(item);
+
+        const error = !name ? 'NAME_REQUIRED' : fieldsError || (!metadata.valid ? metadata.error : null);
+        if (error) {
+            item.action = 'invalid';
+            item.error = error;
+            result.invalid++;
+            return;
+        }
+
+        const existingId = taken.get(name!);
+        if (existingId !== undefined) {
+            item.action = strategy;
+            if (strategy === 'skip') {
+                result.skipped++;
+                return;
+            }
+            if (strategy === 'rename') {
+                item.final_name = uniqueName(name!, taken);
+            }
+        }
+
+        const input = { ...metadata.metadata, connection_id: connectionId };
+        const overwrite = item.action === 'overwrite';
+        const id = dryRun ? existingId ?? -1 : await save(item.final_name, input, overwrite ? existingId : undefined);
+        taken.set(item.final_name, id);
+        if (overwrite) {
+            result.overwritten++;
+        } else {
+            result.imported++;
+        }
+    };
+
+    for (const entry of data.queries) {
+        const valid = entry && typeof entry.method === 'string' && entry.method
+            && typeof entry.path === 'string' && entry.path && isOptionalString(entry.body);
+        await importOne('rest', entry, restNames, valid ? null : 'NAME_METHOD_PATH_REQUIRED', async (name, metadata, existingId) => {
+            const input = { name, method: entry.method, path: entry.path, body: entry.body ?? '', ...metadata };
+            const saved = existingId !== undefined ? await updateQuery(existingId, input) : await createQuery(input);
+            return saved!.id;
+        });
+    }
+
+    for (const entry of data.search_queries) {
+        const valid = entry && typeof entry.index_pattern === 'string' && entry.index_pattern
+            && typeof entry.query === 'string' && entry.query
+            && isOptionalString(entry.sort_field) && isOptionalString(entry.sort_order) && isOptionalString(entry.ui_state);
+        await importOne('search', entry, searchNames, valid ? null : 'MISSING_REQUIRED_FIELDS', async (name, metadata, existingId) => {
+            // Empty strings clear the optional fields when overwriting
+            const input = {
+                name,
+                index_pattern: entry.index_pattern,
+                query: entry.query,
+                sort_field: entry.sort_field ?? '',
+                sort_order: entry.sort_order ?? '',
+                ui_state: entry.ui_state ?? '',
+                ...metadata,
+            };
+            const saved = existingId !== undefined
+                ? await updateSearchQuery(existingId, input)
+                : await createSearchQuery(input);
+            return saved!.id;
+        });
+    }
+
+    return result;
+};
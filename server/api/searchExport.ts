@@ -0,0 +1,183 @@
+import { Client } from '@elastic/elasticsearch';
+import { escapeCsv } from './csv';
+import { withTiebreaker } from './searchPaging';
+
+// ==================== CONFIGURATION ====================
+
+// Documents fetched from Elasticsearch per search_after page (default: 1000)
+const SEARCH_EXPORT_BATCH_SIZE =
+    Math.min(10000, Math.max(1, parseInt(process.env.SEARCH_EXPORT_BATCH_SIZE || '1000', 10) || 1000));
+// How long the point in time stays open between two pages (default: 2m)
+const SEARCH_EXPORT_KEEP_ALIVE = process.env.SEARCH_EXPORT_KEEP_ALIVE || '2m';
+
+export const SEARCH_EXPORT_FORMATS = ['csv', 'ndjson', 'json'] as const;
+
+export type SearchExportFormat = typeof SEARCH_EXPORT_FORMATS[number];
+
+export const isSearchExportFormat = (value: unknown): value is SearchExportFormat =>
+    typeof value === 'string' && (SEARCH_EXPORT_FORMATS as readonly string[]).includes(value);
+
+const CONTENT_TYPES: Record<SearchExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson',
+    json: 'application/json'
+};
+
+export interface SearchExportRequest {
+    index: string;
+    query?: object | null;
+    sort?: unknown;
+    format: SearchExportFormat;
+    // Only used by CSV, the other formats contain the whole document
+    columns: string[];
+}
+
+interface ExportHit {
+    _index: string;
+    _id?: string;
+    _source?: Record<string, any>;
+    sort?: unknown[];
+}
+
+// ==================== FORMATTING ====================
+
+// Fields are looked up as written first, so flattened keys like "a.b" work too
+const getFieldValue = (source: Record<string, any> | undefined, path: string): unknown => {
+    if (!source) return undefined;
+    if (path in source) return source[path];
+    return path.split('.').reduce<any>((current, key) => {
+        return current !== null && typeof current === 'object' ? current[key] : undefined;
+    }, source);
+};
+
+const toCsvCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    // Numbers are written as-is, the formula guard would turn negatives into text
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+        return escapeCsv(value.join(', '));
+    }
+    return escapeCsv(typeof value === 'object' ? JSON.stringify(value) : value);
+};
+
+const toDocument = (hit: ExportHit) => JSON.stringify({ _index: hit._index, _id: hit._id, _source: hit._source });
+
+const formatHeader = (request: SearchExportRequest): string => {
+    if (request.format === 'csv') return ['_id', ...request.columns].map(column => escapeCsv(column)).join(',') + '\n';
+    if (request.format === 'json') return '[';
+    return '';
+};
+
+// Every document ends up on its own line, the client counts lines to report progress
+const formatHit = (request: SearchExportRequest, hit: ExportHit, position: number): string => {
+    if (request.format === 'csv') {
+        const cells = [escapeCsv(hit._id), ...request.columns.map(column => toCsvCell(getFieldValue(hit._source, column)))];
+        return cells.join(',') + '\n';
+    }
+    if (request.format === 'json') return `${position === 0 ? '\n' : ',\n'}${toDocument(hit)}`;
+    return toDocument(hit) + '\n';
+};
+
+const formatFooter = (request: SearchExportRequest, written: number): string => {
+    if (request.format === 'json') return written === 0 ? ']\n' : '\n]\n';
+    return '';
+};
+
+// ==================== STREAMING ====================
+
+export const getSearchExportFileName = (index: string, format: SearchExportFormat) =>
+    `${index.replace(/[^\w.-]+/g, '_')}-${new Date().toISOString().split('T')[0]}.${format}`;
+
+/**
+ * Open a point in time on the index and stream every document matching the query,
+ * one search_after page at a time. The first page is fetched up front so a failing
+ * query surfaces as a normal error response and the total is known before streaming.
+ * The point in time is closed when the stream ends, fails or is cancelled.
+ */
+export const createSearchExport = async (client: Client, request: SearchExportRequest) => {
+    const pit = await client.openPointInTime({ index: request.index, keep_alive: SEARCH_EXPORT_KEEP_ALIVE });
+    let pitId = pit.id;
+    let pitClosed = false;
+
+    const closePit = async () => {
+        if (pitClosed) return;
+        pitClosed = true;
+        try {
+            await client.closePointInTime({ id: pitId });
+        } catch (error) {
+            // It expires on its own after the keep alive
+            console.error('Failed to close point in time:', error);
+        }
+    };
+
+    const sort = withTiebreaker(request.sort);
+    let total = 0;
+    const fetchPage = async (searchAfter?: unknown[]): Promise<ExportHit[]> => {
+        const response = await client.search({
+            body: {
+                size: SEARCH_EXPORT_BATCH_SIZE,
+                query: request.query || { match_all: {} },
+                sort: sort as any,
+                pit: { id: pitId, keep_alive: SEARCH_EXPORT_KEEP_ALIVE },
+                track_total_hits: searchAfter === undefined,
+                ...(searchAfter ? { search_after: searchAfter as any } : {})
+            }
+        });
+        if (response.pit_id) pitId = response.pit_id;
+        if (searchAfter === undefined) {
+            total = typeof response.hits.total === 'number'
+                ? response.hits.total
+                : response.hits.total?.value || 0;
+        }
+        return response.hits.hits as ExportHit[];
+    };
+
+    let hits: ExportHit[];
+    try {
+        hits = await fetchPage();
+    } catch (error) {
+        await closePit();
+        throw error;
+    }
+
+    const encoder = new TextEncoder();
+    let written = 0;
+    let finished = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const header = formatHeader(request);
+            if (header) controller.enqueue(encoder.encode(header));
+        },
+        async pull(controller) {
+            try {
+                if (finished || hits.length === 0) {
+                    const footer = formatFooter(request, written);
+                    if (footer) controller.enqueue(encoder.encode(footer));
+                    controller.close();
+                    await closePit();
+                    return;
+                }
+
+                const chunk = hits.map((hit, i) => formatHit(request, hit, written + i)).join('');
+                controller.enqueue(encoder.encode(chunk));
+                written += hits.length;
+
+                // A short page is the last one
+                if (hits.length < SEARCH_EXPORT_BATCH_SIZE) {
+                    finished = true;
+                } else {
+                    hits = await fetchPage(hits[hits.length - 1].sort);
+                }
+            } catch (error) {
+                await closePit();
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await closePit();
+        }
+    });
+
+    return { stream, total, contentType: CONTENT_TYPES[request.format] };
+};
@@ -0,0 +1,192 @@
+import { Client } from '@elastic/elasticsearch';
+
+// ==================== CONFIGURATION ====================
+
+// Deepest hit reachable with from/size, matching the index.max_result_window default (default: 10000)
+const SEARCH_MAX_RESULT_WINDOW =
+    Math.max(1, parseInt(process.env.SEARCH_MAX_RESULT_WINDOW || '10000', 10) || 10000);
+// How long the point in time of a deep paging search stays open between two pages (default: 5m)
+const SEARCH_PIT_KEEP_ALIVE = process.env.SEARCH_PIT_KEEP_ALIVE || '5m';
+// "true" counts every hit; a number stops counting there and reports a lower bound (default: true)
+const SEARCH_TRACK_TOTAL_HITS = (() => {
+    const value = process.env.SEARCH_TRACK_TOTAL_HITS;
+    if (value === undefined || value === 'true') return true;
+    return parseInt(value, 10) || true;
+})();
+
+// Markers around highlighted terms instead of HTML tags, so document content is never rendered as markup.
+// Must match src/utils/highlight.ts
+const HIGHLIGHT_PRE_TAG = '@@es-highlight@@';
+const HIGHLIGHT_POST_TAG = '@@/es-highlight@@';
+
+export interface SearchPageRequest {
+    index: string;
+    query?: object | null;
+    from: number;
+    size: number;
+    sort?: unknown;
+    // Point in time of the previous page, kept while the user is paging
+    pitId?: string;
+    // Sort values of the last hit of the previous page
+    searchAfter?: unknown[];
+    // Fields to return highlighted fragments for, "*" for every field the query matched
+    highlightFields?: string[];
+}
+
+export interface SearchPageResult {
+    total: number;
+    totalRelation: 'eq' | 'gte';
+    hits: any[];
+    took: number;
+    pitId?: string;
+    // Cursor of the next page
+    searchAfter?: unknown[];
+    // The point in time had expired and was opened again, earlier cursors are no longer valid
+    pitRestarted?: boolean;
+}
+
+// A point in time needs a unique sort, so the shard document order breaks ties
+export const withTiebreaker = (sort: unknown): unknown[] => {
+    const list = sort === undefined || sort === null ? [] : Array.isArray(sort) ? sort : [sort];
+    return [...list, { _shard_doc: 'asc' }];
+};
+
+const buildHighlight = (fields: string[] | undefined) => {
+    if (!fields || fields.length === 0) return {};
+    return {
+        highlight: {
+            pre_tags: [HIGHLIGHT_PRE_TAG],
+            post_tags: [HIGHLIGHT_POST_TAG],
+            fragment_size: 150,
+            number_of_fragments: 3,
+            fields: Object.fromEntries(fields.map(field => [field, {}]))
+        }
+    };
+};
+
+const readTotal = (total: any): { total: number; totalRelation: 'eq' | 'gte' } => {
+    if (typeof total === 'number') return { total, totalRelation: 'eq' };
+    return { total: total?.value || 0, totalRelation: total?.relation === 'gte' ? 'gte' : 'eq' };
+};
+
+const isPitExpired = (error: any): boolean => {
+    const body = error?.meta?.body?.error;
+    const types = [body?.type, ...(body?.root_cause || []).map((cause: any) => cause?.type)];
+    return types.includes('search_context_missing_exception');
+};
+
+// ==================== PAGING ====================
+
+export const closeSearchPit = async (client: Client, id: string) => {
+    try {
+        await client.closePointInTime({ id });
+    } catch (error) {
+        // It expires on its own after the keep alive
+        console.error('Failed to close point in time:', error);
+    }
+};
+
+/**
+ * Fetch a page through a point in time. Without a cursor the hits before the page
+ * are skipped with search_after, without loading their sources, in steps of the
+ * result window.
+ */
+const searchWithPit = async (
+    client: Client,
+    request: SearchPageRequest,
+    existingPitId: string | undefined
+): Promise<SearchPageResult> => {
+    let pitId: string = existingPitId ?? (await client.openPointInTime({ index: request.index, keep_alive: SEARCH_PIT_KEEP_ALIVE })).id;
+    const query = request.query || { match_all: {} };
+    const sort = withTiebreaker(request.sort) as any;
+    let searchAfter: unknown[] | undefined = request.searchAfter;
+    let took = 0;
+
+    try {
+        const pageFits = request.from + request.size <= SEARCH_MAX_RESULT_WINDOW;
+        if (!searchAfter && !pageFits) {
+            let remaining = request.from;
+            while (remaining > 0) {
+                const size = Math.min(remaining, SEARCH_MAX_RESULT_WINDOW);
+                const response = await client.search({
+                    body: {
+                        size,
+                        query,
+                        sort,
+                        _source: false,
+                        track_total_hits: false,
+                        pit: { id: pitId, keep_alive: SEARCH_PIT_KEEP_ALIVE },
+                        ...(searchAfter ? { search_after: searchAfter as any } : {})
+                    }
+                });
+                if (response.pit_id) pitId = response.pit_id;
+                took += response.took;
+                const hits: Array<{ sort?: unknown[] }> = response.hits.hits;
+                if (hits.length === 0) break;
+                searchAfter = hits[hits.length - 1].sort;
+                remaining -= hits.length;
+                if (hits.length < size) break;
+            }
+        }
+
+        const response = await client.search({
+            body: {
+                size: request.size,
+                query,
+                sort,
+                track_total_hits: SEARCH_TRACK_TOTAL_HITS,
+                pit: { id: pitId, keep_alive: SEARCH_PIT_KEEP_ALIVE },
+                ...buildHighlight(request.highlightFields),
+                ...(searchAfter ? { search_after: searchAfter as any } : { from: request.from })
+            }
+        });
+        if (response.pit_id) pitId = response.pit_id;
+        const hits = response.hits.hits;
+
+        return {
+            ...readTotal(response.hits.total),
+            hits,
+            took: took + response.took,
+            pitId,
+            searchAfter: hits.length > 0 ? hits[hits.length - 1].sort : undefined
+        };
+    } catch (error) {
+        // A point in time opened here would otherwise stay open until it expires
+        if (!existingPitId) await closeSearchPit(client, pitId);
+        throw error;
+    }
+};
+
+/**
+ * Search one page of results. Pages inside the result window use from/size; deeper
+ * pages, and every page once a point in time is in use, go through a point in time
+ * with search_after. An expired point in time is opened again transparently.
+ */
+export const searchPage = async (client: Client, request: SearchPageRequest): Promise<SearchPageResult> => {
+    if (!request.pitId && request.from + request.size <= SEARCH_MAX_RESULT_WINDOW) {
+        const response = await client.search({
+            index: request.index,
+            body: {
+                from: request.from,
+                size: request.size,
+                query: request.query || { match_all: {} },
+                track_total_hits: SEARCH_TRACK_TOTAL_HITS,
+                ...buildHighlight(request.highlightFields),
+                ...(request.sort ? { sort: request.sort as any } : {})
+            }
+        });
+        return {
+            ...readTotal(response.hits.total),
+            hits: response.hits.hits,
+            took: response.took
+        };
+    }
+
+    try {
+        return await searchWithPit(client, request, request.pitId);
+    } catch (error) {
+        if (!request.pitId || !isPitExpired(error)) throw error;
+        const result = await searchWithPit(client, { ...request, searchAfter: undefined }, undefined);
+        return { ...result, pitRestarted: true };
+    }
+};
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, persistSession, resolveSession } from './session';
+
+const requestWithCookie = (sessionId?: string) => new NextRequest('http://localhost/api/health', {
+    headers: sessionId ? { cookie: `${SESSION_COOKIE_NAME}=${sessionId}` } : {}
+});
+
+describe('resolveSession', () => {
+    it('does not store the session of a cookieless request', () => {
+        const first = resolveSession(requestWithCookie());
+        assert.equal(first.isNew, true);
+
+        const second = resolveSession(requestWithCookie(first.session.id));
+        assert.equal(second.isNew, true);
+        assert.notEqual(second.session.id, first.session.id);
+    });
+
+    it('returns a persisted session for its cookie', () => {
+        const { session } = resolveSession(requestWithCookie());
+        persistSession(session);
+
+        const resolved = resolveSession(requestWithCookie(session.id));
+        assert.equal(resolved.isNew, false);
+        assert.equal(resolved.session, session);
+    });
+});
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { Client } from '@elastic/elasticsearch';
+import { NextRequest, NextResponse } from 'next/server';
+import { ConnectionRole } from '../database';
+
+// ==================== TYPES ====================
+
+export interface ConnectionInfo {
+    id: number | null;
+    url: string;
+    connected: boolean;
+    name: string;
+    color: string;
+    role: ConnectionRole | null;
+    // Saved connection flagged read-only: every write is refused
+    readOnly: boolean;
+}
+
+export interface SessionUser {
+    id: number;
+    username: string;
+    is_admin: boolean;
+}
+
+export interface ApiSession {
+    id: string;
+    user: SessionUser | null;
+    esClient: Client | null;
+    connectionInfo: ConnectionInfo;
+    lastAccessedAt: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const SESSION_COOKIE_NAME = 'elasticscope_sid';
+
+const SESSION_IDLE_TIMEOUT_MS =
+    parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || '720', 10) * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// ==================== STORE ====================
+
+const sessions: Map<string, ApiSession> = new Map();
+let lastSweepAt = Date.now();
+
+export const emptyConnectionInfo = (): ConnectionInfo => ({
+    id: null,
+    url: '',
+    connected: false,
+    name: '',
+    color: '',
+    role: null,
+    readOnly: false
+});
+
+const closeClient = (client: Client | null) => {
+    if (!client) return;
+    client.close().catch(() => {
+        // Client may already be closed, ignore
+    });
+};
+
+// Drops sessions that have been idle longer than the timeout and closes their clients
+const sweepExpiredSessions = (now: number) => {
+    if (now - lastSweepAt < SESSION_SWEEP_INTERVAL_MS) return;
+    lastSweepAt = now;
+
+    for (const [id, session] of sessions) {
+        if (now - session.lastAccessedAt > SESSION_IDLE_TIMEOUT_MS) {
+            closeClient(session.esClient);
+            sessions.delete(id);
+        }
+    }
+};
+
+const buildSession = (): ApiSession => ({
+    id: crypto.randomBytes(32).toString('hex'),
+    user: null,
+    esClient: null,
+    connectionInfo: emptyConnectionInfo(),
+    lastAccessedAt: Date.now()
+});
+
+// Keep a transient session, e.g. once a cookieless caller connects
+export const persistSession = (session: ApiSession) => {
+    sessions.set(session.id, session);
+};
+
+/**
+ * Resolve the caller's session from its cookie. When the cookie is missing,
+ * unknown or expired the session is transient (`isNew`): it is not stored, so
+ * cookieless traffic such as health checks or rejected requests leaves nothing
+ * behind until the caller persists it and sets the cookie.
+ */
+export const resolveSession = (request: NextRequest): { session: ApiSession; isNew: boolean } => {
+    const now = Date.now();
+    sweepExpiredSessions(now);
+
+    const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing && now - existing.lastAccessedAt <= SESSION_IDLE_TIMEOUT_MS) {
+        existing.lastAccessedAt = now;
+        return { session: existing, isNew: false };
+    }
+
+    if (existing) {
+        closeClient(existing.esClient);
+        sessions.delete(existing.id);
+    }
+
+    return { session: buildSession(), isNew: true };
+};
+
+export const applySessionCookie = (request: NextRequest, response: NextResponse, session: ApiSession) => {
+    response.cookies.set(SESSION_COOKIE_NAME, session.id, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: request.nextUrl.protocol === 'https:',
+        path: '/',
+        maxAge: Math.floor(SESSION_IDLE_TIMEOUT_MS / 1000)
+    });
+};
+
+export const clearSessionCookie = (response: NextResponse) => {
+    response.cookies.set(SESSION_COOKIE_NAME, '', { path: '/', maxAge: 0 });
+};
+
+/**
+ * Replace the given session with a fresh, authenticated one. The session id is
+ * rotated on login so an id planted before authentication cannot be reused.
+ */
+export const startAuthenticatedSession = (previous: ApiSession, user: SessionUser): ApiSession => {
+    destroySession(previous);
+    const session = buildSession();
+    session.user = user;
+    persistSession(session);
+    return session;
+};
+
+export const destroySession = (session: ApiSession) => {
+    closeClient(session.esClient);
+    sessions.delete(session.id);
+};
+
+// Drop every session of a user, e.g. after the account is deleted or its password changes
+export const destroyUserSessions = (userId: number, exceptSessionId?: string) => {
+    for (const session of sessions.values()) {
+        if (session.user?.id === userId && session.id !== exceptSessionId) {
+            destroySession(session);
+        }
+    }
+};
+
+export const setSessionConnection = (session: ApiSession, client: Client, info: ConnectionInfo) => {
+    if (session.esClient && session.esClient !== client) {
+        closeClient(session.esClient);
+    }
+    session.esClient = client;
+    session.connectionInfo = info;
+};
+
+export const clearSessionConnection = (session: ApiSession) => {
+    closeClient(session.esClient);
+    session.esClient = null;
+    session.connectionInfo = emptyConnectionInfo();
+};
+
+// Keep live sessions in sync after an account is renamed or its admin flag changes
+export const updateUserSessions = (user: SessionUser) => {
+    for (const session of sessions.values()) {
+        if (session.user?.id === user.id) {
+            session.user = user;
+        }
+    }
+};
+
+// Disconnect a user's sessions from a saved connection, e.g. after their grant is revoked
+export const clearUserConnectionSessions = (userId: number, connectionId: number) => {
+    for (const session of sessions.values()) {
+        if (session.user?.id === userId && session.connectionInfo.id === connectionId) {
+            clearSessionConnection(session);
+        }
+    }
+};
+
+// Disconnect every session from a saved connection that was deleted or whose settings changed
+export const clearConnectionSessions = (connectionId: number) => {
+    for (const session of sessions.values()) {
+        if (session.connectionInfo.id === connectionId) {
+            clearSessionConnection(session);
+        }
+    }
+};
+
+// Sessions currently connected to a saved connection, without exposing their ids
+export const getConnectionSessions = (connectionId: number): { username: string | null; lastAccessedAt: string }[] => {
+    const result: { username: string | null; lastAccessedAt: string }[] = [];
+    for (const session of sessions.values()) {
+        if (session.connectionInfo.id === connectionId && session.esClient) {
+            result.push({
+                username: session.user?.username ?? null,
+                lastAccessedAt: new Date(session.lastAccessedAt).toISOString()
+            });
+        }
+    }
+    return result;
+};
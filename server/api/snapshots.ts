@@ -0,0 +1,176 @@
+import { Client } from '@elastic/elasticsearch';
+
+// ==================== VALIDATION ====================
+
+// Snapshot names follow the index name rules
+export const validateSnapshotName = (name: unknown): { valid: boolean; error?: string } => {
+    if (!name || typeof name !== 'string') {
+        return { valid: false, error: 'SNAPSHOT_NAME_REQUIRED' };
+    }
+    if (name.length > 255 || /^[-_+]/.test(name) || /[\\/*?"<>|,#:\s]/.test(name) || name !== name.toLowerCase()) {
+        return { valid: false, error: 'SNAPSHOT_NAME_INVALID' };
+    }
+    return { valid: true };
+};
+
+/**
+ * Index names or patterns to snapshot or restore. An empty list is only
+ * accepted when `required` is false, meaning every index of the snapshot.
+ */
+export const validateSnapshotIndices = (
+    indices: unknown,
+    required: boolean
+): { valid: boolean; error?: string; indices?: string[] } => {
+    if (indices === undefined || (Array.isArray(indices) && indices.length === 0)) {
+        return required ? { valid: false, error: 'SNAPSHOT_INDICES_REQUIRED' } : { valid: true, indices: [] };
+    }
+    if (!Array.isArray(indices) || !indices.every(index => typeof index === 'string' && index && !index.includes(','))) {
+        return { valid: false, error: 'SNAPSHOT_INDICES_INVALID' };
+    }
+    return { valid: true, indices };
+};
+
+// Both or neither of the rename settings; the pattern must compile as a regular expression
+export const validateRename = (
+    pattern: unknown,
+    replacement: unknown
+): { valid: boolean; error?: string } => {
+    if (!pattern && !replacement) return { valid: true };
+    if (typeof pattern !== 'string' || !pattern || typeof replacement !== 'string' || !replacement) {
+        return { valid: false, error: 'RENAME_PATTERN_INVALID' };
+    }
+    try {
+        new RegExp(pattern);
+    } catch {
+        return { valid: false, error: 'RENAME_PATTERN_INVALID' };
+    }
+    return { valid: true };
+};
+
+// ==================== SNAPSHOTS ====================
+
+export interface SnapshotRepositorySummary {
+    name: string;
+    type: string;
+    // Filesystem path or bucket, whichever the repository type uses
+    location: string | null;
+}
+
+export interface SnapshotSummary {
+    snapshot: string;
+    uuid: string;
+    state: string;
+    indices: string[];
+    includeGlobalState: boolean;
+    startTime: number | null;
+    endTime: number | null;
+    durationMs: number | null;
+    shards: { total: number; successful: number; failed: number };
+    failures: Array<{ index: string; reason: string }>;
+}
+
+export interface SnapshotProgress {
+    state: string;
+    shards: { done: number; failed: number; total: number };
+    bytes: { processed: number; total: number };
+}
+
+export const listRepositories = async (client: Client): Promise<SnapshotRepositorySummary[]> => {
+    const response: Record<string, any> = await client.snapshot.getRepository();
+    return Object.entries(response)
+        .map(([name, repository]) => ({
+            name,
+            type: repository.type,
+            location: repository.settings?.location ?? repository.settings?.bucket ?? null
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Snapshots of a repository, newest first
+export const listSnapshots = async (client: Client, repository: string): Promise<SnapshotSummary[]> => {
+    const response: any = await client.snapshot.get({ repository, snapshot: '_all' });
+    return (response.snapshots || [])
+        .map((snapshot: any): SnapshotSummary => ({
+            snapshot: snapshot.snapshot,
+            uuid: snapshot.uuid,
+            state: snapshot.state,
+            indices: [...(snapshot.indices || [])].sort(),
+            includeGlobalState: !!snapshot.include_global_state,
+            startTime: snapshot.start_time_in_millis ?? null,
+            endTime: snapshot.end_time_in_millis || null,
+            durationMs: snapshot.duration_in_millis ?? null,
+            shards: {
+                total: snapshot.shards?.total ?? 0,
+                successful: snapshot.shards?.successful ?? 0,
+                failed: snapshot.shards?.failed ?? 0
+            },
+            failures: (snapshot.failures || []).map((failure: any) => ({
+                index: failure.index,
+                reason: failure.reason
+            }))
+        }))
+        .sort((a: SnapshotSummary, b: SnapshotSummary) => (b.startTime ?? 0) - (a.startTime ?? 0));
+};
+
+// Started in the background; follow it with getSnapshotProgress
+export const createSnapshot = (
+    client: Client,
+    repository: string,
+    snapshot: string,
+    indices: string[],
+    includeGlobalState: boolean
+) =>
+    client.snapshot.create({
+        repository,
+        snapshot,
+        indices: indices.join(','),
+        include_global_state: includeGlobalState,
+        wait_for_completion: false
+    });
+
+export const getSnapshotProgress = async (
+    client: Client,
+    repository: string,
+    snapshot: string
+): Promise<SnapshotProgress | null> => {
+    const response: any = await client.snapshot.status({ repository, snapshot });
+    const status = response.snapshots?.[0];
+    if (!status) return null;
+    return {
+        state: status.state,
+        shards: {
+            done: status.shards_stats?.done ?? 0,
+            failed: status.shards_stats?.failed ?? 0,
+            total: status.shards_stats?.total ?? 0
+        },
+        bytes: {
+            processed: status.stats?.processed?.size_in_bytes ?? status.stats?.incremental?.size_in_bytes ?? 0,
+            total: status.stats?.total?.size_in_bytes ?? 0
+        }
+    };
+};
+
+/**
+ * Restore indices of a snapshot in the background. Restored indices must not
+ * exist as open indices, which the rename pattern avoids. The cluster state is
+ * never restored from here.
+ */
+export const restoreSnapshot = (
+    client: Client,
+    repository: string,
+    snapshot: string,
+    options: { indices: string[]; renamePattern?: string; renameReplacement?: string }
+) =>
+    client.snapshot.restore({
+        repository,
+        snapshot,
+        ...(options.indices.length > 0 ? { indices: options.indices.join(',') } : {}),
+        ...(options.renamePattern
+            ? { rename_pattern: options.renamePattern, rename_replacement: options.renameReplacement }
+            : {}),
+        include_global_state: false,
+        wait_for_completion: false
+    });
+
+export const deleteSnapshot = (client: Client, repository: string, snapshot: string) =>
+    client.snapshot.delete({ repository, snapshot });
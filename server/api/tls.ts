@@ -0,0 +1,101 @@
+import { ClientOptions } from '@elastic/elasticsearch';
+import { SavedConnection, decryptPassword } from '../database';
+
+// ==================== TYPES ====================
+
+export interface TlsSettings {
+    verify: boolean;
+    ca: string | null;
+    cert: string | null;
+    key: string | null;
+    caFingerprint: string | null;
+}
+
+// ==================== VALIDATION ====================
+
+const PEM_PATTERN = /-----BEGIN [A-Z0-9 ]+-----[\s\S]+-----END [A-Z0-9 ]+-----/;
+// SHA-256 fingerprint, as printed by `openssl x509 -fingerprint -sha256` or Elasticsearch on first start
+const FINGERPRINT_PATTERN = /^([0-9a-f]{2}:){31}[0-9a-f]{2}$|^[0-9a-f]{64}$/i;
+
+const isPem = (value: unknown): boolean => typeof value === 'string' && PEM_PATTERN.test(value);
+
+/**
+ * Validate the TLS fields of a connection payload. Empty strings are allowed
+ * (they clear the stored value); anything else must be well-formed. On update,
+ * `stored` is the saved connection: fields missing from the payload keep their
+ * stored value, so the checks that span fields look at the merged result.
+ */
+export const validateTlsInput = (input: any, stored?: SavedConnection): { valid: boolean; error?: string } => {
+    if (input.tls_verify !== undefined && typeof input.tls_verify !== 'boolean') {
+        return { valid: false, error: 'TLS_VERIFY_INVALID' };
+    }
+
+    if (input.tls_ca && !isPem(input.tls_ca)) {
+        return { valid: false, error: 'TLS_CA_INVALID' };
+    }
+
+    if (input.tls_cert && !isPem(input.tls_cert)) {
+        return { valid: false, error: 'TLS_CERT_INVALID' };
+    }
+
+    if (input.tls_key && !isPem(input.tls_key)) {
+        return { valid: false, error: 'TLS_KEY_INVALID' };
+    }
+
+    const merged = {
+        tls_cert: input.tls_cert !== undefined ? input.tls_cert : stored?.tls_cert,
+        tls_key: input.tls_key !== undefined ? input.tls_key : stored?.tls_key,
+        tls_ca_fingerprint: input.tls_ca_fingerprint !== undefined ? input.tls_ca_fingerprint : stored?.tls_ca_fingerprint,
+        url: input.url !== undefined ? input.url : stored?.url
+    };
+
+    // mTLS needs both halves; a lone certificate or key is always a mistake
+    if (!!merged.tls_cert !== !!merged.tls_key) {
+        return { valid: false, error: 'TLS_CLIENT_CERT_INCOMPLETE' };
+    }
+
+    if (input.tls_ca_fingerprint && (typeof input.tls_ca_fingerprint !== 'string'
+        || !FINGERPRINT_PATTERN.test(input.tls_ca_fingerprint.trim()))) {
+        return { valid: false, error: 'TLS_FINGERPRINT_INVALID' };
+    }
+
+    // The client refuses a fingerprint for plain http nodes, so reject it before saving
+    if (merged.tls_ca_fingerprint && typeof merged.url === 'string' && merged.url.startsWith('http:')) {
+        return { valid: false, error: 'TLS_FINGERPRINT_REQUIRES_HTTPS' };
+    }
+
+    return { valid: true };
+};
+
+// ==================== CLIENT OPTIONS ====================
+
+// Read the TLS settings of a saved connection, decrypting the stored PEM material
+export const getConnectionTlsSettings = (conn: SavedConnection): TlsSettings => ({
+    verify: conn.tls_verify,
+    ca: conn.tls_ca ? decryptPassword(conn.tls_ca) : null,
+    cert: conn.tls_cert ? decryptPassword(conn.tls_cert) : null,
+    key: conn.tls_key ? decryptPassword(conn.tls_key) : null,
+    caFingerprint: conn.tls_ca_fingerprint
+});
+
+// TLS settings for an ad-hoc /connect request; certificate verification is on unless turned off
+export const parseTlsSettings = (body: any): TlsSettings => ({
+    verify: body.tls_verify !== false,
+    ca: body.tls_ca || null,
+    cert: body.tls_cert || null,
+    key: body.tls_key || null,
+    caFingerprint: body.tls_ca_fingerprint || null
+});
+
+/**
+ * Translate TLS settings into Elasticsearch client options. The CA fingerprint
+ * is checked by the client in addition to (not instead of) chain verification.
+ */
+export const buildTlsClientOptions = (settings: TlsSettings): Pick<ClientOptions, 'tls' | 'caFingerprint'> => ({
+    tls: {
+        rejectUnauthorized: settings.verify,
+        ...(settings.ca && { ca: settings.ca }),
+        ...(settings.cert && settings.key && { cert: settings.cert, key: settings.key })
+    },
+    ...(settings.caFingerprint && { caFingerprint: settings.caFingerprint.trim() })
+});
@@ -0,0 +1,68 @@
+import 'dotenv/config';
+import { initializeDatabase, closeDatabase, reencryptConnectionSecrets } from '../database';
+import {
+    DEFAULT_ENCRYPTION_KEY,
+    decryptWithKey,
+    encryptWithKey,
+    getKeyId,
+    isEncryptedWithKey
+} from '../database/encryption';
+
+/**
+ * Re-encrypt every stored connection secret from OLD_ENCRYPTION_KEY to ENCRYPTION_KEY:
+ *
+ *   OLD_ENCRYPTION_KEY=<current key> ENCRYPTION_KEY=<new key> npm run rotate-encryption-key
+ *
+ * Pass `-- --dry-run` to only check that every secret decrypts with the old key.
+ * The rewrite runs in a single transaction, and values already encrypted with the
+ * new key are skipped, so a failed run can simply be repeated.
+ */
+
+const fail = (message: string): never => {
+    console.error(`❌ ${message}`);
+    process.exit(1);
+};
+
+const main = async () => {
+    const dryRun = process.argv.includes('--dry-run');
+    const oldKey = process.env.OLD_ENCRYPTION_KEY || fail(
+        `OLD_ENCRYPTION_KEY must be set to the key secrets are currently encrypted with `
+        + `(use "${DEFAULT_ENCRYPTION_KEY}" if ENCRYPTION_KEY was never set)`
+    );
+    const newKey = process.env.ENCRYPTION_KEY || fail('ENCRYPTION_KEY must be set to the new key');
+
+    if (newKey === DEFAULT_ENCRYPTION_KEY) {
+        fail('ENCRYPTION_KEY must not be the default key');
+    }
+    if (oldKey === newKey) {
+        fail('OLD_ENCRYPTION_KEY and ENCRYPTION_KEY are the same');
+    }
+
+    await initializeDatabase();
+
+    let pending = 0;
+    const transform = (value: string): string => {
+        if (isEncryptedWithKey(value, newKey)) return value;
+        // Throws when the value was not written with the old key, which rolls the whole run back
+        const plaintext = decryptWithKey(value, oldKey);
+        pending++;
+        return dryRun ? value : encryptWithKey(plaintext, newKey);
+    };
+
+    try {
+        const changed = await reencryptConnectionSecrets(transform);
+        if (dryRun) {
+            console.log(`🔎 ${pending} secret(s) would be re-encrypted with key ${getKeyId(newKey)}`);
+        } else {
+            console.log(`🔑 Re-encrypted ${pending} secret(s) in ${changed} connection(s) with key ${getKeyId(newKey)}`);
+            console.log('   Restart ElasticScope with the new ENCRYPTION_KEY.');
+        }
+    } finally {
+        await closeDatabase();
+    }
+};
+
+main().catch((error) => {
+    console.error(`❌ Key rotation failed, nothing was changed: ${error.message}`);
+    process.exit(1);
+});
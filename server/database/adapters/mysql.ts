@@ -7,9 +7,26 @@ import {
     CreateQueryInput,
     SavedSearchQuery,
     CreateSearchQueryInput,
+    User,
+    CreateUserInput,
+    ConnectionPermission,
+    ConnectionRole,
+    RequestPolicyRule,
+    RequestPolicyRuleInput,
+    AuditLogEntry,
+    CreateAuditLogInput,
+    AuditLogFilter,
+    RestHistoryEntry,
+    RestHistorySummary,
+    CreateRestHistoryInput,
+    RestHistoryScope,
+    RestHistoryFilter,
+    SchemaMigration,
     MySQLConfig
 } from '../types';
-import { encryptPassword } from '../encryption';
+import { Migration, MigrationExecutor, runMigrations } from '../migrations';
+import { parseTags, serializeTags } from '../tags';
+import { ENCRYPTED_CONNECTION_FIELDS, encryptPassword, encryptForUpdate, hashPassword } from '../encryption';
 
 export class MySQLAdapter implements DatabaseAdapter {
     private pool: mysql.Pool | null = null;
@@ -32,56 +49,10 @@ export class MySQLAdapter implements DatabaseAdapter {
             queueLimit: 0,
         });
 
-        // Test connection and create tables
+        // Test connection and migrate the schema
         const connection = await this.pool.getConnection();
         try {
-            // Create connections table
-            await connection.execute(`
-                CREATE TABLE IF NOT EXISTS connections (
-                    id INT AUTO_INCREMENT PRIMARY KEY,
-                    name VARCHAR(255) NOT NULL,
-                    url TEXT NOT NULL,
-                    username VARCHAR(255),
-                    password TEXT,
-                    color VARCHAR(20) DEFAULT '#3b82f6',
-                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-                )
-            `);
-
-            // Create saved_queries table
-            await connection.execute(`
-                CREATE TABLE IF NOT EXISTS saved_queries (
-                    id INT AUTO_INCREMENT PRIMARY KEY,
-                    name VARCHAR(255) NOT NULL,
-                    method VARCHAR(20) NOT NULL,
-                    path TEXT NOT NULL,
-                    body TEXT,
-                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-                )
-            `);
-
-            await connection.execute(`
-                CREATE TABLE IF NOT EXISTS saved_search_queries (
-                    id INT AUTO_INCREMENT PRIMARY KEY,
-                    name VARCHAR(255) NOT NULL,
-                    index_pattern VARCHAR(255) NOT NULL,
-                    query TEXT NOT NULL,
-                    sort_field VARCHAR(255),
-                    sort_order VARCHAR(10),
-                    ui_state TEXT,
-                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-                )
-            `);
-
-            // Add ui_state column if it doesn't exist (for existing databases)
-            try {
-                await connection.execute(`ALTER TABLE saved_search_queries ADD COLUMN ui_state TEXT`);
-            } catch (e) {
-                // Column already exists, ignore
-            }
+            await runMigrations(this.migrationExecutor(connection));
 
             console.log('✅ MySQL database initialized');
         } finally {
@@ -103,6 +74,53 @@ export class MySQLAdapter implements DatabaseAdapter {
         return this.pool;
     }
 
+    private migrationExecutor(connection: mysql.PoolConnection): MigrationExecutor {
+        const record = (migration: Migration) =>
+            connection.execute('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+
+        return {
+            dialect: 'mysql',
+            execute: async (sql) => {
+                await connection.query(sql);
+            },
+            getAppliedMigrations: async () => {
+                const [rows] = await connection.execute('SELECT * FROM schema_migrations ORDER BY version ASC');
+                return (rows as any[]).map(this.mapSchemaMigration);
+            },
+            tableExists: async (table) => {
+                const [rows] = await connection.execute(
+                    'SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?',
+                    [table]
+                );
+                return (rows as any[]).length > 0;
+            },
+            columnExists: async (table, column) => {
+                const [rows] = await connection.execute(
+                    'SELECT 1 FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?',
+                    [table, column]
+                );
+                return (rows as any[]).length > 0;
+            },
+            // DDL commits implicitly in MySQL, so statements are not wrapped in a transaction
+            applyMigration: async (migration, statements) => {
+                for (const sql of statements) {
+                    await connection.query(sql);
+                }
+                await record(migration);
+            },
+            recordMigration: async (migration) => {
+                await record(migration);
+            }
+        };
+    }
+
+    // ==================== SCHEMA MIGRATIONS ====================
+
+    async getSchemaMigrations(): Promise<SchemaMigration[]> {
+        const [rows] = await this.getPool().execute('SELECT * FROM schema_migrations ORDER BY version ASC');
+        return (rows as any[]).map(this.mapSchemaMigration);
+    }
+
     // ==================== CONNECTIONS ====================
 
     async getAllConnections(): Promise<SavedConnection[]> {
@@ -123,14 +141,26 @@ export class MySQLAdapter implements DatabaseAdapter {
 
     async createConnection(input: CreateConnectionInput): Promise<SavedConnection> {
         const [result] = await this.getPool().execute(
-            `INSERT INTO connections (name, url, username, password, color)
-             VALUES (?, ?, ?, ?, ?)`,
+            `INSERT INTO connections (
+                 name, url, cloud_id, auth_type, username, password, auth_token, color,
+                 tls_verify, tls_ca, tls_cert, tls_key, tls_ca_fingerprint, read_only
+             )
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             [
                 input.name,
-                input.url,
+                input.url || '',
+                input.cloud_id || null,
+                input.auth_type || 'basic',
                 input.username || null,
                 input.password ? encryptPassword(input.password) : null,
-                input.color || '#3b82f6'
+                input.auth_token ? encryptPassword(input.auth_token) : null,
+                input.color || '#3b82f6',
+                input.tls_verify !== false,
+                input.tls_ca ? encryptPassword(input.tls_ca) : null,
+                input.tls_cert ? encryptPassword(input.tls_cert) : null,
+                input.tls_key ? encryptPassword(input.tls_key) : null,
+                input.tls_ca_fingerprint || null,
+                !!input.read_only
             ]
         );
 
@@ -154,14 +184,24 @@ export class MySQLAdapter implements DatabaseAdapter {
 
         await this.getPool().execute(
             `UPDATE connections 
-             SET name = ?, url = ?, username = ?, password = ?, color = ?
+             SET name = ?, url = ?, cloud_id = ?, auth_type = ?, username = ?, password = ?, auth_token = ?, color = ?,
+                 tls_verify = ?, tls_ca = ?, tls_cert = ?, tls_key = ?, tls_ca_fingerprint = ?, read_only = ?
              WHERE id = ?`,
             [
                 input.name ?? existing.name,
                 input.url ?? existing.url,
+                input.cloud_id !== undefined ? input.cloud_id || null : existing.cloud_id,
+                input.auth_type ?? existing.auth_type,
                 input.username !== undefined ? input.username : existing.username,
                 passwordValue,
+                encryptForUpdate(input.auth_token, existing.auth_token),
                 input.color ?? existing.color,
+                input.tls_verify ?? existing.tls_verify,
+                encryptForUpdate(input.tls_ca, existing.tls_ca),
+                encryptForUpdate(input.tls_cert, existing.tls_cert),
+                encryptForUpdate(input.tls_key, existing.tls_key),
+                input.tls_ca_fingerprint !== undefined ? input.tls_ca_fingerprint || null : existing.tls_ca_fingerprint,
+                input.read_only ?? existing.read_only,
                 id
             ]
         );
@@ -177,11 +217,42 @@ export class MySQLAdapter implements DatabaseAdapter {
         return (result as mysql.ResultSetHeader).affectedRows > 0;
     }
 
+    async reencryptConnectionSecrets(transform: (value: string) => string): Promise<number> {
+        const columns = ENCRYPTED_CONNECTION_FIELDS.join(', ');
+        const assignments = ENCRYPTED_CONNECTION_FIELDS.map(column => `${column} = ?`).join(', ');
+
+        const connection = await this.getPool().getConnection();
+        try {
+            await connection.beginTransaction();
+            const [rows] = await connection.execute(`SELECT id, ${columns} FROM connections FOR UPDATE`);
+            let changed = 0;
+            for (const row of rows as any[]) {
+                const values = ENCRYPTED_CONNECTION_FIELDS.map(column => row[column] ? transform(row[column]) : row[column]);
+                if (values.some((value, i) => value !== row[ENCRYPTED_CONNECTION_FIELDS[i]])) {
+                    await connection.execute(
+                        `UPDATE connections SET ${assignments} WHERE id = ?`,
+                        [...values, row.id]
+                    );
+                    changed++;
+                }
+            }
+            await connection.commit();
+            return changed;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
     // ==================== QUERIES ====================
 
-    async getAllQueries(): Promise<SavedQuery[]> {
+    async getAllQueries(connectionId?: number | null): Promise<SavedQuery[]> {
+        const scope = this.queryScope(connectionId);
         const [rows] = await this.getPool().execute(
-            'SELECT * FROM saved_queries ORDER BY name ASC'
+            `SELECT * FROM saved_queries${scope.where} ORDER BY name ASC`,
+            scope.params
         );
         return (rows as any[]).map(this.mapQuery);
     }
@@ -197,13 +268,17 @@ export class MySQLAdapter implements DatabaseAdapter {
 
     async createQuery(input: CreateQueryInput): Promise<SavedQuery> {
         const [result] = await this.getPool().execute(
-            `INSERT INTO saved_queries (name, method, path, body)
-             VALUES (?, ?, ?, ?)`,
+            `INSERT INTO saved_queries (connection_id, name, method, path, body, folder, tags, description)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
             [
+                input.connection_id ?? null,
                 input.name,
                 input.method,
                 input.path,
-                input.body || null
+                input.body || null,
+                input.folder || null,
+                serializeTags(input.tags),
+                input.description || null
             ]
         );
 
@@ -221,13 +296,18 @@ export class MySQLAdapter implements DatabaseAdapter {
 
         await this.getPool().execute(
             `UPDATE saved_queries 
-             SET name = ?, method = ?, path = ?, body = ?
+             SET name = ?, method = ?, path = ?, body = ?, folder = ?, tags = ?, description = ?,
+                 connection_id = ?
              WHERE id = ?`,
             [
                 input.name ?? existing.name,
                 input.method ?? existing.method,
                 input.path ?? existing.path,
                 input.body !== undefined ? input.body : existing.body,
+                input.folder !== undefined ? input.folder : existing.folder,
+                serializeTags(input.tags ?? existing.tags),
+                input.description !== undefined ? input.description : existing.description,
+                input.connection_id !== undefined ? input.connection_id : existing.connection_id,
                 id
             ]
         );
@@ -243,27 +323,85 @@ export class MySQLAdapter implements DatabaseAdapter {
         return (result as mysql.ResultSetHeader).affectedRows > 0;
     }
 
+    // updated_at is kept as is so using a query does not count as editing it
+    async markQueryUsed(id: number): Promise<boolean> {
+        const [result] = await this.getPool().execute(
+            'UPDATE saved_queries SET last_used_at = CURRENT_TIMESTAMP, updated_at = updated_at WHERE id = ?',
+            [id]
+        );
+        return (result as mysql.ResultSetHeader).affectedRows > 0;
+    }
+
     // ==================== SEARCH QUERIES ====================
 
-    async getAllSearchQueries(): Promise<SavedSearchQuery[]> {
+    async getAllSearchQueries(connectionId?: number | null): Promise<SavedSearchQuery[]> {
+        const scope = this.queryScope(connectionId);
         const [rows] = await this.getPool().execute<mysql.RowDataPacket[]>(
-            'SELECT * FROM saved_search_queries ORDER BY created_at DESC'
+            `SELECT * FROM saved_search_queries${scope.where} ORDER BY created_at DESC`,
+            scope.params
         );
         return rows.map(this.mapSearchQuery);
     }
 
+    async getSearchQueryById(id: number): Promise<SavedSearchQuery | undefined> {
+        const [rows] = await this.getPool().execute<mysql.RowDataPacket[]>(
+            'SELECT * FROM saved_search_queries WHERE id = ?',
+            [id]
+        );
+        return rows[0] ? this.mapSearchQuery(rows[0]) : undefined;
+    }
+
     async createSearchQuery(input: CreateSearchQueryInput): Promise<SavedSearchQuery> {
         const [result] = await this.getPool().execute<mysql.ResultSetHeader>(
-            `INSERT INTO saved_search_queries (name, index_pattern, query, sort_field, sort_order, ui_state)
-             VALUES (?, ?, ?, ?, ?, ?)`,
-            [input.name, input.index_pattern, input.query, input.sort_field || null, input.sort_order || null, input.ui_state || null]
+            `INSERT INTO saved_search_queries
+                 (connection_id, name, index_pattern, query, sort_field, sort_order, ui_state, folder, tags, description)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                input.connection_id ?? null,
+                input.name,
+                input.index_pattern,
+                input.query,
+                input.sort_field || null,
+                input.sort_order || null,
+                input.ui_state || null,
+                input.folder || null,
+                serializeTags(input.tags),
+                input.description || null
+            ]
         );
 
-        const [rows] = await this.getPool().execute<mysql.RowDataPacket[]>(
-            'SELECT * FROM saved_search_queries WHERE id = ?',
-            [result.insertId]
+        const created = await this.getSearchQueryById(result.insertId);
+        if (!created) {
+            throw new Error('Failed to create search query');
+        }
+        return created;
+    }
+
+    async updateSearchQuery(id: number, input: Partial<CreateSearchQueryInput>): Promise<SavedSearchQuery | undefined> {
+        const existing = await this.getSearchQueryById(id);
+        if (!existing) return undefined;
+
+        await this.getPool().execute(
+            `UPDATE saved_search_queries
+             SET name = ?, index_pattern = ?, query = ?, sort_field = ?, sort_order = ?, ui_state = ?,
+                 folder = ?, tags = ?, description = ?, connection_id = ?
+             WHERE id = ?`,
+            [
+                input.name ?? existing.name,
+                input.index_pattern ?? existing.index_pattern,
+                input.query ?? existing.query,
+                input.sort_field !== undefined ? input.sort_field || null : existing.sort_field,
+                input.sort_order !== undefined ? input.sort_order || null : existing.sort_order,
+                input.ui_state !== undefined ? input.ui_state || null : existing.ui_state,
+                input.folder !== undefined ? input.folder : existing.folder,
+                serializeTags(input.tags ?? existing.tags),
+                input.description !== undefined ? input.description : existing.description,
+                input.connection_id !== undefined ? input.connection_id : existing.connection_id,
+                id
+            ]
         );
-        return this.mapSearchQuery(rows[0]);
+
+        return this.getSearchQueryById(id);
     }
 
     async deleteSearchQuery(id: number): Promise<boolean> {
@@ -274,28 +412,426 @@ export class MySQLAdapter implements DatabaseAdapter {
         return (result as mysql.ResultSetHeader).affectedRows > 0;
     }
 
+    async markSearchQueryUsed(id: number): Promise<boolean> {
+        const [result] = await this.getPool().execute(
+            'UPDATE saved_search_queries SET last_used_at = CURRENT_TIMESTAMP, updated_at = updated_at WHERE id = ?',
+            [id]
+        );
+        return (result as mysql.ResultSetHeader).affectedRows > 0;
+    }
+
+    // ==================== USERS ====================
+
+    async getAllUsers(): Promise<User[]> {
+        const [rows] = await this.getPool().execute(
+            'SELECT * FROM users ORDER BY username ASC'
+        );
+        return (rows as any[]).map(this.mapUser);
+    }
+
+    async getUserById(id: number): Promise<User | undefined> {
+        const [rows] = await this.getPool().execute(
+            'SELECT * FROM users WHERE id = ?',
+            [id]
+        );
+        const results = rows as any[];
+        return results[0] ? this.mapUser(results[0]) : undefined;
+    }
+
+    async getUserByUsername(username: string): Promise<User | undefined> {
+        const [rows] = await this.getPool().execute(
+            'SELECT * FROM users WHERE username = ?',
+            [username]
+        );
+        const results = rows as any[];
+        return results[0] ? this.mapUser(results[0]) : undefined;
+    }
+
+    async countUsers(): Promise<number> {
+        const [rows] = await this.getPool().execute<mysql.RowDataPacket[]>(
+            'SELECT COUNT(*) AS count FROM users'
+        );
+        return Number(rows[0].count);
+    }
+
+    async createUser(input: CreateUserInput): Promise<User> {
+        const [result] = await this.getPool().execute<mysql.ResultSetHeader>(
+            `INSERT INTO users (username, password_hash, is_admin)
+             VALUES (?, ?, ?)`,
+            [input.username, hashPassword(input.password), !!input.is_admin]
+        );
+
+        const created = await this.getUserById(result.insertId);
+        if (!created) {
+            throw new Error('Failed to create user');
+        }
+        return created;
+    }
+
+    async updateUser(id: number, input: Partial<CreateUserInput>): Promise<User | undefined> {
+        const existing = await this.getUserById(id);
+        if (!existing) return undefined;
+
+        await this.getPool().execute(
+            `UPDATE users
+             SET username = ?, password_hash = ?, is_admin = ?
+             WHERE id = ?`,
+            [
+                input.username ?? existing.username,
+                input.password ? hashPassword(input.password) : existing.password_hash,
+                input.is_admin ?? existing.is_admin,
+                id
+            ]
+        );
+
+        return this.getUserById(id);
+    }
+
+    async recordUserLogin(id: number): Promise<void> {
+        await this.getPool().execute(
+            'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [id]
+        );
+    }
+
+    async deleteUser(id: number): Promise<boolean> {
+        const [result] = await this.getPool().execute(
+            'DELETE FROM users WHERE id = ?',
+            [id]
+        );
+        return (result as mysql.ResultSetHeader).affectedRows > 0;
+    }
+
+    // ==================== CONNECTION PERMISSIONS ====================
+
+    async getConnectionPermissionsForUser(userId: number): Promise<ConnectionPermission[]> {
+        const [rows] = await this.getPool().execute(
+            'SELECT * FROM connection_permissions WHERE user_id = ?',
+            [userId]
+        );
+        return (rows as any[]).map(this.mapConnectionPermission);
+    }
+
+    async getConnectionPermission(userId: number, connectionId: number): Promise<ConnectionPermission | undefined> {
+        const [rows] = await this.getPool().execute(
+            'SELECT * FROM connection_permissions WHERE user_id = ? AND connection_id = ?',
+            [userId, connectionId]
+        );
+        const results = rows as any[];
+        return results[0] ? this.mapConnectionPermission(results[0]) : undefined;
+    }
+
+    async setConnectionPermission(userId: number, connectionId: number, role: ConnectionRole): Promise<ConnectionPermission> {
+        await this.getPool().execute(
+            `INSERT INTO connection_permissions (user_id, connection_id, role)
+             VALUES (?, ?, ?)
+             ON DUPLICATE KEY UPDATE role = VALUES(role)`,
+            [userId, connectionId, role]
+        );
+
+        const saved = await this.getConnectionPermission(userId, connectionId);
+        if (!saved) {
+            throw new Error('Failed to save connection permission');
+        }
+        return saved;
+    }
+
+    async deleteConnectionPermission(userId: number, connectionId: number): Promise<boolean> {
+        const [result] = await this.getPool().execute(
+            'DELETE FROM connection_permissions WHERE user_id = ? AND connection_id = ?',
+            [userId, connectionId]
+        );
+        return (result as mysql.ResultSetHeader).affectedRows > 0;
+    }
+
+    // ==================== REQUEST POLICY ====================
+
+    async getRequestPolicyRules(connectionId: number): Promise<RequestPolicyRule[]> {
+        const [rows] = await this.getPool().execute(
+            'SELECT * FROM request_policy_rules WHERE connection_id = ? ORDER BY position ASC',
+            [connectionId]
+        );
+        return (rows as any[]).map(this.mapRequestPolicyRule);
+    }
+
+    async replaceRequestPolicyRules(connectionId: number, rules: RequestPolicyRuleInput[]): Promise<RequestPolicyRule[]> {
+        const connection = await this.getPool().getConnection();
+        try {
+            await connection.beginTransaction();
+            await connection.execute('DELETE FROM request_policy_rules WHERE connection_id = ?', [connectionId]);
+            for (const [position, rule] of rules.entries()) {
+                await connection.execute(
+                    `INSERT INTO request_policy_rules (connection_id, position, action, method, path_pattern)
+                     VALUES (?, ?, ?, ?, ?)`,
+                    [connectionId, position, rule.action, rule.method, rule.path_pattern]
+                );
+            }
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+
+        return this.getRequestPolicyRules(connectionId);
+    }
+
+    // ==================== AUDIT LOG ====================
+
+    async createAuditLog(input: CreateAuditLogInput): Promise<void> {
+        await this.getPool().execute(
+            `INSERT INTO audit_logs (connection_id, connection_name, user_id, username, session_hash, action, method, path, target, body_hash, result, status_code, error)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                input.connection_id,
+                input.connection_name,
+                input.user_id,
+                input.username,
+                input.session_hash,
+                input.action,
+                input.method,
+                input.path,
+                input.target,
+                input.body_hash,
+                input.result,
+                input.status_code,
+                input.error
+            ]
+        );
+    }
+
+    async getAuditLogs(filter: AuditLogFilter): Promise<{ entries: AuditLogEntry[]; total: number }> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (filter.connection_id !== undefined) {
+            conditions.push('connection_id = ?');
+            params.push(filter.connection_id);
+        }
+        if (filter.username) {
+            conditions.push('username = ?');
+            params.push(filter.username);
+        }
+        if (filter.action) {
+            conditions.push('action = ?');
+            params.push(filter.action);
+        }
+        if (filter.result) {
+            conditions.push('result = ?');
+            params.push(filter.result);
+        }
+        if (filter.search) {
+            conditions.push('(target LIKE ? OR path LIKE ?)');
+            params.push(`%${filter.search}%`, `%${filter.search}%`);
+        }
+        if (filter.from) {
+            conditions.push('created_at >= ?');
+            params.push(this.toMySQLDateTime(filter.from));
+        }
+        if (filter.to) {
+            conditions.push('created_at <= ?');
+            params.push(this.toMySQLDateTime(filter.to));
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const [countRows] = await this.getPool().execute<mysql.RowDataPacket[]>(
+            `SELECT COUNT(*) AS count FROM audit_logs ${where}`,
+            params
+        );
+        // LIMIT/OFFSET cannot be bound as prepared-statement parameters in every MySQL version
+        const limit = Math.max(0, Math.floor(filter.limit ?? 50));
+        const offset = Math.max(0, Math.floor(filter.offset ?? 0));
+        const [rows] = await this.getPool().execute(
+            `SELECT * FROM audit_logs ${where} ORDER BY id DESC LIMIT ${limit} OFFSET ${offset}`,
+            params
+        );
+
+        return {
+            entries: (rows as any[]).map(this.mapAuditLog),
+            total: Number(countRows[0].count)
+        };
+    }
+
+    // ==================== REST HISTORY ====================
+
+    async createRestHistoryEntry(input: CreateRestHistoryInput): Promise<void> {
+        await this.getPool().execute(
+            `INSERT INTO rest_history (connection_id, user_id, method, path, body, status_code, execution_time_ms, response, response_truncated)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                input.connection_id,
+                input.user_id,
+                input.method,
+                input.path,
+                input.body,
+                input.status_code,
+                input.execution_time_ms,
+                input.response,
+                input.response_truncated
+            ]
+        );
+    }
+
+    async getRestHistory(filter: RestHistoryFilter): Promise<{ entries: RestHistorySummary[]; total: number }> {
+        const { conditions, params } = this.restHistoryScope(filter);
+        if (filter.search) {
+            conditions.push('(path LIKE ? OR body LIKE ?)');
+            params.push(`%${filter.search}%`, `%${filter.search}%`);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+        const [countRows] = await this.getPool().execute<mysql.RowDataPacket[]>(
+            `SELECT COUNT(*) AS count FROM rest_history ${where}`,
+            params
+        );
+        // LIMIT/OFFSET cannot be bound as prepared-statement parameters in every MySQL version
+        const limit = Math.max(0, Math.floor(filter.limit ?? 50));
+        const offset = Math.max(0, Math.floor(filter.offset ?? 0));
+        const [rows] = await this.getPool().execute(
+            `SELECT id, connection_id, user_id, method, path, body, status_code, execution_time_ms, response_truncated, created_at
+             FROM rest_history ${where} ORDER BY id DESC LIMIT ${limit} OFFSET ${offset}`,
+            params
+        );
+
+        return {
+            entries: (rows as any[]).map(this.mapRestHistory),
+            total: Number(countRows[0].count)
+        };
+    }
+
+    async getRestHistoryEntry(id: number): Promise<RestHistoryEntry | undefined> {
+        const [rows] = await this.getPool().execute<mysql.RowDataPacket[]>(
+            'SELECT * FROM rest_history WHERE id = ?',
+            [id]
+        );
+        return rows[0] ? this.mapRestHistory(rows[0]) as RestHistoryEntry : undefined;
+    }
+
+    async deleteRestHistoryEntry(id: number): Promise<boolean> {
+        const [result] = await this.getPool().execute<mysql.ResultSetHeader>(
+            'DELETE FROM rest_history WHERE id = ?',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    async clearRestHistory(scope: RestHistoryScope): Promise<number> {
+        const { conditions, params } = this.restHistoryScope(scope);
+        const [result] = await this.getPool().execute<mysql.ResultSetHeader>(
+            `DELETE FROM rest_history WHERE ${conditions.join(' AND ')}`,
+            params
+        );
+        return result.affectedRows;
+    }
+
+    async pruneRestHistory(scope: RestHistoryScope, maxEntries: number, before: string | null): Promise<number> {
+        const { conditions, params } = this.restHistoryScope(scope);
+        const where = conditions.join(' AND ');
+        let removed = 0;
+
+        // Newest entry past the limit; it and everything older goes
+        const offset = Math.max(0, Math.floor(maxEntries));
+        const [boundary] = await this.getPool().execute<mysql.RowDataPacket[]>(
+            `SELECT id FROM rest_history WHERE ${where} ORDER BY id DESC LIMIT 1 OFFSET ${offset}`,
+            params
+        );
+        if (boundary[0]) {
+            const [result] = await this.getPool().execute<mysql.ResultSetHeader>(
+                `DELETE FROM rest_history WHERE ${where} AND id <= ?`,
+                [...params, boundary[0].id]
+            );
+            removed += result.affectedRows;
+        }
+        if (before) {
+            const [result] = await this.getPool().execute<mysql.ResultSetHeader>(
+                'DELETE FROM rest_history WHERE created_at < ?',
+                [this.toMySQLDateTime(before)]
+            );
+            removed += result.affectedRows;
+        }
+        return removed;
+    }
+
     // ==================== HELPERS ====================
 
+    private restHistoryScope(scope: RestHistoryScope): { conditions: string[]; params: any[] } {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        for (const column of ['user_id', 'connection_id'] as const) {
+            if (scope[column] === null) {
+                conditions.push(`${column} IS NULL`);
+            } else {
+                conditions.push(`${column} = ?`);
+                params.push(scope[column]);
+            }
+        }
+        return { conditions, params };
+    }
+
+    private mapRestHistory(row: any): RestHistorySummary | RestHistoryEntry {
+        return {
+            id: row.id,
+            connection_id: row.connection_id,
+            user_id: row.user_id,
+            method: row.method,
+            path: row.path,
+            body: row.body,
+            status_code: row.status_code,
+            execution_time_ms: row.execution_time_ms,
+            ...(row.response !== undefined ? { response: row.response } : {}),
+            response_truncated: !!row.response_truncated,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        };
+    }
+
+    private toMySQLDateTime(value: string): string {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 19).replace('T', ' ');
+    }
+
     private mapConnection(row: any): SavedConnection {
         return {
             id: row.id,
             name: row.name,
             url: row.url,
+            cloud_id: row.cloud_id,
+            auth_type: row.auth_type,
             username: row.username,
             password: row.password,
+            auth_token: row.auth_token,
             color: row.color,
+            tls_verify: !!row.tls_verify,
+            tls_ca: row.tls_ca,
+            tls_cert: row.tls_cert,
+            tls_key: row.tls_key,
+            tls_ca_fingerprint: row.tls_ca_fingerprint,
+            read_only: !!row.read_only,
             created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
             updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
         };
     }
 
+    // WHERE clause limiting saved queries to shared ones plus those of `connectionId`
+    private queryScope(connectionId?: number | null): { where: string; params: number[] } {
+        if (connectionId === undefined) return { where: '', params: [] };
+        if (connectionId === null) return { where: ' WHERE connection_id IS NULL', params: [] };
+        return { where: ' WHERE connection_id IS NULL OR connection_id = ?', params: [connectionId] };
+    }
+
     private mapQuery(row: any): SavedQuery {
         return {
             id: row.id,
+            connection_id: row.connection_id ?? null,
             name: row.name,
             method: row.method,
             path: row.path,
             body: row.body,
+            folder: row.folder,
+            tags: parseTags(row.tags),
+            description: row.description,
+            last_used_at: row.last_used_at instanceof Date ? row.last_used_at.toISOString() : row.last_used_at,
             created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
             updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
         };
@@ -304,14 +840,82 @@ export class MySQLAdapter implements DatabaseAdapter {
     private mapSearchQuery(row: any): SavedSearchQuery {
         return {
             id: row.id,
+            connection_id: row.connection_id ?? null,
             name: row.name,
             index_pattern: row.index_pattern,
             query: row.query,
             sort_field: row.sort_field,
             sort_order: row.sort_order,
             ui_state: row.ui_state,
+            folder: row.folder,
+            tags: parseTags(row.tags),
+            description: row.description,
+            last_used_at: row.last_used_at instanceof Date ? row.last_used_at.toISOString() : row.last_used_at,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+            updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
+        };
+    }
+
+    private mapUser(row: any): User {
+        return {
+            id: row.id,
+            username: row.username,
+            password_hash: row.password_hash,
+            is_admin: !!row.is_admin,
+            last_login_at: row.last_login_at instanceof Date ? row.last_login_at.toISOString() : row.last_login_at,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+            updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
+        };
+    }
+
+    private mapConnectionPermission(row: any): ConnectionPermission {
+        return {
+            id: row.id,
+            user_id: row.user_id,
+            connection_id: row.connection_id,
+            role: row.role,
             created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
             updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
         };
     }
+
+    private mapSchemaMigration(row: any): SchemaMigration {
+        return {
+            version: row.version,
+            name: row.name,
+            applied_at: row.applied_at instanceof Date ? row.applied_at.toISOString() : row.applied_at,
+        };
+    }
+
+    private mapRequestPolicyRule(row: any): RequestPolicyRule {
+        return {
+            id: row.id,
+            connection_id: row.connection_id,
+            position: row.position,
+            action: row.action,
+            method: row.method,
+            path_pattern: row.path_pattern,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        };
+    }
+
+    private mapAuditLog(row: any): AuditLogEntry {
+        return {
+            id: row.id,
+            connection_id: row.connection_id,
+            connection_name: row.connection_name,
+            user_id: row.user_id,
+            username: row.username,
+            session_hash: row.session_hash,
+            action: row.action,
+            method: row.method,
+            path: row.path,
+            target: row.target,
+            body_hash: row.body_hash,
+            result: row.result,
+            status_code: row.status_code,
+            error: row.error,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        };
+    }
 }
@@ -7,9 +7,26 @@ import {
     CreateQueryInput,
     SavedSearchQuery,
     CreateSearchQueryInput,
+    User,
+    CreateUserInput,
+    ConnectionPermission,
+    ConnectionRole,
+    RequestPolicyRule,
+    RequestPolicyRuleInput,
+    AuditLogEntry,
+    CreateAuditLogInput,
+    AuditLogFilter,
+    RestHistoryEntry,
+    RestHistorySummary,
+    CreateRestHistoryInput,
+    RestHistoryScope,
+    RestHistoryFilter,
+    SchemaMigration,
     PostgreSQLConfig
 } from '../types';
-import { encryptPassword } from '../encryption';
+import { Migration, MigrationExecutor, runMigrations } from '../migrations';
+import { parseTags, serializeTags } from '../tags';
+import { ENCRYPTED_CONNECTION_FIELDS, encryptPassword, encryptForUpdate, hashPassword } from '../encryption';
 
 const { Pool } = pg;
 
@@ -34,58 +51,10 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
             connectionTimeoutMillis: 2000,
         });
 
-        // Test connection
+        // Test connection and migrate the schema
         const client = await this.pool.connect();
         try {
-            // Create connections table
-            await client.query(`
-                CREATE TABLE IF NOT EXISTS connections (
-                    id SERIAL PRIMARY KEY,
-                    name VARCHAR(255) NOT NULL,
-                    url TEXT NOT NULL,
-                    username VARCHAR(255),
-                    password TEXT,
-                    color VARCHAR(20) DEFAULT '#3b82f6',
-                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-                )
-            `);
-
-            // Create saved_queries table
-            await client.query(`
-                CREATE TABLE IF NOT EXISTS saved_queries (
-                    id SERIAL PRIMARY KEY,
-                    name VARCHAR(255) NOT NULL,
-                    method VARCHAR(20) NOT NULL,
-                    path TEXT NOT NULL,
-                    body TEXT,
-                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-                )
-            `);
-
-            await client.query(`
-                CREATE TABLE IF NOT EXISTS saved_search_queries (
-                    id SERIAL PRIMARY KEY,
-                    name VARCHAR(255) NOT NULL,
-                    index_pattern VARCHAR(255) NOT NULL,
-                    query TEXT NOT NULL,
-                    sort_field VARCHAR(255),
-                    sort_order VARCHAR(10),
-                    ui_state TEXT,
-                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-                )
-            `);
-
-            // Add ui_state column if it doesn't exist (for existing databases)
-            await client.query(`
-                DO $$ BEGIN
-                    ALTER TABLE saved_search_queries ADD COLUMN ui_state TEXT;
-                EXCEPTION
-                    WHEN duplicate_column THEN NULL;
-                END $$;
-            `);
+            await runMigrations(this.migrationExecutor(client));
 
             console.log('✅ PostgreSQL database initialized');
         } finally {
@@ -107,6 +76,59 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         return this.pool;
     }
 
+    private migrationExecutor(client: pg.PoolClient): MigrationExecutor {
+        const record = (migration: Migration) =>
+            client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+
+        return {
+            dialect: 'postgresql',
+            execute: async (sql) => {
+                await client.query(sql);
+            },
+            getAppliedMigrations: async () => {
+                const result = await client.query('SELECT * FROM schema_migrations ORDER BY version ASC');
+                return result.rows.map(this.mapSchemaMigration);
+            },
+            tableExists: async (table) => {
+                const result = await client.query(
+                    'SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = $1',
+                    [table]
+                );
+                return result.rows.length > 0;
+            },
+            columnExists: async (table, column) => {
+                const result = await client.query(
+                    'SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2',
+                    [table, column]
+                );
+                return result.rows.length > 0;
+            },
+            applyMigration: async (migration, statements) => {
+                try {
+                    await client.query('BEGIN');
+                    for (const sql of statements) {
+                        await client.query(sql);
+                    }
+                    await record(migration);
+                    await client.query('COMMIT');
+                } catch (error) {
+                    await client.query('ROLLBACK');
+                    throw error;
+                }
+            },
+            recordMigration: async (migration) => {
+                await record(migration);
+            }
+        };
+    }
+
+    // ==================== SCHEMA MIGRATIONS ====================
+
+    async getSchemaMigrations(): Promise<SchemaMigration[]> {
+        const result = await this.getPool().query('SELECT * FROM schema_migrations ORDER BY version ASC');
+        return result.rows.map(this.mapSchemaMigration);
+    }
+
     // ==================== CONNECTIONS ====================
 
     async getAllConnections(): Promise<SavedConnection[]> {
@@ -126,15 +148,27 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     async createConnection(input: CreateConnectionInput): Promise<SavedConnection> {
         const result = await this.getPool().query(
-            `INSERT INTO connections (name, url, username, password, color)
-             VALUES ($1, $2, $3, $4, $5)
+            `INSERT INTO connections (
+                 name, url, cloud_id, auth_type, username, password, auth_token, color,
+                 tls_verify, tls_ca, tls_cert, tls_key, tls_ca_fingerprint, read_only
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
              RETURNING *`,
             [
                 input.name,
-                input.url,
+                input.url || '',
+                input.cloud_id || null,
+                input.auth_type || 'basic',
                 input.username || null,
                 input.password ? encryptPassword(input.password) : null,
-                input.color || '#3b82f6'
+                input.auth_token ? encryptPassword(input.auth_token) : null,
+                input.color || '#3b82f6',
+                input.tls_verify !== false,
+                input.tls_ca ? encryptPassword(input.tls_ca) : null,
+                input.tls_cert ? encryptPassword(input.tls_cert) : null,
+                input.tls_key ? encryptPassword(input.tls_key) : null,
+                input.tls_ca_fingerprint || null,
+                !!input.read_only
             ]
         );
         return this.mapConnection(result.rows[0]);
@@ -152,15 +186,26 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
         const result = await this.getPool().query(
             `UPDATE connections 
-             SET name = $1, url = $2, username = $3, password = $4, color = $5, updated_at = CURRENT_TIMESTAMP
-             WHERE id = $6
+             SET name = $1, url = $2, cloud_id = $3, auth_type = $4, username = $5, password = $6, auth_token = $7, color = $8,
+                 tls_verify = $9, tls_ca = $10, tls_cert = $11, tls_key = $12, tls_ca_fingerprint = $13,
+                 read_only = $14, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $15
              RETURNING *`,
             [
                 input.name ?? existing.name,
                 input.url ?? existing.url,
+                input.cloud_id !== undefined ? input.cloud_id || null : existing.cloud_id,
+                input.auth_type ?? existing.auth_type,
                 input.username !== undefined ? input.username : existing.username,
                 passwordValue,
+                encryptForUpdate(input.auth_token, existing.auth_token),
                 input.color ?? existing.color,
+                input.tls_verify ?? existing.tls_verify,
+                encryptForUpdate(input.tls_ca, existing.tls_ca),
+                encryptForUpdate(input.tls_cert, existing.tls_cert),
+                encryptForUpdate(input.tls_key, existing.tls_key),
+                input.tls_ca_fingerprint !== undefined ? input.tls_ca_fingerprint || null : existing.tls_ca_fingerprint,
+                input.read_only ?? existing.read_only,
                 id
             ]
         );
@@ -176,11 +221,42 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         return (result.rowCount ?? 0) > 0;
     }
 
+    async reencryptConnectionSecrets(transform: (value: string) => string): Promise<number> {
+        const columns = ENCRYPTED_CONNECTION_FIELDS.join(', ');
+        const assignments = ENCRYPTED_CONNECTION_FIELDS.map((column, i) => `${column} = $${i + 1}`).join(', ');
+
+        const client = await this.getPool().connect();
+        try {
+            await client.query('BEGIN');
+            const result = await client.query(`SELECT id, ${columns} FROM connections FOR UPDATE`);
+            let changed = 0;
+            for (const row of result.rows) {
+                const values = ENCRYPTED_CONNECTION_FIELDS.map(column => row[column] ? transform(row[column]) : row[column]);
+                if (values.some((value, i) => value !== row[ENCRYPTED_CONNECTION_FIELDS[i]])) {
+                    await client.query(
+                        `UPDATE connections SET ${assignments} WHERE id = $${values.length + 1}`,
+                        [...values, row.id]
+                    );
+                    changed++;
+                }
+            }
+            await client.query('COMMIT');
+            return changed;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
     // ==================== QUERIES ====================
 
-    async getAllQueries(): Promise<SavedQuery[]> {
+    async getAllQueries(connectionId?: number | null): Promise<SavedQuery[]> {
+        const scope = this.queryScope(connectionId);
         const result = await this.getPool().query(
-            'SELECT * FROM saved_queries ORDER BY name ASC'
+            `SELECT * FROM saved_queries${scope.where} ORDER BY name ASC`,
+            scope.params
         );
         return result.rows.map(this.mapQuery);
     }
@@ -195,14 +271,18 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
     async createQuery(input: CreateQueryInput): Promise<SavedQuery> {
         const result = await this.getPool().query(
-            `INSERT INTO saved_queries (name, method, path, body)
-             VALUES ($1, $2, $3, $4)
+            `INSERT INTO saved_queries (connection_id, name, method, path, body, folder, tags, description)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
              RETURNING *`,
             [
+                input.connection_id ?? null,
                 input.name,
                 input.method,
                 input.path,
-                input.body || null
+                input.body || null,
+                input.folder || null,
+                serializeTags(input.tags),
+                input.description || null
             ]
         );
         return this.mapQuery(result.rows[0]);
@@ -214,14 +294,19 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
 
         const result = await this.getPool().query(
             `UPDATE saved_queries 
-             SET name = $1, method = $2, path = $3, body = $4, updated_at = CURRENT_TIMESTAMP
-             WHERE id = $5
+             SET name = $1, method = $2, path = $3, body = $4, folder = $5, tags = $6, description = $7,
+                 connection_id = $8, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $9
              RETURNING *`,
             [
                 input.name ?? existing.name,
                 input.method ?? existing.method,
                 input.path ?? existing.path,
                 input.body !== undefined ? input.body : existing.body,
+                input.folder !== undefined ? input.folder : existing.folder,
+                serializeTags(input.tags ?? existing.tags),
+                input.description !== undefined ? input.description : existing.description,
+                input.connection_id !== undefined ? input.connection_id : existing.connection_id,
                 id
             ]
         );
@@ -237,25 +322,83 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         return (result.rowCount ?? 0) > 0;
     }
 
+    async markQueryUsed(id: number): Promise<boolean> {
+        const result = await this.getPool().query(
+            'UPDATE saved_queries SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [id]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
     // ==================== SEARCH QUERIES ====================
 
-    async getAllSearchQueries(): Promise<SavedSearchQuery[]> {
+    async getAllSearchQueries(connectionId?: number | null): Promise<SavedSearchQuery[]> {
+        const scope = this.queryScope(connectionId);
         const result = await this.getPool().query(
-            'SELECT * FROM saved_search_queries ORDER BY created_at DESC'
+            `SELECT * FROM saved_search_queries${scope.where} ORDER BY created_at DESC`,
+            scope.params
         );
         return result.rows.map(this.mapSearchQuery);
     }
 
+    async getSearchQueryById(id: number): Promise<SavedSearchQuery | undefined> {
+        const result = await this.getPool().query(
+            'SELECT * FROM saved_search_queries WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] ? this.mapSearchQuery(result.rows[0]) : undefined;
+    }
+
     async createSearchQuery(input: CreateSearchQueryInput): Promise<SavedSearchQuery> {
         const result = await this.getPool().query(
-            `INSERT INTO saved_search_queries (name, index_pattern, query, sort_field, sort_order, ui_state)
-             VALUES ($1, $2, $3, $4, $5, $6)
+            `INSERT INTO saved_search_queries
+                 (connection_id, name, index_pattern, query, sort_field, sort_order, ui_state, folder, tags, description)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
              RETURNING *`,
-            [input.name, input.index_pattern, input.query, input.sort_field || null, input.sort_order || null, input.ui_state || null]
+            [
+                input.connection_id ?? null,
+                input.name,
+                input.index_pattern,
+                input.query,
+                input.sort_field || null,
+                input.sort_order || null,
+                input.ui_state || null,
+                input.folder || null,
+                serializeTags(input.tags),
+                input.description || null
+            ]
         );
         return this.mapSearchQuery(result.rows[0]);
     }
 
+    async updateSearchQuery(id: number, input: Partial<CreateSearchQueryInput>): Promise<SavedSearchQuery | undefined> {
+        const existing = await this.getSearchQueryById(id);
+        if (!existing) return undefined;
+
+        const result = await this.getPool().query(
+            `UPDATE saved_search_queries
+             SET name = $1, index_pattern = $2, query = $3, sort_field = $4, sort_order = $5, ui_state = $6,
+                 folder = $7, tags = $8, description = $9, connection_id = $10, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $11
+             RETURNING *`,
+            [
+                input.name ?? existing.name,
+                input.index_pattern ?? existing.index_pattern,
+                input.query ?? existing.query,
+                input.sort_field !== undefined ? input.sort_field || null : existing.sort_field,
+                input.sort_order !== undefined ? input.sort_order || null : existing.sort_order,
+                input.ui_state !== undefined ? input.ui_state || null : existing.ui_state,
+                input.folder !== undefined ? input.folder : existing.folder,
+                serializeTags(input.tags ?? existing.tags),
+                input.description !== undefined ? input.description : existing.description,
+                input.connection_id !== undefined ? input.connection_id : existing.connection_id,
+                id
+            ]
+        );
+
+        return result.rows[0] ? this.mapSearchQuery(result.rows[0]) : undefined;
+    }
+
     async deleteSearchQuery(id: number): Promise<boolean> {
         const result = await this.getPool().query(
             'DELETE FROM saved_search_queries WHERE id = $1',
@@ -264,28 +407,383 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         return (result.rowCount ?? 0) > 0;
     }
 
+    async markSearchQueryUsed(id: number): Promise<boolean> {
+        const result = await this.getPool().query(
+            'UPDATE saved_search_queries SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [id]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    // ==================== USERS ====================
+
+    async getAllUsers(): Promise<User[]> {
+        const result = await this.getPool().query(
+            'SELECT * FROM users ORDER BY username ASC'
+        );
+        return result.rows.map(this.mapUser);
+    }
+
+    async getUserById(id: number): Promise<User | undefined> {
+        const result = await this.getPool().query(
+            'SELECT * FROM users WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
+    }
+
+    async getUserByUsername(username: string): Promise<User | undefined> {
+        const result = await this.getPool().query(
+            'SELECT * FROM users WHERE username = $1',
+            [username]
+        );
+        return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
+    }
+
+    async countUsers(): Promise<number> {
+        const result = await this.getPool().query('SELECT COUNT(*) AS count FROM users');
+        return parseInt(result.rows[0].count, 10);
+    }
+
+    async createUser(input: CreateUserInput): Promise<User> {
+        const result = await this.getPool().query(
+            `INSERT INTO users (username, password_hash, is_admin)
+             VALUES ($1, $2, $3)
+             RETURNING *`,
+            [input.username, hashPassword(input.password), !!input.is_admin]
+        );
+        return this.mapUser(result.rows[0]);
+    }
+
+    async updateUser(id: number, input: Partial<CreateUserInput>): Promise<User | undefined> {
+        const existing = await this.getUserById(id);
+        if (!existing) return undefined;
+
+        const result = await this.getPool().query(
+            `UPDATE users
+             SET username = $1, password_hash = $2, is_admin = $3, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $4
+             RETURNING *`,
+            [
+                input.username ?? existing.username,
+                input.password ? hashPassword(input.password) : existing.password_hash,
+                input.is_admin ?? existing.is_admin,
+                id
+            ]
+        );
+
+        return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
+    }
+
+    async recordUserLogin(id: number): Promise<void> {
+        await this.getPool().query(
+            'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [id]
+        );
+    }
+
+    async deleteUser(id: number): Promise<boolean> {
+        const result = await this.getPool().query(
+            'DELETE FROM users WHERE id = $1',
+            [id]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    // ==================== CONNECTION PERMISSIONS ====================
+
+    async getConnectionPermissionsForUser(userId: number): Promise<ConnectionPermission[]> {
+        const result = await this.getPool().query(
+            'SELECT * FROM connection_permissions WHERE user_id = $1',
+            [userId]
+        );
+        return result.rows.map(this.mapConnectionPermission);
+    }
+
+    async getConnectionPermission(userId: number, connectionId: number): Promise<ConnectionPermission | undefined> {
+        const result = await this.getPool().query(
+            'SELECT * FROM connection_permissions WHERE user_id = $1 AND connection_id = $2',
+            [userId, connectionId]
+        );
+        return result.rows[0] ? this.mapConnectionPermission(result.rows[0]) : undefined;
+    }
+
+    async setConnectionPermission(userId: number, connectionId: number, role: ConnectionRole): Promise<ConnectionPermission> {
+        const result = await this.getPool().query(
+            `INSERT INTO connection_permissions (user_id, connection_id, role)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (user_id, connection_id)
+             DO UPDATE SET role = EXCLUDED.role, updated_at = CURRENT_TIMESTAMP
+             RETURNING *`,
+            [userId, connectionId, role]
+        );
+        return this.mapConnectionPermission(result.rows[0]);
+    }
+
+    async deleteConnectionPermission(userId: number, connectionId: number): Promise<boolean> {
+        const result = await this.getPool().query(
+            'DELETE FROM connection_permissions WHERE user_id = $1 AND connection_id = $2',
+            [userId, connectionId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    // ==================== REQUEST POLICY ====================
+
+    async getRequestPolicyRules(connectionId: number): Promise<RequestPolicyRule[]> {
+        const result = await this.getPool().query(
+            'SELECT * FROM request_policy_rules WHERE connection_id = $1 ORDER BY position ASC',
+            [connectionId]
+        );
+        return result.rows.map(this.mapRequestPolicyRule);
+    }
+
+    async replaceRequestPolicyRules(connectionId: number, rules: RequestPolicyRuleInput[]): Promise<RequestPolicyRule[]> {
+        const client = await this.getPool().connect();
+        try {
+            await client.query('BEGIN');
+            await client.query('DELETE FROM request_policy_rules WHERE connection_id = $1', [connectionId]);
+            const saved: RequestPolicyRule[] = [];
+            for (const [position, rule] of rules.entries()) {
+                const result = await client.query(
+                    `INSERT INTO request_policy_rules (connection_id, position, action, method, path_pattern)
+                     VALUES ($1, $2, $3, $4, $5)
+                     RETURNING *`,
+                    [connectionId, position, rule.action, rule.method, rule.path_pattern]
+                );
+                saved.push(this.mapRequestPolicyRule(result.rows[0]));
+            }
+            await client.query('COMMIT');
+            return saved;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    // ==================== AUDIT LOG ====================
+
+    async createAuditLog(input: CreateAuditLogInput): Promise<void> {
+        await this.getPool().query(
+            `INSERT INTO audit_logs (connection_id, connection_name, user_id, username, session_hash, action, method, path, target, body_hash, result, status_code, error)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+            [
+                input.connection_id,
+                input.connection_name,
+                input.user_id,
+                input.username,
+                input.session_hash,
+                input.action,
+                input.method,
+                input.path,
+                input.target,
+                input.body_hash,
+                input.result,
+                input.status_code,
+                input.error
+            ]
+        );
+    }
+
+    async getAuditLogs(filter: AuditLogFilter): Promise<{ entries: AuditLogEntry[]; total: number }> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        const add = (condition: (placeholder: string) => string, value: any) => {
+            params.push(value);
+            conditions.push(condition(`$${params.length}`));
+        };
+
+        if (filter.connection_id !== undefined) add(p => `connection_id = ${p}`, filter.connection_id);
+        if (filter.username) add(p => `username = ${p}`, filter.username);
+        if (filter.action) add(p => `action = ${p}`, filter.action);
+        if (filter.result) add(p => `result = ${p}`, filter.result);
+        if (filter.search) add(p => `(target LIKE ${p} OR path LIKE ${p})`, `%${filter.search}%`);
+        if (filter.from) add(p => `created_at >= ${p}`, filter.from);
+        if (filter.to) add(p => `created_at <= ${p}`, filter.to);
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const countResult = await this.getPool().query(
+            `SELECT COUNT(*) AS count FROM audit_logs ${where}`,
+            params
+        );
+        const result = await this.getPool().query(
+            `SELECT * FROM audit_logs ${where}
+             ORDER BY id DESC
+             LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, filter.limit ?? 50, filter.offset ?? 0]
+        );
+
+        return {
+            entries: result.rows.map(this.mapAuditLog),
+            total: parseInt(countResult.rows[0].count, 10)
+        };
+    }
+
+    // ==================== REST HISTORY ====================
+
+    async createRestHistoryEntry(input: CreateRestHistoryInput): Promise<void> {
+        await this.getPool().query(
+            `INSERT INTO rest_history (connection_id, user_id, method, path, body, status_code, execution_time_ms, response, response_truncated)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [
+                input.connection_id,
+                input.user_id,
+                input.method,
+                input.path,
+                input.body,
+                input.status_code,
+                input.execution_time_ms,
+                input.response,
+                input.response_truncated
+            ]
+        );
+    }
+
+    async getRestHistory(filter: RestHistoryFilter): Promise<{ entries: RestHistorySummary[]; total: number }> {
+        const { conditions, params } = this.restHistoryScope(filter);
+        if (filter.search) {
+            params.push(`%${filter.search}%`);
+            conditions.push(`(path ILIKE $${params.length} OR body ILIKE $${params.length})`);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+        const countResult = await this.getPool().query(
+            `SELECT COUNT(*) AS count FROM rest_history ${where}`,
+            params
+        );
+        const result = await this.getPool().query(
+            `SELECT id, connection_id, user_id, method, path, body, status_code, execution_time_ms, response_truncated, created_at
+             FROM rest_history ${where}
+             ORDER BY id DESC
+             LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, filter.limit ?? 50, filter.offset ?? 0]
+        );
+
+        return {
+            entries: result.rows.map(this.mapRestHistory),
+            total: parseInt(countResult.rows[0].count, 10)
+        };
+    }
+
+    async getRestHistoryEntry(id: number): Promise<RestHistoryEntry | undefined> {
+        const result = await this.getPool().query('SELECT * FROM rest_history WHERE id = $1', [id]);
+        return result.rows[0] ? this.mapRestHistory(result.rows[0]) as RestHistoryEntry : undefined;
+    }
+
+    async deleteRestHistoryEntry(id: number): Promise<boolean> {
+        const result = await this.getPool().query('DELETE FROM rest_history WHERE id = $1', [id]);
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    async clearRestHistory(scope: RestHistoryScope): Promise<number> {
+        const { conditions, params } = this.restHistoryScope(scope);
+        const result = await this.getPool().query(
+            `DELETE FROM rest_history WHERE ${conditions.join(' AND ')}`,
+            params
+        );
+        return result.rowCount ?? 0;
+    }
+
+    async pruneRestHistory(scope: RestHistoryScope, maxEntries: number, before: string | null): Promise<number> {
+        const { conditions, params } = this.restHistoryScope(scope);
+        const where = conditions.join(' AND ');
+        let removed = 0;
+
+        // Newest entry past the limit; it and everything older goes
+        const boundary = await this.getPool().query(
+            `SELECT id FROM rest_history WHERE ${where} ORDER BY id DESC LIMIT 1 OFFSET $${params.length + 1}`,
+            [...params, maxEntries]
+        );
+        if (boundary.rows[0]) {
+            const result = await this.getPool().query(
+                `DELETE FROM rest_history WHERE ${where} AND id <= $${params.length + 1}`,
+                [...params, boundary.rows[0].id]
+            );
+            removed += result.rowCount ?? 0;
+        }
+        if (before) {
+            const result = await this.getPool().query('DELETE FROM rest_history WHERE created_at < $1', [before]);
+            removed += result.rowCount ?? 0;
+        }
+        return removed;
+    }
+
     // ==================== HELPERS ====================
 
+    private restHistoryScope(scope: RestHistoryScope): { conditions: string[]; params: any[] } {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        for (const column of ['user_id', 'connection_id'] as const) {
+            if (scope[column] === null) {
+                conditions.push(`${column} IS NULL`);
+            } else {
+                params.push(scope[column]);
+                conditions.push(`${column} = $${params.length}`);
+            }
+        }
+        return { conditions, params };
+    }
+
+    private mapRestHistory(row: any): RestHistorySummary | RestHistoryEntry {
+        return {
+            id: row.id,
+            connection_id: row.connection_id,
+            user_id: row.user_id,
+            method: row.method,
+            path: row.path,
+            body: row.body,
+            status_code: row.status_code,
+            execution_time_ms: row.execution_time_ms,
+            ...(row.response !== undefined ? { response: row.response } : {}),
+            response_truncated: !!row.response_truncated,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        };
+    }
+
     private mapConnection(row: any): SavedConnection {
         return {
             id: row.id,
             name: row.name,
             url: row.url,
+            cloud_id: row.cloud_id,
+            auth_type: row.auth_type,
             username: row.username,
             password: row.password,
+            auth_token: row.auth_token,
             color: row.color,
+            tls_verify: !!row.tls_verify,
+            tls_ca: row.tls_ca,
+            tls_cert: row.tls_cert,
+            tls_key: row.tls_key,
+            tls_ca_fingerprint: row.tls_ca_fingerprint,
+            read_only: !!row.read_only,
             created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
             updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
         };
     }
 
+    // WHERE clause limiting saved queries to shared ones plus those of `connectionId`
+    private queryScope(connectionId?: number | null): { where: string; params: number[] } {
+        if (connectionId === undefined) return { where: '', params: [] };
+        if (connectionId === null) return { where: ' WHERE connection_id IS NULL', params: [] };
+        return { where: ' WHERE connection_id IS NULL OR connection_id = $1', params: [connectionId] };
+    }
+
     private mapQuery(row: any): SavedQuery {
         return {
             id: row.id,
+            connection_id: row.connection_id ?? null,
             name: row.name,
             method: row.method,
             path: row.path,
             body: row.body,
+            folder: row.folder,
+            tags: parseTags(row.tags),
+            description: row.description,
+            last_used_at: row.last_used_at instanceof Date ? row.last_used_at.toISOString() : row.last_used_at,
             created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
             updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
         };
@@ -294,14 +792,82 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     private mapSearchQuery(row: any): SavedSearchQuery {
         return {
             id: row.id,
+            connection_id: row.connection_id ?? null,
             name: row.name,
             index_pattern: row.index_pattern,
             query: row.query,
             sort_field: row.sort_field,
             sort_order: row.sort_order,
             ui_state: row.ui_state,
+            folder: row.folder,
+            tags: parseTags(row.tags),
+            description: row.description,
+            last_used_at: row.last_used_at instanceof Date ? row.last_used_at.toISOString() : row.last_used_at,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+            updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
+        };
+    }
+
+    private mapUser(row: any): User {
+        return {
+            id: row.id,
+            username: row.username,
+            password_hash: row.password_hash,
+            is_admin: !!row.is_admin,
+            last_login_at: row.last_login_at instanceof Date ? row.last_login_at.toISOString() : row.last_login_at,
             created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
             updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
         };
     }
+
+    private mapConnectionPermission(row: any): ConnectionPermission {
+        return {
+            id: row.id,
+            user_id: row.user_id,
+            connection_id: row.connection_id,
+            role: row.role,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+            updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
+        };
+    }
+
+    private mapSchemaMigration(row: any): SchemaMigration {
+        return {
+            version: row.version,
+            name: row.name,
+            applied_at: row.applied_at instanceof Date ? row.applied_at.toISOString() : row.applied_at,
+        };
+    }
+
+    private mapRequestPolicyRule(row: any): RequestPolicyRule {
+        return {
+            id: row.id,
+            connection_id: row.connection_id,
+            position: row.position,
+            action: row.action,
+            method: row.method,
+            path_pattern: row.path_pattern,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        };
+    }
+
+    private mapAuditLog(row: any): AuditLogEntry {
+        return {
+            id: row.id,
+            connection_id: row.connection_id,
+            connection_name: row.connection_name,
+            user_id: row.user_id,
+            username: row.username,
+            session_hash: row.session_hash,
+            action: row.action,
+            method: row.method,
+            path: row.path,
+            target: row.target,
+            body_hash: row.body_hash,
+            result: row.result,
+            status_code: row.status_code,
+            error: row.error,
+            created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+        };
+    }
 }
@@ -7,9 +7,26 @@ import {
     CreateQueryInput,
     SavedSearchQuery,
     CreateSearchQueryInput,
+    User,
+    CreateUserInput,
+    ConnectionPermission,
+    ConnectionRole,
+    RequestPolicyRule,
+    RequestPolicyRuleInput,
+    AuditLogEntry,
+    CreateAuditLogInput,
+    AuditLogFilter,
+    RestHistoryEntry,
+    RestHistorySummary,
+    CreateRestHistoryInput,
+    RestHistoryScope,
+    RestHistoryFilter,
+    SchemaMigration,
     SQLiteConfig
 } from '../types';
-import { encryptPassword } from '../encryption';
+import { Migration, MigrationExecutor, runMigrations } from '../migrations';
+import { parseTags, serializeTags } from '../tags';
+import { ENCRYPTED_CONNECTION_FIELDS, encryptPassword, encryptForUpdate, hashPassword } from '../encryption';
 
 export class SQLiteAdapter implements DatabaseAdapter {
     private db: DatabaseType | null = null;
@@ -22,54 +39,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
     async initialize(): Promise<void> {
         this.db = new Database(this.config.path);
 
-        // Create connections table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS connections (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                name TEXT NOT NULL,
-                url TEXT NOT NULL,
-                username TEXT,
-                password TEXT,
-                color TEXT DEFAULT '#3b82f6',
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-            )
-        `);
-
-        // Create saved_queries table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS saved_queries (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                name TEXT NOT NULL,
-                method TEXT NOT NULL,
-                path TEXT NOT NULL,
-                body TEXT,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-            )
-        `);
-
-        // Create saved_search_queries table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS saved_search_queries (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                name TEXT NOT NULL,
-                index_pattern TEXT NOT NULL,
-                query TEXT NOT NULL,
-                sort_field TEXT,
-                sort_order TEXT,
-                ui_state TEXT,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-            )
-        `);
-
-        // Add ui_state column if it doesn't exist (for existing databases)
-        try {
-            this.db.exec(`ALTER TABLE saved_search_queries ADD COLUMN ui_state TEXT`);
-        } catch (e) {
-            // Column already exists, ignore
-        }
+        await runMigrations(this.migrationExecutor(this.db));
 
         console.log('✅ SQLite database initialized');
     }
@@ -88,30 +58,78 @@ export class SQLiteAdapter implements DatabaseAdapter {
         return this.db;
     }
 
+    private migrationExecutor(db: DatabaseType): MigrationExecutor {
+        const record = (migration: Migration) =>
+            db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+
+        return {
+            dialect: 'sqlite',
+            execute: async (sql) => {
+                db.exec(sql);
+            },
+            getAppliedMigrations: () => this.getSchemaMigrations(),
+            tableExists: async (table) =>
+                !!db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?").get(table),
+            columnExists: async (table, column) =>
+                (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).some(row => row.name === column),
+            applyMigration: async (migration, statements) => {
+                db.transaction(() => {
+                    for (const sql of statements) {
+                        db.exec(sql);
+                    }
+                    record(migration);
+                })();
+            },
+            recordMigration: async (migration) => {
+                record(migration);
+            }
+        };
+    }
+
+    // ==================== SCHEMA MIGRATIONS ====================
+
+    async getSchemaMigrations(): Promise<SchemaMigration[]> {
+        const stmt = this.getDb().prepare('SELECT * FROM schema_migrations ORDER BY version ASC');
+        return stmt.all() as SchemaMigration[];
+    }
+
     // ==================== CONNECTIONS ====================
 
     async getAllConnections(): Promise<SavedConnection[]> {
         const stmt = this.getDb().prepare('SELECT * FROM connections ORDER BY name ASC');
-        return stmt.all() as SavedConnection[];
+        return (stmt.all() as any[]).map(this.mapConnection);
     }
 
     async getConnectionById(id: number): Promise<SavedConnection | undefined> {
         const stmt = this.getDb().prepare('SELECT * FROM connections WHERE id = ?');
-        return stmt.get(id) as SavedConnection | undefined;
+        const row = stmt.get(id);
+        return row ? this.mapConnection(row) : undefined;
     }
 
     async createConnection(input: CreateConnectionInput): Promise<SavedConnection> {
         const stmt = this.getDb().prepare(`
-            INSERT INTO connections (name, url, username, password, color)
-            VALUES (?, ?, ?, ?, ?)
+            INSERT INTO connections (
+                name, url, cloud_id, auth_type, username, password, auth_token, color,
+                tls_verify, tls_ca, tls_cert, tls_key, tls_ca_fingerprint, read_only
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         const result = stmt.run(
             input.name,
-            input.url,
+            input.url || '',
+            input.cloud_id || null,
+            input.auth_type || 'basic',
             input.username || null,
             input.password ? encryptPassword(input.password) : null,
-            input.color || '#3b82f6'
+            input.auth_token ? encryptPassword(input.auth_token) : null,
+            input.color || '#3b82f6',
+            input.tls_verify === false ? 0 : 1,
+            input.tls_ca ? encryptPassword(input.tls_ca) : null,
+            input.tls_cert ? encryptPassword(input.tls_cert) : null,
+            input.tls_key ? encryptPassword(input.tls_key) : null,
+            input.tls_ca_fingerprint || null,
+            input.read_only ? 1 : 0
         );
 
         const created = await this.getConnectionById(result.lastInsertRowid as number);
@@ -127,7 +145,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
         const stmt = this.getDb().prepare(`
             UPDATE connections 
-            SET name = ?, url = ?, username = ?, password = ?, color = ?, updated_at = CURRENT_TIMESTAMP
+            SET name = ?, url = ?, cloud_id = ?, auth_type = ?, username = ?, password = ?, auth_token = ?, color = ?,
+                tls_verify = ?, tls_ca = ?, tls_cert = ?, tls_key = ?, tls_ca_fingerprint = ?, read_only = ?,
+                updated_at = CURRENT_TIMESTAMP
             WHERE id = ?
         `);
 
@@ -140,9 +160,18 @@ export class SQLiteAdapter implements DatabaseAdapter {
         stmt.run(
             input.name ?? existing.name,
             input.url ?? existing.url,
+            input.cloud_id !== undefined ? input.cloud_id || null : existing.cloud_id,
+            input.auth_type ?? existing.auth_type,
             input.username !== undefined ? input.username : existing.username,
             passwordValue,
+            encryptForUpdate(input.auth_token, existing.auth_token),
             input.color ?? existing.color,
+            (input.tls_verify ?? existing.tls_verify) ? 1 : 0,
+            encryptForUpdate(input.tls_ca, existing.tls_ca),
+            encryptForUpdate(input.tls_cert, existing.tls_cert),
+            encryptForUpdate(input.tls_key, existing.tls_key),
+            input.tls_ca_fingerprint !== undefined ? input.tls_ca_fingerprint || null : existing.tls_ca_fingerprint,
+            (input.read_only ?? existing.read_only) ? 1 : 0,
             id
         );
 
@@ -150,34 +179,67 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
 
     async deleteConnection(id: number): Promise<boolean> {
+        this.getDb().prepare('DELETE FROM connection_permissions WHERE connection_id = ?').run(id);
+        this.getDb().prepare('DELETE FROM request_policy_rules WHERE connection_id = ?').run(id);
+        this.getDb().prepare('DELETE FROM saved_queries WHERE connection_id = ?').run(id);
+        this.getDb().prepare('DELETE FROM saved_search_queries WHERE connection_id = ?').run(id);
+        this.getDb().prepare('DELETE FROM rest_history WHERE connection_id = ?').run(id);
         const stmt = this.getDb().prepare('DELETE FROM connections WHERE id = ?');
         const result = stmt.run(id);
         return result.changes > 0;
     }
 
+    async reencryptConnectionSecrets(transform: (value: string) => string): Promise<number> {
+        const db = this.getDb();
+        const columns = ENCRYPTED_CONNECTION_FIELDS.join(', ');
+        const assignments = ENCRYPTED_CONNECTION_FIELDS.map(column => `${column} = ?`).join(', ');
+        const update = db.prepare(`UPDATE connections SET ${assignments} WHERE id = ?`);
+
+        const run = db.transaction(() => {
+            const rows = db.prepare(`SELECT id, ${columns} FROM connections`).all() as any[];
+            let changed = 0;
+            for (const row of rows) {
+                const values = ENCRYPTED_CONNECTION_FIELDS.map(column => row[column] ? transform(row[column]) : row[column]);
+                if (values.some((value, i) => value !== row[ENCRYPTED_CONNECTION_FIELDS[i]])) {
+                    update.run(...values, row.id);
+                    changed++;
+                }
+            }
+            return changed;
+        });
+
+        return run();
+    }
+
     // ==================== QUERIES ====================
 
-    async getAllQueries(): Promise<SavedQuery[]> {
-        const stmt = this.getDb().prepare('SELECT * FROM saved_queries ORDER BY name ASC');
-        return stmt.all() as SavedQuery[];
+    async getAllQueries(connectionId?: number | null): Promise<SavedQuery[]> {
+        const scope = this.queryScope(connectionId);
+        const stmt = this.getDb().prepare(`SELECT * FROM saved_queries${scope.where} ORDER BY name ASC`);
+        return (stmt.all(...scope.params) as any[]).map(this.mapQuery);
     }
 
     async getQueryById(id: number): Promise<SavedQuery | undefined> {
         const stmt = this.getDb().prepare('SELECT * FROM saved_queries WHERE id = ?');
-        return stmt.get(id) as SavedQuery | undefined;
+        const row = stmt.get(id);
+        return row ? this.mapQuery(row) : undefined;
     }
 
     async createQuery(input: CreateQueryInput): Promise<SavedQuery> {
         const stmt = this.getDb().prepare(`
-            INSERT INTO saved_queries (name, method, path, body)
-            VALUES (?, ?, ?, ?)
+            INSERT INTO saved_queries (connection_id, name, method, path, body, folder, tags, description)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         const result = stmt.run(
+            input.connection_id ?? null,
             input.name,
             input.method,
             input.path,
-            input.body || null
+            input.body || null,
+            input.folder || null,
+            serializeTags(input.tags),
+            input.description || null
         );
 
         const created = await this.getQueryById(result.lastInsertRowid as number);
@@ -193,7 +255,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
         const stmt = this.getDb().prepare(`
             UPDATE saved_queries 
-            SET name = ?, method = ?, path = ?, body = ?, updated_at = CURRENT_TIMESTAMP
+            SET name = ?, method = ?, path = ?, body = ?, folder = ?, tags = ?, description = ?,
+                connection_id = ?, updated_at = CURRENT_TIMESTAMP
             WHERE id = ?
         `);
 
@@ -202,6 +265,10 @@ export class SQLiteAdapter implements DatabaseAdapter {
             input.method ?? existing.method,
             input.path ?? existing.path,
             input.body !== undefined ? input.body : existing.body,
+            input.folder !== undefined ? input.folder : existing.folder,
+            serializeTags(input.tags ?? existing.tags),
+            input.description !== undefined ? input.description : existing.description,
+            input.connection_id !== undefined ? input.connection_id : existing.connection_id,
             id
         );
 
@@ -214,33 +281,78 @@ export class SQLiteAdapter implements DatabaseAdapter {
         return result.changes > 0;
     }
 
+    async markQueryUsed(id: number): Promise<boolean> {
+        const stmt = this.getDb().prepare('UPDATE saved_queries SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?');
+        return stmt.run(id).changes > 0;
+    }
+
     // ==================== SEARCH QUERIES ====================
 
-    async getAllSearchQueries(): Promise<SavedSearchQuery[]> {
-        const stmt = this.getDb().prepare('SELECT * FROM saved_search_queries ORDER BY created_at DESC');
-        return stmt.all() as SavedSearchQuery[];
+    async getAllSearchQueries(connectionId?: number | null): Promise<SavedSearchQuery[]> {
+        const scope = this.queryScope(connectionId);
+        const stmt = this.getDb().prepare(`SELECT * FROM saved_search_queries${scope.where} ORDER BY created_at DESC`);
+        return (stmt.all(...scope.params) as any[]).map(this.mapSearchQuery);
+    }
+
+    async getSearchQueryById(id: number): Promise<SavedSearchQuery | undefined> {
+        const stmt = this.getDb().prepare('SELECT * FROM saved_search_queries WHERE id = ?');
+        const row = stmt.get(id);
+        return row ? this.mapSearchQuery(row) : undefined;
     }
 
     async createSearchQuery(input: CreateSearchQueryInput): Promise<SavedSearchQuery> {
         const stmt = this.getDb().prepare(`
-            INSERT INTO saved_search_queries (name, index_pattern, query, sort_field, sort_order, ui_state)
-            VALUES (?, ?, ?, ?, ?, ?)
+            INSERT INTO saved_search_queries
+                (connection_id, name, index_pattern, query, sort_field, sort_order, ui_state, folder, tags, description)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         const result = stmt.run(
+            input.connection_id ?? null,
             input.name,
             input.index_pattern,
             input.query,
             input.sort_field || null,
             input.sort_order || null,
-            input.ui_state || null
+            input.ui_state || null,
+            input.folder || null,
+            serializeTags(input.tags),
+            input.description || null
         );
 
-        const createdQuery = this.getDb().prepare(
-            'SELECT * FROM saved_search_queries WHERE id = ?'
-        ).get(result.lastInsertRowid) as SavedSearchQuery;
+        const created = await this.getSearchQueryById(result.lastInsertRowid as number);
+        if (!created) {
+            throw new Error('Failed to create search query');
+        }
+        return created;
+    }
+
+    async updateSearchQuery(id: number, input: Partial<CreateSearchQueryInput>): Promise<SavedSearchQuery | undefined> {
+        const existing = await this.getSearchQueryById(id);
+        if (!existing) return undefined;
 
-        return createdQuery;
+        const stmt = this.getDb().prepare(`
+            UPDATE saved_search_queries
+            SET name = ?, index_pattern = ?, query = ?, sort_field = ?, sort_order = ?, ui_state = ?,
+                folder = ?, tags = ?, description = ?, connection_id = ?, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?
+        `);
+
+        stmt.run(
+            input.name ?? existing.name,
+            input.index_pattern ?? existing.index_pattern,
+            input.query ?? existing.query,
+            input.sort_field !== undefined ? input.sort_field || null : existing.sort_field,
+            input.sort_order !== undefined ? input.sort_order || null : existing.sort_order,
+            input.ui_state !== undefined ? input.ui_state || null : existing.ui_state,
+            input.folder !== undefined ? input.folder : existing.folder,
+            serializeTags(input.tags ?? existing.tags),
+            input.description !== undefined ? input.description : existing.description,
+            input.connection_id !== undefined ? input.connection_id : existing.connection_id,
+            id
+        );
+
+        return this.getSearchQueryById(id);
     }
 
     async deleteSearchQuery(id: number): Promise<boolean> {
@@ -248,4 +360,344 @@ export class SQLiteAdapter implements DatabaseAdapter {
         const result = stmt.run(id);
         return result.changes > 0;
     }
+
+    async markSearchQueryUsed(id: number): Promise<boolean> {
+        const stmt = this.getDb().prepare('UPDATE saved_search_queries SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?');
+        return stmt.run(id).changes > 0;
+    }
+
+    // ==================== USERS ====================
+
+    async getAllUsers(): Promise<User[]> {
+        const stmt = this.getDb().prepare('SELECT * FROM users ORDER BY username ASC');
+        return (stmt.all() as any[]).map(this.mapUser);
+    }
+
+    async getUserById(id: number): Promise<User | undefined> {
+        const stmt = this.getDb().prepare('SELECT * FROM users WHERE id = ?');
+        const row = stmt.get(id);
+        return row ? this.mapUser(row) : undefined;
+    }
+
+    async getUserByUsername(username: string): Promise<User | undefined> {
+        const stmt = this.getDb().prepare('SELECT * FROM users WHERE username = ?');
+        const row = stmt.get(username);
+        return row ? this.mapUser(row) : undefined;
+    }
+
+    async countUsers(): Promise<number> {
+        const row = this.getDb().prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+        return row.count;
+    }
+
+    async createUser(input: CreateUserInput): Promise<User> {
+        const stmt = this.getDb().prepare(`
+            INSERT INTO users (username, password_hash, is_admin)
+            VALUES (?, ?, ?)
+        `);
+
+        const result = stmt.run(
+            input.username,
+            hashPassword(input.password),
+            input.is_admin ? 1 : 0
+        );
+
+        const created = await this.getUserById(result.lastInsertRowid as number);
+        if (!created) {
+            throw new Error('Failed to create user');
+        }
+        return created;
+    }
+
+    async updateUser(id: number, input: Partial<CreateUserInput>): Promise<User | undefined> {
+        const existing = await this.getUserById(id);
+        if (!existing) return undefined;
+
+        const stmt = this.getDb().prepare(`
+            UPDATE users
+            SET username = ?, password_hash = ?, is_admin = ?, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?
+        `);
+
+        stmt.run(
+            input.username ?? existing.username,
+            input.password ? hashPassword(input.password) : existing.password_hash,
+            (input.is_admin ?? existing.is_admin) ? 1 : 0,
+            id
+        );
+
+        return this.getUserById(id);
+    }
+
+    async recordUserLogin(id: number): Promise<void> {
+        this.getDb().prepare('UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?').run(id);
+    }
+
+    async deleteUser(id: number): Promise<boolean> {
+        this.getDb().prepare('DELETE FROM connection_permissions WHERE user_id = ?').run(id);
+        this.getDb().prepare('DELETE FROM rest_history WHERE user_id = ?').run(id);
+        const stmt = this.getDb().prepare('DELETE FROM users WHERE id = ?');
+        const result = stmt.run(id);
+        return result.changes > 0;
+    }
+
+    // ==================== CONNECTION PERMISSIONS ====================
+
+    async getConnectionPermissionsForUser(userId: number): Promise<ConnectionPermission[]> {
+        const stmt = this.getDb().prepare('SELECT * FROM connection_permissions WHERE user_id = ?');
+        return stmt.all(userId) as ConnectionPermission[];
+    }
+
+    async getConnectionPermission(userId: number, connectionId: number): Promise<ConnectionPermission | undefined> {
+        const stmt = this.getDb().prepare(
+            'SELECT * FROM connection_permissions WHERE user_id = ? AND connection_id = ?'
+        );
+        return stmt.get(userId, connectionId) as ConnectionPermission | undefined;
+    }
+
+    async setConnectionPermission(userId: number, connectionId: number, role: ConnectionRole): Promise<ConnectionPermission> {
+        this.getDb().prepare(`
+            INSERT INTO connection_permissions (user_id, connection_id, role)
+            VALUES (?, ?, ?)
+            ON CONFLICT (user_id, connection_id)
+            DO UPDATE SET role = excluded.role, updated_at = CURRENT_TIMESTAMP
+        `).run(userId, connectionId, role);
+
+        const saved = await this.getConnectionPermission(userId, connectionId);
+        if (!saved) {
+            throw new Error('Failed to save connection permission');
+        }
+        return saved;
+    }
+
+    async deleteConnectionPermission(userId: number, connectionId: number): Promise<boolean> {
+        const stmt = this.getDb().prepare(
+            'DELETE FROM connection_permissions WHERE user_id = ? AND connection_id = ?'
+        );
+        const result = stmt.run(userId, connectionId);
+        return result.changes > 0;
+    }
+
+    // ==================== REQUEST POLICY ====================
+
+    async getRequestPolicyRules(connectionId: number): Promise<RequestPolicyRule[]> {
+        const stmt = this.getDb().prepare(
+            'SELECT * FROM request_policy_rules WHERE connection_id = ? ORDER BY position ASC'
+        );
+        return stmt.all(connectionId) as RequestPolicyRule[];
+    }
+
+    async replaceRequestPolicyRules(connectionId: number, rules: RequestPolicyRuleInput[]): Promise<RequestPolicyRule[]> {
+        const db = this.getDb();
+        const insert = db.prepare(`
+            INSERT INTO request_policy_rules (connection_id, position, action, method, path_pattern)
+            VALUES (?, ?, ?, ?, ?)
+        `);
+
+        db.transaction(() => {
+            db.prepare('DELETE FROM request_policy_rules WHERE connection_id = ?').run(connectionId);
+            rules.forEach((rule, position) => {
+                insert.run(connectionId, position, rule.action, rule.method, rule.path_pattern);
+            });
+        })();
+
+        return this.getRequestPolicyRules(connectionId);
+    }
+
+    // ==================== AUDIT LOG ====================
+
+    async createAuditLog(input: CreateAuditLogInput): Promise<void> {
+        this.getDb().prepare(`
+            INSERT INTO audit_logs (connection_id, connection_name, user_id, username, session_hash, action, method, path, target, body_hash, result, status_code, error)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            input.connection_id,
+            input.connection_name,
+            input.user_id,
+            input.username,
+            input.session_hash,
+            input.action,
+            input.method,
+            input.path,
+            input.target,
+            input.body_hash,
+            input.result,
+            input.status_code,
+            input.error
+        );
+    }
+
+    async getAuditLogs(filter: AuditLogFilter): Promise<{ entries: AuditLogEntry[]; total: number }> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (filter.connection_id !== undefined) {
+            conditions.push('connection_id = ?');
+            params.push(filter.connection_id);
+        }
+        if (filter.username) {
+            conditions.push('username = ?');
+            params.push(filter.username);
+        }
+        if (filter.action) {
+            conditions.push('action = ?');
+            params.push(filter.action);
+        }
+        if (filter.result) {
+            conditions.push('result = ?');
+            params.push(filter.result);
+        }
+        if (filter.search) {
+            conditions.push('(target LIKE ? OR path LIKE ?)');
+            params.push(`%${filter.search}%`, `%${filter.search}%`);
+        }
+        if (filter.from) {
+            conditions.push('datetime(created_at) >= datetime(?)');
+            params.push(filter.from);
+        }
+        if (filter.to) {
+            conditions.push('datetime(created_at) <= datetime(?)');
+            params.push(filter.to);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const { count } = this.getDb().prepare(
+            `SELECT COUNT(*) AS count FROM audit_logs ${where}`
+        ).get(...params) as { count: number };
+        const entries = this.getDb().prepare(
+            `SELECT * FROM audit_logs ${where} ORDER BY id DESC LIMIT ? OFFSET ?`
+        ).all(...params, filter.limit ?? 50, filter.offset ?? 0) as AuditLogEntry[];
+
+        return { entries, total: count };
+    }
+
+    // ==================== REST HISTORY ====================
+
+    async createRestHistoryEntry(input: CreateRestHistoryInput): Promise<void> {
+        this.getDb().prepare(`
+            INSERT INTO rest_history (connection_id, user_id, method, path, body, status_code, execution_time_ms, response, response_truncated)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            input.connection_id,
+            input.user_id,
+            input.method,
+            input.path,
+            input.body,
+            input.status_code,
+            input.execution_time_ms,
+            input.response,
+            input.response_truncated ? 1 : 0
+        );
+    }
+
+    async getRestHistory(filter: RestHistoryFilter): Promise<{ entries: RestHistorySummary[]; total: number }> {
+        const { conditions, params } = this.restHistoryScope(filter);
+        if (filter.search) {
+            conditions.push('(path LIKE ? OR body LIKE ?)');
+            params.push(`%${filter.search}%`, `%${filter.search}%`);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+        const { count } = this.getDb().prepare(
+            `SELECT COUNT(*) AS count FROM rest_history ${where}`
+        ).get(...params) as { count: number };
+        const rows = this.getDb().prepare(
+            `SELECT id, connection_id, user_id, method, path, body, status_code, execution_time_ms, response_truncated, created_at
+             FROM rest_history ${where} ORDER BY id DESC LIMIT ? OFFSET ?`
+        ).all(...params, filter.limit ?? 50, filter.offset ?? 0) as any[];
+
+        return { entries: rows.map(this.mapRestHistory), total: count };
+    }
+
+    async getRestHistoryEntry(id: number): Promise<RestHistoryEntry | undefined> {
+        const row = this.getDb().prepare('SELECT * FROM rest_history WHERE id = ?').get(id);
+        return row ? this.mapRestHistory(row) as RestHistoryEntry : undefined;
+    }
+
+    async deleteRestHistoryEntry(id: number): Promise<boolean> {
+        return this.getDb().prepare('DELETE FROM rest_history WHERE id = ?').run(id).changes > 0;
+    }
+
+    async clearRestHistory(scope: RestHistoryScope): Promise<number> {
+        const { conditions, params } = this.restHistoryScope(scope);
+        return this.getDb().prepare(`DELETE FROM rest_history WHERE ${conditions.join(' AND ')}`).run(...params).changes;
+    }
+
+    async pruneRestHistory(scope: RestHistoryScope, maxEntries: number, before: string | null): Promise<number> {
+        const db = this.getDb();
+        const { conditions, params } = this.restHistoryScope(scope);
+        const where = conditions.join(' AND ');
+        let removed = 0;
+
+        // Newest entry past the limit; it and everything older goes
+        const boundary = db.prepare(
+            `SELECT id FROM rest_history WHERE ${where} ORDER BY id DESC LIMIT 1 OFFSET ?`
+        ).get(...params, maxEntries) as { id: number } | undefined;
+        if (boundary) {
+            removed += db.prepare(`DELETE FROM rest_history WHERE ${where} AND id <= ?`).run(...params, boundary.id).changes;
+        }
+        if (before) {
+            removed += db.prepare('DELETE FROM rest_history WHERE datetime(created_at) < datetime(?)').run(before).changes;
+        }
+        return removed;
+    }
+
+    // ==================== HELPERS ====================
+
+    private restHistoryScope(scope: RestHistoryScope): { conditions: string[]; params: any[] } {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        for (const column of ['user_id', 'connection_id'] as const) {
+            if (scope[column] === null) {
+                conditions.push(`${column} IS NULL`);
+            } else {
+                conditions.push(`${column} = ?`);
+                params.push(scope[column]);
+            }
+        }
+        return { conditions, params };
+    }
+
+    private mapRestHistory(row: any): RestHistorySummary | RestHistoryEntry {
+        return {
+            ...row,
+            response_truncated: !!row.response_truncated,
+        };
+    }
+
+    private mapConnection(row: any): SavedConnection {
+        return {
+            ...row,
+            tls_verify: !!row.tls_verify,
+            read_only: !!row.read_only,
+        };
+    }
+
+    // WHERE clause limiting saved queries to shared ones plus those of `connectionId`
+    private queryScope(connectionId?: number | null): { where: string; params: number[] } {
+        if (connectionId === undefined) return { where: '', params: [] };
+        if (connectionId === null) return { where: ' WHERE connection_id IS NULL', params: [] };
+        return { where: ' WHERE connection_id IS NULL OR connection_id = ?', params: [connectionId] };
+    }
+
+    private mapQuery(row: any): SavedQuery {
+        return {
+            ...row,
+            tags: parseTags(row.tags),
+        };
+    }
+
+    private mapSearchQuery(row: any): SavedSearchQuery {
+        return {
+            ...row,
+            tags: parseTags(row.tags),
+        };
+    }
+
+    private mapUser(row: any): User {
+        return {
+            ...row,
+            is_admin: !!row.is_admin,
+        };
+    }
 }
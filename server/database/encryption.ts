@@ -1,53 +1,159 @@
 import crypto from 'crypto';
+import { SavedConnection } from './types';
 
 // ==================== ENCRYPTION ====================
 
+export const DEFAULT_ENCRYPTION_KEY = 'elasticscope-default-key-change-me!';
+
 // Encryption key - In production, use environment variable!
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'elasticscope-default-key-change-me!';
+const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || DEFAULT_ENCRYPTION_KEY;
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
+const CIPHERTEXT_VERSION = 'v2';
+
+// Unversioned `iv:authTag:encryptedData` values written before key ids existed
+const LEGACY_CIPHERTEXT_PATTERN = /^[0-9a-f]{32}:[0-9a-f]{32}:[0-9a-f]*$/;
+// Format: v2:keyId:iv:authTag:encryptedData
+const VERSIONED_CIPHERTEXT_PATTERN = /^v2:([0-9a-f]{16}):([0-9a-f]{32}):([0-9a-f]{32}):([0-9a-f]*)$/;
+
+// Columns of the connections table that hold encrypted secrets
+export const ENCRYPTED_CONNECTION_FIELDS = [
+    'password',
+    'auth_token',
+    'tls_ca',
+    'tls_cert',
+    'tls_key'
+] as const satisfies readonly (keyof SavedConnection)[];
+
+export class DecryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DecryptionError';
+    }
+}
 
 // Generate a proper 32-byte key from the input key
-const getKey = (): Buffer => {
-    return crypto.createHash('sha256').update(ENCRYPTION_KEY).digest();
+const deriveKey = (secret: string): Buffer => {
+    return crypto.createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Short identifier stored with each ciphertext so a value can be matched to the
+ * key that wrote it. Derived separately from the cipher key, so it reveals nothing
+ * about the key itself.
+ */
+export const getKeyId = (secret: string): string =>
+    crypto.createHash('sha256').update(`elasticscope-key-id:${secret}`).digest('hex').slice(0, 16);
+
+const decryptParts = (secret: string, ivHex: string, authTagHex: string, encrypted: string): string => {
+    const decipher = crypto.createDecipheriv(ALGORITHM, deriveKey(secret), Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
 };
 
-export const encryptPassword = (password: string): string => {
+export const encryptWithKey = (plaintext: string, secret: string): string => {
     const iv = crypto.randomBytes(IV_LENGTH);
-    const key = getKey();
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret), iv);
 
-    let encrypted = cipher.update(password, 'utf8', 'hex');
+    let encrypted = cipher.update(plaintext, 'utf8', 'hex');
     encrypted += cipher.final('hex');
 
     const authTag = cipher.getAuthTag();
 
-    // Format: iv:authTag:encryptedData
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+    return `${CIPHERTEXT_VERSION}:${getKeyId(secret)}:${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
 };
 
-export const decryptPassword = (encryptedPassword: string): string => {
-    try {
-        const parts = encryptedPassword.split(':');
-        if (parts.length !== 3) {
-            // Old plaintext password - return as is (migration support)
-            return encryptedPassword;
+/**
+ * Decrypt a stored value with the given key. Values that are not in either
+ * ciphertext format are plaintext from before encryption existed and are
+ * returned as is; anything that looks encrypted but cannot be decrypted throws.
+ */
+export const decryptWithKey = (value: string, secret: string): string => {
+    const versioned = VERSIONED_CIPHERTEXT_PATTERN.exec(value);
+    if (versioned) {
+        const [, keyId, iv, authTag, encrypted] = versioned;
+        if (keyId !== getKeyId(secret)) {
+            throw new DecryptionError(`Value was encrypted with a different key (key id ${keyId})`);
+        }
+        try {
+            return decryptParts(secret, iv, authTag, encrypted);
+        } catch {
+            throw new DecryptionError('Value could not be decrypted, it may be corrupted');
+        }
+    }
+
+    if (LEGACY_CIPHERTEXT_PATTERN.test(value)) {
+        const [iv, authTag, encrypted] = value.split(':');
+        try {
+            return decryptParts(secret, iv, authTag, encrypted);
+        } catch {
+            throw new DecryptionError('Value could not be decrypted with the configured key');
         }
+    }
+
+    // Old plaintext password - return as is (migration support)
+    return value;
+};
+
+export const isEncryptedWithKey = (value: string, secret: string): boolean => {
+    const versioned = VERSIONED_CIPHERTEXT_PATTERN.exec(value);
+    return !!versioned && versioned[1] === getKeyId(secret);
+};
+
+export const encryptPassword = (password: string): string => encryptWithKey(password, ENCRYPTION_KEY);
+
+export const decryptPassword = (encryptedPassword: string): string => decryptWithKey(encryptedPassword, ENCRYPTION_KEY);
+
+// Resolve an encrypted column on update: keep the stored value when the field is
+// omitted, clear it when empty, encrypt it otherwise
+export const encryptForUpdate = (value: string | undefined, existing: string | null): string | null => {
+    if (value === undefined) return existing;
+    return value ? encryptPassword(value) : null;
+};
+
+/**
+ * Refuse to run in production with the built-in key, since anyone with the
+ * source can decrypt stored secrets. ALLOW_DEFAULT_ENCRYPTION_KEY=true turns
+ * the refusal into a warning; outside production it is always a warning.
+ */
+export const checkEncryptionKey = (): void => {
+    if (ENCRYPTION_KEY !== DEFAULT_ENCRYPTION_KEY) return;
 
-        const iv = Buffer.from(parts[0], 'hex');
-        const authTag = Buffer.from(parts[1], 'hex');
-        const encrypted = parts[2];
+    const message = 'ENCRYPTION_KEY is not set: stored passwords, tokens and certificates are encrypted '
+        + 'with the publicly known default key. Generate one with `openssl rand -base64 32`.';
 
-        const key = getKey();
-        const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-        decipher.setAuthTag(authTag);
+    if (process.env.NODE_ENV === 'production' && process.env.ALLOW_DEFAULT_ENCRYPTION_KEY !== 'true') {
+        throw new Error(`${message} Refusing to start in production (set ALLOW_DEFAULT_ENCRYPTION_KEY=true to override).`);
+    }
+
+    console.warn(`⚠️  ${message}`);
+};
+
+// ==================== PASSWORD HASHING ====================
 
-        let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-        decrypted += decipher.final('utf8');
+const HASH_KEY_LENGTH = 64;
+const HASH_SALT_LENGTH = 16;
 
-        return decrypted;
-    } catch {
-        // If decryption fails, assume it's plaintext (migration support)
-        return encryptedPassword;
+// Format: scrypt:salt:hash
+export const hashPassword = (password: string): string => {
+    const salt = crypto.randomBytes(HASH_SALT_LENGTH);
+    const hash = crypto.scryptSync(password, salt, HASH_KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+export const verifyPasswordHash = (password: string, storedHash: string): boolean => {
+    const parts = storedHash.split(':');
+    if (parts.length !== 3 || parts[0] !== 'scrypt') {
+        return false;
     }
+
+    const salt = Buffer.from(parts[1], 'hex');
+    const expected = Buffer.from(parts[2], 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+
+    return crypto.timingSafeEqual(actual, expected);
 };
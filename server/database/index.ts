@@ -3,10 +3,19 @@ import { DatabaseAdapter, DatabaseType, DatabaseConfig } from './types';
 import { SQLiteAdapter } from './adapters/sqlite';
 import { PostgreSQLAdapter } from './adapters/postgresql';
 import { MySQLAdapter } from './adapters/mysql';
+import { checkEncryptionKey } from './encryption';
+import { buildMigrationStatus } from './migrations';
 
 // Re-export types and encryption
 export * from './types';
-export { encryptPassword, decryptPassword } from './encryption';
+export {
+    encryptPassword,
+    decryptPassword,
+    encryptForUpdate,
+    hashPassword,
+    verifyPasswordHash,
+    DecryptionError
+} from './encryption';
 
 // ==================== CONFIGURATION ====================
 
@@ -99,6 +108,8 @@ export const initializeDatabase = async (): Promise<DatabaseAdapter> => {
         return dbInstance;
     }
 
+    checkEncryptionKey();
+
     const config = getConfig();
     console.log(`🔧 Initializing ${config.type.toUpperCase()} database...`);
 
@@ -135,16 +146,77 @@ export const createConnection = (input: Parameters<DatabaseAdapter['createConnec
 export const updateConnection = (id: number, input: Parameters<DatabaseAdapter['updateConnection']>[1]) =>
     getDatabase().updateConnection(id, input);
 export const deleteConnection = (id: number) => getDatabase().deleteConnection(id);
+export const reencryptConnectionSecrets = (transform: (value: string) => string) =>
+    getDatabase().reencryptConnectionSecrets(transform);
 
-export const getAllQueries = () => getDatabase().getAllQueries();
+export const getAllQueries = (connectionId?: number | null) => getDatabase().getAllQueries(connectionId);
 export const getQueryById = (id: number) => getDatabase().getQueryById(id);
 export const createQuery = (input: Parameters<DatabaseAdapter['createQuery']>[0]) =>
     getDatabase().createQuery(input);
 export const updateQuery = (id: number, input: Parameters<DatabaseAdapter['updateQuery']>[1]) =>
     getDatabase().updateQuery(id, input);
 export const deleteQuery = (id: number) => getDatabase().deleteQuery(id);
+export const markQueryUsed = (id: number) => getDatabase().markQueryUsed(id);
 
-export const getAllSearchQueries = () => getDatabase().getAllSearchQueries();
+export const getAllSearchQueries = (connectionId?: number | null) =>
+    getDatabase().getAllSearchQueries(connectionId);
+export const getSearchQueryById = (id: number) => getDatabase().getSearchQueryById(id);
 export const createSearchQuery = (input: Parameters<DatabaseAdapter['createSearchQuery']>[0]) =>
     getDatabase().createSearchQuery(input);
+export const updateSearchQuery = (id: number, input: Parameters<DatabaseAdapter['updateSearchQuery']>[1]) =>
+    getDatabase().updateSearchQuery(id, input);
 export const deleteSearchQuery = (id: number) => getDatabase().deleteSearchQuery(id);
+export const markSearchQueryUsed = (id: number) => getDatabase().markSearchQueryUsed(id);
+
+export const getAllUsers = () => getDatabase().getAllUsers();
+export const getUserById = (id: number) => getDatabase().getUserById(id);
+export const getUserByUsername = (username: string) => getDatabase().getUserByUsername(username);
+export const countUsers = () => getDatabase().countUsers();
+export const createUser = (input: Parameters<DatabaseAdapter['createUser']>[0]) =>
+    getDatabase().createUser(input);
+export const updateUser = (id: number, input: Parameters<DatabaseAdapter['updateUser']>[1]) =>
+    getDatabase().updateUser(id, input);
+export const recordUserLogin = (id: number) => getDatabase().recordUserLogin(id);
+export const deleteUser = (id: number) => getDatabase().deleteUser(id);
+
+export const getConnectionPermissionsForUser = (userId: number) =>
+    getDatabase().getConnectionPermissionsForUser(userId);
+export const getConnectionPermission = (userId: number, connectionId: number) =>
+    getDatabase().getConnectionPermission(userId, connectionId);
+export const setConnectionPermission = (
+    userId: number,
+    connectionId: number,
+    role: Parameters<DatabaseAdapter['setConnectionPermission']>[2]
+) => getDatabase().setConnectionPermission(userId, connectionId, role);
+export const deleteConnectionPermission = (userId: number, connectionId: number) =>
+    getDatabase().deleteConnectionPermission(userId, connectionId);
+
+export const getRequestPolicyRules = (connectionId: number) =>
+    getDatabase().getRequestPolicyRules(connectionId);
+export const replaceRequestPolicyRules = (
+    connectionId: number,
+    rules: Parameters<DatabaseAdapter['replaceRequestPolicyRules']>[1]
+) => getDatabase().replaceRequestPolicyRules(connectionId, rules);
+
+export const createAuditLog = (input: Parameters<DatabaseAdapter['createAuditLog']>[0]) =>
+    getDatabase().createAuditLog(input);
+export const getAuditLogs = (filter: Parameters<DatabaseAdapter['getAuditLogs']>[0]) =>
+    getDatabase().getAuditLogs(filter);
+
+export const createRestHistoryEntry = (input: Parameters<DatabaseAdapter['createRestHistoryEntry']>[0]) =>
+    getDatabase().createRestHistoryEntry(input);
+export const getRestHistory = (filter: Parameters<DatabaseAdapter['getRestHistory']>[0]) =>
+    getDatabase().getRestHistory(filter);
+export const getRestHistoryEntry = (id: number) => getDatabase().getRestHistoryEntry(id);
+export const deleteRestHistoryEntry = (id: number) => getDatabase().deleteRestHistoryEntry(id);
+export const clearRestHistory = (scope: Parameters<DatabaseAdapter['clearRestHistory']>[0]) =>
+    getDatabase().clearRestHistory(scope);
+export const pruneRestHistory = (
+    scope: Parameters<DatabaseAdapter['pruneRestHistory']>[0],
+    maxEntries: number,
+    before: string | null
+) => getDatabase().pruneRestHistory(scope, maxEntries, before);
+
+export const getSchemaMigrations = () => getDatabase().getSchemaMigrations();
+export const getMigrationStatus = async () =>
+    buildMigrationStatus(getDbType(), await getDatabase().getSchemaMigrations());
@@ -0,0 +1,646 @@
+import { DatabaseType, MigrationStatus, SchemaMigration } from './types';
+
+// ==================== TYPES ====================
+
+export interface Migration {
+    version: number;
+    name: string;
+    // Statements run in order; each dialect gets its own SQL
+    statements: Record<DatabaseType, string[]>;
+    /**
+     * Schema object this migration creates. Only needed for migrations that
+     * predate `schema_migrations`: when an existing database without any
+     * recorded versions is adopted, migrations whose table/column is already
+     * there are recorded as applied instead of being run.
+     */
+    detect?: { table: string; column?: string };
+}
+
+/**
+ * What the runner needs from a backend. Adapters implement this over their
+ * own connection so the migration logic is written once.
+ */
+export interface MigrationExecutor {
+    dialect: DatabaseType;
+    // Run a single statement without results
+    execute(sql: string): Promise<void>;
+    getAppliedMigrations(): Promise<SchemaMigration[]>;
+    tableExists(table: string): Promise<boolean>;
+    columnExists(table: string, column: string): Promise<boolean>;
+    /**
+     * Run the statements and record the version. SQLite and PostgreSQL do both
+     * in one transaction; MySQL commits DDL implicitly, so a failed statement
+     * there can leave earlier statements of the same migration applied.
+     */
+    applyMigration(migration: Migration, statements: string[]): Promise<void>;
+    // Record a version without running it (adopting a pre-existing schema)
+    recordMigration(migration: Migration): Promise<void>;
+}
+
+// ==================== SCHEMA_MIGRATIONS TABLE ====================
+
+const SCHEMA_MIGRATIONS_TABLE: Record<DatabaseType, string> = {
+    sqlite: `
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+    `,
+    postgresql: `
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name VARCHAR(255) NOT NULL,
+            applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `,
+    mysql: `
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INT PRIMARY KEY,
+            name VARCHAR(255) NOT NULL,
+            applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `
+};
+
+// ==================== MIGRATIONS ====================
+
+/**
+ * Every schema change, oldest first. Applied migrations must never be edited;
+ * add a new version instead. Versions 1-9 reproduce the tables that used to be
+ * created ad hoc by each adapter.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'create_connections_and_saved_queries',
+        detect: { table: 'connections' },
+        statements: {
+            sqlite: [
+                `CREATE TABLE connections (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    url TEXT NOT NULL,
+                    username TEXT,
+                    password TEXT,
+                    color TEXT DEFAULT '#3b82f6',
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE TABLE saved_queries (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    method TEXT NOT NULL,
+                    path TEXT NOT NULL,
+                    body TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE TABLE saved_search_queries (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    index_pattern TEXT NOT NULL,
+                    query TEXT NOT NULL,
+                    sort_field TEXT,
+                    sort_order TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`
+            ],
+            postgresql: [
+                `CREATE TABLE connections (
+                    id SERIAL PRIMARY KEY,
+                    name VARCHAR(255) NOT NULL,
+                    url TEXT NOT NULL,
+                    username VARCHAR(255),
+                    password TEXT,
+                    color VARCHAR(20) DEFAULT '#3b82f6',
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE TABLE saved_queries (
+                    id SERIAL PRIMARY KEY,
+                    name VARCHAR(255) NOT NULL,
+                    method VARCHAR(20) NOT NULL,
+                    path TEXT NOT NULL,
+                    body TEXT,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE TABLE saved_search_queries (
+                    id SERIAL PRIMARY KEY,
+                    name VARCHAR(255) NOT NULL,
+                    index_pattern VARCHAR(255) NOT NULL,
+                    query TEXT NOT NULL,
+                    sort_field VARCHAR(255),
+                    sort_order VARCHAR(10),
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`
+            ],
+            mysql: [
+                `CREATE TABLE connections (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    name VARCHAR(255) NOT NULL,
+                    url TEXT NOT NULL,
+                    username VARCHAR(255),
+                    password TEXT,
+                    color VARCHAR(20) DEFAULT '#3b82f6',
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+                )`,
+                `CREATE TABLE saved_queries (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    name VARCHAR(255) NOT NULL,
+                    method VARCHAR(20) NOT NULL,
+                    path TEXT NOT NULL,
+                    body TEXT,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+                )`,
+                `CREATE TABLE saved_search_queries (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    name VARCHAR(255) NOT NULL,
+                    index_pattern VARCHAR(255) NOT NULL,
+                    query TEXT NOT NULL,
+                    sort_field VARCHAR(255),
+                    sort_order VARCHAR(10),
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+                )`
+            ]
+        }
+    },
+    {
+        version: 2,
+        name: 'add_saved_search_query_ui_state',
+        detect: { table: 'saved_search_queries', column: 'ui_state' },
+        statements: {
+            sqlite: [`ALTER TABLE saved_search_queries ADD COLUMN ui_state TEXT`],
+            postgresql: [`ALTER TABLE saved_search_queries ADD COLUMN ui_state TEXT`],
+            mysql: [`ALTER TABLE saved_search_queries ADD COLUMN ui_state TEXT`]
+        }
+    },
+    {
+        version: 3,
+        name: 'create_users',
+        detect: { table: 'users' },
+        statements: {
+            sqlite: [
+                `CREATE TABLE users (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    username TEXT NOT NULL UNIQUE,
+                    password_hash TEXT NOT NULL,
+                    is_admin INTEGER NOT NULL DEFAULT 0,
+                    last_login_at DATETIME,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`
+            ],
+            postgresql: [
+                `CREATE TABLE users (
+                    id SERIAL PRIMARY KEY,
+                    username VARCHAR(255) NOT NULL UNIQUE,
+                    password_hash TEXT NOT NULL,
+                    is_admin BOOLEAN NOT NULL DEFAULT FALSE,
+                    last_login_at TIMESTAMP,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`
+            ],
+            mysql: [
+                `CREATE TABLE users (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    username VARCHAR(255) NOT NULL UNIQUE,
+                    password_hash TEXT NOT NULL,
+                    is_admin BOOLEAN NOT NULL DEFAULT FALSE,
+                    last_login_at TIMESTAMP NULL DEFAULT NULL,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+                )`
+            ]
+        }
+    },
+    {
+        version: 4,
+        name: 'create_connection_permissions',
+        detect: { table: 'connection_permissions' },
+        statements: {
+            // SQLite does not enforce foreign keys here; deleteConnection/deleteUser clean up by hand
+            sqlite: [
+                `CREATE TABLE connection_permissions (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    user_id INTEGER NOT NULL,
+                    connection_id INTEGER NOT NULL,
+                    role TEXT NOT NULL,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (user_id, connection_id)
+                )`
+            ],
+            postgresql: [
+                `CREATE TABLE connection_permissions (
+                    id SERIAL PRIMARY KEY,
+                    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                    connection_id INTEGER NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+                    role VARCHAR(20) NOT NULL,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (user_id, connection_id)
+                )`
+            ],
+            mysql: [
+                `CREATE TABLE connection_permissions (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    user_id INT NOT NULL,
+                    connection_id INT NOT NULL,
+                    role VARCHAR(20) NOT NULL,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                    UNIQUE KEY uniq_user_connection (user_id, connection_id),
+                    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+                    FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+                )`
+            ]
+        }
+    },
+    {
+        version: 5,
+        name: 'create_audit_logs',
+        detect: { table: 'audit_logs' },
+        statements: {
+            sqlite: [
+                `CREATE TABLE audit_logs (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    connection_id INTEGER,
+                    connection_name TEXT,
+                    user_id INTEGER,
+                    username TEXT,
+                    session_hash TEXT,
+                    action TEXT NOT NULL,
+                    method TEXT NOT NULL,
+                    path TEXT NOT NULL,
+                    target TEXT,
+                    body_hash TEXT,
+                    result TEXT NOT NULL,
+                    status_code INTEGER NOT NULL,
+                    error TEXT,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE INDEX idx_audit_logs_created_at ON audit_logs (created_at)`
+            ],
+            postgresql: [
+                `CREATE TABLE audit_logs (
+                    id SERIAL PRIMARY KEY,
+                    connection_id INTEGER,
+                    connection_name VARCHAR(255),
+                    user_id INTEGER,
+                    username VARCHAR(255),
+                    session_hash VARCHAR(64),
+                    action VARCHAR(50) NOT NULL,
+                    method VARCHAR(20) NOT NULL,
+                    path TEXT NOT NULL,
+                    target TEXT,
+                    body_hash VARCHAR(64),
+                    result VARCHAR(20) NOT NULL,
+                    status_code INTEGER NOT NULL,
+                    error TEXT,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE INDEX idx_audit_logs_created_at ON audit_logs (created_at)`
+            ],
+            mysql: [
+                `CREATE TABLE audit_logs (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    connection_id INT,
+                    connection_name VARCHAR(255),
+                    user_id INT,
+                    username VARCHAR(255),
+                    session_hash VARCHAR(64),
+                    action VARCHAR(50) NOT NULL,
+                    method VARCHAR(20) NOT NULL,
+                    path TEXT NOT NULL,
+                    target TEXT,
+                    body_hash VARCHAR(64),
+                    result VARCHAR(20) NOT NULL,
+                    status_code INT NOT NULL,
+                    error TEXT,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    INDEX idx_audit_logs_created_at (created_at)
+                )`
+            ]
+        }
+    },
+    {
+        version: 6,
+        name: 'add_connection_tls_settings',
+        detect: { table: 'connections', column: 'tls_ca_fingerprint' },
+        // Connections saved before TLS settings existed never verified certificates, so
+        // they keep verification off. New connections always store an explicit value.
+        statements: {
+            sqlite: [
+                `ALTER TABLE connections ADD COLUMN tls_verify INTEGER NOT NULL DEFAULT 0`,
+                `ALTER TABLE connections ADD COLUMN tls_ca TEXT`,
+                `ALTER TABLE connections ADD COLUMN tls_cert TEXT`,
+                `ALTER TABLE connections ADD COLUMN tls_key TEXT`,
+                `ALTER TABLE connections ADD COLUMN tls_ca_fingerprint TEXT`
+            ],
+            postgresql: [
+                `ALTER TABLE connections
+                    ADD COLUMN tls_verify BOOLEAN NOT NULL DEFAULT FALSE,
+                    ADD COLUMN tls_ca TEXT,
+                    ADD COLUMN tls_cert TEXT,
+                    ADD COLUMN tls_key TEXT,
+                    ADD COLUMN tls_ca_fingerprint VARCHAR(128)`
+            ],
+            mysql: [
+                `ALTER TABLE connections
+                    ADD COLUMN tls_verify BOOLEAN NOT NULL DEFAULT FALSE,
+                    ADD COLUMN tls_ca TEXT,
+                    ADD COLUMN tls_cert TEXT,
+                    ADD COLUMN tls_key TEXT,
+                    ADD COLUMN tls_ca_fingerprint VARCHAR(128)`
+            ]
+        }
+    },
+    {
+        version: 7,
+        name: 'add_connection_auth_settings',
+        detect: { table: 'connections', column: 'auth_type' },
+        statements: {
+            sqlite: [
+                `ALTER TABLE connections ADD COLUMN cloud_id TEXT`,
+                `ALTER TABLE connections ADD COLUMN auth_type TEXT NOT NULL DEFAULT 'basic'`,
+                `ALTER TABLE connections ADD COLUMN auth_token TEXT`
+            ],
+            postgresql: [
+                `ALTER TABLE connections
+                    ADD COLUMN cloud_id TEXT,
+                    ADD COLUMN auth_type VARCHAR(20) NOT NULL DEFAULT 'basic',
+                    ADD COLUMN auth_token TEXT`
+            ],
+            mysql: [
+                `ALTER TABLE connections
+                    ADD COLUMN cloud_id TEXT,
+                    ADD COLUMN auth_type VARCHAR(20) NOT NULL DEFAULT 'basic',
+                    ADD COLUMN auth_token TEXT`
+            ]
+        }
+    },
+    {
+        version: 8,
+        name: 'create_request_policy_rules',
+        detect: { table: 'request_policy_rules' },
+        statements: {
+            sqlite: [
+                `CREATE TABLE request_policy_rules (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    connection_id INTEGER NOT NULL,
+                    position INTEGER NOT NULL,
+                    action TEXT NOT NULL,
+                    method TEXT NOT NULL,
+                    path_pattern TEXT NOT NULL,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE INDEX idx_request_policy_rules_connection ON request_policy_rules (connection_id, position)`
+            ],
+            postgresql: [
+                `CREATE TABLE request_policy_rules (
+                    id SERIAL PRIMARY KEY,
+                    connection_id INTEGER NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+                    position INTEGER NOT NULL,
+                    action VARCHAR(20) NOT NULL,
+                    method VARCHAR(10) NOT NULL,
+                    path_pattern TEXT NOT NULL,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE INDEX idx_request_policy_rules_connection ON request_policy_rules (connection_id, position)`
+            ],
+            mysql: [
+                `CREATE TABLE request_policy_rules (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    connection_id INT NOT NULL,
+                    position INT NOT NULL,
+                    action VARCHAR(20) NOT NULL,
+                    method VARCHAR(10) NOT NULL,
+                    path_pattern TEXT NOT NULL,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    INDEX idx_request_policy_rules_connection (connection_id, position),
+                    FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+                )`
+            ]
+        }
+    },
+    {
+        version: 9,
+        name: 'add_connection_read_only',
+        detect: { table: 'connections', column: 'read_only' },
+        statements: {
+            sqlite: [`ALTER TABLE connections ADD COLUMN read_only INTEGER NOT NULL DEFAULT 0`],
+            postgresql: [`ALTER TABLE connections ADD COLUMN read_only BOOLEAN NOT NULL DEFAULT FALSE`],
+            mysql: [`ALTER TABLE connections ADD COLUMN read_only BOOLEAN NOT NULL DEFAULT FALSE`]
+        }
+    },
+    {
+        version: 10,
+        name: 'add_saved_query_organization',
+        // tags holds a JSON array of strings
+        statements: {
+            sqlite: [
+                `ALTER TABLE saved_queries ADD COLUMN folder TEXT`,
+                `ALTER TABLE saved_queries ADD COLUMN tags TEXT`,
+                `ALTER TABLE saved_queries ADD COLUMN description TEXT`,
+                `ALTER TABLE saved_queries ADD COLUMN last_used_at DATETIME`,
+                `ALTER TABLE saved_search_queries ADD COLUMN folder TEXT`,
+                `ALTER TABLE saved_search_queries ADD COLUMN tags TEXT`,
+                `ALTER TABLE saved_search_queries ADD COLUMN description TEXT`,
+                `ALTER TABLE saved_search_queries ADD COLUMN last_used_at DATETIME`
+            ],
+            postgresql: [
+                `ALTER TABLE saved_queries
+                    ADD COLUMN folder VARCHAR(255),
+                    ADD COLUMN tags TEXT,
+                    ADD COLUMN description TEXT,
+                    ADD COLUMN last_used_at TIMESTAMP`,
+                `ALTER TABLE saved_search_queries
+                    ADD COLUMN folder VARCHAR(255),
+                    ADD COLUMN tags TEXT,
+                    ADD COLUMN description TEXT,
+                    ADD COLUMN last_used_at TIMESTAMP`
+            ],
+            mysql: [
+                `ALTER TABLE saved_queries
+                    ADD COLUMN folder VARCHAR(255),
+                    ADD COLUMN tags TEXT,
+                    ADD COLUMN description TEXT,
+                    ADD COLUMN last_used_at TIMESTAMP NULL DEFAULT NULL`,
+                `ALTER TABLE saved_search_queries
+                    ADD COLUMN folder VARCHAR(255),
+                    ADD COLUMN tags TEXT,
+                    ADD COLUMN description TEXT,
+                    ADD COLUMN last_used_at TIMESTAMP NULL DEFAULT NULL`
+            ]
+        }
+    },
+    {
+        version: 11,
+        name: 'add_saved_query_connection_scope',
+        // NULL means the query is shared by all connections; scoped queries go with their connection
+        statements: {
+            sqlite: [
+                `ALTER TABLE saved_queries ADD COLUMN connection_id INTEGER`,
+                `ALTER TABLE saved_search_queries ADD COLUMN connection_id INTEGER`,
+                `CREATE INDEX idx_saved_queries_connection ON saved_queries (connection_id)`,
+                `CREATE INDEX idx_saved_search_queries_connection ON saved_search_queries (connection_id)`
+            ],
+            postgresql: [
+                `ALTER TABLE saved_queries
+                    ADD COLUMN connection_id INTEGER REFERENCES connections(id) ON DELETE CASCADE`,
+                `ALTER TABLE saved_search_queries
+                    ADD COLUMN connection_id INTEGER REFERENCES connections(id) ON DELETE CASCADE`,
+                `CREATE INDEX idx_saved_queries_connection ON saved_queries (connection_id)`,
+                `CREATE INDEX idx_saved_search_queries_connection ON saved_search_queries (connection_id)`
+            ],
+            mysql: [
+                `ALTER TABLE saved_queries
+                    ADD COLUMN connection_id INT NULL,
+                    ADD INDEX idx_saved_queries_connection (connection_id),
+                    ADD FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE`,
+                `ALTER TABLE saved_search_queries
+                    ADD COLUMN connection_id INT NULL,
+                    ADD INDEX idx_saved_search_queries_connection (connection_id),
+                    ADD FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE`
+            ]
+        }
+    },
+    {
+        version: 12,
+        name: 'create_rest_history',
+        // connection_id is NULL for ad-hoc connections, user_id when login is disabled
+        statements: {
+            sqlite: [
+                `CREATE TABLE rest_history (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    connection_id INTEGER,
+                    user_id INTEGER,
+                    method TEXT NOT NULL,
+                    path TEXT NOT NULL,
+                    body TEXT,
+                    status_code INTEGER NOT NULL,
+                    execution_time_ms INTEGER NOT NULL,
+                    response TEXT,
+                    response_truncated INTEGER DEFAULT 0,
+                    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE INDEX idx_rest_history_scope ON rest_history (user_id, connection_id, id)`,
+                `CREATE INDEX idx_rest_history_created_at ON rest_history (created_at)`
+            ],
+            postgresql: [
+                `CREATE TABLE rest_history (
+                    id SERIAL PRIMARY KEY,
+                    connection_id INTEGER REFERENCES connections(id) ON DELETE CASCADE,
+                    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+                    method VARCHAR(20) NOT NULL,
+                    path TEXT NOT NULL,
+                    body TEXT,
+                    status_code INTEGER NOT NULL,
+                    execution_time_ms INTEGER NOT NULL,
+                    response TEXT,
+                    response_truncated BOOLEAN DEFAULT FALSE,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )`,
+                `CREATE INDEX idx_rest_history_scope ON rest_history (user_id, connection_id, id)`,
+                `CREATE INDEX idx_rest_history_created_at ON rest_history (created_at)`
+            ],
+            mysql: [
+                `CREATE TABLE rest_history (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    connection_id INT NULL,
+                    user_id INT NULL,
+                    method VARCHAR(20) NOT NULL,
+                    path TEXT NOT NULL,
+                    body MEDIUMTEXT,
+                    status_code INT NOT NULL,
+                    execution_time_ms INT NOT NULL,
+                    response MEDIUMTEXT,
+                    response_truncated BOOLEAN DEFAULT FALSE,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    INDEX idx_rest_history_scope (user_id, connection_id, id),
+                    INDEX idx_rest_history_created_at (created_at),
+                    FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+                    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+                )`
+            ]
+        }
+    }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ==================== RUNNER ====================
+
+// Whether a pre-migration database already contains what `migration` would create
+const isAlreadyPresent = async (executor: MigrationExecutor, migration: Migration): Promise<boolean> => {
+    if (!migration.detect) return false;
+    const { table, column } = migration.detect;
+    return column
+        ? executor.columnExists(table, column)
+        : executor.tableExists(table);
+};
+
+/**
+ * Bring the schema up to date. Databases created before `schema_migrations`
+ * existed are adopted by recording the migrations whose objects are already
+ * present; everything else runs in version order. A database written by a
+ * newer build is refused rather than used with an unknown schema.
+ */
+export const runMigrations = async (executor: MigrationExecutor): Promise<SchemaMigration[]> => {
+    await executor.execute(SCHEMA_MIGRATIONS_TABLE[executor.dialect]);
+
+    const applied = await executor.getAppliedMigrations();
+    const appliedVersions = new Set(applied.map(m => m.version));
+
+    const unknown = applied.filter(m => m.version > LATEST_SCHEMA_VERSION);
+    if (unknown.length > 0) {
+        throw new Error(
+            `Database schema is at version ${Math.max(...unknown.map(m => m.version))}, `
+            + `but this build only knows versions up to ${LATEST_SCHEMA_VERSION}. Upgrade ElasticScope.`
+        );
+    }
+
+    const adopting = appliedVersions.size === 0 && await executor.tableExists('connections');
+
+    for (const migration of MIGRATIONS) {
+        if (appliedVersions.has(migration.version)) continue;
+
+        if (adopting && await isAlreadyPresent(executor, migration)) {
+            await executor.recordMigration(migration);
+            console.log(`📌 Schema migration ${migration.version} (${migration.name}) already present, recorded`);
+            continue;
+        }
+
+        try {
+            await executor.applyMigration(migration, migration.statements[executor.dialect]);
+        } catch (error) {
+            throw new Error(
+                `Schema migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`
+            );
+        }
+        console.log(`⬆️  Applied schema migration ${migration.version} (${migration.name})`);
+    }
+
+    return executor.getAppliedMigrations();
+};
+
+export const buildMigrationStatus = (dialect: DatabaseType, applied: SchemaMigration[]): MigrationStatus => {
+    const appliedVersions = new Set(applied.map(m => m.version));
+    return {
+        dialect,
+        current_version: applied.reduce((max, m) => Math.max(max, m.version), 0),
+        latest_version: LATEST_SCHEMA_VERSION,
+        applied,
+        pending: MIGRATIONS
+            .filter(m => !appliedVersions.has(m.version))
+            .map(({ version, name }) => ({ version, name }))
+    };
+};
@@ -0,0 +1,14 @@
+// Saved query tags are stored as a JSON array in a TEXT column
+
+export const serializeTags = (tags: string[] | undefined | null): string | null =>
+    tags && tags.length > 0 ? JSON.stringify(tags) : null;
+
+export const parseTags = (value: unknown): string[] => {
+    if (typeof value !== 'string' || !value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter((tag): tag is string => typeof tag === 'string') : [];
+    } catch {
+        return [];
+    }
+};
@@ -1,12 +1,27 @@
 // ==================== DATABASE TYPES ====================
 
+export type ConnectionAuthType = 'basic' | 'apiKey' | 'bearer' | 'none';
+
 export interface SavedConnection {
     id: number;
     name: string;
+    // Empty when the connection uses `cloud_id` instead
     url: string;
+    cloud_id: string | null;
+    auth_type: ConnectionAuthType;
     username: string | null;
     password: string | null;
+    // API key or bearer token, stored encrypted like the password
+    auth_token: string | null;
     color: string;
+    tls_verify: boolean;
+    // PEM material is stored encrypted, like the password
+    tls_ca: string | null;
+    tls_cert: string | null;
+    tls_key: string | null;
+    tls_ca_fingerprint: string | null;
+    // Writes through ElasticScope are refused, whatever the user's role
+    read_only: boolean;
     created_at: string;
     updated_at: string;
 }
@@ -14,12 +29,38 @@ export interface SavedConnection {
 export interface CreateConnectionInput {
     name: string;
     url: string;
+    cloud_id?: string;
+    auth_type?: ConnectionAuthType;
     username?: string;
     password?: string;
+    auth_token?: string;
     color?: string;
+    tls_verify?: boolean;
+    tls_ca?: string;
+    tls_cert?: string;
+    tls_key?: string;
+    tls_ca_fingerprint?: string;
+    read_only?: boolean;
+}
+
+// Organisation fields shared by saved REST and search queries
+export interface SavedQueryMetadata {
+    // Connection the query belongs to, or null when it is shared by all connections
+    connection_id: number | null;
+    folder: string | null;
+    tags: string[];
+    description: string | null;
+    last_used_at: string | null;
+}
+
+export interface SavedQueryMetadataInput {
+    connection_id?: number | null;
+    folder?: string | null;
+    tags?: string[];
+    description?: string | null;
 }
 
-export interface SavedQuery {
+export interface SavedQuery extends SavedQueryMetadata {
     id: number;
     name: string;
     method: string;
@@ -29,14 +70,14 @@ export interface SavedQuery {
     updated_at: string;
 }
 
-export interface CreateQueryInput {
+export interface CreateQueryInput extends SavedQueryMetadataInput {
     name: string;
     method: string;
     path: string;
     body?: string;
 }
 
-export interface SavedSearchQuery {
+export interface SavedSearchQuery extends SavedQueryMetadata {
     id: number;
     name: string;
     index_pattern: string;
@@ -48,7 +89,7 @@ export interface SavedSearchQuery {
     updated_at: string;
 }
 
-export interface CreateSearchQueryInput {
+export interface CreateSearchQueryInput extends SavedQueryMetadataInput {
     name: string;
     index_pattern: string;
     query: string;
@@ -57,6 +98,135 @@ export interface CreateSearchQueryInput {
     ui_state?: string;
 }
 
+export interface User {
+    id: number;
+    username: string;
+    password_hash: string;
+    is_admin: boolean;
+    last_login_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CreateUserInput {
+    username: string;
+    password: string;
+    is_admin?: boolean;
+}
+
+export type ConnectionRole = 'viewer' | 'editor' | 'admin';
+
+export interface ConnectionPermission {
+    id: number;
+    user_id: number;
+    connection_id: number;
+    role: ConnectionRole;
+    created_at: string;
+    updated_at: string;
+}
+
+export type RequestPolicyAction = 'allow' | 'confirm' | 'deny';
+
+export interface RequestPolicyRule {
+    id: number;
+    connection_id: number;
+    // Rules are evaluated in ascending position and the first match wins
+    position: number;
+    action: RequestPolicyAction;
+    // Upper-case HTTP method, or `*` for any method
+    method: string;
+    // Glob over the request path: `*` stays within a segment, `**` spans segments
+    path_pattern: string;
+    created_at: string;
+}
+
+export type RequestPolicyRuleInput = Pick<RequestPolicyRule, 'action' | 'method' | 'path_pattern'>;
+
+export type AuditResult = 'success' | 'failure';
+
+export interface AuditLogEntry {
+    id: number;
+    connection_id: number | null;
+    connection_name: string | null;
+    user_id: number | null;
+    username: string | null;
+    session_hash: string | null;
+    action: string;
+    method: string;
+    path: string;
+    target: string | null;
+    body_hash: string | null;
+    result: AuditResult;
+    status_code: number;
+    error: string | null;
+    created_at: string;
+}
+
+export type CreateAuditLogInput = Omit<AuditLogEntry, 'id' | 'created_at'>;
+
+export interface AuditLogFilter {
+    connection_id?: number;
+    username?: string;
+    action?: string;
+    result?: AuditResult;
+    search?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+}
+
+// ==================== REST HISTORY ====================
+
+export interface RestHistoryEntry {
+    id: number;
+    connection_id: number | null;
+    user_id: number | null;
+    method: string;
+    path: string;
+    body: string | null;
+    status_code: number;
+    execution_time_ms: number;
+    // Serialized response, cut to the configured size when `response_truncated`
+    response: string | null;
+    response_truncated: boolean;
+    created_at: string;
+}
+
+// History lists leave out the stored responses
+export type RestHistorySummary = Omit<RestHistoryEntry, 'response'>;
+
+export type CreateRestHistoryInput = Omit<RestHistoryEntry, 'id' | 'created_at'>;
+
+// History belongs to one user on one connection; either is null for ad-hoc connections or without login
+export interface RestHistoryScope {
+    user_id: number | null;
+    connection_id: number | null;
+}
+
+export interface RestHistoryFilter extends RestHistoryScope {
+    search?: string;
+    limit?: number;
+    offset?: number;
+}
+
+// ==================== SCHEMA MIGRATIONS ====================
+
+export interface SchemaMigration {
+    version: number;
+    name: string;
+    applied_at: string;
+}
+
+export interface MigrationStatus {
+    dialect: DatabaseType;
+    // Highest applied version, 0 for an empty database
+    current_version: number;
+    latest_version: number;
+    applied: SchemaMigration[];
+    pending: Pick<SchemaMigration, 'version' | 'name'>[];
+}
+
 // ==================== DATABASE ADAPTER INTERFACE ====================
 
 export interface DatabaseAdapter {
@@ -66,20 +236,66 @@ export interface DatabaseAdapter {
     createConnection(input: CreateConnectionInput): Promise<SavedConnection>;
     updateConnection(id: number, input: Partial<CreateConnectionInput>): Promise<SavedConnection | undefined>;
     deleteConnection(id: number): Promise<boolean>;
+    // Rewrite every encrypted connection secret through `transform` in one transaction; returns rows changed
+    reencryptConnectionSecrets(transform: (value: string) => string): Promise<number>;
 
     // Queries
-    getAllQueries(): Promise<SavedQuery[]>;
+    // `connectionId` undefined lists every query; otherwise shared ones plus those of that connection
+    getAllQueries(connectionId?: number | null): Promise<SavedQuery[]>;
     getQueryById(id: number): Promise<SavedQuery | undefined>;
     createQuery(input: CreateQueryInput): Promise<SavedQuery>;
     updateQuery(id: number, input: Partial<CreateQueryInput>): Promise<SavedQuery | undefined>;
     deleteQuery(id: number): Promise<boolean>;
+    // Stamp last_used_at with the current time
+    markQueryUsed(id: number): Promise<boolean>;
 
     // Search Queries
-    getAllSearchQueries(): Promise<SavedSearchQuery[]>;
+    getAllSearchQueries(connectionId?: number | null): Promise<SavedSearchQuery[]>;
+    getSearchQueryById(id: number): Promise<SavedSearchQuery | undefined>;
     createSearchQuery(input: CreateSearchQueryInput): Promise<SavedSearchQuery>;
+    updateSearchQuery(id: number, input: Partial<CreateSearchQueryInput>): Promise<SavedSearchQuery | undefined>;
     deleteSearchQuery(id: number): Promise<boolean>;
+    markSearchQueryUsed(id: number): Promise<boolean>;
+
+    // Users
+    getAllUsers(): Promise<User[]>;
+    getUserById(id: number): Promise<User | undefined>;
+    getUserByUsername(username: string): Promise<User | undefined>;
+    countUsers(): Promise<number>;
+    createUser(input: CreateUserInput): Promise<User>;
+    updateUser(id: number, input: Partial<CreateUserInput>): Promise<User | undefined>;
+    recordUserLogin(id: number): Promise<void>;
+    deleteUser(id: number): Promise<boolean>;
+
+    // Connection Permissions
+    getConnectionPermissionsForUser(userId: number): Promise<ConnectionPermission[]>;
+    getConnectionPermission(userId: number, connectionId: number): Promise<ConnectionPermission | undefined>;
+    setConnectionPermission(userId: number, connectionId: number, role: ConnectionRole): Promise<ConnectionPermission>;
+    deleteConnectionPermission(userId: number, connectionId: number): Promise<boolean>;
+
+    // Request Policy
+    getRequestPolicyRules(connectionId: number): Promise<RequestPolicyRule[]>;
+    // Replace every rule of a connection in one transaction, keeping the given order
+    replaceRequestPolicyRules(connectionId: number, rules: RequestPolicyRuleInput[]): Promise<RequestPolicyRule[]>;
+
+    // Audit Log
+    createAuditLog(input: CreateAuditLogInput): Promise<void>;
+    getAuditLogs(filter: AuditLogFilter): Promise<{ entries: AuditLogEntry[]; total: number }>;
+
+    // REST History
+    createRestHistoryEntry(input: CreateRestHistoryInput): Promise<void>;
+    getRestHistory(filter: RestHistoryFilter): Promise<{ entries: RestHistorySummary[]; total: number }>;
+    getRestHistoryEntry(id: number): Promise<RestHistoryEntry | undefined>;
+    deleteRestHistoryEntry(id: number): Promise<boolean>;
+    clearRestHistory(scope: RestHistoryScope): Promise<number>;
+    // Keep the newest `maxEntries` of `scope`; with `before`, also drop any entry created earlier
+    pruneRestHistory(scope: RestHistoryScope, maxEntries: number, before: string | null): Promise<number>;
+
+    // Schema Migrations
+    getSchemaMigrations(): Promise<SchemaMigration[]>;
 
     // Lifecycle
+    // Open the database and apply pending schema migrations
     initialize(): Promise<void>;
     close(): Promise<void>;
 }
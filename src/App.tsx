@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Search, GitCompare, Github, Star, Code, BarChart3, Linkedin, Coffee } from 'lucide-react';
+import { Search, GitCompare, Github, Star, Code, BarChart3, Linkedin, Coffee, ScrollText, Lock, Archive, Hourglass } from 'lucide-react';
 import { ConnectionSelector } from './components/ConnectionSelector';
 import { ConnectionFormModal } from './components/ConnectionFormModal';
 import { LanguageSwitcher } from './components/LanguageSwitcher';
@@ -12,11 +12,26 @@ import { IndexPage } from './components/IndexPage';
 import { Dashboard } from './components/Dashboard';
 import { RestPage } from './components/RestPage';
 import { ClusterMonitor } from './components/ClusterMonitor';
+import { SnapshotsPage } from './components/SnapshotsPage';
+import { IlmPage } from './components/IlmPage';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { ComparisonModal } from './components/ComparisonModal';
-import { getConnectionStatus, getSavedConnection, SavedConnection } from './api/elasticsearchClient';
+import { LoginPage } from './components/LoginPage';
+import { UserMenu } from './components/UserMenu';
+import { AuditLogView } from './components/AuditLogView';
+import {
+    getConnectionStatus,
+    getSavedConnection,
+    getAuthStatus,
+    logout,
+    onUnauthorized,
+    SavedConnection,
+    AuthStatus,
+    ConnectionRole,
+} from './api/elasticsearchClient';
 import { useResizable } from './hooks/useResizable';
 import { sidebarWidthStorage } from './utils/storage';
+import { getEffectiveRole } from './utils/permissions';
 import { MIN_SIDEBAR_WIDTH, MAX_SIDEBAR_WIDTH } from './constants';
 
 const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION ?? 'dev';
@@ -25,12 +40,16 @@ const SMART_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
 function App() {
     const { t } = useTranslation();
 
+    const [authStatus, setAuthStatus] = useState<AuthStatus | null>(null);
     const [isConnected, setIsConnected] = useState(false);
     const [connectionId, setConnectionId] = useState<number | null>(null);
     const [connectionName, setConnectionName] = useState('');
     const [connectionColor, setConnectionColor] = useState('');
+    const [connectionRole, setConnectionRole] = useState<ConnectionRole | null>(null);
+    const [connectionReadOnly, setConnectionReadOnly] = useState(false);
     const [refreshTrigger, setRefreshTrigger] = useState(0);
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [showAuditLog, setShowAuditLog] = useState(false);
     const [editingConnection, setEditingConnection] = useState<SavedConnection | null>(null);
 
     const [selectedIndex, setSelectedIndex] = useState<string | null>(() => {
@@ -38,10 +57,12 @@ function App() {
         return params.get('index');
     });
 
-    const [currentView, setCurrentView] = useState<'dashboard' | 'index' | 'rest' | 'monitor'>(() => {
+    const [currentView, setCurrentView] = useState<'dashboard' | 'index' | 'rest' | 'monitor' | 'snapshots' | 'ilm'>(() => {
         const params = new URLSearchParams(window.location.search);
         if (params.get('view') === 'rest') return 'rest';
         if (params.get('view') === 'monitor') return 'monitor';
+        if (params.get('view') === 'snapshots') return 'snapshots';
+        if (params.get('view') === 'ilm') return 'ilm';
         if (params.get('index')) return 'index';
         return 'dashboard';
     });
@@ -57,6 +78,10 @@ function App() {
                 setCurrentView('rest');
             } else if (view === 'monitor') {
                 setCurrentView('monitor');
+            } else if (view === 'snapshots') {
+                setCurrentView('snapshots');
+            } else if (view === 'ilm') {
+                setCurrentView('ilm');
             } else if (index) {
                 setCurrentView('index');
             } else {
@@ -125,9 +150,38 @@ function App() {
     });
 
     useEffect(() => {
-        checkConnection();
+        loadAuthStatus();
+        return onUnauthorized(() => {
+            setAuthStatus((prev) => prev ? { ...prev, user: null } : prev);
+        });
     }, []);
 
+    const isAuthenticated = !!authStatus && (!authStatus.authEnabled || !!authStatus.user);
+    const isGlobalAdmin = !!authStatus && (!authStatus.authEnabled || !!authStatus.user?.is_admin);
+
+    useEffect(() => {
+        if (isAuthenticated) {
+            checkConnection();
+        }
+    }, [isAuthenticated]);
+
+    const loadAuthStatus = async () => {
+        try {
+            setAuthStatus(await getAuthStatus());
+        } catch {
+            setAuthStatus({ authEnabled: true, user: null });
+        }
+    };
+
+    const handleLogout = async () => {
+        try {
+            await logout();
+        } finally {
+            handleGoHome();
+            setAuthStatus((prev) => prev ? { ...prev, user: null } : prev);
+        }
+    };
+
     const checkConnection = async () => {
         try {
             const status = await getConnectionStatus();
@@ -135,6 +189,8 @@ function App() {
             setConnectionId(status.id);
             setConnectionName(status.name);
             setConnectionColor(status.color || '');
+            setConnectionRole(status.role);
+            setConnectionReadOnly(!!status.readOnly);
         } catch {
             setIsConnected(false);
         }
@@ -207,9 +263,23 @@ function App() {
         setConnectionId(null);
         setConnectionName('');
         setConnectionColor('');
+        setConnectionRole(null);
+        setConnectionReadOnly(false);
         handleSelectIndex(null);
     };
 
+    if (!authStatus) {
+        return null;
+    }
+
+    if (!isAuthenticated) {
+        return (
+            <LoginPage
+                onLogin={(user) => setAuthStatus((prev) => ({ authEnabled: prev?.authEnabled ?? true, user }))}
+            />
+        );
+    }
+
     return (
         <div className="app">
             <header className="app-header">
@@ -232,6 +302,12 @@ function App() {
                                 style={{ backgroundColor: connectionColor }}
                             />
                             <span className="connection-name">{connectionName}</span>
+                            {connectionReadOnly && (
+                                <span className="connection-read-only-badge" title={t('header.readOnlyHint')}>
+                                    <Lock size={10} />
+                                    {t('header.readOnly')}
+                                </span>
+                            )}
                         </div>
                     )}
                 </div>
@@ -253,6 +329,36 @@ function App() {
                                 <BarChart3 size={18} />
                                 {t('clusterMonitor.title')}
                             </button>
+                            <button
+                                className={`btn btn-ghost ${currentView === 'snapshots' ? 'btn-active' : ''}`}
+                                onClick={() => {
+                                    setCurrentView('snapshots');
+                                    setSelectedIndex(null);
+                                    const url = new URL(window.location.href);
+                                    url.searchParams.delete('index');
+                                    url.searchParams.set('view', 'snapshots');
+                                    window.history.pushState({}, '', url.toString());
+                                }}
+                                title={t('snapshots.title')}
+                            >
+                                <Archive size={18} />
+                                {t('snapshots.title')}
+                            </button>
+                            <button
+                                className={`btn btn-ghost ${currentView === 'ilm' ? 'btn-active' : ''}`}
+                                onClick={() => {
+                                    setCurrentView('ilm');
+                                    setSelectedIndex(null);
+                                    const url = new URL(window.location.href);
+                                    url.searchParams.delete('index');
+                                    url.searchParams.set('view', 'ilm');
+                                    window.history.pushState({}, '', url.toString());
+                                }}
+                                title={t('ilm.title')}
+                            >
+                                <Hourglass size={18} />
+                                {t('ilm.navTitle')}
+                            </button>
                             <button
                                 className={`btn btn-ghost ${currentView === 'rest' ? 'btn-active' : ''}`}
                                 onClick={() => {
@@ -281,12 +387,27 @@ function App() {
                             {t('documentViewer.compare')}
                         </button>
                     )}
+                    {isGlobalAdmin && (
+                        <button
+                            className="btn btn-ghost"
+                            onClick={() => setShowAuditLog(true)}
+                            title={t('audit.title')}
+                        >
+                            <ScrollText size={18} />
+                            {t('audit.title')}
+                        </button>
+                    )}
                     <LanguageSwitcher />
+                    {authStatus.user && (
+                        <UserMenu user={authStatus.user} onLogout={handleLogout} />
+                    )}
                     <ConnectionSelector
                         isConnected={isConnected}
                         currentConnectionId={connectionId}
                         currentConnectionName={connectionName}
                         onConnectionChange={handleConnectionChange}
+                        canCreate={isGlobalAdmin}
+                        canExport={isGlobalAdmin}
                         onAddNew={() => {
                             setEditingConnection(null);
                             setIsModalOpen(true);
@@ -314,6 +435,7 @@ function App() {
             >
                 <ConnectionFormModal
                     editConnection={editingConnection}
+                    canEditEndpoint={isGlobalAdmin}
                     onSuccess={() => {
                         handleConnectionChange();
                         setIsModalOpen(false);
@@ -326,6 +448,15 @@ function App() {
                 />
             </Modal>
 
+            <Modal
+                isOpen={showAuditLog}
+                onClose={() => setShowAuditLog(false)}
+                title={t('audit.title')}
+                size="xl"
+            >
+                {showAuditLog && <AuditLogView />}
+            </Modal>
+
             {isConnected ? (
                 <main className="app-main">
                     <aside
@@ -349,10 +480,22 @@ function App() {
                             <RestPage
                                 initialIndex={selectedIndex || undefined}
                                 connectionId={connectionId || 0}
+                                connectionRole={getEffectiveRole(connectionRole, connectionReadOnly)}
+                                readOnly={connectionReadOnly}
                                 refreshTrigger={refreshTrigger}
                             />
                         ) : currentView === 'monitor' ? (
                             <ClusterMonitor connectionId={connectionId || 0} />
+                        ) : currentView === 'snapshots' ? (
+                            <SnapshotsPage
+                                connectionId={connectionId || 0}
+                                connectionRole={getEffectiveRole(connectionRole, connectionReadOnly)}
+                            />
+                        ) : currentView === 'ilm' ? (
+                            <IlmPage
+                                connectionId={connectionId || 0}
+                                connectionRole={getEffectiveRole(connectionRole, connectionReadOnly)}
+                            />
                         ) : selectedIndex ? (
                             <IndexPage
                                 indexName={selectedIndex}
@@ -361,6 +504,7 @@ function App() {
                                 onRemoveFromComparison={removeFromComparison}
                                 isInComparison={isInComparison}
                                 connectionId={connectionId}
+                                connectionRole={getEffectiveRole(connectionRole, connectionReadOnly)}
                             />
                         ) : (
                             <Dashboard
@@ -374,7 +518,7 @@ function App() {
             ) : (
                 <WelcomeScreen
                     onConnectionSuccess={handleConnectionChange}
-                    onAddNewConnection={() => setIsModalOpen(true)}
+                    onAddNewConnection={isGlobalAdmin ? () => setIsModalOpen(true) : undefined}
                 />
             )}
 
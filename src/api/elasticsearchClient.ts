@@ -1,46 +1,130 @@
 import type {
     SavedConnection,
     CreateConnectionInput,
+    ConnectionAuthType,
     SavedQuery,
     CreateQueryInput,
     SavedSearchQuery,
     CreateSearchQueryInput,
+    SavedQueryMetadata,
+    SavedQueryMetadataInput,
     IndexInfo,
     SearchResult,
     ConnectionIndex,
     CopyDocumentInput,
     CopyDocumentsInput,
     CopyResult,
+    BulkImportDocument,
+    BulkImportInput,
+    BulkImportItemError,
+    BulkImportResult,
+    DocumentBulkAction,
+    DocumentBulkActionInput,
+    DocumentBulkActionResult,
+    AggregationNode,
+    AggregationRunResult,
+    SnapshotRepository,
+    SnapshotInfo,
+    SnapshotProgress,
+    SnapshotRestoreOptions,
+    IlmPolicy,
+    IlmPolicyBody,
+    IlmExplain,
     RestRequestInput,
+    RestHistoryEntry,
+    RestHistorySummary,
+    RestHistorySettings,
+    RestHistoryPage,
     CreateIndexInput,
     ClusterHealth,
     ClusterStats,
     ConnectionStatus,
+    AuthUser,
+    AuthStatus,
+    ManagedUser,
+    UserInput,
+    ConnectionRole,
+    ConnectionPermission,
+    AuditLogEntry,
+    AuditLogFilter,
+    AuditLogPage,
+    RequestPolicyAction,
+    RequestPolicyRule,
+    RequestPolicyRuleInput,
+    RequestPolicy,
+    RequestConfirmation,
 } from '../types';
 
 // Re-export types for convenience
 export type {
     SavedConnection,
     CreateConnectionInput,
+    ConnectionAuthType,
     SavedQuery,
     CreateQueryInput,
     SavedSearchQuery,
     CreateSearchQueryInput,
+    SavedQueryMetadata,
+    SavedQueryMetadataInput,
     IndexInfo,
     SearchResult,
     ConnectionIndex,
     CopyDocumentInput,
     CopyDocumentsInput,
     CopyResult,
+    BulkImportDocument,
+    BulkImportInput,
+    BulkImportItemError,
+    BulkImportResult,
+    DocumentBulkAction,
+    DocumentBulkActionInput,
+    DocumentBulkActionResult,
+    AggregationNode,
+    AggregationRunResult,
+    SnapshotRepository,
+    SnapshotInfo,
+    SnapshotProgress,
+    SnapshotRestoreOptions,
+    IlmPolicy,
+    IlmPolicyBody,
+    IlmExplain,
     RestRequestInput,
+    RestHistoryEntry,
+    RestHistorySummary,
+    RestHistorySettings,
+    RestHistoryPage,
     CreateIndexInput,
     ClusterHealth,
     ClusterStats,
     ConnectionStatus,
+    AuthUser,
+    AuthStatus,
+    ManagedUser,
+    UserInput,
+    ConnectionRole,
+    ConnectionPermission,
+    AuditLogEntry,
+    AuditLogFilter,
+    AuditLogPage,
+    RequestPolicyAction,
+    RequestPolicyRule,
+    RequestPolicyRuleInput,
+    RequestPolicy,
+    RequestConfirmation,
 };
 
 const API_URL = '/api';
 
+// Listeners notified when the server rejects a request because the login session is gone
+const unauthorizedListeners = new Set<() => void>();
+
+export const onUnauthorized = (listener: () => void) => {
+    unauthorizedListeners.add(listener);
+    return () => {
+        unauthorizedListeners.delete(listener);
+    };
+};
+
 async function apiRequest<T>(
     endpoint: string,
     options?: RequestInit
@@ -66,23 +150,111 @@ async function apiRequest<T>(
     }
 
     if (!response.ok) {
-        // If server sends errorCode, throw it directly for i18n translation
-        if (data.errorCode) {
-            const error: any = new Error(data.errorCode);
-            error.errorCode = data.errorCode;
-            error.details = data.details;
-            throw error;
-        }
-        // Fallback for old-style errors
-        const errorMessage = typeof data.error === 'object'
-            ? JSON.stringify(data)
-            : (data.error || 'UNKNOWN_ERROR');
-        throw new Error(errorMessage);
+        throw toApiError(response.status, data);
     }
 
     return data;
 }
 
+// Builds the error thrown for a failed JSON response
+function toApiError(status: number, data: any): Error {
+    if (status === 401 && data.errorCode === 'AUTH_REQUIRED') {
+        unauthorizedListeners.forEach((listener) => listener());
+    }
+
+    // If server sends errorCode, throw it directly for i18n translation
+    if (data.errorCode) {
+        const error: any = new Error(data.errorCode);
+        error.errorCode = data.errorCode;
+        error.details = data.details;
+        // REST requests that need typed confirmation carry the challenge to answer
+        if (data.confirmation) error.confirmation = data.confirmation;
+        return error;
+    }
+    // Fallback for old-style errors
+    const errorMessage = typeof data.error === 'object'
+        ? JSON.stringify(data)
+        : (data.error || 'UNKNOWN_ERROR');
+    return new Error(errorMessage);
+}
+
+// ==================== AUTH API ====================
+
+export const getAuthStatus = () =>
+    apiRequest<AuthStatus>('/auth/me');
+
+export const login = (username: string, password: string) =>
+    apiRequest<{ success: boolean; user: AuthUser }>('/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ username, password }),
+    });
+
+export const logout = () =>
+    apiRequest<{ success: boolean }>('/auth/logout', {
+        method: 'POST',
+    });
+
+export const changePassword = (currentPassword: string, newPassword: string) =>
+    apiRequest<{ success: boolean }>('/auth/password', {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword }),
+    });
+
+// ==================== USERS API ====================
+
+export const getUsers = () =>
+    apiRequest<ManagedUser[]>('/users');
+
+export const createUser = (input: UserInput) =>
+    apiRequest<ManagedUser>('/users', {
+        method: 'POST',
+        body: JSON.stringify(input),
+    });
+
+export const updateUser = (id: number, input: Partial<UserInput>) =>
+    apiRequest<ManagedUser>(`/users/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(input),
+    });
+
+export const deleteUser = (id: number) =>
+    apiRequest<{ success: boolean }>(`/users/${id}`, {
+        method: 'DELETE',
+    });
+
+export const getUserPermissions = (userId: number) =>
+    apiRequest<ConnectionPermission[]>(`/users/${userId}/permissions`);
+
+export const setUserPermission = (userId: number, connectionId: number, role: ConnectionRole) =>
+    apiRequest<ConnectionPermission>(`/users/${userId}/permissions/${connectionId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ role }),
+    });
+
+export const deleteUserPermission = (userId: number, connectionId: number) =>
+    apiRequest<{ success: boolean }>(`/users/${userId}/permissions/${connectionId}`, {
+        method: 'DELETE',
+    });
+
+// ==================== AUDIT API ====================
+
+const toAuditQuery = (filter: AuditLogFilter, extra: Record<string, string | number> = {}) => {
+    const params = new URLSearchParams();
+    Object.entries({ ...filter, ...extra }).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+            params.set(key, String(value));
+        }
+    });
+    return params.toString();
+};
+
+export const getAuditLogs = (filter: AuditLogFilter, limit: number, offset: number) =>
+    apiRequest<AuditLogPage>(`/audit?${toAuditQuery(filter, { limit, offset })}`);
+
+// The export is a plain download, so the browser fetches it directly
+export const getAuditExportUrl = (filter: AuditLogFilter, format: 'csv' | 'json') =>
+    `${API_URL}/audit/export?${toAuditQuery(filter, { format })}`;
+
 // ==================== SAVED CONNECTIONS API ====================
 
 export const getSavedConnections = () =>
@@ -108,13 +280,31 @@ export const deleteSavedConnection = (id: number) =>
         method: 'DELETE',
     });
 
+export const getRequestPolicy = (connectionId: number) =>
+    apiRequest<RequestPolicy>(`/connections/${connectionId}/request-policy`);
+
+export const updateRequestPolicy = (connectionId: number, rules: RequestPolicyRuleInput[]) =>
+    apiRequest<RequestPolicy>(`/connections/${connectionId}/request-policy`, {
+        method: 'PUT',
+        body: JSON.stringify({ rules }),
+    });
+
 // Export connection data format (without sensitive info and internal fields)
 export interface ExportedConnection {
     name: string;
     url: string;
+    cloud_id?: string;
+    auth_type?: ConnectionAuthType;
     username?: string;
     password?: string;
+    auth_token?: string;
     color: string;
+    tls_verify?: boolean;
+    tls_ca?: string;
+    tls_cert?: string;
+    tls_key?: string;
+    tls_ca_fingerprint?: string;
+    read_only?: boolean;
 }
 
 // Format for export file
@@ -154,9 +344,11 @@ export const importConnectionsData = async (
     };
 
     for (const conn of data.connections) {
-        // Check for duplicates (same name or same URL)
+        // Check for duplicates (same name, same URL or same Cloud ID)
         const isDuplicate = existingConnections.some(
-            existing => existing.name === conn.name || existing.url === conn.url
+            existing => existing.name === conn.name
+                || (!!conn.url && existing.url === conn.url)
+                || (!!conn.cloud_id && existing.cloud_id === conn.cloud_id)
         );
 
         if (isDuplicate) {
@@ -168,9 +360,18 @@ export const importConnectionsData = async (
             await createSavedConnection({
                 name: conn.name,
                 url: conn.url,
+                cloud_id: conn.cloud_id,
+                auth_type: conn.auth_type,
                 username: conn.username,
                 password: conn.password,
+                auth_token: conn.auth_token,
                 color: conn.color,
+                tls_verify: conn.tls_verify,
+                tls_ca: conn.tls_ca,
+                tls_cert: conn.tls_cert,
+                tls_key: conn.tls_key,
+                tls_ca_fingerprint: conn.tls_ca_fingerprint,
+                read_only: conn.read_only,
             });
             result.imported++;
         } catch (error) {
@@ -184,7 +385,7 @@ export const importConnectionsData = async (
 // ==================== ELASTICSEARCH CONNECTION API ====================
 
 export const getConnectionStatus = () =>
-    apiRequest<{ id: number | null; url: string; connected: boolean; name: string; color: string }>('/status');
+    apiRequest<ConnectionStatus>('/status');
 
 export const connectWithSavedConnection = (connectionId: number) =>
     apiRequest<{ success: boolean; message: string }>('/connect', {
@@ -522,6 +723,98 @@ export const cancelTask = (taskId: string) =>
         method: 'POST',
     });
 
+// Result of GET _tasks/<id>; `response` is set once a by-query operation finished
+export interface TaskStatus {
+    completed: boolean;
+    task: TaskInfo;
+    response?: {
+        total?: number;
+        updated?: number;
+        deleted?: number;
+        version_conflicts?: number;
+        noops?: number;
+        took?: number;
+        // Reason given when the task was cancelled
+        canceled?: string;
+        failures?: Array<{ id?: string; cause?: { type?: string; reason?: string } }>;
+    };
+    error?: { type?: string; reason?: string };
+}
+
+export const getTask = (taskId: string) =>
+    apiRequest<TaskStatus>(`/tasks/${encodeURIComponent(taskId)}`);
+
+// ==================== SNAPSHOT API ====================
+
+export const getSnapshotRepositories = () =>
+    apiRequest<{ repositories: SnapshotRepository[] }>('/snapshots');
+
+export const getSnapshots = (repository: string) =>
+    apiRequest<{ snapshots: SnapshotInfo[] }>(`/snapshots/${encodeURIComponent(repository)}`);
+
+// Starts the snapshot in the background; follow it with getSnapshotProgress
+export const createSnapshot = (repository: string, snapshot: string, indices: string[], includeGlobalState: boolean) =>
+    apiRequest<{ success: boolean; snapshot: string }>(`/snapshots/${encodeURIComponent(repository)}`, {
+        method: 'POST',
+        body: JSON.stringify({ snapshot, indices, includeGlobalState }),
+    });
+
+export const getSnapshotProgress = (repository: string, snapshot: string) =>
+    apiRequest<SnapshotProgress>(
+        `/snapshots/${encodeURIComponent(repository)}/${encodeURIComponent(snapshot)}/status`
+    );
+
+export const restoreSnapshot = (repository: string, snapshot: string, options: SnapshotRestoreOptions) =>
+    apiRequest<{ success: boolean; snapshot: string }>(
+        `/snapshots/${encodeURIComponent(repository)}/${encodeURIComponent(snapshot)}/restore`,
+        {
+            method: 'POST',
+            body: JSON.stringify(options),
+        }
+    );
+
+export const deleteSnapshot = (repository: string, snapshot: string) =>
+    apiRequest<{ success: boolean; snapshot: string }>(
+        `/snapshots/${encodeURIComponent(repository)}/${encodeURIComponent(snapshot)}`,
+        { method: 'DELETE' }
+    );
+
+// ==================== ILM API ====================
+
+export const getIlmPolicies = () =>
+    apiRequest<{ policies: IlmPolicy[] }>('/ilm/policies');
+
+// Creates the policy or replaces it with a new version
+export const saveIlmPolicy = (name: string, policy: IlmPolicyBody) =>
+    apiRequest<{ success: boolean; policy: string }>(`/ilm/policies/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ policy }),
+    });
+
+export const deleteIlmPolicy = (name: string) =>
+    apiRequest<{ success: boolean; policy: string }>(`/ilm/policies/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+    });
+
+export const getIndexLifecycle = (index: string) =>
+    apiRequest<IlmExplain>(`/indices/${encodeURIComponent(index)}/ilm`);
+
+export const retryIndexLifecycle = (index: string) =>
+    apiRequest<{ success: boolean }>(`/indices/${encodeURIComponent(index)}/ilm/retry`, {
+        method: 'POST',
+    });
+
+export const attachIndexPolicy = (index: string, policy: string) =>
+    apiRequest<{ success: boolean }>(`/indices/${encodeURIComponent(index)}/ilm`, {
+        method: 'PUT',
+        body: JSON.stringify({ policy }),
+    });
+
+export const detachIndexPolicy = (index: string) =>
+    apiRequest<{ success: boolean }>(`/indices/${encodeURIComponent(index)}/ilm`, {
+        method: 'DELETE',
+    });
+
 // ==================== CLUSTER MONITORING API ====================
 
 // Full node stats (JVM, OS, FS, indices, thread_pool, transport, http, breaker)
@@ -858,18 +1151,142 @@ export const reindex = (input: {
         body: JSON.stringify(input),
     });
 
+export const countDocuments = (index: string, query?: object | null) =>
+    apiRequest<{ count: number }>('/count', {
+        method: 'POST',
+        body: JSON.stringify({ index, query }),
+    });
+
+export interface ByQueryInput {
+    // Required; pass { match_all: {} } to target every document
+    query: object;
+    // Painless script, only for update by query
+    script?: { source: string; params?: Record<string, unknown> };
+    // Count version conflicts instead of aborting on the first one
+    proceedOnConflicts?: boolean;
+}
+
+// Both run as a task; follow it with getTask
+export const deleteByQuery = (index: string, input: ByQueryInput) =>
+    apiRequest<{ success: boolean; taskId: string }>(`/indices/${encodeURIComponent(index)}/delete_by_query`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+    });
+
+export const updateByQuery = (index: string, input: ByQueryInput) =>
+    apiRequest<{ success: boolean; taskId: string }>(`/indices/${encodeURIComponent(index)}/update_by_query`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+    });
+
+export interface SearchOptions {
+    // Pages past the result window are fetched through a point in time; pass back the
+    // pitId and searchAfter of the previous page to continue from there
+    pitId?: string;
+    searchAfter?: unknown[];
+    // Fields to return highlighted fragments for, "*" for every matched field
+    highlight?: string[];
+}
+
 export const searchDocuments = (
     index: string,
     query?: object,
     from = 0,
     size = 20,
-    sort?: object
+    sort?: object,
+    options?: SearchOptions
 ) =>
     apiRequest<SearchResult>('/search', {
         method: 'POST',
-        body: JSON.stringify({ index, query, from, size, sort }),
+        body: JSON.stringify({ index, query, from, size, sort, ...options }),
     });
 
+export const closeSearchPit = (id: string) =>
+    apiRequest<{ success: boolean }>('/search/pit', {
+        method: 'DELETE',
+        body: JSON.stringify({ id }),
+    });
+
+export type SearchExportFormat = 'csv' | 'ndjson' | 'json';
+
+export interface SearchExportInput {
+    index: string;
+    query?: object | null;
+    sort?: object;
+    format: SearchExportFormat;
+    // Columns written to CSV after _id
+    columns: string[];
+}
+
+export interface SearchExportProgress {
+    rows: number;
+    total: number;
+}
+
+const SEARCH_EXPORT_MIME_TYPES: Record<SearchExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    ndjson: 'application/x-ndjson',
+    json: 'application/json',
+};
+
+/**
+ * Download all documents matching a query. The server streams one document per
+ * line, so progress is reported by counting line breaks outside of quoted CSV
+ * values. Abort the signal to stop the export; the promise then rejects with an
+ * AbortError.
+ */
+export const exportSearchResults = async (
+    input: SearchExportInput,
+    onProgress: (progress: SearchExportProgress) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const response = await fetch(`${API_URL}/search/export`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+        signal,
+    });
+
+    if (!response.ok) {
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('application/json')) {
+            throw toApiError(response.status, await response.json());
+        }
+        throw new Error(`Server error ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const total = parseInt(response.headers.get('x-total-count') || '0', 10) || 0;
+    // The CSV header line is not a document
+    let lines = input.format === 'csv' ? -1 : 0;
+    let inQuotes = false;
+    const chunks: Uint8Array[] = [];
+    const decoder = new TextDecoder();
+    const reader = response.body!.getReader();
+
+    onProgress({ rows: 0, total });
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+
+        const text = decoder.decode(value, { stream: true });
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (char === '"' && input.format === 'csv') {
+                inQuotes = !inQuotes;
+            } else if (char === '\n' && !inQuotes) {
+                lines++;
+            }
+        }
+        onProgress({ rows: Math.min(Math.max(lines, 0), total), total });
+    }
+
+    onProgress({ rows: total, total });
+    return new Blob(chunks as BlobPart[], { type: SEARCH_EXPORT_MIME_TYPES[input.format] });
+};
+
 export interface AggregationBucket {
     key: string;
     doc_count: number;
@@ -894,6 +1311,13 @@ export const getAggregations = (
         body: JSON.stringify({ index, fields, dateField, query }),
     });
 
+// Runs the aggregation builder definition with the current query as context
+export const runAggregations = (index: string, aggregations: AggregationNode[], query?: object | null) =>
+    apiRequest<AggregationRunResult>('/aggregations', {
+        method: 'POST',
+        body: JSON.stringify({ index, aggregations, query }),
+    });
+
 export const getDocument = (index: string, id: string) =>
     apiRequest<{
         _index: string;
@@ -945,6 +1369,28 @@ export const executeRestRequest = (input: RestRequestInput) =>
         body: JSON.stringify(input),
     });
 
+export const getRestHistory = (params: { search?: string; limit?: number; offset?: number } = {}) => {
+    const query = new URLSearchParams();
+    if (params.search) query.set('search', params.search);
+    if (params.limit !== undefined) query.set('limit', String(params.limit));
+    if (params.offset !== undefined) query.set('offset', String(params.offset));
+    const qs = query.toString();
+    return apiRequest<RestHistoryPage>(`/rest/history${qs ? `?${qs}` : ''}`);
+};
+
+export const getRestHistoryEntry = (id: number) =>
+    apiRequest<RestHistoryEntry>(`/rest/history/${id}`);
+
+export const deleteRestHistoryEntry = (id: number) =>
+    apiRequest<{ success: boolean }>(`/rest/history/${id}`, {
+        method: 'DELETE',
+    });
+
+export const clearRestHistory = () =>
+    apiRequest<{ success: boolean; deleted: number }>('/rest/history', {
+        method: 'DELETE',
+    });
+
 // ==================== SAVED QUERIES API ====================
 
 export const getSavedQueries = () =>
@@ -970,22 +1416,106 @@ export const deleteSavedQuery = (id: number) =>
         method: 'DELETE',
     });
 
+export const markSavedQueryUsed = (id: number) =>
+    apiRequest<{ success: boolean }>(`/queries/${id}/use`, {
+        method: 'POST',
+    });
+
 // ==================== SAVED SEARCH QUERIES ====================
 
 export const getSavedSearchQueries = () =>
     apiRequest<SavedSearchQuery[]>('/search-queries');
 
+export const getSavedSearchQuery = (id: number) =>
+    apiRequest<SavedSearchQuery>(`/search-queries/${id}`);
+
 export const createSavedSearchQuery = (input: CreateSearchQueryInput) =>
     apiRequest<SavedSearchQuery>('/search-queries', {
         method: 'POST',
         body: JSON.stringify(input),
     });
 
+export const updateSavedSearchQuery = (id: number, input: Partial<CreateSearchQueryInput>) =>
+    apiRequest<SavedSearchQuery>(`/search-queries/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(input),
+    });
+
 export const deleteSavedSearchQuery = (id: number) =>
     apiRequest<{ success: boolean }>(`/search-queries/${id}`, {
         method: 'DELETE',
     });
 
+export const markSavedSearchQueryUsed = (id: number) =>
+    apiRequest<{ success: boolean }>(`/search-queries/${id}/use`, {
+        method: 'POST',
+    });
+
+// ==================== SAVED QUERIES EXPORT / IMPORT ====================
+
+// Scoped queries carry their connection name, since ids differ between instances
+export interface ExportedSavedQuery {
+    name: string;
+    method: string;
+    path: string;
+    body: string | null;
+    folder: string | null;
+    tags: string[];
+    description: string | null;
+    connection_name: string | null;
+}
+
+export interface ExportedSavedSearchQuery {
+    name: string;
+    index_pattern: string;
+    query: string;
+    sort_field: string | null;
+    sort_order: string | null;
+    ui_state: string | null;
+    folder: string | null;
+    tags: string[];
+    description: string | null;
+    connection_name: string | null;
+}
+
+// Format for export file
+export interface SavedQueriesExportData {
+    version: string;
+    exportedAt: string;
+    queries: ExportedSavedQuery[];
+    search_queries: ExportedSavedSearchQuery[];
+}
+
+// How an imported query whose name is already taken is handled
+export type QueryImportStrategy = 'skip' | 'rename' | 'overwrite';
+
+export interface QueryImportItem {
+    kind: 'rest' | 'search';
+    name: string;
+    action: 'create' | 'rename' | 'overwrite' | 'skip' | 'invalid';
+    final_name: string;
+    connection_name: string | null;
+    error?: string;
+}
+
+export interface QueryImportResult {
+    imported: number;
+    overwritten: number;
+    skipped: number;
+    invalid: number;
+    items: QueryImportItem[];
+}
+
+export const exportSavedQueriesData = () =>
+    apiRequest<SavedQueriesExportData>('/queries/export');
+
+// With `dryRun` nothing is saved and the result previews the import
+export const importSavedQueriesData = (data: SavedQueriesExportData, strategy: QueryImportStrategy, dryRun = false) =>
+    apiRequest<QueryImportResult>('/queries/import', {
+        method: 'POST',
+        body: JSON.stringify({ data, strategy, dry_run: dryRun }),
+    });
+
 // ==================== CROSS-SERVER COPY API ====================
 
 export const getConnectionIndices = (connectionId: number) =>
@@ -1005,3 +1535,23 @@ export const copyDocuments = (input: CopyDocumentsInput) =>
         method: 'POST',
         body: JSON.stringify(input),
     });
+
+// Sends one batch of an import to _bulk; per-document failures come back in the result
+export const bulkImportDocuments = (indexName: string, input: BulkImportInput) =>
+    apiRequest<BulkImportResult>(`/indices/${encodeURIComponent(indexName)}/bulk`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+    });
+
+// Runs as one _bulk request on the server
+export const runDocumentBulkAction = (indexName: string, input: DocumentBulkActionInput) =>
+    apiRequest<DocumentBulkActionResult>(`/indices/${encodeURIComponent(indexName)}/bulk-action`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+    });
+
+export const getMatchingDocumentIds = (indexName: string, query?: object | null) =>
+    apiRequest<{ ids: string[]; total: number }>(`/indices/${encodeURIComponent(indexName)}/ids`, {
+        method: 'POST',
+        body: JSON.stringify({ query }),
+    });
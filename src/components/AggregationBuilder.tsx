@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Play, Trash2, Loader, AlertCircle, BarChart3, LineChart, PieChart, Table } from 'lucide-react';
+import { runAggregations, AggregationNode } from '../api/elasticsearchClient';
+import type { AggregationType, AggregationChartType } from '../types';
+import { translateError } from '../utils/errorHandler';
+import {
+    AGGREGATION_TYPES,
+    CALENDAR_INTERVALS,
+    MAX_AGGREGATION_DEPTH,
+    isBucketAggregation,
+    getAggregationFields,
+    createAggregationNode,
+    formatRanges,
+    parseRanges,
+    parsePercents,
+    getChartData,
+    getAggregationTable,
+} from '../utils/aggregations';
+import { AggregationChart } from './AggregationChart';
+import type { FieldInfo } from './QueryBuilder';
+
+interface AggregationBuilderProps {
+    indexName: string;
+    // Query of the current search, the aggregations run on its matches
+    query: object | null;
+    fields: FieldInfo[];
+    nodes: AggregationNode[];
+    onNodesChange: (nodes: AggregationNode[]) => void;
+    chartType: AggregationChartType;
+    onChartTypeChange: (type: AggregationChartType) => void;
+}
+
+const CHART_TYPES: Array<{ value: AggregationChartType; icon: React.ReactNode }> = [
+    { value: 'bar', icon: <BarChart3 size={14} /> },
+    { value: 'line', icon: <LineChart size={14} /> },
+    { value: 'pie', icon: <PieChart size={14} /> },
+    { value: 'table', icon: <Table size={14} /> },
+];
+
+const formatCell = (value: number | null | undefined) =>
+    value === null || value === undefined
+        ? '-'
+        : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Select that adds an aggregation of the chosen type
+const AddAggregationSelect: React.FC<{ label: string; onAdd: (type: AggregationType) => void }> = ({ label, onAdd }) => {
+    const { t } = useTranslation();
+    return (
+        <select
+            className="aggregation-add"
+            value=""
+            onChange={(e) => e.target.value && onAdd(e.target.value as AggregationType)}
+        >
+            <option value="">{label}</option>
+            {AGGREGATION_TYPES.map((type) => (
+                <option key={type} value={type}>{t(`aggregations.types.${type}`)}</option>
+            ))}
+        </select>
+    );
+};
+
+interface AggregationNodeEditorProps {
+    node: AggregationNode;
+    depth: number;
+    fields: FieldInfo[];
+    // Every node of the builder, to give new ones unique names
+    allNodes: AggregationNode[];
+    onChange: (node: AggregationNode) => void;
+    onRemove: () => void;
+}
+
+const AggregationNodeEditor: React.FC<AggregationNodeEditorProps> = ({
+    node,
+    depth,
+    fields,
+    allNodes,
+    onChange,
+    onRemove,
+}) => {
+    const { t } = useTranslation();
+    const fieldOptions = getAggregationFields(fields, node.type);
+    if (node.field && !fieldOptions.includes(node.field)) fieldOptions.unshift(node.field);
+    const children = node.children || [];
+
+    const handleTypeChange = (type: AggregationType) => {
+        const fresh = createAggregationNode(type, allNodes);
+        onChange({
+            ...fresh,
+            id: node.id,
+            field: getAggregationFields(fields, type).includes(node.field) ? node.field : '',
+            // Sub-aggregations stay when switching between bucket aggregations
+            children: isBucketAggregation(type) ? children : undefined,
+        });
+    };
+
+    const updateChild = (index: number, child: AggregationNode) =>
+        onChange({ ...node, children: children.map((c, i) => (i === index ? child : c)) });
+
+    return (
+        <div className="aggregation-node">
+            <div className="aggregation-node-row">
+                <select value={node.type} onChange={(e) => handleTypeChange(e.target.value as AggregationType)}>
+                    {AGGREGATION_TYPES.map((type) => (
+                        <option key={type} value={type}>{t(`aggregations.types.${type}`)}</option>
+                    ))}
+                </select>
+
+                <select value={node.field} onChange={(e) => onChange({ ...node, field: e.target.value })}>
+                    <option value="">{t('aggregations.selectField')}</option>
+                    {fieldOptions.map((field) => (
+                        <option key={field} value={field}>{field}</option>
+                    ))}
+                </select>
+
+                {node.type === 'terms' && (
+                    <label className="aggregation-param">
+                        {t('aggregations.size')}
+                        <input
+                            type="number"
+                            min={1}
+                            max={1000}
+                            value={node.size ?? 10}
+                            onChange={(e) => onChange({ ...node, size: Number(e.target.value) })}
+                        />
+                    </label>
+                )}
+                {node.type === 'histogram' && (
+                    <label className="aggregation-param">
+                        {t('aggregations.interval')}
+                        <input
+                            type="number"
+                            min={0}
+                            value={node.interval ?? ''}
+                            onChange={(e) => onChange({ ...node, interval: Number(e.target.value) })}
+                        />
+                    </label>
+                )}
+                {node.type === 'date_histogram' && (
+                    <label className="aggregation-param">
+                        {t('aggregations.interval')}
+                        <input
+                            type="text"
+                            list="aggregation-calendar-intervals"
+                            value={String(node.interval ?? '')}
+                            onChange={(e) => onChange({ ...node, interval: e.target.value.trim() })}
+                            placeholder="day, 30m"
+                        />
+                    </label>
+                )}
+                {node.type === 'range' && (
+                    <label className="aggregation-param wide">
+                        {t('aggregations.ranges')}
+                        <input
+                            key={`${node.id}-ranges`}
+                            type="text"
+                            defaultValue={formatRanges(node.ranges)}
+                            onBlur={(e) => onChange({ ...node, ranges: parseRanges(e.target.value) })}
+                            placeholder="-100, 100-500, 500-"
+                        />
+                    </label>
+                )}
+                {node.type === 'percentiles' && (
+                    <label className="aggregation-param wide">
+                        {t('aggregations.percents')}
+                        <input
+                            key={`${node.id}-percents`}
+                            type="text"
+                            defaultValue={(node.percents || []).join(', ')}
+                            onBlur={(e) => onChange({ ...node, percents: parsePercents(e.target.value) })}
+                            placeholder="50, 95, 99"
+                        />
+                    </label>
+                )}
+
+                <label className="aggregation-param">
+                    {t('aggregations.name')}
+                    <input
+                        type="text"
+                        value={node.id}
+                        onChange={(e) => onChange({ ...node, id: e.target.value.replace(/[^\w-]/g, '_') })}
+                    />
+                </label>
+
+                {isBucketAggregation(node.type) && depth < MAX_AGGREGATION_DEPTH && (
+                    <AddAggregationSelect
+                        label={t('aggregations.addSub')}
+                        onAdd={(type) => onChange({ ...node, children: [...children, createAggregationNode(type, allNodes)] })}
+                    />
+                )}
+
+                <button type="button" className="btn btn-icon-sm btn-danger-subtle" onClick={onRemove} title={t('common.delete')}>
+                    <Trash2 size={12} />
+                </button>
+            </div>
+
+            {children.length > 0 && (
+                <div className="aggregation-children">
+                    {children.map((child, i) => (
+                        <AggregationNodeEditor
+                            key={i}
+                            node={child}
+                            depth={depth + 1}
+                            fields={fields}
+                            allNodes={allNodes}
+                            onChange={(updated) => updateChild(i, updated)}
+                            onRemove={() => onChange({ ...node, children: children.filter((_, j) => j !== i) })}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Build metric and bucket aggregations with sub-aggregations, run them on the
+ * matches of the current search and chart the results.
+ */
+export const AggregationBuilder: React.FC<AggregationBuilderProps> = ({
+    indexName,
+    query,
+    fields,
+    nodes,
+    onNodesChange,
+    chartType,
+    onChartTypeChange,
+}) => {
+    const { t } = useTranslation();
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Definition the results belong to, so later edits don't reinterpret them
+    const [results, setResults] = useState<{ nodes: AggregationNode[]; aggregations: Record<string, any>; took: number } | null>(null);
+
+    useEffect(() => {
+        setResults(null);
+        setError(null);
+    }, [indexName]);
+
+    const handleRun = async () => {
+        setRunning(true);
+        setError(null);
+        try {
+            const result = await runAggregations(indexName, nodes, query);
+            setResults({ nodes, aggregations: result.aggregations || {}, took: result.took });
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const renderTable = (node: AggregationNode, result: any) => {
+        const table = getAggregationTable(node, result);
+        if (table.rows.length === 0) return <p className="aggregation-empty">{t('aggregations.noBuckets')}</p>;
+        return (
+            <div className="aggregation-table-wrapper">
+                <table className="aggregation-table">
+                    <thead>
+                        <tr>
+                            {table.keyColumns.map((column) => <th key={column}>{column}</th>)}
+                            {table.valueColumns.map((column) => <th key={column} className="numeric">{column}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {table.rows.map((row, i) => (
+                            <tr key={i}>
+                                {table.keyColumns.map((column, j) => <td key={column}>{row.keys[j] ?? ''}</td>)}
+                                {table.valueColumns.map((column) => (
+                                    <td key={column} className="numeric">{formatCell(row.values[column])}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    return (
+        <div className="aggregation-builder">
+            <div className="aggregation-builder-header">
+                <span className="aggregation-builder-title">{t('aggregations.title')}</span>
+                <AddAggregationSelect
+                    label={t('aggregations.add')}
+                    onAdd={(type) => onNodesChange([...nodes, createAggregationNode(type, nodes)])}
+                />
+                <div className="aggregation-chart-types">
+                    {CHART_TYPES.map(({ value, icon }) => (
+                        <button
+                            key={value}
+                            type="button"
+                            className={`btn btn-icon-sm ${chartType === value ? 'btn-primary' : ''}`}
+                            onClick={() => onChartTypeChange(value)}
+                            title={t(`aggregations.charts.${value}`)}
+                        >
+                            {icon}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-primary btn-sm"
+                    onClick={handleRun}
+                    disabled={running || nodes.length === 0}
+                >
+                    {running ? <Loader size={14} className="spin" /> : <Play size={14} />}
+                    {t('aggregations.run')}
+                </button>
+            </div>
+
+            <datalist id="aggregation-calendar-intervals">
+                {CALENDAR_INTERVALS.map((interval) => <option key={interval} value={interval} />)}
+            </datalist>
+
+            {nodes.length === 0 ? (
+                <p className="aggregation-empty">{t('aggregations.empty')}</p>
+            ) : (
+                nodes.map((node, i) => (
+                    <AggregationNodeEditor
+                        key={i}
+                        node={node}
+                        depth={1}
+                        fields={fields}
+                        allNodes={nodes}
+                        onChange={(updated) => onNodesChange(nodes.map((n, j) => (j === i ? updated : n)))}
+                        onRemove={() => onNodesChange(nodes.filter((_, j) => j !== i))}
+                    />
+                ))
+            )}
+
+            {error && (
+                <div className="rest-save-error">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            {results && (
+                <div className="aggregation-results">
+                    <span className="aggregation-took">{t('aggregations.took', { took: results.took })}</span>
+                    {results.nodes.map((node) => {
+                        const result = results.aggregations[node.id];
+                        const data = getChartData(node, result);
+                        return (
+                            <div key={node.id} className="aggregation-result">
+                                <div className="aggregation-result-title">
+                                    {node.id}
+                                    <span>{t(`aggregations.types.${node.type}`)} · {node.field}</span>
+                                </div>
+                                {chartType === 'table' || data.length === 0
+                                    ? renderTable(node, result)
+                                    : <AggregationChart type={chartType} data={data} />}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
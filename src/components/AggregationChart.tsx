@@ -0,0 +1,144 @@
+import React from 'react';
+import type { ChartPoint } from '../utils/aggregations';
+import { formatDocCount } from '../utils/formatters';
+
+interface AggregationChartProps {
+    type: 'bar' | 'line' | 'pie';
+    data: ChartPoint[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 48, left: 56 };
+const COLORS = ['#6366f1', '#22c55e', '#f59e0b', '#ef4444', '#06b6d4', '#a855f7', '#ec4899', '#84cc16', '#f97316', '#64748b'];
+
+const truncate = (label: string, max = 14) => (label.length > max ? `${label.slice(0, max - 1)}…` : label);
+
+const formatValue = (value: number) =>
+    Number.isInteger(value) ? formatDocCount(value) : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const BarLineChart: React.FC<{ type: 'bar' | 'line'; data: ChartPoint[] }> = ({ type, data }) => {
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const max = Math.max(...data.map(point => point.value), 0);
+    const min = Math.min(...data.map(point => point.value), 0);
+    const span = max - min || 1;
+    const y = (value: number) => PADDING.top + plotHeight - ((value - min) / span) * plotHeight;
+    const step = plotWidth / data.length;
+    const x = (i: number) => PADDING.left + step * i + step / 2;
+    // Skip labels that would overlap
+    const labelEvery = Math.max(1, Math.ceil(data.length / 12));
+    const ticks = [min, min + span / 2, max];
+
+    return (
+        <svg className="aggregation-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="xMidYMid meet">
+            {ticks.map((tick, i) => (
+                <g key={i}>
+                    <line className="aggregation-chart-grid" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} />
+                    <text className="aggregation-chart-axis" x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end">
+                        {formatValue(tick)}
+                    </text>
+                </g>
+            ))}
+
+            {type === 'bar' ? (
+                data.map((point, i) => {
+                    const top = y(Math.max(point.value, 0));
+                    const height = Math.abs(y(point.value) - y(0));
+                    return (
+                        <rect
+                            key={i}
+                            x={x(i) - (step * 0.7) / 2}
+                            y={top}
+                            width={step * 0.7}
+                            height={Math.max(height, 1)}
+                            fill={COLORS[0]}
+                        >
+                            <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+                        </rect>
+                    );
+                })
+            ) : (
+                <>
+                    <polyline
+                        fill="none"
+                        stroke={COLORS[0]}
+                        strokeWidth={2}
+                        points={data.map((point, i) => `${x(i)},${y(point.value)}`).join(' ')}
+                    />
+                    {data.map((point, i) => (
+                        <circle key={i} cx={x(i)} cy={y(point.value)} r={3} fill={COLORS[0]}>
+                            <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+                        </circle>
+                    ))}
+                </>
+            )}
+
+            {data.map((point, i) => i % labelEvery === 0 && (
+                <text
+                    key={i}
+                    className="aggregation-chart-axis"
+                    x={x(i)}
+                    y={HEIGHT - PADDING.bottom + 14}
+                    textAnchor="end"
+                    transform={`rotate(-30 ${x(i)} ${HEIGHT - PADDING.bottom + 14})`}
+                >
+                    {truncate(point.label)}
+                </text>
+            ))}
+        </svg>
+    );
+};
+
+const PieChart: React.FC<{ data: ChartPoint[] }> = ({ data }) => {
+    const slices = data.filter(point => point.value > 0);
+    const total = slices.reduce((sum, point) => sum + point.value, 0);
+    const radius = HEIGHT / 2 - 16;
+    const cx = HEIGHT / 2;
+    const cy = HEIGHT / 2;
+    let angle = -Math.PI / 2;
+
+    return (
+        <svg className="aggregation-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="xMidYMid meet">
+            {slices.map((point, i) => {
+                const sweep = (point.value / total) * Math.PI * 2;
+                const start = angle;
+                angle += sweep;
+                const color = COLORS[i % COLORS.length];
+                const title = `${point.label}: ${formatValue(point.value)} (${((point.value / total) * 100).toFixed(1)}%)`;
+                // A full circle can't be drawn as a single arc
+                if (slices.length === 1) {
+                    return (
+                        <circle key={i} cx={cx} cy={cy} r={radius} fill={color}>
+                            <title>{title}</title>
+                        </circle>
+                    );
+                }
+                const x1 = cx + radius * Math.cos(start);
+                const y1 = cy + radius * Math.sin(start);
+                const x2 = cx + radius * Math.cos(angle);
+                const y2 = cy + radius * Math.sin(angle);
+                const largeArc = sweep > Math.PI ? 1 : 0;
+                return (
+                    <path key={i} d={`M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`} fill={color}>
+                        <title>{title}</title>
+                    </path>
+                );
+            })}
+            {slices.slice(0, 12).map((point, i) => (
+                <g key={i} transform={`translate(${HEIGHT + 16}, ${20 + i * 18})`}>
+                    <rect width={10} height={10} y={-9} fill={COLORS[i % COLORS.length]} />
+                    <text className="aggregation-chart-legend" x={16}>
+                        {truncate(point.label, 32)} · {formatValue(point.value)}
+                    </text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+// Dependency-free SVG chart of aggregation results
+export const AggregationChart: React.FC<AggregationChartProps> = ({ type, data }) => {
+    if (data.length === 0) return null;
+    return type === 'pie' ? <PieChart data={data} /> : <BarLineChart type={type} data={data} />;
+};
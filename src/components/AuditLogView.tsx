@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, Download, RefreshCw, ChevronLeft, ChevronRight, CheckCircle, XCircle } from 'lucide-react';
+import {
+    getAuditLogs,
+    getAuditExportUrl,
+    getSavedConnections,
+    AuditLogEntry,
+    AuditLogFilter,
+    SavedConnection,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDate, parseServerTimestamp } from '../utils/formatters';
+
+const PAGE_SIZE = 50;
+
+const AUDIT_ACTIONS = [
+    'document.create',
+    'document.update',
+    'document.delete',
+    'index.create',
+    'index.delete',
+    'index.open',
+    'index.close',
+    'alias.add',
+    'alias.delete',
+    'reindex',
+    'document.copy',
+    'documents.copy',
+    'documents.import',
+    'documents.delete_by_query',
+    'documents.update_by_query',
+    'documents.bulk_delete',
+    'documents.bulk_update',
+    'task.cancel',
+    'snapshot.create',
+    'snapshot.restore',
+    'snapshot.delete',
+    'ilm.policy_update',
+    'ilm.policy_delete',
+    'ilm.attach',
+    'ilm.detach',
+    'ilm.retry',
+    'rest.request',
+];
+
+// datetime-local inputs have no zone; send the instant the user meant as ISO
+const toIsoOrUndefined = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+export const AuditLogView: React.FC = () => {
+    const { t } = useTranslation();
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [connections, setConnections] = useState<SavedConnection[]>([]);
+
+    const [connectionId, setConnectionId] = useState('');
+    const [username, setUsername] = useState('');
+    const [action, setAction] = useState('');
+    const [result, setResult] = useState('');
+    const [search, setSearch] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    const buildFilter = useCallback((): AuditLogFilter => ({
+        connectionId: connectionId ? Number(connectionId) : undefined,
+        username: username.trim() || undefined,
+        action: action || undefined,
+        result: (result || undefined) as AuditLogFilter['result'],
+        search: search.trim() || undefined,
+        from: toIsoOrUndefined(from),
+        to: toIsoOrUndefined(to),
+    }), [connectionId, username, action, result, search, from, to]);
+
+    const loadEntries = useCallback(async (targetPage: number) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await getAuditLogs(buildFilter(), PAGE_SIZE, targetPage * PAGE_SIZE);
+            setEntries(data.entries);
+            setTotal(data.total);
+            setPage(targetPage);
+        } catch (err: any) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    }, [buildFilter]);
+
+    useEffect(() => {
+        getSavedConnections().then(setConnections).catch(() => setConnections([]));
+    }, []);
+
+    // Reload from the first page whenever a filter changes
+    useEffect(() => {
+        const timer = setTimeout(() => loadEntries(0), 300);
+        return () => clearTimeout(timer);
+    }, [loadEntries]);
+
+    const handleExport = (format: 'csv' | 'json') => {
+        const link = document.createElement('a');
+        link.href = getAuditExportUrl(buildFilter(), format);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    return (
+        <div className="audit-log">
+            <div className="audit-filters">
+                <select value={connectionId} onChange={(e) => setConnectionId(e.target.value)}>
+                    <option value="">{t('audit.allConnections')}</option>
+                    {connections.map((conn) => (
+                        <option key={conn.id} value={conn.id}>{conn.name}</option>
+                    ))}
+                </select>
+                <select value={action} onChange={(e) => setAction(e.target.value)}>
+                    <option value="">{t('audit.allActions')}</option>
+                    {AUDIT_ACTIONS.map((name) => (
+                        <option key={name} value={name}>{t(`audit.actions.${name}`)}</option>
+                    ))}
+                </select>
+                <select value={result} onChange={(e) => setResult(e.target.value)}>
+                    <option value="">{t('audit.allResults')}</option>
+                    <option value="success">{t('audit.success')}</option>
+                    <option value="failure">{t('audit.failure')}</option>
+                </select>
+                <input
+                    type="text"
+                    placeholder={t('auth.username')}
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                />
+                <input
+                    type="text"
+                    placeholder={t('audit.searchTarget')}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <label className="audit-date-filter">
+                    {t('audit.from')}
+                    <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </label>
+                <label className="audit-date-filter">
+                    {t('audit.to')}
+                    <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} />
+                </label>
+            </div>
+
+            <div className="audit-toolbar">
+                <span className="audit-count">{t('audit.entryCount', { count: total })}</span>
+                <div className="audit-toolbar-actions">
+                    <button className="btn btn-ghost btn-sm" onClick={() => loadEntries(page)} title={t('common.refresh')}>
+                        <RefreshCw size={14} className={loading ? 'spin' : ''} />
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleExport('csv')}>
+                        <Download size={14} />
+                        CSV
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleExport('json')}>
+                        <Download size={14} />
+                        JSON
+                    </button>
+                </div>
+            </div>
+
+            {error && <div className="error-message">{error}</div>}
+
+            <div className="audit-table-wrapper">
+                {loading && entries.length === 0 ? (
+                    <div className="welcome-loading">
+                        <Loader2 size={20} className="spin" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <div className="audit-empty">{t('audit.empty')}</div>
+                ) : (
+                    <table className="audit-table">
+                        <thead>
+                            <tr>
+                                <th>{t('audit.time')}</th>
+                                <th>{t('auth.username')}</th>
+                                <th>{t('audit.connection')}</th>
+                                <th>{t('audit.action')}</th>
+                                <th>{t('audit.target')}</th>
+                                <th>{t('audit.result')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map((entry) => (
+                                <tr key={entry.id}>
+                                    <td className="audit-time">{formatDate(parseServerTimestamp(entry.created_at))}</td>
+                                    <td>{entry.username || '-'}</td>
+                                    <td>{entry.connection_name || '-'}</td>
+                                    <td>
+                                        <div className="audit-action">{t(`audit.actions.${entry.action}`, entry.action)}</div>
+                                        <div className="audit-request" title={entry.body_hash ? `sha256: ${entry.body_hash}` : undefined}>
+                                            {entry.method} {entry.path}
+                                        </div>
+                                    </td>
+                                    <td className="audit-target" title={entry.target || undefined}>{entry.target || '-'}</td>
+                                    <td>
+                                        <span
+                                            className={`audit-result ${entry.result}`}
+                                            title={entry.error || undefined}
+                                        >
+                                            {entry.result === 'success' ? <CheckCircle size={12} /> : <XCircle size={12} />}
+                                            {entry.status_code}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {totalPages > 1 && (
+                <div className="audit-pagination">
+                    <button
+                        className="btn btn-icon btn-sm"
+                        onClick={() => loadEntries(page - 1)}
+                        disabled={page === 0 || loading}
+                    >
+                        <ChevronLeft size={16} />
+                    </button>
+                    <span>{page + 1} / {totalPages}</span>
+                    <button
+                        className="btn btn-icon btn-sm"
+                        onClick={() => loadEntries(page + 1)}
+                        disabled={page >= totalPages - 1 || loading}
+                    >
+                        <ChevronRight size={16} />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
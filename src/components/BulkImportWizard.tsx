@@ -0,0 +1,486 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Upload, Loader, AlertCircle, FileText, CheckCircle, ChevronLeft } from 'lucide-react';
+import { bulkImportDocuments, BulkImportDocument } from '../api/elasticsearchClient';
+import {
+    CSV_DELIMITERS,
+    IMPORT_FIELD_TYPES,
+    ImportColumn,
+    ImportFileFormat,
+    ImportRowError,
+    ParsedImportFile,
+    buildImportDocuments,
+    buildImportMappings,
+    createImportColumns,
+    detectCsvDelimiter,
+    detectImportFormat,
+    isHitShaped,
+    parseImportFile,
+} from '../utils/bulkImport';
+import { translateError } from '../utils/errorHandler';
+import { formatDocCount } from '../utils/formatters';
+
+const IMPORT_FORMATS: ImportFileFormat[] = ['csv', 'ndjson', 'json'];
+// A batch is sent once it reaches either limit
+const BATCH_DOCUMENTS = 500;
+const BATCH_BYTES = 5 * 1024 * 1024;
+const PREVIEW_ROWS = 3;
+// Failures listed in the report, the rest is only counted
+const MAX_LISTED_FAILURES = 100;
+
+type WizardStep = 'file' | 'mapping' | 'importing' | 'report';
+
+interface ImportReport {
+    total: number;
+    indexed: number;
+    failures: ImportRowError[];
+    // Documents never sent because the import was stopped or a batch request failed
+    notSent: number;
+    error: string | null;
+}
+
+interface BulkImportWizardProps {
+    indexName: string;
+    onClose: () => void;
+    // Called once documents may have been written, to refresh the caller
+    onImported?: () => void;
+    // Runs before the first batch; receives the mappings built from the CSV column types
+    prepareIndex?: (mappings: Record<string, any> | null) => Promise<void>;
+}
+
+const splitIntoBatches = (documents: BulkImportDocument[]): [number, number][] => {
+    const batches: [number, number][] = [];
+    let start = 0;
+    let bytes = 0;
+    documents.forEach((document, i) => {
+        const size = JSON.stringify(document.source).length;
+        if (i > start && (i - start >= BATCH_DOCUMENTS || bytes + size > BATCH_BYTES)) {
+            batches.push([start, i]);
+            start = i;
+            bytes = 0;
+        }
+        bytes += size;
+    });
+    if (start < documents.length) batches.push([start, documents.length]);
+    return batches;
+};
+
+/**
+ * File import into an index: the file is parsed in the browser, CSV columns are
+ * mapped to fields and types, and the documents are sent to _bulk in batches.
+ */
+export const BulkImportWizard: React.FC<BulkImportWizardProps> = ({
+    indexName,
+    onClose,
+    onImported,
+    prepareIndex,
+}) => {
+    const { t } = useTranslation();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const cancelledRef = useRef(false);
+    const [step, setStep] = useState<WizardStep>('file');
+    const [fileName, setFileName] = useState('');
+    const [fileText, setFileText] = useState<string | null>(null);
+    const [format, setFormat] = useState<ImportFileFormat>('csv');
+    const [delimiter, setDelimiter] = useState(',');
+    const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+    const [columns, setColumns] = useState<ImportColumn[]>([]);
+    const [idField, setIdField] = useState('');
+    const [opType, setOpType] = useState<'index' | 'create'>('index');
+    const [progress, setProgress] = useState({ processed: 0, total: 0 });
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Stop sending batches when the dialog goes away
+    useEffect(() => () => {
+        cancelledRef.current = true;
+    }, []);
+
+    const parse = (text: string, nextFormat: ImportFileFormat, nextDelimiter: string) => {
+        setError(null);
+        try {
+            const result = parseImportFile(text, nextFormat, nextDelimiter);
+            setParsed(result);
+            if (nextFormat === 'csv') {
+                setColumns(createImportColumns(result));
+                setIdField(result.headers.find(header => header === '_id' || header === 'id') || '');
+            } else {
+                setColumns([]);
+                const first = result.objects[0] || {};
+                setIdField(isHitShaped(result.objects) ? '' : 'id' in first ? 'id' : '');
+            }
+        } catch (err: any) {
+            setParsed(null);
+            setError(t('bulkImport.parseError', { details: err.message }));
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        if (!file) return;
+
+        const text = await file.text();
+        const nextFormat = detectImportFormat(file.name);
+        const nextDelimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectCsvDelimiter(text);
+        setFileName(file.name);
+        setFileText(text);
+        setFormat(nextFormat);
+        setDelimiter(nextDelimiter);
+        parse(text, nextFormat, nextDelimiter);
+    };
+
+    const handleFormatChange = (nextFormat: ImportFileFormat) => {
+        setFormat(nextFormat);
+        if (fileText !== null) parse(fileText, nextFormat, delimiter);
+    };
+
+    const handleDelimiterChange = (nextDelimiter: string) => {
+        setDelimiter(nextDelimiter);
+        if (fileText !== null) parse(fileText, format, nextDelimiter);
+    };
+
+    const updateColumn = (index: number, changes: Partial<ImportColumn>) => {
+        setColumns(prev => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+    };
+
+    const documentCount = parsed ? (parsed.format === 'csv' ? parsed.rows.length : parsed.objects.length) : 0;
+    const hitShaped = parsed ? isHitShaped(parsed.objects) : false;
+    const jsonKeys = useMemo(
+        () => (parsed && parsed.format !== 'csv' ? Object.keys(parsed.objects[0] || {}) : []),
+        [parsed]
+    );
+
+    // The first documents as they will be sent, so type conversion problems show up before importing
+    const preview = useMemo(() => {
+        if (!parsed) return null;
+        const sample = { ...parsed, rows: parsed.rows.slice(0, PREVIEW_ROWS), objects: parsed.objects.slice(0, PREVIEW_ROWS) };
+        return buildImportDocuments(sample, columns, idField);
+    }, [parsed, columns, idField]);
+
+    const validateColumns = (): string | null => {
+        const fields = columns.filter(column => column.include).map(column => column.field.trim());
+        if (fields.length === 0) return t('bulkImport.noColumns');
+        if (fields.some(field => !field)) return t('bulkImport.emptyField');
+        if (new Set(fields).size !== fields.length) return t('bulkImport.duplicateField');
+        return null;
+    };
+
+    const handleImport = async () => {
+        if (!parsed) return;
+        const columnError = parsed.format === 'csv' ? validateColumns() : null;
+        if (columnError) {
+            setError(columnError);
+            return;
+        }
+
+        const trimmedColumns = columns.map(column => ({ ...column, field: column.field.trim() }));
+        const { documents, rowNumbers, errors } = buildImportDocuments(parsed, trimmedColumns, idField);
+
+        setError(null);
+        if (prepareIndex) {
+            try {
+                await prepareIndex(parsed.format === 'csv' ? buildImportMappings(trimmedColumns) : null);
+            } catch (err) {
+                setError(translateError(err));
+                return;
+            }
+        }
+
+        cancelledRef.current = false;
+        setStep('importing');
+        const total = documents.length + errors.length;
+        const result: ImportReport = { total, indexed: 0, failures: [...errors], notSent: 0, error: null };
+        setProgress({ processed: errors.length, total });
+
+        const batches = splitIntoBatches(documents);
+        for (let b = 0; b < batches.length; b++) {
+            const [start, end] = batches[b];
+            if (cancelledRef.current) {
+                result.notSent = documents.length - start;
+                break;
+            }
+            try {
+                const batch = await bulkImportDocuments(indexName, {
+                    documents: documents.slice(start, end),
+                    op_type: opType,
+                    refresh: b === batches.length - 1,
+                });
+                result.indexed += batch.indexed;
+                for (const failure of batch.errors) {
+                    result.failures.push({
+                        row: rowNumbers[start + failure.position],
+                        id: failure.id ?? undefined,
+                        reason: failure.type ? `${failure.type}: ${failure.reason}` : failure.reason,
+                    });
+                }
+            } catch (err) {
+                result.notSent = documents.length - start;
+                result.error = translateError(err);
+                break;
+            }
+            setProgress({ processed: errors.length + end, total });
+        }
+
+        result.failures.sort((a, b) => a.row - b.row);
+        setReport(result);
+        setStep('report');
+        if (result.indexed > 0) onImported?.();
+    };
+
+    const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+    if (step === 'importing') {
+        return (
+            <div className="bulk-import">
+                <div className="search-export-progress">
+                    <div className="search-export-progress-track">
+                        <div className="search-export-progress-bar" style={{ width: `${percent}%` }} />
+                    </div>
+                    <span>
+                        {t('bulkImport.progress', {
+                            processed: formatDocCount(progress.processed),
+                            total: formatDocCount(progress.total),
+                            percent,
+                        })}
+                    </span>
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="btn btn-secondary" onClick={() => { cancelledRef.current = true; }}>
+                        <Loader size={14} className="spin" />
+                        {t('bulkImport.stop')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (step === 'report' && report) {
+        const failed = report.failures.length;
+        return (
+            <div className="bulk-import">
+                <div className={`bulk-import-summary ${failed > 0 || report.error ? 'has-failures' : ''}`}>
+                    {failed > 0 || report.error ? <AlertCircle size={16} /> : <CheckCircle size={16} />}
+                    <span>
+                        {t('bulkImport.summary', {
+                            indexed: formatDocCount(report.indexed),
+                            failed: formatDocCount(failed),
+                            total: formatDocCount(report.total),
+                        })}
+                        {report.notSent > 0 && <> {t('bulkImport.notSent', { count: report.notSent })}</>}
+                    </span>
+                </div>
+
+                {report.error && (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {report.error}
+                    </div>
+                )}
+
+                {failed > 0 && (
+                    <div className="bulk-import-failures">
+                        {report.failures.slice(0, MAX_LISTED_FAILURES).map((failure, i) => (
+                            <div key={i} className="bulk-import-failure">
+                                <span className="bulk-import-failure-row">
+                                    {t('bulkImport.row', { row: failure.row })}
+                                    {failure.id && <> · {failure.id}</>}
+                                </span>
+                                <span className="bulk-import-failure-reason">{failure.reason}</span>
+                            </div>
+                        ))}
+                        {failed > MAX_LISTED_FAILURES && (
+                            <div className="bulk-import-failure more">
+                                {t('bulkImport.moreFailures', { count: failed - MAX_LISTED_FAILURES })}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    <button type="button" className="btn btn-primary" onClick={onClose}>
+                        {t('bulkImport.done')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bulk-import">
+            <input
+                type="file"
+                ref={fileInputRef}
+                accept=".csv,.tsv,.txt,.ndjson,.jsonl,.json"
+                onChange={handleFile}
+                style={{ display: 'none' }}
+            />
+
+            {step === 'file' ? (
+                <>
+                    <div className="query-import-file">
+                        <button type="button" className="btn btn-secondary" onClick={() => fileInputRef.current?.click()}>
+                            <FileText size={14} />
+                            {t('savedQueries.chooseFile')}
+                        </button>
+                        <span className="query-import-file-name">{fileName || t('savedQueries.noFileChosen')}</span>
+                    </div>
+
+                    <div className="query-import-strategy">
+                        <span>{t('bulkImport.format')}</span>
+                        {IMPORT_FORMATS.map((option) => (
+                            <label key={option}>
+                                <input type="radio" checked={format === option} onChange={() => handleFormatChange(option)} />
+                                {t(`bulkImport.formats.${option}`)}
+                            </label>
+                        ))}
+                    </div>
+
+                    {format === 'csv' && (
+                        <div className="query-import-strategy">
+                            <span>{t('bulkImport.delimiter')}</span>
+                            <select value={delimiter} onChange={(e) => handleDelimiterChange(e.target.value)}>
+                                {CSV_DELIMITERS.map((option) => (
+                                    <option key={option} value={option}>
+                                        {option === '\t' ? t('bulkImport.tab') : option}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {parsed && (
+                        <div className="query-import-summary">
+                            {t('bulkImport.parsed', { count: documentCount })}
+                        </div>
+                    )}
+                </>
+            ) : parsed && (
+                <>
+                    <div className="query-import-summary">
+                        {fileName} · {t('bulkImport.parsed', { count: documentCount })}
+                    </div>
+
+                    {parsed.format === 'csv' ? (
+                        <div className="bulk-import-columns">
+                            <div className="bulk-import-column header">
+                                <span />
+                                <span>{t('bulkImport.column')}</span>
+                                <span>{t('bulkImport.field')}</span>
+                                <span>{t('bulkImport.type')}</span>
+                            </div>
+                            {columns.map((column, i) => (
+                                <div key={i} className={`bulk-import-column ${column.include ? '' : 'excluded'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={column.include}
+                                        onChange={(e) => updateColumn(i, { include: e.target.checked })}
+                                    />
+                                    <span className="bulk-import-column-header" title={parsed.rows[0]?.[i]}>
+                                        {column.header || '—'}
+                                    </span>
+                                    <input
+                                        type="text"
+                                        value={column.field}
+                                        onChange={(e) => updateColumn(i, { field: e.target.value })}
+                                        disabled={!column.include}
+                                    />
+                                    <select
+                                        value={column.type}
+                                        onChange={(e) => updateColumn(i, { type: e.target.value as ImportColumn['type'] })}
+                                        disabled={!column.include}
+                                    >
+                                        {IMPORT_FIELD_TYPES.map((type) => (
+                                            <option key={type} value={type}>{type}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    ) : hitShaped && (
+                        <div className="search-export-hint">{t('bulkImport.hitShaped')}</div>
+                    )}
+
+                    <div className="bulk-import-options">
+                        {!hitShaped && (
+                            <label>
+                                {t('bulkImport.idField')}
+                                <select value={idField} onChange={(e) => setIdField(e.target.value)}>
+                                    <option value="">{t('bulkImport.generatedId')}</option>
+                                    {(parsed.format === 'csv' ? parsed.headers : jsonKeys).map((key) => (
+                                        <option key={key} value={key}>{key}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+                        <label>
+                            {t('bulkImport.existing')}
+                            <select value={opType} onChange={(e) => setOpType(e.target.value as 'index' | 'create')}>
+                                <option value="index">{t('bulkImport.overwrite')}</option>
+                                <option value="create">{t('bulkImport.failExisting')}</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    {preview && (
+                        <div className="bulk-import-preview">
+                            <span>{t('bulkImport.preview')}</span>
+                            {preview.errors.map((rowError) => (
+                                <div key={rowError.row} className="bulk-import-failure">
+                                    <span className="bulk-import-failure-row">{t('bulkImport.row', { row: rowError.row })}</span>
+                                    <span className="bulk-import-failure-reason">{rowError.reason}</span>
+                                </div>
+                            ))}
+                            {preview.documents.map((document, i) => (
+                                <pre key={i}>
+                                    {document.id !== undefined && `_id: ${document.id}\n`}
+                                    {JSON.stringify(document.source, null, 2)}
+                                </pre>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+
+            {error && (
+                <div className="rest-save-error">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            <div className="modal-actions">
+                {step === 'mapping' ? (
+                    <button type="button" className="btn btn-secondary" onClick={() => setStep('file')}>
+                        <ChevronLeft size={14} />
+                        {t('bulkImport.back')}
+                    </button>
+                ) : (
+                    <button type="button" className="btn btn-secondary" onClick={onClose}>
+                        {t('common.cancel')}
+                    </button>
+                )}
+                {step === 'file' ? (
+                    <button
+                        type="button"
+                        className="btn btn-primary"
+                        onClick={() => setStep('mapping')}
+                        disabled={!parsed || documentCount === 0}
+                    >
+                        {t('bulkImport.next')}
+                    </button>
+                ) : (
+                    <button
+                        type="button"
+                        className="btn btn-primary"
+                        onClick={handleImport}
+                        disabled={!indexName || documentCount === 0}
+                    >
+                        <Upload size={14} />
+                        {t('bulkImport.importCount', { count: documentCount })}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
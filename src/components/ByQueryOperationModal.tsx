@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Loader, AlertCircle, CheckCircle, Trash2, Pencil } from 'lucide-react';
+import {
+    countDocuments,
+    deleteByQuery,
+    updateByQuery,
+    getTask,
+    cancelTask,
+    TaskStatus,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDocCount } from '../utils/formatters';
+import { Modal } from './Modal';
+
+export type ByQueryOperation = 'delete' | 'update';
+
+const POLL_INTERVAL_MS = 1000;
+const DEFAULT_SCRIPT = "ctx._source.field = 'value'";
+
+interface ByQueryOperationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    operation: ByQueryOperation;
+    indexName: string;
+    // Query of the current search; null matches every document
+    query: object | null;
+    // Called when the task finished, to refresh the results
+    onCompleted: () => void;
+}
+
+/**
+ * Delete or update every document matching the current search. The matches are
+ * counted first, the index name must be typed to confirm, and the started task
+ * is polled until it completes.
+ */
+export const ByQueryOperationModal: React.FC<ByQueryOperationModalProps> = ({
+    isOpen,
+    onClose,
+    operation,
+    indexName,
+    query,
+    onCompleted,
+}) => {
+    const { t } = useTranslation();
+    const [count, setCount] = useState<number | null>(null);
+    const [counting, setCounting] = useState(false);
+    const [script, setScript] = useState(DEFAULT_SCRIPT);
+    const [proceedOnConflicts, setProceedOnConflicts] = useState(false);
+    const [confirmText, setConfirmText] = useState('');
+    const [starting, setStarting] = useState(false);
+    const [taskId, setTaskId] = useState<string | null>(null);
+    const [status, setStatus] = useState<TaskStatus | null>(null);
+    const [cancelling, setCancelling] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const onCompletedRef = useRef(onCompleted);
+    onCompletedRef.current = onCompleted;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setConfirmText('');
+        setTaskId(null);
+        setStatus(null);
+        setError(null);
+        setCount(null);
+        setCounting(true);
+        countDocuments(indexName, query)
+            .then((result) => setCount(result.count))
+            .catch((err) => setError(translateError(err)))
+            .finally(() => setCounting(false));
+    }, [isOpen, indexName, query]);
+
+    // Follow the task until Elasticsearch reports it completed
+    useEffect(() => {
+        if (!taskId) return;
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const poll = async () => {
+            try {
+                const result = await getTask(taskId);
+                if (stopped) return;
+                setStatus(result);
+                if (result.completed) {
+                    onCompletedRef.current();
+                    return;
+                }
+            } catch (err) {
+                if (stopped) return;
+                setError(translateError(err));
+                return;
+            }
+            timer = setTimeout(poll, POLL_INTERVAL_MS);
+        };
+        poll();
+
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    }, [taskId]);
+
+    const handleStart = async () => {
+        setStarting(true);
+        setError(null);
+        try {
+            const input = { query: query ?? { match_all: {} }, proceedOnConflicts };
+            const result = operation === 'delete'
+                ? await deleteByQuery(indexName, input)
+                : await updateByQuery(indexName, { ...input, script: { source: script } });
+            setTaskId(result.taskId);
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    const handleCancelTask = async () => {
+        if (!taskId) return;
+        setCancelling(true);
+        try {
+            await cancelTask(taskId);
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setCancelling(false);
+        }
+    };
+
+    const title = operation === 'delete' ? t('byQuery.deleteTitle') : t('byQuery.updateTitle');
+    const running = taskId !== null && !status?.completed;
+
+    const renderProgress = () => {
+        const taskStatus = status?.task.status;
+        const response = status?.response;
+        const total = response?.total ?? taskStatus?.total ?? 0;
+        const done = operation === 'delete'
+            ? response?.deleted ?? taskStatus?.deleted ?? 0
+            : response?.updated ?? taskStatus?.updated ?? 0;
+        const conflicts = response?.version_conflicts ?? taskStatus?.version_conflicts ?? 0;
+        const failures = response?.failures?.length ?? 0;
+        const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+        const cancelled = Boolean(status?.task.cancelled || response?.canceled);
+
+        return (
+            <>
+                <div className="search-export-progress">
+                    <div className="search-export-progress-track">
+                        <div className="search-export-progress-bar" style={{ width: `${status?.completed ? 100 : percent}%` }} />
+                    </div>
+                    <span>
+                        {t(operation === 'delete' ? 'byQuery.deletedProgress' : 'byQuery.updatedProgress', {
+                            done: formatDocCount(done),
+                            total: formatDocCount(total),
+                            percent,
+                        })}
+                        {conflicts > 0 && <> · {t('byQuery.conflicts', { count: conflicts })}</>}
+                    </span>
+                    <code className="by-query-task-id">{taskId}</code>
+                </div>
+
+                {status?.completed && (
+                    <div className={`bulk-import-summary ${failures > 0 || status.error || cancelled ? 'has-failures' : ''}`}>
+                        {failures > 0 || status.error ? <AlertCircle size={16} /> : <CheckCircle size={16} />}
+                        <span>
+                            {status.error
+                                ? status.error.reason || status.error.type
+                                : cancelled
+                                    ? t('byQuery.cancelled')
+                                    : t('byQuery.completed', { count: failures })}
+                        </span>
+                    </div>
+                )}
+
+                {response?.failures && response.failures.length > 0 && (
+                    <div className="bulk-import-failures">
+                        {response.failures.slice(0, 100).map((failure, i) => (
+                            <div key={i} className="bulk-import-failure">
+                                <span className="bulk-import-failure-row">{failure.id ?? '-'}</span>
+                                <span className="bulk-import-failure-reason">
+                                    {failure.cause?.type}: {failure.cause?.reason}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </>
+        );
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={title} size="lg">
+            <div className="bulk-import">
+                {taskId === null ? (
+                    <>
+                        <p className="delete-modal-desc">
+                            <AlertTriangle size={16} className="inline-icon" />
+                            {counting ? (
+                                <Loader size={14} className="spin" />
+                            ) : count !== null && (
+                                t(operation === 'delete' ? 'byQuery.deleteCount' : 'byQuery.updateCount', {
+                                    matches: formatDocCount(count),
+                                    index: indexName,
+                                })
+                            )}
+                        </p>
+
+                        <pre className="by-query-query">
+                            {JSON.stringify(query || { match_all: {} }, null, 2)}
+                        </pre>
+
+                        {operation === 'update' && (
+                            <div className="saved-query-field">
+                                <label>{t('byQuery.script')}</label>
+                                <textarea
+                                    className="by-query-script"
+                                    value={script}
+                                    onChange={(e) => setScript(e.target.value)}
+                                    rows={5}
+                                    spellCheck={false}
+                                />
+                            </div>
+                        )}
+
+                        <label className="by-query-option">
+                            <input
+                                type="checkbox"
+                                checked={proceedOnConflicts}
+                                onChange={(e) => setProceedOnConflicts(e.target.checked)}
+                            />
+                            {t('byQuery.proceedOnConflicts')}
+                        </label>
+
+                        <div className="delete-modal-input-wrapper">
+                            <label>
+                                {t('byQuery.confirm')} <code>{indexName}</code>
+                            </label>
+                            <input
+                                type="text"
+                                value={confirmText}
+                                onChange={(e) => setConfirmText(e.target.value)}
+                                placeholder={indexName}
+                            />
+                        </div>
+                    </>
+                ) : renderProgress()}
+
+                {error && (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {error}
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    {running ? (
+                        <button type="button" className="btn btn-secondary" onClick={handleCancelTask} disabled={cancelling}>
+                            {cancelling && <Loader size={14} className="spin" />}
+                            {t('byQuery.cancelTask')}
+                        </button>
+                    ) : (
+                        <button type="button" className="btn btn-secondary" onClick={onClose}>
+                            {taskId ? t('bulkImport.done') : t('common.cancel')}
+                        </button>
+                    )}
+                    {taskId === null && (
+                        <button
+                            type="button"
+                            className={`btn ${operation === 'delete' ? 'btn-danger' : 'btn-primary'}`}
+                            onClick={handleStart}
+                            disabled={
+                                starting ||
+                                counting ||
+                                !count ||
+                                confirmText !== indexName ||
+                                (operation === 'update' && !script.trim())
+                            }
+                        >
+                            {starting ? (
+                                <Loader size={14} className="spin" />
+                            ) : operation === 'delete' ? <Trash2 size={14} /> : <Pencil size={14} />}
+                            {operation === 'delete' ? t('byQuery.deleteButton') : t('byQuery.updateButton')}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -1,24 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Save, Loader2, Eye, EyeOff } from 'lucide-react';
+import { Save, Loader2, Eye, EyeOff, Lock, ShieldAlert, ChevronDown, ChevronRight } from 'lucide-react';
 import {
     createSavedConnection,
     updateSavedConnection,
     connectWithSavedConnection,
     deleteSavedConnection,
+    getRequestPolicy,
+    updateRequestPolicy,
     CreateConnectionInput,
-    SavedConnection
+    ConnectionAuthType,
+    SavedConnection,
+    RequestPolicyRuleInput
 } from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { RequestPolicyEditor } from './RequestPolicyEditor';
 
 interface ConnectionFormModalProps {
     onSuccess: (connectionId: number) => void;
     onCancel: () => void;
     editConnection?: SavedConnection | null;
+    // Only global admins may change where or how a saved connection connects
+    canEditEndpoint?: boolean;
 }
 
 interface ValidationErrors {
     name?: string;
     url?: string;
+    authToken?: string;
 }
 
 const COLORS = [
@@ -32,6 +41,13 @@ const COLORS = [
     '#06b6d4', // cyan
 ];
 
+const AUTH_TYPES: ConnectionAuthType[] = ['basic', 'apiKey', 'bearer', 'none'];
+
+type EndpointType = 'url' | 'cloud';
+
+// A Cloud ID is `<deployment-name>:<base64>`; the server checks the encoded part
+const isValidCloudId = (cloudId: string): boolean => /^[^:]+:[A-Za-z0-9+/=]+$/.test(cloudId);
+
 // URL validasyonu
 const isValidUrl = (url: string): boolean => {
     try {
@@ -46,16 +62,33 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
     onSuccess,
     onCancel,
     editConnection,
+    canEditEndpoint = true,
 }) => {
     const { t } = useTranslation();
     const isEditMode = !!editConnection;
 
     const [name, setName] = useState('');
+    const [endpointType, setEndpointType] = useState<EndpointType>('url');
     const [url, setUrl] = useState('http://localhost:9200');
+    const [cloudId, setCloudId] = useState('');
+    const [authType, setAuthType] = useState<ConnectionAuthType>('basic');
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
+    const [authToken, setAuthToken] = useState('');
     const [color, setColor] = useState(COLORS[0]);
+    const [readOnly, setReadOnly] = useState(false);
     const [showPassword, setShowPassword] = useState(false);
+    const [showTls, setShowTls] = useState(false);
+    const [tlsVerify, setTlsVerify] = useState(true);
+    const [tlsCa, setTlsCa] = useState('');
+    const [tlsCert, setTlsCert] = useState('');
+    const [tlsKey, setTlsKey] = useState('');
+    const [tlsFingerprint, setTlsFingerprint] = useState('');
+    // The request policy is stored separately and only editable once the connection exists
+    const [policyRules, setPolicyRules] = useState<RequestPolicyRuleInput[] | null>(null);
+    const [policyDefaults, setPolicyDefaults] = useState<RequestPolicyRuleInput[]>([]);
+    const [policyDirty, setPolicyDirty] = useState(false);
+    const [showPolicy, setShowPolicy] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
@@ -64,13 +97,40 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
     useEffect(() => {
         if (editConnection) {
             setName(editConnection.name);
+            setEndpointType(editConnection.cloud_id ? 'cloud' : 'url');
             setUrl(editConnection.url);
+            setCloudId(editConnection.cloud_id || '');
+            setAuthType(editConnection.auth_type);
             setUsername(editConnection.username || '');
             setPassword(editConnection.password || '');
+            setAuthToken(editConnection.auth_token || '');
             setColor(editConnection.color);
+            setReadOnly(editConnection.read_only);
+            setTlsVerify(editConnection.tls_verify);
+            setTlsCa(editConnection.tls_ca || '');
+            setTlsCert(editConnection.tls_cert || '');
+            setTlsKey(editConnection.tls_key || '');
+            setTlsFingerprint(editConnection.tls_ca_fingerprint || '');
+            setShowTls(
+                !editConnection.tls_verify ||
+                !!(editConnection.tls_ca || editConnection.tls_cert || editConnection.tls_ca_fingerprint)
+            );
+
+            getRequestPolicy(editConnection.id)
+                .then((policy) => {
+                    setPolicyRules(policy.rules.map(({ action, method, path_pattern }) => ({ action, method, path_pattern })));
+                    setPolicyDefaults(policy.defaults);
+                    setPolicyDirty(false);
+                })
+                .catch(() => setPolicyRules(null));
         }
     }, [editConnection]);
 
+    const handlePolicyChange = (rules: RequestPolicyRuleInput[]) => {
+        setPolicyRules(rules);
+        setPolicyDirty(true);
+    };
+
     const validateForm = (): boolean => {
         const errors: ValidationErrors = {};
 
@@ -83,12 +143,22 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
         }
 
         // URL validasyonu
-        if (!url.trim()) {
+        if (endpointType === 'cloud') {
+            if (!cloudId.trim()) {
+                errors.url = t('connection.validation.cloudIdRequired');
+            } else if (!isValidCloudId(cloudId.trim())) {
+                errors.url = t('connection.validation.cloudIdInvalid');
+            }
+        } else if (!url.trim()) {
             errors.url = t('connection.validation.urlRequired');
         } else if (!isValidUrl(url)) {
             errors.url = t('connection.validation.urlInvalid');
         }
 
+        if ((authType === 'apiKey' || authType === 'bearer') && !authToken.trim()) {
+            errors.authToken = t('connection.validation.tokenRequired');
+        }
+
         setValidationErrors(errors);
         return Object.keys(errors).length === 0;
     };
@@ -112,20 +182,40 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
         let createdConnectionId: number | null = null;
 
         try {
+            // TLS fields are always sent so clearing one in the form clears it on the server
             const input: CreateConnectionInput = {
                 name: name.trim(),
-                url: url.trim(),
+                url: endpointType === 'url' ? url.trim() : '',
+                cloud_id: endpointType === 'cloud' ? cloudId.trim() : '',
+                auth_type: authType,
+                auth_token: authType === 'apiKey' || authType === 'bearer' ? authToken.trim() : '',
                 color,
+                read_only: readOnly,
+                tls_verify: tlsVerify,
+                tls_ca: tlsCa.trim(),
+                tls_cert: tlsCert.trim(),
+                tls_key: tlsKey.trim(),
+                tls_ca_fingerprint: tlsFingerprint.trim(),
             };
 
-            if (username.trim()) input.username = username.trim();
-            if (password) input.password = password;
+            if (authType === 'basic') {
+                if (username.trim()) input.username = username.trim();
+                if (password) input.password = password;
+            } else {
+                // Drop basic credentials that no longer apply
+                input.username = '';
+                input.password = '';
+            }
 
             let connectionId: number;
 
             if (isEditMode && editConnection) {
                 const updatedConnection = await updateSavedConnection(editConnection.id, input);
                 connectionId = updatedConnection.id;
+                if (policyRules && policyDirty) {
+                    await updateRequestPolicy(connectionId, policyRules);
+                    setPolicyDirty(false);
+                }
             } else {
                 const savedConnection = await createSavedConnection(input);
                 connectionId = savedConnection.id;
@@ -142,12 +232,14 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
                 } catch (deleteErr) {
                 }
             }
-            setError(err.message || t('connection.connectionFailed'));
+            setError(translateError(err) || t('connection.connectionFailed'));
         } finally {
             setLoading(false);
         }
     };
 
+    const endpointLocked = loading || !canEditEndpoint;
+
     return (
         <form onSubmit={handleSubmit} className="connection-modal-form">
             <div className={`form-group ${touched.name && validationErrors.name ? 'has-error' : ''}`}>
@@ -167,44 +259,116 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
             </div>
 
             <div className={`form-group ${touched.url && validationErrors.url ? 'has-error' : ''}`}>
-                <label htmlFor="conn-url">{t('connection.url')}</label>
-                <input
-                    id="conn-url"
-                    type="text"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    onBlur={() => handleBlur('url')}
-                    placeholder={t('connection.urlPlaceholder')}
-                    disabled={loading}
-                />
+                <div className="form-label-row">
+                    <label htmlFor="conn-url">
+                        {endpointType === 'cloud' ? t('connection.cloudId') : t('connection.url')}
+                    </label>
+                    <select
+                        className="form-inline-select"
+                        value={endpointType}
+                        onChange={(e) => setEndpointType(e.target.value as EndpointType)}
+                        disabled={endpointLocked}
+                    >
+                        <option value="url">{t('connection.endpointTypes.url')}</option>
+                        <option value="cloud">{t('connection.endpointTypes.cloud')}</option>
+                    </select>
+                </div>
+                {endpointType === 'cloud' ? (
+                    <input
+                        id="conn-url"
+                        type="text"
+                        value={cloudId}
+                        onChange={(e) => setCloudId(e.target.value)}
+                        onBlur={() => handleBlur('url')}
+                        placeholder={t('connection.cloudIdPlaceholder')}
+                        spellCheck={false}
+                        disabled={endpointLocked}
+                    />
+                ) : (
+                    <input
+                        id="conn-url"
+                        type="text"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        onBlur={() => handleBlur('url')}
+                        placeholder={t('connection.urlPlaceholder')}
+                        disabled={endpointLocked}
+                    />
+                )}
                 {touched.url && validationErrors.url && (
                     <span className="field-error">{validationErrors.url}</span>
                 )}
             </div>
 
-            <div className="form-row">
-                <div className="form-group">
-                    <label htmlFor="conn-username">{t('connection.username')}</label>
-                    <input
-                        id="conn-username"
-                        type="text"
-                        value={username}
-                        onChange={(e) => setUsername(e.target.value)}
-                        placeholder={t('connection.usernamePlaceholder')}
-                        disabled={loading}
-                    />
+            <div className="form-group">
+                <label htmlFor="conn-auth-type">{t('connection.authType')}</label>
+                <select
+                    id="conn-auth-type"
+                    value={authType}
+                    onChange={(e) => setAuthType(e.target.value as ConnectionAuthType)}
+                    disabled={endpointLocked}
+                >
+                    {AUTH_TYPES.map((type) => (
+                        <option key={type} value={type}>{t(`connection.authTypes.${type}`)}</option>
+                    ))}
+                </select>
+            </div>
+
+            {authType === 'basic' && (
+                <div className="form-row">
+                    <div className="form-group">
+                        <label htmlFor="conn-username">{t('connection.username')}</label>
+                        <input
+                            id="conn-username"
+                            type="text"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            placeholder={t('connection.usernamePlaceholder')}
+                            disabled={endpointLocked}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label htmlFor="conn-password">{t('connection.password')}</label>
+                        <div className="input-with-toggle">
+                            <input
+                                id="conn-password"
+                                type={showPassword ? 'text' : 'password'}
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                placeholder={t('connection.passwordPlaceholder')}
+                                disabled={endpointLocked}
+                            />
+                            <button
+                                type="button"
+                                className="input-toggle-btn"
+                                onClick={() => setShowPassword((v) => !v)}
+                                tabIndex={-1}
+                                disabled={loading}
+                                aria-label={showPassword ? t('connection.hidePassword') : t('connection.showPassword')}
+                            >
+                                {showPassword ? <EyeOff size={15} /> : <Eye size={15} />}
+                            </button>
+                        </div>
+                    </div>
                 </div>
+            )}
 
-                <div className="form-group">
-                    <label htmlFor="conn-password">{t('connection.password')}</label>
+            {(authType === 'apiKey' || authType === 'bearer') && (
+                <div className={`form-group ${validationErrors.authToken ? 'has-error' : ''}`}>
+                    <label htmlFor="conn-auth-token">
+                        {authType === 'apiKey' ? t('connection.apiKey') : t('connection.bearerToken')}
+                    </label>
                     <div className="input-with-toggle">
                         <input
-                            id="conn-password"
+                            id="conn-auth-token"
                             type={showPassword ? 'text' : 'password'}
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            placeholder={t('connection.passwordPlaceholder')}
-                            disabled={loading}
+                            value={authToken}
+                            onChange={(e) => setAuthToken(e.target.value)}
+                            placeholder={authType === 'apiKey' ? t('connection.apiKeyPlaceholder') : ''}
+                            autoComplete="off"
+                            spellCheck={false}
+                            disabled={endpointLocked}
                         />
                         <button
                             type="button"
@@ -217,9 +381,123 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
                             {showPassword ? <EyeOff size={15} /> : <Eye size={15} />}
                         </button>
                     </div>
+                    {validationErrors.authToken && (
+                        <span className="field-error">{validationErrors.authToken}</span>
+                    )}
                 </div>
+            )}
+
+            <div className="tls-section">
+                <button
+                    type="button"
+                    className="tls-section-toggle"
+                    onClick={() => setShowTls((v) => !v)}
+                    disabled={loading}
+                >
+                    {showTls ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    <Lock size={13} />
+                    {t('connection.tls.title')}
+                </button>
+
+                {showTls && (
+                    <div className="tls-section-body">
+                        <label className="form-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={tlsVerify}
+                                onChange={(e) => setTlsVerify(e.target.checked)}
+                                disabled={endpointLocked}
+                            />
+                            {t('connection.tls.verify')}
+                        </label>
+                        {!tlsVerify && (
+                            <span className="tls-warning">{t('connection.tls.verifyDisabledWarning')}</span>
+                        )}
+
+                        <div className="form-group">
+                            <label htmlFor="conn-tls-ca">{t('connection.tls.ca')}</label>
+                            <textarea
+                                id="conn-tls-ca"
+                                value={tlsCa}
+                                onChange={(e) => setTlsCa(e.target.value)}
+                                placeholder={t('connection.tls.pemPlaceholder')}
+                                rows={3}
+                                spellCheck={false}
+                                disabled={endpointLocked}
+                            />
+                        </div>
+
+                        <div className="form-row">
+                            <div className="form-group">
+                                <label htmlFor="conn-tls-cert">{t('connection.tls.clientCert')}</label>
+                                <textarea
+                                    id="conn-tls-cert"
+                                    value={tlsCert}
+                                    onChange={(e) => setTlsCert(e.target.value)}
+                                    placeholder={t('connection.tls.pemPlaceholder')}
+                                    rows={3}
+                                    spellCheck={false}
+                                    disabled={endpointLocked}
+                                />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="conn-tls-key">{t('connection.tls.clientKey')}</label>
+                                <textarea
+                                    id="conn-tls-key"
+                                    value={tlsKey}
+                                    onChange={(e) => setTlsKey(e.target.value)}
+                                    placeholder={t('connection.tls.pemPlaceholder')}
+                                    rows={3}
+                                    spellCheck={false}
+                                    disabled={endpointLocked}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="conn-tls-fingerprint">{t('connection.tls.fingerprint')}</label>
+                            <input
+                                id="conn-tls-fingerprint"
+                                type="text"
+                                value={tlsFingerprint}
+                                onChange={(e) => setTlsFingerprint(e.target.value)}
+                                placeholder="AB:CD:EF:..."
+                                spellCheck={false}
+                                disabled={endpointLocked}
+                            />
+                            <span className="form-hint">{t('connection.tls.fingerprintHint')}</span>
+                        </div>
+                    </div>
+                )}
             </div>
 
+            {policyRules && (
+                <div className="tls-section">
+                    <button
+                        type="button"
+                        className="tls-section-toggle"
+                        onClick={() => setShowPolicy((v) => !v)}
+                        disabled={loading}
+                    >
+                        {showPolicy ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        <ShieldAlert size={13} />
+                        {t('connection.policy.title')}
+                        {policyRules.length > 0 && ` (${policyRules.length})`}
+                    </button>
+
+                    {showPolicy && (
+                        <div className="tls-section-body">
+                            <RequestPolicyEditor
+                                rules={policyRules}
+                                defaults={policyDefaults}
+                                onChange={handlePolicyChange}
+                                disabled={loading}
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+
             <div className="form-group">
                 <label>{t('connection.color')}</label>
                 <div className="color-picker">
@@ -236,6 +514,19 @@ export const ConnectionFormModal: React.FC<ConnectionFormModalProps> = ({
                 </div>
             </div>
 
+            <div className="form-group">
+                <label className="form-checkbox">
+                    <input
+                        type="checkbox"
+                        checked={readOnly}
+                        onChange={(e) => setReadOnly(e.target.checked)}
+                        disabled={loading}
+                    />
+                    {t('connection.readOnly')}
+                </label>
+                <span className="form-hint">{t('connection.readOnlyHint')}</span>
+            </div>
+
             {error && <div className="error-message">{error}</div>}
 
             <div className="modal-actions">
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ChevronDown, Plus, Power, Trash2, Pencil, Download, Upload } from 'lucide-react';
+import { ChevronDown, Plus, Power, Trash2, Pencil, Download, Upload, Lock } from 'lucide-react';
 import {
     SavedConnection,
     getSavedConnections,
@@ -13,6 +13,7 @@ import {
     ConnectionsExportData,
 } from '../api/elasticsearchClient';
 import { useClickOutside } from '../hooks/useClickOutside';
+import { formatConnectionEndpoint } from '../utils/formatters';
 
 interface ConnectionSelectorProps {
     isConnected: boolean;
@@ -21,6 +22,9 @@ interface ConnectionSelectorProps {
     onConnectionChange: () => void;
     onAddNew: () => void;
     onEdit: (connection: SavedConnection) => void;
+    // Adding and importing connections is for global admins, like ad-hoc connects
+    canCreate: boolean;
+    canExport: boolean;
 }
 
 export const ConnectionSelector: React.FC<ConnectionSelectorProps> = ({
@@ -30,6 +34,8 @@ export const ConnectionSelector: React.FC<ConnectionSelectorProps> = ({
     onConnectionChange,
     onAddNew,
     onEdit,
+    canCreate,
+    canExport,
 }) => {
     const { t } = useTranslation();
     const [connections, setConnections] = useState<SavedConnection[]>([]);
@@ -238,24 +244,36 @@ export const ConnectionSelector: React.FC<ConnectionSelectorProps> = ({
                                     />
                                     <div className="connection-details">
                                         <span className="connection-item-name">{conn.name}</span>
-                                        <span className="connection-item-url">{conn.url}</span>
-                                    </div>
-                                    <div className="connection-item-actions">
-                                        <button
-                                            className="btn btn-icon btn-edit"
-                                            onClick={(e) => handleEdit(e, conn)}
-                                            title={t('common.edit')}
-                                        >
-                                            <Pencil size={14} />
-                                        </button>
-                                        <button
-                                            className="btn btn-icon btn-delete"
-                                            onClick={(e) => handleDelete(e, conn.id)}
-                                            title={t('common.delete')}
-                                        >
-                                            <Trash2 size={14} />
-                                        </button>
+                                        <span className="connection-item-url">{formatConnectionEndpoint(conn)}</span>
                                     </div>
+                                    {conn.read_only && (
+                                        <span className="connection-read-only-icon" title={t('header.readOnly')}>
+                                            <Lock size={12} />
+                                        </span>
+                                    )}
+                                    {conn.role && conn.role !== 'admin' && (
+                                        <span className={`connection-role-badge ${conn.role}`}>
+                                            {t(`permissions.roles.${conn.role}`)}
+                                        </span>
+                                    )}
+                                    {(!conn.role || conn.role === 'admin') && (
+                                        <div className="connection-item-actions">
+                                            <button
+                                                className="btn btn-icon btn-edit"
+                                                onClick={(e) => handleEdit(e, conn)}
+                                                title={t('common.edit')}
+                                            >
+                                                <Pencil size={14} />
+                                            </button>
+                                            <button
+                                                className="btn btn-icon btn-delete"
+                                                onClick={(e) => handleDelete(e, conn.id)}
+                                                title={t('common.delete')}
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
                             ))
                         )}
@@ -263,17 +281,23 @@ export const ConnectionSelector: React.FC<ConnectionSelectorProps> = ({
 
                     <div className="connection-dropdown-actions">
                         <div className="connection-actions-row">
-                            <button className="btn btn-add-connection" onClick={() => { onAddNew(); setIsOpen(false); }}>
-                                <Plus size={16} />
-                                {t('connection.addNew')}
-                            </button>
-                            <div className="connection-import-export">
-                                <button className="btn btn-import" onClick={handleImportClick} title={t('connection.import')}>
-                                    <Upload size={16} />
-                                </button>
-                                <button className="btn btn-export" onClick={handleExport} title={t('connection.export')}>
-                                    <Download size={16} />
+                            {canCreate && (
+                                <button className="btn btn-add-connection" onClick={() => { onAddNew(); setIsOpen(false); }}>
+                                    <Plus size={16} />
+                                    {t('connection.addNew')}
                                 </button>
+                            )}
+                            <div className="connection-import-export">
+                                {canCreate && (
+                                    <button className="btn btn-import" onClick={handleImportClick} title={t('connection.import')}>
+                                        <Upload size={16} />
+                                    </button>
+                                )}
+                                {canExport && (
+                                    <button className="btn btn-export" onClick={handleExport} title={t('connection.export')}>
+                                        <Download size={16} />
+                                    </button>
+                                )}
                             </div>
                         </div>
                         {isConnected && (
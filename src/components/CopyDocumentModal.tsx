@@ -13,6 +13,7 @@ import {
     getIndexMapping,
     getConnectionIndexMapping
 } from '../api/elasticsearchClient';
+import { formatConnectionEndpoint } from '../utils/formatters';
 
 interface CopyDocumentModalProps {
     isOpen: boolean;
@@ -364,7 +365,7 @@ export const CopyDocumentModal = ({
         .map(conn => ({
             id: conn.id,
             label: conn.name,
-            sublabel: conn.url
+            sublabel: formatConnectionEndpoint(conn)
         }));
 
     // Index options for searchable select
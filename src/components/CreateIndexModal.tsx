@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Plus, Copy, Loader, AlertCircle, Search, Check, ChevronDown, X, Database } from 'lucide-react';
+import { Plus, Copy, Loader, AlertCircle, Search, Check, ChevronDown, X, Database, Upload } from 'lucide-react';
 import {
     getIndices,
     getIndexMapping,
@@ -9,13 +9,14 @@ import {
     IndexInfo
 } from '../api/elasticsearchClient';
 import { useClickOutside } from '../hooks/useClickOutside';
+import { BulkImportWizard } from './BulkImportWizard';
 
 interface CreateIndexModalProps {
     onSuccess: () => void;
     onCancel: () => void;
 }
 
-type CreateMode = 'empty' | 'copy';
+type CreateMode = 'empty' | 'copy' | 'import';
 
 export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
     onSuccess,
@@ -44,6 +45,8 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
 
     const [numberOfShards, setNumberOfShards] = useState('1');
     const [numberOfReplicas, setNumberOfReplicas] = useState('1');
+    // Set once the import wizard created the index, closing then counts as success
+    const [importIndexCreated, setImportIndexCreated] = useState(false);
 
     useEffect(() => {
         loadIndices();
@@ -70,8 +73,28 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
         return null;
     };
 
+    // Called by the import wizard right before the first batch is sent
+    const createImportIndex = async (mappings: Record<string, any> | null) => {
+        if (!importIndexCreated) {
+            const nameError = validateIndexName(indexName);
+            if (nameError) throw new Error(nameError);
+
+            await createIndex({
+                indexName,
+                settings: {
+                    number_of_shards: parseInt(numberOfShards) || 1,
+                    number_of_replicas: parseInt(numberOfReplicas) || 1
+                },
+                ...(mappings ? { mappings } : {})
+            });
+            setImportIndexCreated(true);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        // The import wizard has its own actions
+        if (mode === 'import') return;
         setError(null);
 
         const nameError = validateIndexName(indexName);
@@ -148,6 +171,7 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
                     type="button"
                     className={`mode-tab ${mode === 'empty' ? 'active' : ''}`}
                     onClick={() => setMode('empty')}
+                    disabled={importIndexCreated}
                 >
                     <Plus size={16} />
                     {t('createIndex.emptyIndex')}
@@ -156,10 +180,19 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
                     type="button"
                     className={`mode-tab ${mode === 'copy' ? 'active' : ''}`}
                     onClick={() => setMode('copy')}
+                    disabled={importIndexCreated}
                 >
                     <Copy size={16} />
                     {t('createIndex.copyFromExisting')}
                 </button>
+                <button
+                    type="button"
+                    className={`mode-tab ${mode === 'import' ? 'active' : ''}`}
+                    onClick={() => setMode('import')}
+                >
+                    <Upload size={16} />
+                    {t('createIndex.importFromFile')}
+                </button>
             </div>
 
             {/* Index Name */}
@@ -171,6 +204,7 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
                     value={indexName}
                     onChange={(e) => setIndexName(e.target.value.toLowerCase())}
                     placeholder="yeni-index-adi"
+                    disabled={importIndexCreated}
                     autoFocus
                 />
                 <span className="form-hint">
@@ -178,7 +212,7 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
                 </span>
             </div>
 
-            {mode === 'empty' ? (
+            {mode !== 'copy' ? (
                 <>
                     {/* Shard Settings */}
                     <div className="form-row">
@@ -205,6 +239,17 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
                             />
                         </div>
                     </div>
+
+                    {mode === 'import' && (
+                        <div className="form-group">
+                            <span className="form-hint">{t('createIndex.importHint')}</span>
+                            <BulkImportWizard
+                                indexName={indexName}
+                                onClose={importIndexCreated ? onSuccess : onCancel}
+                                prepareIndex={createImportIndex}
+                            />
+                        </div>
+                    )}
                 </>
             ) : (
                 <>
@@ -318,33 +363,35 @@ export const CreateIndexModal: React.FC<CreateIndexModalProps> = ({
                 </div>
             )}
 
-            <div className="form-actions">
-                <button
-                    type="button"
-                    className="btn btn-secondary"
-                    onClick={onCancel}
-                    disabled={loading}
-                >
-                    {t('common.cancel')}
-                </button>
-                <button
-                    type="submit"
-                    className="btn btn-primary"
-                    disabled={loading || !indexName}
-                >
-                    {loading ? (
-                        <>
-                            <Loader size={14} className="spin" />
-                            {t('createIndex.creating')}
-                        </>
-                    ) : (
-                        <>
-                            <Plus size={14} />
-                            {t('createIndex.createButton')}
-                        </>
-                    )}
-                </button>
-            </div>
+            {mode !== 'import' && (
+                <div className="form-actions">
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={onCancel}
+                        disabled={loading}
+                    >
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        type="submit"
+                        className="btn btn-primary"
+                        disabled={loading || !indexName}
+                    >
+                        {loading ? (
+                            <>
+                                <Loader size={14} className="spin" />
+                                {t('createIndex.creating')}
+                            </>
+                        ) : (
+                            <>
+                                <Plus size={14} />
+                                {t('createIndex.createButton')}
+                            </>
+                        )}
+                    </button>
+                </div>
+            )}
         </form>
     );
 };
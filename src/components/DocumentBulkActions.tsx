@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Trash2, Download, Upload, Loader, AlertCircle, CheckCircle, X, PenLine, Eraser } from 'lucide-react';
+import { SearchHit } from '../types';
+import {
+    runDocumentBulkAction,
+    getMatchingDocumentIds,
+    DocumentBulkAction,
+    DocumentBulkActionResult,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDocCount } from '../utils/formatters';
+
+// Failures listed in the summary, the rest is only counted
+const MAX_LISTED_FAILURES = 50;
+
+interface DocumentBulkActionsProps {
+    indexName: string;
+    // Selected documents of the current page
+    selectedDocuments: SearchHit[];
+    // Every document matching the search is selected, not only the page
+    allMatching: boolean;
+    totalMatching: number;
+    pageCount: number;
+    query: object | null;
+    canEdit: boolean;
+    // Suggestions for the set and unset field actions
+    fields: string[];
+    onToggleAll: () => void;
+    onSelectAllMatching: () => void;
+    onClearSelection: () => void;
+    onCopy?: (documents: Array<{ id: string; source?: any }>) => void;
+    onExportAllMatching?: () => void;
+    onCompleted: () => void;
+}
+
+// Parse the value as JSON so numbers, booleans and objects keep their type; anything else is a string
+const parseFieldValue = (value: string): unknown => {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+};
+
+// Selection toolbar of DocumentViewer with the actions on the selected documents
+export const DocumentBulkActions: React.FC<DocumentBulkActionsProps> = ({
+    indexName,
+    selectedDocuments,
+    allMatching,
+    totalMatching,
+    pageCount,
+    query,
+    canEdit,
+    fields,
+    onToggleAll,
+    onSelectAllMatching,
+    onClearSelection,
+    onCopy,
+    onExportAllMatching,
+    onCompleted,
+}) => {
+    const { t } = useTranslation();
+    const [pendingAction, setPendingAction] = useState<DocumentBulkAction | null>(null);
+    const [field, setField] = useState('');
+    const [value, setValue] = useState('');
+    const [running, setRunning] = useState(false);
+    const [result, setResult] = useState<{ action: DocumentBulkAction; summary: DocumentBulkActionResult } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const selectedCount = allMatching ? totalMatching : selectedDocuments.length;
+    const pageSelected = allMatching || (pageCount > 0 && selectedDocuments.length === pageCount);
+
+    const handleRun = async () => {
+        if (!pendingAction) return;
+        setRunning(true);
+        setError(null);
+        try {
+            const summary = await runDocumentBulkAction(indexName, {
+                action: pendingAction,
+                ...(pendingAction !== 'delete' ? { field: field.trim() } : {}),
+                ...(pendingAction === 'set' ? { value: parseFieldValue(value) } : {}),
+                ...(allMatching ? { query } : { ids: selectedDocuments.map(doc => doc._id) }),
+            });
+            setResult({ action: pendingAction, summary });
+            setPendingAction(null);
+            onClearSelection();
+            onCompleted();
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (allMatching) {
+            onExportAllMatching?.();
+            return;
+        }
+        // Same line format as the search export, so the file can be imported again
+        const lines = selectedDocuments.map(doc => JSON.stringify({ _index: doc._index, _id: doc._id, _source: doc._source }));
+        const blob = new Blob([lines.join('\n') + '\n'], { type: 'application/x-ndjson' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${indexName}-selection-${new Date().toISOString().split('T')[0]}.ndjson`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleCopy = async () => {
+        if (!onCopy) return;
+        if (!allMatching) {
+            onCopy(selectedDocuments.map(doc => ({ id: doc._id, source: doc._source })));
+            return;
+        }
+        setRunning(true);
+        setError(null);
+        try {
+            const { ids } = await getMatchingDocumentIds(indexName, query);
+            onCopy(ids.map(id => ({ id })));
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const openAction = (action: DocumentBulkAction) => {
+        setPendingAction(action);
+        setError(null);
+        setResult(null);
+    };
+
+    const needsField = pendingAction === 'set' || pendingAction === 'unset';
+
+    return (
+        <div className="bulk-actions">
+            <div className="bulk-actions-bar">
+                <label className="bulk-actions-select">
+                    <input type="checkbox" checked={pageSelected} onChange={onToggleAll} disabled={running} />
+                    {selectedCount > 0
+                        ? (allMatching
+                            ? t('bulkActions.allMatchingSelected', { matches: formatDocCount(totalMatching) })
+                            : t('bulkActions.selected', { count: selectedCount }))
+                        : t('bulkActions.selectPage')}
+                </label>
+
+                {!allMatching && pageSelected && totalMatching > pageCount && (
+                    <button type="button" className="bulk-actions-link" onClick={onSelectAllMatching}>
+                        {t('bulkActions.selectAllMatching', { matches: formatDocCount(totalMatching) })}
+                    </button>
+                )}
+
+                {selectedCount > 0 && (
+                    <>
+                        <button type="button" className="bulk-actions-link" onClick={onClearSelection}>
+                            {t('bulkActions.clear')}
+                        </button>
+                        <div className="bulk-actions-buttons">
+                            {running && <Loader size={14} className="spin" />}
+                            <button type="button" className="btn btn-ghost btn-sm" onClick={handleExport} disabled={running}>
+                                <Download size={14} />
+                                {t('bulkActions.export')}
+                            </button>
+                            {onCopy && (
+                                <button type="button" className="btn btn-ghost btn-sm" onClick={handleCopy} disabled={running}>
+                                    <Upload size={14} />
+                                    {t('bulkActions.copy')}
+                                </button>
+                            )}
+                            {canEdit && (
+                                <>
+                                    <button type="button" className="btn btn-ghost btn-sm" onClick={() => openAction('set')} disabled={running}>
+                                        <PenLine size={14} />
+                                        {t('bulkActions.setField')}
+                                    </button>
+                                    <button type="button" className="btn btn-ghost btn-sm" onClick={() => openAction('unset')} disabled={running}>
+                                        <Eraser size={14} />
+                                        {t('bulkActions.unsetField')}
+                                    </button>
+                                    <button type="button" className="btn btn-ghost btn-sm btn-danger-subtle" onClick={() => openAction('delete')} disabled={running}>
+                                        <Trash2 size={14} />
+                                        {t('common.delete')}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {pendingAction && selectedCount > 0 && (
+                <div className="bulk-actions-form">
+                    {needsField && (
+                        <>
+                            <input
+                                type="text"
+                                value={field}
+                                onChange={(e) => setField(e.target.value)}
+                                placeholder={t('bulkActions.fieldPlaceholder')}
+                                list="bulk-action-fields"
+                                autoFocus
+                            />
+                            <datalist id="bulk-action-fields">
+                                {fields.map((name) => (
+                                    <option key={name} value={name} />
+                                ))}
+                            </datalist>
+                        </>
+                    )}
+                    {pendingAction === 'set' && (
+                        <input
+                            type="text"
+                            value={value}
+                            onChange={(e) => setValue(e.target.value)}
+                            placeholder={t('bulkActions.valuePlaceholder')}
+                        />
+                    )}
+                    <span className="bulk-actions-confirm">
+                        {t(`bulkActions.confirm.${pendingAction}`, { count: selectedCount })}
+                    </span>
+                    <button
+                        type="button"
+                        className={`btn btn-sm ${pendingAction === 'delete' ? 'btn-danger' : 'btn-primary'}`}
+                        onClick={handleRun}
+                        disabled={running || (needsField && !field.trim())}
+                    >
+                        {running && <Loader size={14} className="spin" />}
+                        {t('bulkActions.run')}
+                    </button>
+                    <button type="button" className="btn btn-secondary btn-sm" onClick={() => setPendingAction(null)} disabled={running}>
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            )}
+
+            {error && (
+                <div className="rest-save-error">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            {result && (
+                <div className="bulk-actions-result">
+                    <div className={`bulk-import-summary ${result.summary.failed > 0 ? 'has-failures' : ''}`}>
+                        {result.summary.failed > 0 ? <AlertCircle size={16} /> : <CheckCircle size={16} />}
+                        <span>
+                            {t(`bulkActions.result.${result.action}`, {
+                                succeeded: result.summary.succeeded,
+                                failed: result.summary.failed,
+                            })}
+                        </span>
+                        <button type="button" className="btn btn-icon-sm" onClick={() => setResult(null)} title={t('common.close')}>
+                            <X size={12} />
+                        </button>
+                    </div>
+                    {result.summary.errors.length > 0 && (
+                        <div className="bulk-import-failures">
+                            {result.summary.errors.slice(0, MAX_LISTED_FAILURES).map((failure, i) => (
+                                <div key={i} className="bulk-import-failure">
+                                    <span className="bulk-import-failure-row">{failure.id ?? '-'}</span>
+                                    <span className="bulk-import-failure-reason">
+                                        {failure.type ? `${failure.type}: ${failure.reason}` : failure.reason}
+                                    </span>
+                                </div>
+                            ))}
+                            {result.summary.errors.length > MAX_LISTED_FAILURES && (
+                                <div className="bulk-import-failure more">
+                                    {t('bulkImport.moreFailures', { count: result.summary.errors.length - MAX_LISTED_FAILURES })}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Copy, Trash2, ChevronDown, ChevronRight, X, Check, Maximize2, GitCompare, Upload, RefreshCw, ArrowUp, ArrowDown, Pause, Play } from 'lucide-react';
+import { Copy, Trash2, ChevronDown, ChevronRight, X, Check, Maximize2, GitCompare, Upload, RefreshCw, ArrowUp, ArrowDown, Pause, Play, Highlighter } from 'lucide-react';
 import { SearchHit } from '../types';
 import { deleteDocument, saveDocument, getDocument } from '../api/elasticsearchClient';
 import { DocJsonEditor } from './DocJsonEditor';
 import { SkeletonLoader } from './SkeletonLoader';
+import { DocumentBulkActions } from './DocumentBulkActions';
+import { HighlightFragments } from './HighlightFragments';
+import { getFieldHighlight, getOtherHighlights } from '../utils/highlight';
 
 interface DocumentViewerProps {
     documents: SearchHit[];
@@ -22,6 +25,13 @@ interface DocumentViewerProps {
     sortOrder?: 'asc' | 'desc';
     onSort?: (field: string) => void;
     sortableFields?: string[];
+    // False for viewers: hides edit and delete actions
+    canEdit?: boolean;
+    // Multi-select bulk actions: total hits and query of the current search
+    totalMatching?: number;
+    currentQuery?: object | null;
+    availableFields?: string[];
+    onExportAllMatching?: () => void;
 }
 
 const getNestedValue = (obj: Record<string, any>, path: string): any => {
@@ -127,6 +137,11 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
     sortOrder,
     onSort,
     sortableFields = [],
+    canEdit = true,
+    totalMatching = 0,
+    currentQuery = null,
+    availableFields = [],
+    onExportAllMatching,
 }) => {
     const { t } = useTranslation();
     const [expandedDoc, setExpandedDoc] = useState<string | null>(null);
@@ -139,6 +154,10 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
     const [refreshingDoc, setRefreshingDoc] = useState<string | null>(null);
     const [autoRefreshDoc, setAutoRefreshDoc] = useState(false);
     const [autoRefreshInterval, setAutoRefreshInterval] = useState(5000);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [allMatching, setAllMatching] = useState(false);
+    // Show whole values instead of the highlighted fragments of a search
+    const [showFullValues, setShowFullValues] = useState(false);
 
     const AUTO_REFRESH_OPTIONS = [
         { value: 5000, label: '5s' },
@@ -149,6 +168,9 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
 
     React.useEffect(() => {
         setLocalDocuments(documents);
+        // A new page or search starts with an empty selection
+        setSelectedIds(new Set());
+        setAllMatching(false);
     }, [documents]);
 
     const handleRefreshDocument = async (docId: string) => {
@@ -216,6 +238,30 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
         setSaveError(null);
     };
 
+    const toggleSelected = (id: string) => {
+        setAllMatching(false);
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const toggleSelectPage = () => {
+        const pageSelected = allMatching || (localDocuments.length > 0 && selectedIds.size === localDocuments.length);
+        setAllMatching(false);
+        setSelectedIds(pageSelected ? new Set() : new Set(localDocuments.map(doc => doc._id)));
+    };
+
+    const clearSelection = () => {
+        setSelectedIds(new Set());
+        setAllMatching(false);
+    };
+
     const toggleExpand = (id: string) => {
         setExpandedDoc(expandedDoc === id ? null : id);
     };
@@ -286,14 +332,47 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
         }
     };
 
+    const previewColumns = (doc: SearchHit) =>
+        selectedColumns.length > 0 ? selectedColumns : Object.keys(doc._source).slice(0, 4);
+
+    const isSelected = (id: string) => allMatching || selectedIds.has(id);
+    const hasHighlights = localDocuments.some(doc => doc.highlight && Object.keys(doc.highlight).length > 0);
+    const showHighlights = hasHighlights && !showFullValues;
+
     return (
         <>
+            <DocumentBulkActions
+                indexName={selectedIndex}
+                selectedDocuments={localDocuments.filter(doc => selectedIds.has(doc._id))}
+                allMatching={allMatching}
+                totalMatching={totalMatching}
+                pageCount={localDocuments.length}
+                query={currentQuery}
+                canEdit={canEdit}
+                fields={availableFields}
+                onToggleAll={toggleSelectPage}
+                onSelectAllMatching={() => setAllMatching(true)}
+                onClearSelection={clearSelection}
+                onCopy={onCopyDocument}
+                onExportAllMatching={onExportAllMatching}
+                onCompleted={onRefresh}
+            />
+            {hasHighlights && (
+                <div className="doc-highlight-toggle">
+                    <Highlighter size={12} />
+                    <span>{showFullValues ? t('documentViewer.showingFullValues') : t('documentViewer.showingMatches')}</span>
+                    <button type="button" className="bulk-actions-link" onClick={() => setShowFullValues(!showFullValues)}>
+                        {showFullValues ? t('documentViewer.showMatches') : t('documentViewer.showFullValues')}
+                    </button>
+                </div>
+            )}
             {viewMode === 'table' ? (
                 /* Table View */
                 <div className="documents-table-wrapper">
                     <table className="documents-table">
                         <thead>
                             <tr>
+                                <th className="doc-table-select-col" />
                                 <th className="doc-table-id-col">ID</th>
                                 {tableColumns.map((col) => {
                                     const sortable = isSortable(col);
@@ -327,9 +406,16 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                             {localDocuments.map((doc) => (
                                 <React.Fragment key={doc._id}>
                                     <tr
-                                        className={`doc-table-row ${expandedDoc === doc._id ? 'expanded' : ''} ${refreshingDoc === doc._id ? 'refreshing' : ''}`}
+                                        className={`doc-table-row ${expandedDoc === doc._id ? 'expanded' : ''} ${isSelected(doc._id) ? 'selected' : ''} ${refreshingDoc === doc._id ? 'refreshing' : ''}`}
                                         onClick={() => toggleExpand(doc._id)}
                                     >
+                                        <td className="doc-table-select" onClick={(e) => e.stopPropagation()}>
+                                            <input
+                                                type="checkbox"
+                                                checked={isSelected(doc._id)}
+                                                onChange={() => toggleSelected(doc._id)}
+                                            />
+                                        </td>
                                         <td className="doc-table-id">
                                             <span className="doc-toggle">
                                                 {expandedDoc === doc._id ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
@@ -339,11 +425,16 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                                 <span className="doc-score-badge-sm">{doc._score.toFixed(2)}</span>
                                             )}
                                         </td>
-                                        {tableColumns.map((col) => (
-                                            <td key={col} className="doc-table-cell">
-                                                {formatDisplayValue(getNestedValue(doc._source, col), 60)}
-                                            </td>
-                                        ))}
+                                        {tableColumns.map((col) => {
+                                            const fragments = showHighlights ? getFieldHighlight(doc.highlight, col) : undefined;
+                                            return (
+                                                <td key={col} className="doc-table-cell">
+                                                    {fragments
+                                                        ? <HighlightFragments fragments={fragments} />
+                                                        : formatDisplayValue(getNestedValue(doc._source, col), 60)}
+                                                </td>
+                                            );
+                                        })}
                                         <td className="doc-table-actions" onClick={(e) => e.stopPropagation()}>
                                             <button
                                                 className={`btn btn-icon-sm ${refreshingDoc === doc._id ? 'btn-loading' : ''}`}
@@ -387,20 +478,36 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                             >
                                                 {copiedId === doc._id ? <Check size={12} /> : <Copy size={12} />}
                                             </button>
-                                            <button
-                                                className="btn btn-icon-sm btn-danger-subtle"
-                                                onClick={() => setDeleteConfirm(doc._id)}
-                                                title={t('common.delete')}
-                                            >
-                                                <Trash2 size={12} />
-                                            </button>
+                                            {canEdit && (
+                                                <button
+                                                    className="btn btn-icon-sm btn-danger-subtle"
+                                                    onClick={() => setDeleteConfirm(doc._id)}
+                                                    title={t('common.delete')}
+                                                >
+                                                    <Trash2 size={12} />
+                                                </button>
+                                            )}
                                         </td>
                                     </tr>
                                     {/* Expanded Row */}
                                     {expandedDoc === doc._id && (
                                         <tr className="doc-table-expanded-row">
-                                            <td colSpan={tableColumns.length + 2}>
+                                            <td colSpan={tableColumns.length + 3}>
                                                 <div className="doc-table-expanded-content">
+                                                    {showHighlights && getOtherHighlights(doc.highlight, tableColumns).length > 0 && (
+                                                        <table className="preview-table doc-highlight-table">
+                                                            <tbody>
+                                                                {getOtherHighlights(doc.highlight, tableColumns).map(([field, fragments]) => (
+                                                                    <tr key={field}>
+                                                                        <td className="preview-key">{field}</td>
+                                                                        <td className="preview-value">
+                                                                            <HighlightFragments fragments={fragments} />
+                                                                        </td>
+                                                                    </tr>
+                                                                ))}
+                                                            </tbody>
+                                                        </table>
+                                                    )}
                                                     {saveError && editingDoc === doc._id && (
                                                         <div className="error-message" style={{ marginBottom: '8px' }}>
                                                             {saveError}
@@ -409,7 +516,7 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                                     <DocJsonEditor
                                                         data={doc._source}
                                                         forcePinnedFields={selectedColumns}
-                                                        editable={true}
+                                                        editable={canEdit}
                                                         onSave={(newData) => handleSave(doc._id, newData)}
                                                         onCancel={handleCancelEdit}
                                                         loading={refreshingDoc === doc._id}
@@ -421,7 +528,7 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                     {/* Delete Confirm */}
                                     {deleteConfirm === doc._id && (
                                         <tr className="doc-table-delete-row">
-                                            <td colSpan={tableColumns.length + 2}>
+                                            <td colSpan={tableColumns.length + 3}>
                                                 <div className="delete-dialog-inline">
                                                     <p>{t('documentViewer.deleteConfirm')}</p>
                                                     <div className="delete-actions">
@@ -451,6 +558,12 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                         >
                             {/* Card Header */}
                             <div className="doc-card-header">
+                                <input
+                                    type="checkbox"
+                                    className="doc-card-select"
+                                    checked={isSelected(doc._id)}
+                                    onChange={() => toggleSelected(doc._id)}
+                                />
                                 <div className="doc-card-title" onClick={() => toggleExpand(doc._id)}>
                                     <span className="doc-toggle">
                                         {expandedDoc === doc._id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
@@ -510,13 +623,15 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                     >
                                         {copiedId === doc._id ? <Check size={12} /> : <Copy size={12} />}
                                     </button>
-                                    <button
-                                        className="btn btn-icon-sm btn-danger-subtle"
-                                        onClick={() => setDeleteConfirm(doc._id)}
-                                        title={t('common.delete')}
-                                    >
-                                        <Trash2 size={12} />
-                                    </button>
+                                    {canEdit && (
+                                        <button
+                                            className="btn btn-icon-sm btn-danger-subtle"
+                                            onClick={() => setDeleteConfirm(doc._id)}
+                                            title={t('common.delete')}
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    )}
                                 </div>
                             </div>
 
@@ -525,18 +640,30 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                 <div className="doc-card-preview">
                                     <table className="preview-table">
                                         <tbody>
-                                            {(selectedColumns.length > 0 ? selectedColumns : Object.keys(doc._source).slice(0, 4)).map((column) => {
+                                            {previewColumns(doc).map((column) => {
                                                 const value = selectedColumns.length > 0
                                                     ? getNestedValue(doc._source, column)
                                                     : doc._source[column];
                                                 if (value === undefined) return null;
+                                                const fragments = showHighlights ? getFieldHighlight(doc.highlight, column) : undefined;
                                                 return (
                                                     <tr key={column}>
                                                         <td className="preview-key">{column}</td>
-                                                        <td className="preview-value">{formatDisplayValue(value)}</td>
+                                                        <td className="preview-value">
+                                                            {fragments ? <HighlightFragments fragments={fragments} /> : formatDisplayValue(value)}
+                                                        </td>
                                                     </tr>
                                                 );
                                             })}
+                                            {/* Matches in fields outside the preview */}
+                                            {showHighlights && getOtherHighlights(doc.highlight, previewColumns(doc)).map(([field, fragments]) => (
+                                                <tr key={`highlight-${field}`} className="preview-highlight-row">
+                                                    <td className="preview-key">{field}</td>
+                                                    <td className="preview-value">
+                                                        <HighlightFragments fragments={fragments} />
+                                                    </td>
+                                                </tr>
+                                            ))}
                                         </tbody>
                                     </table>
                                 </div>
@@ -553,7 +680,7 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                                     <DocJsonEditor
                                         data={doc._source}
                                         forcePinnedFields={selectedColumns}
-                                        editable={true}
+                                        editable={canEdit}
                                         onSave={(newData) => handleSave(doc._id, newData)}
                                         onCancel={handleCancelEdit}
                                         loading={refreshingDoc === doc._id}
@@ -635,7 +762,7 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
                             <DocJsonEditor
                                 data={fullscreenDocument._source}
                                 forcePinnedFields={selectedColumns}
-                                editable={true}
+                                editable={canEdit}
                                 onSave={(newData) => handleSave(fullscreenDocument._id, newData)}
                                 onCancel={handleCancelEdit}
                                 loading={refreshingDoc === fullscreenDocument._id}
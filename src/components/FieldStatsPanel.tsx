@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader, AlertCircle, Filter } from 'lucide-react';
+import { runAggregations } from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDocCount } from '../utils/formatters';
+import {
+    FieldStatsTarget,
+    FieldStatistics,
+    buildFieldStatsNodes,
+    getFieldStatistics,
+} from '../utils/aggregations';
+import type { OperatorType } from './QueryBuilder';
+
+interface FieldStatsPanelProps {
+    indexName: string;
+    // Query of the current search, the statistics cover its matches
+    query: object | null;
+    target: FieldStatsTarget;
+    onFilter: (field: string, operator: OperatorType, value?: string) => void;
+}
+
+// Statistics of a single field for the current search, each with click-to-filter
+export const FieldStatsPanel: React.FC<FieldStatsPanelProps> = ({ indexName, query, target, onFilter }) => {
+    const { t } = useTranslation();
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [stats, setStats] = useState<FieldStatistics | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        runAggregations(indexName, buildFieldStatsNodes(target), query)
+            .then(result => {
+                if (!cancelled) setStats(getFieldStatistics(target, result.aggregations || {}));
+            })
+            .catch(err => {
+                if (!cancelled) setError(translateError(err));
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [indexName, target.field, target.kind, query]);
+
+    if (loading) {
+        return (
+            <div className="field-stats-loading">
+                <Loader size={16} className="spin" />
+                {t('common.loading')}
+            </div>
+        );
+    }
+
+    if (error || !stats) {
+        return (
+            <div className="rest-save-error">
+                <AlertCircle size={14} />
+                {error}
+            </div>
+        );
+    }
+
+    const maxCount = Math.max(...(stats.topValues || []).map(value => value.count), 1);
+
+    return (
+        <div className="field-stats">
+            <div className="field-stats-field">
+                <code>{target.field}</code>
+                <span>{t(`fieldStats.kinds.${target.kind}`)}</span>
+            </div>
+
+            <div className="field-stats-summary">
+                <button
+                    type="button"
+                    className="field-stats-card"
+                    onClick={() => onFilter(target.field, 'not_exists')}
+                    title={t('fieldStats.filterMissing')}
+                >
+                    <span className="field-stats-card-label">{t('fieldStats.missing')}</span>
+                    <span className="field-stats-card-value">{formatDocCount(stats.missing)}</span>
+                </button>
+                {stats.cardinality !== undefined && (
+                    <button
+                        type="button"
+                        className="field-stats-card"
+                        onClick={() => onFilter(target.field, 'exists')}
+                        title={t('fieldStats.filterExists')}
+                    >
+                        <span className="field-stats-card-label">{t('fieldStats.cardinality')}</span>
+                        <span className="field-stats-card-value">{formatDocCount(stats.cardinality)}</span>
+                    </button>
+                )}
+            </div>
+
+            {stats.topValues && (
+                <div className="field-stats-section">
+                    <div className="field-stats-section-title">{t('fieldStats.topValues')}</div>
+                    {stats.topValues.length === 0 ? (
+                        <p className="field-stats-empty">{t('fieldStats.noValues')}</p>
+                    ) : (
+                        <ul className="field-stats-values">
+                            {stats.topValues.map(value => (
+                                <li key={value.key}>
+                                    <button
+                                        type="button"
+                                        onClick={() => onFilter(target.field, 'equals', value.key)}
+                                        title={t('fieldStats.filterValue', { value: value.key })}
+                                    >
+                                        <span className="field-stats-value-key">{value.key}</span>
+                                        <span className="field-stats-value-bar">
+                                            <span style={{ width: `${(value.count / maxCount) * 100}%` }} />
+                                        </span>
+                                        <span className="field-stats-value-count">{formatDocCount(value.count)}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {!!stats.otherCount && (
+                        <p className="field-stats-empty">
+                            {t('fieldStats.otherValues', { documents: formatDocCount(stats.otherCount) })}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {stats.summary && (
+                <div className="field-stats-section">
+                    <div className="field-stats-section-title">{t('fieldStats.distribution')}</div>
+                    {stats.summary.length === 0 ? (
+                        <p className="field-stats-empty">{t('fieldStats.noValues')}</p>
+                    ) : (
+                        <table className="field-stats-table">
+                            <tbody>
+                                {stats.summary.map(stat => (
+                                    <tr key={stat.label}>
+                                        <th>{t(`fieldStats.metrics.${stat.label}`, { defaultValue: stat.label })}</th>
+                                        <td>{stat.display}</td>
+                                        <td className="field-stats-filters">
+                                            <button
+                                                type="button"
+                                                className="btn btn-ghost btn-icon-sm"
+                                                onClick={() => onFilter(target.field, 'gte', stat.display)}
+                                                title={t('fieldStats.filterGte', { value: stat.display })}
+                                            >
+                                                <Filter size={10} />≥
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className="btn btn-ghost btn-icon-sm"
+                                                onClick={() => onFilter(target.field, 'lte', stat.display)}
+                                                title={t('fieldStats.filterLte', { value: stat.display })}
+                                            >
+                                                <Filter size={10} />≤
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
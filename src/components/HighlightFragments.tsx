@@ -0,0 +1,24 @@
+import React from 'react';
+import { splitHighlight } from '../utils/highlight';
+
+interface HighlightFragmentsProps {
+    fragments: string[];
+}
+
+// Highlighted fragments of a field, separated by an ellipsis
+export const HighlightFragments: React.FC<HighlightFragmentsProps> = ({ fragments }) => (
+    <span className="search-hit-fragments">
+        {fragments.map((fragment, i) => (
+            <React.Fragment key={i}>
+                {i > 0 && <span className="search-hit-separator"> … </span>}
+                {splitHighlight(fragment).map((part, j) =>
+                    part.match ? (
+                        <mark key={j} className="search-hit-highlight">{part.text}</mark>
+                    ) : (
+                        <React.Fragment key={j}>{part.text}</React.Fragment>
+                    )
+                )}
+            </React.Fragment>
+        ))}
+    </span>
+);
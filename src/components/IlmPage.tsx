@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Hourglass, RefreshCw, AlertCircle, CheckCircle, Plus, Save, Trash2, Loader, FileJson, ListChecks } from 'lucide-react';
+import CodeMirror from '@uiw/react-codemirror';
+import { json, jsonParseLinter } from '@codemirror/lang-json';
+import { linter, lintGutter } from '@codemirror/lint';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { foldGutter } from '@codemirror/language';
+import { EditorView } from '@codemirror/view';
+import {
+    getIlmPolicies,
+    saveIlmPolicy,
+    deleteIlmPolicy,
+    IlmPolicy,
+    IlmPolicyBody,
+    ConnectionRole,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDate } from '../utils/formatters';
+import { hasRole } from '../utils/permissions';
+import { ILM_PHASES, createDefaultPolicy } from '../utils/ilm';
+import { groupIndexNames } from '../utils/indexGroups';
+import { Modal } from './Modal';
+import { IlmPolicyForm } from './IlmPolicyForm';
+
+interface IlmPageProps {
+    connectionId?: number | null;
+    connectionRole: ConnectionRole | null;
+}
+
+// Policy being edited; `name` is null while it has not been saved yet
+interface PolicyDraft {
+    name: string | null;
+    policy: IlmPolicyBody;
+}
+
+const toJson = (policy: IlmPolicyBody) => JSON.stringify(policy, null, 2);
+
+// Index lifecycle policies: phases as a form or JSON, and what each policy manages
+export const IlmPage: React.FC<IlmPageProps> = ({ connectionId, connectionRole }) => {
+    const { t } = useTranslation();
+    const [policies, setPolicies] = useState<IlmPolicy[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [draft, setDraft] = useState<PolicyDraft | null>(null);
+    const [newName, setNewName] = useState('');
+    const [mode, setMode] = useState<'form' | 'json'>('form');
+    const [jsonText, setJsonText] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [showDeleteModal, setShowDeleteModal] = useState(false);
+    const [deleting, setDeleting] = useState(false);
+    const [deleteError, setDeleteError] = useState<string | null>(null);
+
+    const canEdit = hasRole(connectionRole, 'admin');
+    const selected = draft?.name ? policies.find(policy => policy.name === draft.name) || null : null;
+
+    const loadPolicies = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const result = await getIlmPolicies();
+            setPolicies(result.policies);
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        setDraft(null);
+        loadPolicies();
+    }, [connectionId, loadPolicies]);
+
+    const openDraft = (next: PolicyDraft) => {
+        setDraft(next);
+        setNewName('');
+        setMode('form');
+        setJsonText(toJson(next.policy));
+        setSaveError(null);
+    };
+
+    // The JSON tab is the source of truth while it is open; invalid JSON keeps it open
+    const readDraftPolicy = (): IlmPolicyBody | null => {
+        if (!draft) return null;
+        if (mode === 'form') return draft.policy;
+        try {
+            return JSON.parse(jsonText);
+        } catch {
+            setSaveError(t('ilm.invalidJson'));
+            return null;
+        }
+    };
+
+    const switchMode = (next: 'form' | 'json') => {
+        if (!draft || next === mode) return;
+        if (next === 'json') {
+            setJsonText(toJson(draft.policy));
+        } else {
+            const policy = readDraftPolicy();
+            if (!policy) return;
+            setDraft({ ...draft, policy: { ...policy, phases: policy.phases || {} } });
+        }
+        setSaveError(null);
+        setMode(next);
+    };
+
+    const handleSave = async () => {
+        const policy = readDraftPolicy();
+        const name = draft?.name ?? newName.trim();
+        if (!policy || !name) return;
+        setSaving(true);
+        setSaveError(null);
+        try {
+            await saveIlmPolicy(name, policy);
+            setNotice(t('serverErrors.ILM_POLICY_SAVED', { policy: name }));
+            setDraft({ name, policy: mode === 'form' ? policy : { ...policy, phases: policy.phases || {} } });
+            await loadPolicies();
+        } catch (err) {
+            setSaveError(translateError(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!draft?.name) return;
+        setDeleting(true);
+        setDeleteError(null);
+        try {
+            await deleteIlmPolicy(draft.name);
+            setNotice(t('serverErrors.ILM_POLICY_DELETED', { policy: draft.name }));
+            setShowDeleteModal(false);
+            setDraft(null);
+            loadPolicies();
+        } catch (err) {
+            setDeleteError(translateError(err));
+        } finally {
+            setDeleting(false);
+        }
+    };
+
+    const countUsage = (policy: IlmPolicy) =>
+        policy.inUseBy ? policy.inUseBy.indices.length + policy.inUseBy.dataStreams.length : null;
+
+    const renderUsage = (policy: IlmPolicy) => {
+        if (!policy.inUseBy) {
+            return <p className="ilm-muted">{t('ilm.usageUnknown')}</p>;
+        }
+        const { indices, dataStreams, composableTemplates } = policy.inUseBy;
+        if (indices.length === 0 && dataStreams.length === 0 && composableTemplates.length === 0) {
+            return <p className="ilm-muted">{t('ilm.notInUse')}</p>;
+        }
+        return (
+            <>
+                {groupIndexNames(indices).map(group => (
+                    <div key={group.prefix ?? group.indices[0]} className="ilm-usage-group">
+                        {group.prefix && (
+                            <span className="ilm-usage-prefix">
+                                {group.prefix} <span className="ilm-muted">({group.indices.length})</span>
+                            </span>
+                        )}
+                        <div className="snapshot-indices">
+                            {group.indices.map(index => <code key={index}>{index}</code>)}
+                        </div>
+                    </div>
+                ))}
+                {dataStreams.length > 0 && (
+                    <div className="ilm-usage-group">
+                        <span className="ilm-usage-prefix">{t('ilm.dataStreams')}</span>
+                        <div className="snapshot-indices">
+                            {dataStreams.map(name => <code key={name}>{name}</code>)}
+                        </div>
+                    </div>
+                )}
+                {composableTemplates.length > 0 && (
+                    <div className="ilm-usage-group">
+                        <span className="ilm-usage-prefix">{t('ilm.templates')}</span>
+                        <div className="snapshot-indices">
+                            {composableTemplates.map(name => <code key={name}>{name}</code>)}
+                        </div>
+                    </div>
+                )}
+            </>
+        );
+    };
+
+    if (loading && policies.length === 0) {
+        return (
+            <div className="cluster-monitor-loading">
+                <RefreshCw size={32} className="spin" />
+                <p>{t('common.loading')}</p>
+            </div>
+        );
+    }
+
+    const usage = selected ? countUsage(selected) : null;
+
+    return (
+        <div className="snapshots-page">
+            <div className="cluster-monitor-header">
+                <div className="cluster-monitor-title">
+                    <Hourglass size={24} />
+                    <h2>{t('ilm.title')}</h2>
+                </div>
+                <div className="cluster-monitor-controls">
+                    <button className="btn btn-sm btn-secondary" onClick={loadPolicies} title={t('common.refresh')}>
+                        <RefreshCw size={16} className={loading ? 'spin' : ''} />
+                    </button>
+                    {canEdit && (
+                        <button
+                            className="btn btn-sm btn-primary"
+                            onClick={() => openDraft({ name: null, policy: createDefaultPolicy() })}
+                        >
+                            <Plus size={16} />
+                            {t('ilm.newPolicy')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="rest-save-error">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            {notice && (
+                <div className="snapshot-notice" onClick={() => setNotice(null)}>
+                    <CheckCircle size={14} />
+                    {notice}
+                </div>
+            )}
+
+            <div className="ilm-layout">
+                <div className="ilm-policy-list">
+                    {policies.length === 0 ? (
+                        <div className="snapshots-empty">{t('ilm.noPolicies')}</div>
+                    ) : (
+                        policies.map(policy => {
+                            const count = countUsage(policy);
+                            return (
+                                <button
+                                    key={policy.name}
+                                    className={`ilm-policy-item ${draft?.name === policy.name ? 'active' : ''}`}
+                                    onClick={() => openDraft({ name: policy.name, policy: policy.policy })}
+                                >
+                                    <span className="ilm-policy-name">{policy.name}</span>
+                                    <span className="ilm-policy-phases">
+                                        {ILM_PHASES.filter(phase => policy.policy.phases[phase]).map(phase => (
+                                            <span key={phase} className={`ilm-phase-chip ilm-phase-${phase}`}>
+                                                {t(`ilm.phases.${phase}`)}
+                                            </span>
+                                        ))}
+                                    </span>
+                                    {count !== null && (
+                                        <span className="ilm-muted">{t('ilm.usedByCount', { count })}</span>
+                                    )}
+                                </button>
+                            );
+                        })
+                    )}
+                </div>
+
+                <div className="ilm-policy-detail">
+                    {!draft ? (
+                        <div className="snapshots-empty">{t('ilm.selectPolicy')}</div>
+                    ) : (
+                        <>
+                            <div className="ilm-detail-header">
+                                {draft.name ? (
+                                    <div>
+                                        <h3>{draft.name}</h3>
+                                        {selected?.version != null && (
+                                            <span className="ilm-muted">
+                                                {t('ilm.version', { version: selected.version })}
+                                                {selected.modifiedDate && ` · ${formatDate(Date.parse(selected.modifiedDate))}`}
+                                            </span>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <div className="snapshot-field ilm-name-field">
+                                        <label>{t('ilm.policyName')}</label>
+                                        <input
+                                            type="text"
+                                            value={newName}
+                                            onChange={(e) => setNewName(e.target.value)}
+                                            placeholder="logs-30d"
+                                            autoFocus
+                                        />
+                                    </div>
+                                )}
+                                <div className="index-info-tabs">
+                                    <button
+                                        className={`index-info-tab ${mode === 'form' ? 'active' : ''}`}
+                                        onClick={() => switchMode('form')}
+                                    >
+                                        <ListChecks size={14} />
+                                        {t('ilm.form')}
+                                    </button>
+                                    <button
+                                        className={`index-info-tab ${mode === 'json' ? 'active' : ''}`}
+                                        onClick={() => switchMode('json')}
+                                    >
+                                        <FileJson size={14} />
+                                        JSON
+                                    </button>
+                                </div>
+                            </div>
+
+                            {mode === 'form' ? (
+                                <IlmPolicyForm
+                                    policy={draft.policy}
+                                    onChange={(policy) => setDraft({ ...draft, policy })}
+                                    readOnly={!canEdit}
+                                />
+                            ) : (
+                                <CodeMirror
+                                    value={jsonText}
+                                    height="420px"
+                                    theme={oneDark}
+                                    className="rest-codemirror"
+                                    editable={canEdit}
+                                    extensions={[json(), linter(jsonParseLinter()), lintGutter(), foldGutter(), EditorView.lineWrapping]}
+                                    onChange={setJsonText}
+                                    basicSetup={{ foldGutter: false, searchKeymap: false }}
+                                />
+                            )}
+
+                            {saveError && (
+                                <div className="rest-save-error">
+                                    <AlertCircle size={14} />
+                                    {saveError}
+                                </div>
+                            )}
+
+                            {canEdit && (
+                                <div className="modal-actions">
+                                    {draft.name && (
+                                        <button
+                                            className="btn btn-danger-subtle"
+                                            onClick={() => {
+                                                setDeleteError(null);
+                                                setShowDeleteModal(true);
+                                            }}
+                                            disabled={!!usage}
+                                            title={usage ? t('ilm.deleteInUse') : undefined}
+                                        >
+                                            <Trash2 size={14} />
+                                            {t('common.delete')}
+                                        </button>
+                                    )}
+                                    <button
+                                        className="btn btn-primary"
+                                        onClick={handleSave}
+                                        disabled={saving || (!draft.name && !newName.trim())}
+                                    >
+                                        {saving ? <Loader size={14} className="spin" /> : <Save size={14} />}
+                                        {t('common.save')}
+                                    </button>
+                                </div>
+                            )}
+
+                            {selected && (
+                                <div className="ilm-usage">
+                                    <h4>{t('ilm.usedBy')}</h4>
+                                    {renderUsage(selected)}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <Modal isOpen={showDeleteModal} onClose={() => setShowDeleteModal(false)} title={t('ilm.deleteTitle')}>
+                <div className="bulk-import">
+                    <p className="delete-modal-desc">{t('ilm.deleteWarning', { policy: draft?.name })}</p>
+                    {deleteError && (
+                        <div className="rest-save-error">
+                            <AlertCircle size={14} />
+                            {deleteError}
+                        </div>
+                    )}
+                    <div className="modal-actions">
+                        <button type="button" className="btn btn-secondary" onClick={() => setShowDeleteModal(false)}>
+                            {t('common.cancel')}
+                        </button>
+                        <button type="button" className="btn btn-danger" onClick={handleDelete} disabled={deleting}>
+                            {deleting ? <Loader size={14} className="spin" /> : <Trash2 size={14} />}
+                            {t('common.delete')}
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        </div>
+    );
+};
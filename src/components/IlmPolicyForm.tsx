@@ -0,0 +1,92 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import type { IlmPhase, IlmPolicyBody } from '../types';
+import { ILM_PHASES, PHASE_FIELDS, DEFAULT_PHASES, getFieldValue, setFieldValue, getOtherActions } from '../utils/ilm';
+
+interface IlmPolicyFormProps {
+    policy: IlmPolicyBody;
+    onChange: (policy: IlmPolicyBody) => void;
+    readOnly?: boolean;
+}
+
+// Phases of a policy as a form; actions without a field are kept and listed
+export const IlmPolicyForm: React.FC<IlmPolicyFormProps> = ({ policy, onChange, readOnly = false }) => {
+    const { t } = useTranslation();
+
+    const updatePhase = (phase: IlmPhase, definition: IlmPolicyBody['phases'][IlmPhase]) => {
+        const phases = { ...policy.phases };
+        if (definition) phases[phase] = definition;
+        else delete phases[phase];
+        onChange({ ...policy, phases });
+    };
+
+    return (
+        <div className="ilm-phases">
+            {ILM_PHASES.map(phaseName => {
+                const phase = policy.phases[phaseName];
+                const otherActions = phase ? getOtherActions(phaseName, phase) : [];
+                return (
+                    <div key={phaseName} className={`ilm-phase ilm-phase-${phaseName} ${phase ? 'enabled' : ''}`}>
+                        <label className="ilm-phase-header">
+                            <input
+                                type="checkbox"
+                                checked={!!phase}
+                                disabled={readOnly}
+                                onChange={(e) => updatePhase(phaseName, e.target.checked ? DEFAULT_PHASES[phaseName] : undefined)}
+                            />
+                            <span className="ilm-phase-name">{t(`ilm.phases.${phaseName}`)}</span>
+                        </label>
+
+                        {phase && (
+                            <div className="ilm-phase-fields">
+                                <div className="snapshot-field">
+                                    <label>{t('ilm.minAge')}</label>
+                                    <input
+                                        type="text"
+                                        value={phase.min_age ?? ''}
+                                        placeholder="0ms"
+                                        disabled={readOnly}
+                                        onChange={(e) => {
+                                            const { min_age: _minAge, ...rest } = phase;
+                                            updatePhase(phaseName, e.target.value ? { ...rest, min_age: e.target.value } : rest);
+                                        }}
+                                    />
+                                </div>
+                                {PHASE_FIELDS[phaseName].map(field => {
+                                    const key = field.setting ? `${field.action}_${field.setting}` : field.action;
+                                    const value = getFieldValue(phase, field);
+                                    return field.type === 'flag' ? (
+                                        <label key={key} className="snapshot-option">
+                                            <input
+                                                type="checkbox"
+                                                checked={value as boolean}
+                                                disabled={readOnly}
+                                                onChange={(e) => updatePhase(phaseName, setFieldValue(phase, field, e.target.checked))}
+                                            />
+                                            {t(`ilm.fields.${key}`)}
+                                        </label>
+                                    ) : (
+                                        <div key={key} className="snapshot-field">
+                                            <label>{t(`ilm.fields.${key}`)}</label>
+                                            <input
+                                                type={field.type}
+                                                value={value as string}
+                                                disabled={readOnly}
+                                                onChange={(e) => updatePhase(phaseName, setFieldValue(phase, field, e.target.value))}
+                                            />
+                                        </div>
+                                    );
+                                })}
+                                {otherActions.length > 0 && (
+                                    <p className="ilm-other-actions">
+                                        {t('ilm.otherActions', { actions: otherActions.join(', ') })}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
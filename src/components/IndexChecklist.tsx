@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface IndexChecklistProps {
+    indices: string[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+// Filterable list of index checkboxes with select all / none for the visible ones
+export const IndexChecklist: React.FC<IndexChecklistProps> = ({ indices, selected, onChange }) => {
+    const { t } = useTranslation();
+    const [filter, setFilter] = useState('');
+    const visible = indices.filter(index => index.toLowerCase().includes(filter.trim().toLowerCase()));
+
+    const toggle = (index: string) =>
+        onChange(selected.includes(index) ? selected.filter(name => name !== index) : [...selected, index]);
+
+    return (
+        <div className="index-checklist">
+            <div className="index-checklist-toolbar">
+                <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder={t('common.search') + '...'}
+                />
+                <button
+                    type="button"
+                    className="btn btn-ghost btn-sm"
+                    onClick={() => onChange([...new Set([...selected, ...visible])])}
+                >
+                    {t('indexChecklist.selectAll')}
+                </button>
+                <button
+                    type="button"
+                    className="btn btn-ghost btn-sm"
+                    onClick={() => onChange(selected.filter(index => !visible.includes(index)))}
+                >
+                    {t('common.clear')}
+                </button>
+                <span className="index-checklist-count">
+                    {t('indexChecklist.selected', { selected: selected.length, total: indices.length })}
+                </span>
+            </div>
+            <div className="index-checklist-items">
+                {visible.length === 0 ? (
+                    <div className="index-checklist-empty">{t('common.noResults')}</div>
+                ) : (
+                    visible.map(index => (
+                        <label key={index} className="index-checklist-item">
+                            <input type="checkbox" checked={selected.includes(index)} onChange={() => toggle(index)} />
+                            <span>{index}</span>
+                        </label>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
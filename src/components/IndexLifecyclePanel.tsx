@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader, AlertCircle, AlertTriangle, CheckCircle, RotateCcw, Link, Unlink } from 'lucide-react';
+import {
+    getIndexLifecycle,
+    getIlmPolicies,
+    retryIndexLifecycle,
+    attachIndexPolicy,
+    detachIndexPolicy,
+    IlmExplain,
+    ConnectionRole,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { hasRole } from '../utils/permissions';
+
+interface IndexLifecyclePanelProps {
+    indexName: string;
+    connectionRole: ConnectionRole | null;
+}
+
+// _ilm/explain of one index, with retry of a failed step and attaching or detaching a policy
+export const IndexLifecyclePanel: React.FC<IndexLifecyclePanelProps> = ({ indexName, connectionRole }) => {
+    const { t } = useTranslation();
+    const [explain, setExplain] = useState<IlmExplain | null>(null);
+    const [policyNames, setPolicyNames] = useState<string[]>([]);
+    const [policyToAttach, setPolicyToAttach] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const canRetry = hasRole(connectionRole, 'editor');
+    const canManage = hasRole(connectionRole, 'admin');
+
+    const loadExplain = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const result = await getIndexLifecycle(indexName);
+            setExplain(result);
+            if (!result.managed && canManage) {
+                const { policies } = await getIlmPolicies();
+                setPolicyNames(policies.map(policy => policy.name));
+                setPolicyToAttach(current => current || policies[0]?.name || '');
+            }
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    }, [indexName, canManage]);
+
+    useEffect(() => {
+        setNotice(null);
+        loadExplain();
+    }, [loadExplain]);
+
+    const run = async (action: () => Promise<unknown>, messageCode: string) => {
+        setWorking(true);
+        setError(null);
+        try {
+            await action();
+            setNotice(t(`serverErrors.${messageCode}`, { index: indexName, policy: policyToAttach }));
+            await loadExplain();
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    if (loading && !explain) {
+        return (
+            <div className="index-info-loading">
+                <Loader size={24} className="spin" />
+                <span>{t('common.loading')}</span>
+            </div>
+        );
+    }
+
+    const failed = explain?.step === 'ERROR';
+    const reason = explain?.step_info?.reason || explain?.step_info?.type;
+
+    return (
+        <div className="ilm-lifecycle">
+            {error && (
+                <div className="rest-save-error">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            {notice && (
+                <div className="snapshot-notice" onClick={() => setNotice(null)}>
+                    <CheckCircle size={14} />
+                    {notice}
+                </div>
+            )}
+
+            {explain && !explain.managed ? (
+                <>
+                    <p className="ilm-muted">{t('ilm.unmanaged')}</p>
+                    {canManage && (
+                        <div className="ilm-attach">
+                            <select
+                                className="refresh-interval-select"
+                                value={policyToAttach}
+                                onChange={(e) => setPolicyToAttach(e.target.value)}
+                                disabled={policyNames.length === 0}
+                            >
+                                {policyNames.length === 0 && <option value="">{t('ilm.noPolicies')}</option>}
+                                {policyNames.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                            <button
+                                className="btn btn-sm btn-primary"
+                                onClick={() => run(() => attachIndexPolicy(indexName, policyToAttach), 'ILM_POLICY_ATTACHED')}
+                                disabled={working || !policyToAttach}
+                            >
+                                {working ? <Loader size={14} className="spin" /> : <Link size={14} />}
+                                {t('ilm.attach')}
+                            </button>
+                        </div>
+                    )}
+                </>
+            ) : explain && (
+                <>
+                    <dl className="ilm-explain">
+                        <dt>{t('ilm.policy')}</dt>
+                        <dd>{explain.policy}</dd>
+                        <dt>{t('ilm.phase')}</dt>
+                        <dd>
+                            {explain.phase
+                                ? <span className={`ilm-phase-chip ilm-phase-${explain.phase}`}>{t(`ilm.phases.${explain.phase}`, { defaultValue: explain.phase })}</span>
+                                : '-'}
+                        </dd>
+                        <dt>{t('ilm.action')}</dt>
+                        <dd>{explain.action || '-'}</dd>
+                        <dt>{t('ilm.step')}</dt>
+                        <dd className={failed ? 'ilm-step-error' : ''}>{explain.step || '-'}</dd>
+                        <dt>{t('ilm.age')}</dt>
+                        <dd>{explain.age || '-'}</dd>
+                    </dl>
+
+                    {failed && (
+                        <div className="ilm-failure">
+                            <AlertTriangle size={16} className="inline-icon" />
+                            <div>
+                                <strong>{t('ilm.failedStep', { step: explain.failed_step })}</strong>
+                                {reason && <p>{reason}</p>}
+                                {explain.is_auto_retryable_error && (
+                                    <p className="ilm-muted">
+                                        {t('ilm.autoRetry', { count: explain.failed_step_retry_count ?? 0 })}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="modal-actions">
+                        {failed && canRetry && (
+                            <button
+                                className="btn btn-sm btn-primary"
+                                onClick={() => run(() => retryIndexLifecycle(indexName), 'ILM_RETRIED')}
+                                disabled={working}
+                            >
+                                {working ? <Loader size={14} className="spin" /> : <RotateCcw size={14} />}
+                                {t('ilm.retry')}
+                            </button>
+                        )}
+                        {canManage && (
+                            <button
+                                className="btn btn-sm btn-danger-subtle"
+                                onClick={() => run(() => detachIndexPolicy(indexName), 'ILM_POLICY_DETACHED')}
+                                disabled={working}
+                            >
+                                <Unlink size={14} />
+                                {t('ilm.detach')}
+                            </button>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
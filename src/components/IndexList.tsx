@@ -6,27 +6,7 @@ import { Modal } from './Modal';
 import { CreateIndexModal } from './CreateIndexModal';
 import { SkeletonLoader } from './SkeletonLoader';
 import { formatRelativeDate, formatDate } from '../utils/formatters';
-
-const DATE_PATTERNS: Array<{ regex: RegExp; extract: (name: string, match: RegExpMatchArray) => string | null }> = [
-    { regex: /_(\d{8})(?:_(\d{1,9}))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
-    { regex: /_(\d{10,14})$/, extract: (name, match) => name.substring(0, match.index!) || null },
-    { regex: /[-_](\d{4}\.\d{2}\.\d{2})(?:[-_](\d+))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
-    { regex: /[-_](\d{4}-\d{2}-\d{2})(?:[-_](\d+))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
-    { regex: /-(\d{8})(?:-(\d{1,9}))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
-    { regex: /-(\d{10,14})$/, extract: (name, match) => name.substring(0, match.index!) || null },
-    { regex: /[-_]v(\d{1,4})$/, extract: (name, match) => name.substring(0, match.index!) || null },
-];
-
-function extractGroupPrefix(indexName: string): string | null {
-    for (const pattern of DATE_PATTERNS) {
-        const match = indexName.match(pattern.regex);
-        if (match) {
-            const prefix = pattern.extract(indexName, match);
-            if (prefix && prefix.length > 0) return prefix;
-        }
-    }
-    return null;
-}
+import { extractGroupPrefix } from '../utils/indexGroups';
 
 interface IndexGroup {
     prefix: string;
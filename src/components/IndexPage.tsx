@@ -17,6 +17,7 @@ import {
     ChevronRight,
     Layers,
     FileJson,
+    Hourglass,
     Plus,
     X,
     ArrowUp,
@@ -32,6 +33,12 @@ import {
     FolderOpen,
     AlertCircle,
     GitMerge,
+    Pencil,
+    Plug,
+    Download,
+    Upload,
+    BarChart3,
+    Sigma,
 } from 'lucide-react';
 import {
     getIndices,
@@ -41,21 +48,33 @@ import {
     getIndexMapping,
     getIndexSettings,
     searchDocuments,
+    closeSearchPit,
     IndexInfo,
     addAlias,
     deleteAlias,
     saveDocument,
     getSavedSearchQueries,
     createSavedSearchQuery,
+    updateSavedSearchQuery,
     deleteSavedSearchQuery,
+    markSavedSearchQueryUsed,
     SavedSearchQuery,
+    ConnectionRole,
 } from '../api/elasticsearchClient';
 import { Modal } from './Modal';
 import { DocumentViewer } from './DocumentViewer';
 import { JsonCodeViewer } from './JsonCodeViewer';
 import { CopyDocumentModal } from './CopyDocumentModal';
 import { ReindexModal } from './ReindexModal';
-import { QueryBuilder, extractFieldsFromMappingWithTypes, FieldInfo, QueryGroup, createEmptyGroup } from './QueryBuilder';
+import {
+    QueryBuilder,
+    extractFieldsFromMappingWithTypes,
+    FieldInfo,
+    QueryGroup,
+    OperatorType,
+    createEmptyGroup,
+    addConditionToGroup,
+} from './QueryBuilder';
 import {
     getIndexPrefix,
     getColumnsForPrefix,
@@ -66,12 +85,29 @@ import {
     getSearchFieldsForPrefix,
     saveSearchFieldsForPrefix,
 } from '../utils/columnStorage';
-import { SearchHit } from '../types';
+import { SearchHit, AggregationNode, AggregationChartType } from '../types';
 import { PAGE_SIZE_OPTIONS } from '../constants';
 import { pageSizeStorage } from '../utils/storage';
-import { formatDate, formatDocCount } from '../utils/formatters';
+import { formatDate, formatDocCount, formatRelativeDate, parseServerTimestamp } from '../utils/formatters';
 import { DateFilter, DateFilterValue } from './DateFilter';
 import { translateError } from '../utils/errorHandler';
+import { SavedQueryFields, SavedQueryFieldValues, EMPTY_SAVED_QUERY_FIELDS } from './SavedQueryFields';
+import { SavedQueriesTransferActions, SavedQueriesImportModal } from './SavedQueriesTransfer';
+import { SearchExportModal } from './SearchExportModal';
+import { BulkImportWizard } from './BulkImportWizard';
+import { ByQueryOperationModal, ByQueryOperation } from './ByQueryOperationModal';
+import { AggregationBuilder } from './AggregationBuilder';
+import { FieldStatsPanel } from './FieldStatsPanel';
+import { IndexLifecyclePanel } from './IndexLifecyclePanel';
+import { getFieldStatsTarget } from '../utils/aggregations';
+import {
+    filterSavedQueries,
+    formatTagsInput,
+    getQueryFolders,
+    groupSavedQueriesByFolder,
+    parseTagsInput,
+} from '../utils/savedQueries';
+import { hasRole } from '../utils/permissions';
 import CodeMirror from '@uiw/react-codemirror';
 import { json, jsonParseLinter } from '@codemirror/lang-json';
 import { linter, lintGutter } from '@codemirror/lint';
@@ -86,6 +122,7 @@ interface IndexPageProps {
     onRemoveFromComparison: (docId: string, indexName: string) => void;
     isInComparison: (docId: string, indexName: string) => boolean;
     connectionId?: number | null;
+    connectionRole: ConnectionRole | null;
 }
 
 export const IndexPage: React.FC<IndexPageProps> = ({
@@ -95,8 +132,11 @@ export const IndexPage: React.FC<IndexPageProps> = ({
     onRemoveFromComparison,
     isInComparison,
     connectionId,
+    connectionRole,
 }) => {
     const { t } = useTranslation();
+    const canEdit = hasRole(connectionRole, 'editor');
+    const canAdminister = hasRole(connectionRole, 'admin');
 
     // Index bilgisi
     const [indexInfo, setIndexInfo] = useState<IndexInfo | null>(null);
@@ -109,7 +149,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
 
     // Settings/Mappings modal
     const [showIndexInfoModal, setShowIndexInfoModal] = useState(false);
-    const [indexInfoTab, setIndexInfoTab] = useState<'settings' | 'mappings'>('settings');
+    const [indexInfoTab, setIndexInfoTab] = useState<'settings' | 'mappings' | 'lifecycle'>('settings');
     const [settingsData, setSettingsData] = useState<Record<string, any> | null>(null);
     const [mappingsData, setMappingsData] = useState<Record<string, any> | null>(null);
     const [loadingIndexInfo, setLoadingIndexInfo] = useState(false);
@@ -138,6 +178,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
     // Documents
     const [documents, setDocuments] = useState<SearchHit[]>([]);
     const [total, setTotal] = useState(0);
+    const [totalRelation, setTotalRelation] = useState<'eq' | 'gte'>('eq');
     const [took, setTook] = useState(0);
     const [page, setPage] = useState(0);
     const [loading, setLoading] = useState(false);
@@ -188,13 +229,40 @@ export const IndexPage: React.FC<IndexPageProps> = ({
     const [queryBuilderQuery, setQueryBuilderQuery] = useState<object | null>(null);
     const [queryBuilderRootGroup, setQueryBuilderRootGroup] = useState<QueryGroup>(createEmptyGroup());
 
+    // Aggregation Builder
+    const [showAggregationBuilder, setShowAggregationBuilder] = useState(false);
+    const [aggregationNodes, setAggregationNodes] = useState<AggregationNode[]>([]);
+    const [aggregationChartType, setAggregationChartType] = useState<AggregationChartType>('bar');
+
+    // Field Statistics
+    const [statsField, setStatsField] = useState<string | null>(null);
+    // Set when a statistic added a filter; the search runs once the builder has the new query
+    const searchOnQueryBuilderChangeRef = React.useRef(false);
+
     // View Query Modal
     const [showQueryModal, setShowQueryModal] = useState(false);
 
+    // Export Results Modal
+    const [showExportModal, setShowExportModal] = useState(false);
+
+    // Import Documents Modal
+    const [showImportModal, setShowImportModal] = useState(false);
+
+    // Delete / Update Matching Modal
+    const [byQueryOperation, setByQueryOperation] = useState<ByQueryOperation | null>(null);
+
     // Saved Search Queries
     const [savedSearchQueries, setSavedSearchQueries] = useState<SavedSearchQuery[]>([]);
     const [showSaveQueryModal, setShowSaveQueryModal] = useState(false);
+    const [showImportQueriesModal, setShowImportQueriesModal] = useState(false);
     const [saveQueryName, setSaveQueryName] = useState('');
+    const [saveQueryFields, setSaveQueryFields] = useState<SavedQueryFieldValues>(EMPTY_SAVED_QUERY_FIELDS);
+    // 'update' overwrites saveQueryTarget with the current search, 'details' only renames/re-files it
+    const [saveQueryMode, setSaveQueryMode] = useState<'create' | 'update' | 'details'>('create');
+    const [saveQueryTarget, setSaveQueryTarget] = useState<SavedSearchQuery | null>(null);
+    // Saved query the current search came from, so saving again can update it instead of duplicating it
+    const [loadedSavedQuery, setLoadedSavedQuery] = useState<SavedSearchQuery | null>(null);
+    const [savedQueryFilter, setSavedQueryFilter] = useState('');
     const [saveQueryError, setSaveQueryError] = useState<string | null>(null);
     const [savingQuery, setSavingQuery] = useState(false);
     const [showSavedQueriesDropdown, setShowSavedQueriesDropdown] = useState(false);
@@ -203,6 +271,11 @@ export const IndexPage: React.FC<IndexPageProps> = ({
 
     const prefix = getIndexPrefix(indexName);
 
+    // A saved query loaded on another index must not be overwritten with this one
+    useEffect(() => {
+        setLoadedSavedQuery(null);
+    }, [indexName]);
+
     // Load index info
     useEffect(() => {
         loadIndexInfo();
@@ -215,6 +288,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
     // Sort is reset above, but that state update isn't visible yet in this
     // effect's closure, so pass an explicit empty sort instead of relying on it
     useEffect(() => {
+        highlightFieldsRef.current = undefined;
         performSearch(null, 0, []);
     }, [indexName]);
 
@@ -377,6 +451,30 @@ export const IndexPage: React.FC<IndexPageProps> = ({
         };
     }, []);
 
+    // Deep paging state of the current search: its point in time and the cursor of each visited page
+    const pagingRef = React.useRef<{ key: string; pitId?: string; cursors: Record<number, unknown[]> }>({
+        key: '',
+        cursors: {},
+    });
+
+    const resetPaging = useCallback(() => {
+        const { pitId } = pagingRef.current;
+        if (pitId) {
+            closeSearchPit(pitId).catch((error) => console.error('Point in time close error:', error));
+        }
+        pagingRef.current = { key: '', cursors: {} };
+    }, []);
+
+    // Release the point in time when leaving the page
+    useEffect(() => resetPaging, [resetPaging]);
+
+    // Fields highlighted in the results of the simple search, kept while paging
+    const highlightFieldsRef = React.useRef<string[] | undefined>(undefined);
+
+    const setSearchHighlight = (text: string, field: string) => {
+        highlightFieldsRef.current = text.trim() ? [field || '*'] : undefined;
+    };
+
     const performSearch = useCallback(
         async (query: object | null, newPage = 0, customSort?: object, customPageSize?: number) => {
             setLoading(true);
@@ -388,15 +486,41 @@ export const IndexPage: React.FC<IndexPageProps> = ({
 
                 const effectivePageSize = customPageSize !== undefined ? customPageSize : pageSize;
 
+                // Another query, sort or page size starts over without the previous cursors
+                const pagingKey = JSON.stringify([indexName, query, sortObj, effectivePageSize]);
+                if (pagingRef.current.key !== pagingKey) {
+                    resetPaging();
+                    pagingRef.current.key = pagingKey;
+                }
+                const paging = pagingRef.current;
+
                 const result = await searchDocuments(
                     indexName,
                     query || undefined,
                     newPage * effectivePageSize,
                     effectivePageSize,
-                    sortObj
+                    sortObj,
+                    {
+                        pitId: paging.pitId,
+                        searchAfter: paging.cursors[newPage],
+                        highlight: highlightFieldsRef.current,
+                    }
                 );
+
+                if (result.pitId) {
+                    if (pagingRef.current !== paging) {
+                        // The search changed while this page was loading
+                        closeSearchPit(result.pitId).catch((error) => console.error('Point in time close error:', error));
+                    } else {
+                        if (result.pitRestarted) paging.cursors = {};
+                        paging.pitId = result.pitId;
+                        if (result.searchAfter) paging.cursors[newPage + 1] = result.searchAfter;
+                    }
+                }
+
                 setDocuments(result.hits);
                 setTotal(result.total);
+                setTotalRelation(result.totalRelation ?? 'eq');
                 setTook(result.took);
                 setCurrentQuery(query);
                 setPage(newPage);
@@ -408,7 +532,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                 setLoading(false);
             }
         },
-        [indexName, pageSize, sortField, sortOrder]
+        [indexName, pageSize, sortField, sortOrder, resetPaging]
     );
 
     const handleSimpleSearch = (e?: React.FormEvent) => {
@@ -449,9 +573,24 @@ export const IndexPage: React.FC<IndexPageProps> = ({
 
         // Combine all queries
         const combinedQuery = buildCombinedQuery(simpleSearchQuery, dateFilterQuery, queryBuilderQuery);
+        setSearchHighlight(simpleQuery, searchField);
         performSearch(combinedQuery);
     };
 
+    const handleStatisticFilter = (field: string, operator: OperatorType, value?: string) => {
+        setQueryBuilderRootGroup(group => addConditionToGroup(group, field, operator, value));
+        setShowQueryBuilder(true);
+        setShowDateFilter(false);
+        setStatsField(null);
+        searchOnQueryBuilderChangeRef.current = true;
+    };
+
+    useEffect(() => {
+        if (!searchOnQueryBuilderChangeRef.current) return;
+        searchOnQueryBuilderChangeRef.current = false;
+        handleSimpleSearch();
+    }, [queryBuilderQuery]);
+
     const handleClearDateFilter = () => {
         setDateFilter(null);
         // Build simple search query
@@ -474,6 +613,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
         }
         // Combine queries without date filter
         const combinedQuery = buildCombinedQuery(simpleSearchQuery, null, queryBuilderQuery);
+        setSearchHighlight(simpleQuery, searchField);
         performSearch(combinedQuery);
     };
 
@@ -497,6 +637,8 @@ export const IndexPage: React.FC<IndexPageProps> = ({
     };
 
     const handleRefresh = () => {
+        // A fresh point in time, the current one would keep showing the old results
+        resetPaging();
         performSearch(currentQuery, page);
     };
 
@@ -509,6 +651,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
         setSortField('');
         setSortOrder('desc');
         setPage(0);
+        highlightFieldsRef.current = undefined;
         // Perform search with null query (match all)
         performSearch(null, 0);
     };
@@ -726,18 +869,35 @@ export const IndexPage: React.FC<IndexPageProps> = ({
         }
     };
 
-    // Group saved queries by prefix
-    const groupedSavedQueries = React.useMemo(() => {
-        const groups: Record<string, SavedSearchQuery[]> = {};
-        savedSearchQueries.forEach(query => {
-            const queryPrefix = getIndexPrefix(query.index_pattern);
-            if (!groups[queryPrefix]) {
-                groups[queryPrefix] = [];
+    // Group saved queries by folder, narrowed by the dropdown filter
+    const groupedSavedQueries = React.useMemo(
+        () => groupSavedQueriesByFolder(filterSavedQueries(savedSearchQueries, savedQueryFilter)),
+        [savedSearchQueries, savedQueryFilter]
+    );
+
+    const openSaveQueryModal = (mode: 'create' | 'update' | 'details', target: SavedSearchQuery | null) => {
+        setSaveQueryMode(mode);
+        setSaveQueryTarget(target);
+        setSaveQueryName(target?.name || '');
+        setSaveQueryFields(target
+            ? {
+                folder: target.folder || '',
+                tags: formatTagsInput(target.tags),
+                description: target.description || '',
+                connectionScoped: target.connection_id !== null,
             }
-            groups[queryPrefix].push(query);
-        });
-        return groups;
-    }, [savedSearchQueries]);
+            : EMPTY_SAVED_QUERY_FIELDS);
+        setSaveQueryError(null);
+        setShowSaveQueryModal(true);
+        // Refresh the list so the folder suggestions are current
+        loadSavedSearchQueries();
+    };
+
+    const handleEditSavedQuery = (query: SavedSearchQuery, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setShowSavedQueriesDropdown(false);
+        openSaveQueryModal('details', query);
+    };
 
     const handleSaveSearchQuery = async () => {
         if (!saveQueryName.trim()) {
@@ -749,30 +909,50 @@ export const IndexPage: React.FC<IndexPageProps> = ({
         setSaveQueryError(null);
 
         try {
-            // Build ui_state with all current UI settings
-            const uiState = {
-                simpleQuery,
-                searchField,
-                dateFilter,
-                queryBuilderRootGroup,
-                pageSize,
-                sortField,
-                sortOrder,
+            const details = {
+                name: saveQueryName.trim(),
+                folder: saveQueryFields.folder.trim() || null,
+                tags: parseTagsInput(saveQueryFields.tags),
+                description: saveQueryFields.description.trim() || null,
+                connection_id: saveQueryFields.connectionScoped && connectionId ? connectionId : null,
             };
 
-            await createSavedSearchQuery({
-                name: saveQueryName.trim(),
-                index_pattern: indexName,
-                query: JSON.stringify(currentQuery || { match_all: {} }),
-                sort_field: sortField || undefined,
-                sort_order: sortOrder || undefined,
-                ui_state: JSON.stringify(uiState),
-            });
+            if (saveQueryMode === 'details' && saveQueryTarget) {
+                const updated = await updateSavedSearchQuery(saveQueryTarget.id, details);
+                if (loadedSavedQuery?.id === updated.id) setLoadedSavedQuery(updated);
+            } else {
+                // Build ui_state with all current UI settings
+                const uiState = {
+                    simpleQuery,
+                    searchField,
+                    dateFilter,
+                    queryBuilderRootGroup,
+                    pageSize,
+                    sortField,
+                    sortOrder,
+                    ...(aggregationNodes.length > 0
+                        ? { aggregations: { nodes: aggregationNodes, chartType: aggregationChartType } }
+                        : {}),
+                };
+                const search = {
+                    index_pattern: indexName,
+                    query: JSON.stringify(currentQuery || { match_all: {} }),
+                    sort_field: sortField,
+                    sort_order: sortOrder,
+                    ui_state: JSON.stringify(uiState),
+                };
+
+                const saved = saveQueryMode === 'update' && saveQueryTarget
+                    ? await updateSavedSearchQuery(saveQueryTarget.id, { ...details, ...search })
+                    : await createSavedSearchQuery({ ...details, ...search });
+                setLoadedSavedQuery(saved);
+            }
+
             setShowSaveQueryModal(false);
             setSaveQueryName('');
             loadSavedSearchQueries();
         } catch (err: any) {
-            setSaveQueryError(err.message || t('restModal.saveError'));
+            setSaveQueryError(translateError(err) || t('restModal.saveError'));
         } finally {
             setSavingQuery(false);
         }
@@ -793,9 +973,11 @@ export const IndexPage: React.FC<IndexPageProps> = ({
             };
 
             // Restore UI state if available
+            highlightFieldsRef.current = undefined;
             if (query.ui_state) {
                 try {
                     const uiState = JSON.parse(query.ui_state);
+                    setSearchHighlight(uiState.simpleQuery || '', uiState.searchField || '');
                     if (uiState.simpleQuery !== undefined) setSimpleQuery(uiState.simpleQuery);
                     if (uiState.searchField !== undefined) setSearchField(uiState.searchField);
                     if (uiState.dateFilter !== undefined) setDateFilter(uiState.dateFilter);
@@ -806,6 +988,11 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                         setSortField(resolvedField || '');
                         if (resolvedField && uiState.sortOrder !== undefined) setSortOrder(uiState.sortOrder);
                     }
+                    if (Array.isArray(uiState.aggregations?.nodes)) {
+                        setAggregationNodes(uiState.aggregations.nodes);
+                        if (uiState.aggregations.chartType) setAggregationChartType(uiState.aggregations.chartType);
+                        setShowAggregationBuilder(true);
+                    }
                 } catch (uiError) {
                     console.error('Failed to parse ui_state:', uiError);
                 }
@@ -825,6 +1012,10 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                 : undefined;
             performSearch(parsedQuery, 0, sortObj);
             setShowSavedQueriesDropdown(false);
+            setLoadedSavedQuery(query);
+            markSavedSearchQueryUsed(query.id).catch((error) => {
+                console.error('Failed to record query use:', error);
+            });
         } catch (error) {
             console.error('Failed to load query:', error);
         }
@@ -836,6 +1027,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
 
         try {
             await deleteSavedSearchQuery(id);
+            if (loadedSavedQuery?.id === id) setLoadedSavedQuery(null);
             loadSavedSearchQueries();
         } catch (error) {
             console.error('Failed to delete query:', error);
@@ -861,6 +1053,8 @@ export const IndexPage: React.FC<IndexPageProps> = ({
     };
 
     const totalPages = Math.ceil(total / pageSize);
+    // A lower bound total may hide more pages; a full page means there can be another one
+    const hasNextPage = page < totalPages - 1 || (totalRelation === 'gte' && documents.length === pageSize);
 
     return (
         <div className="index-page">
@@ -884,29 +1078,33 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                         <span key={alias} className="index-alias-tag">
                                             <Tag size={10} />
                                             {alias}
-                                            <button
-                                                className="alias-delete-btn"
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    handleDeleteAlias(alias);
-                                                }}
-                                                title={t('common.delete')}
-                                            >
-                                                <X size={10} />
-                                            </button>
+                                            {canEdit && (
+                                                <button
+                                                    className="alias-delete-btn"
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        handleDeleteAlias(alias);
+                                                    }}
+                                                    title={t('common.delete')}
+                                                >
+                                                    <X size={10} />
+                                                </button>
+                                            )}
                                         </span>
                                     ))}
-                                    <button
-                                        className="btn-add-alias"
-                                        onClick={() => setShowAliasModal(true)}
-                                        title="Alias Ekle"
-                                    >
-                                        <Plus size={10} />
-                                        Alias Ekle
-                                    </button>
+                                    {canEdit && (
+                                        <button
+                                            className="btn-add-alias"
+                                            onClick={() => setShowAliasModal(true)}
+                                            title="Alias Ekle"
+                                        >
+                                            <Plus size={10} />
+                                            Alias Ekle
+                                        </button>
+                                    )}
                                 </div>
                             )}
-                            {(!indexInfo?.aliases || indexInfo.aliases.length === 0) && (
+                            {canEdit && (!indexInfo?.aliases || indexInfo.aliases.length === 0) && (
                                 <div className="index-aliases-section">
                                     <button
                                         className="btn-add-alias"
@@ -968,14 +1166,26 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                     </div>
 
                     <div className="index-actions">
-                        <button
-                            className="btn btn-primary btn-sm"
-                            onClick={() => setShowAddDocModal(true)}
-                            title={t('indexPage.addDocument')}
-                        >
-                            <Plus size={14} />
-                            {t('indexPage.addDocument')}
-                        </button>
+                        {canEdit && (
+                            <button
+                                className="btn btn-primary btn-sm"
+                                onClick={() => setShowAddDocModal(true)}
+                                title={t('indexPage.addDocument')}
+                            >
+                                <Plus size={14} />
+                                {t('indexPage.addDocument')}
+                            </button>
+                        )}
+                        {canEdit && (
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => setShowImportModal(true)}
+                                title={t('bulkImport.title')}
+                            >
+                                <Upload size={14} />
+                                {t('bulkImport.button')}
+                            </button>
+                        )}
 
                         {/* Index Actions Dropdown */}
                         <div className="index-actions-dropdown" ref={indexActionsRef}>
@@ -1014,7 +1224,10 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                             handleOpenCloseIndex();
                                             setIndexActionsOpen(false);
                                         }}
-                                        disabled={openCloseLoading}
+                                        disabled={openCloseLoading || !(indexInfo?.status === 'close' ? canEdit : canAdminister)}
+                                        title={!(indexInfo?.status === 'close' ? canEdit : canAdminister)
+                                            ? t('permissions.notAllowed')
+                                            : undefined}
                                     >
                                         {openCloseLoading ? (
                                             <Loader size={14} className="spin" />
@@ -1029,27 +1242,57 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                                 : t('indexPage.closeIndex')}
                                         </span>
                                     </button>
-                                    <button
-                                        className="index-action-item"
-                                        onClick={() => {
-                                            setShowReindexModal(true);
-                                            setIndexActionsOpen(false);
-                                        }}
-                                    >
-                                        <GitMerge size={14} />
-                                        <span>{t('indexPage.reindex')}</span>
-                                    </button>
-                                    <div className="index-action-divider" />
-                                    <button
-                                        className="index-action-item danger"
-                                        onClick={() => {
-                                            setShowDeleteModal(true);
-                                            setIndexActionsOpen(false);
-                                        }}
-                                    >
-                                        <Trash2 size={14} />
-                                        <span>{t('indexPage.deleteIndex')}</span>
-                                    </button>
+                                    {canEdit && (
+                                        <button
+                                            className="index-action-item"
+                                            onClick={() => {
+                                                setShowReindexModal(true);
+                                                setIndexActionsOpen(false);
+                                            }}
+                                        >
+                                            <GitMerge size={14} />
+                                            <span>{t('indexPage.reindex')}</span>
+                                        </button>
+                                    )}
+                                    {canEdit && (
+                                        <button
+                                            className="index-action-item"
+                                            onClick={() => {
+                                                setByQueryOperation('update');
+                                                setIndexActionsOpen(false);
+                                            }}
+                                        >
+                                            <Pencil size={14} />
+                                            <span>{t('byQuery.updateTitle')}</span>
+                                        </button>
+                                    )}
+                                    {canEdit && (
+                                        <button
+                                            className="index-action-item danger"
+                                            onClick={() => {
+                                                setByQueryOperation('delete');
+                                                setIndexActionsOpen(false);
+                                            }}
+                                        >
+                                            <Trash2 size={14} />
+                                            <span>{t('byQuery.deleteTitle')}</span>
+                                        </button>
+                                    )}
+                                    {canAdminister && (
+                                        <>
+                                            <div className="index-action-divider" />
+                                            <button
+                                                className="index-action-item danger"
+                                                onClick={() => {
+                                                    setShowDeleteModal(true);
+                                                    setIndexActionsOpen(false);
+                                                }}
+                                            >
+                                                <Trash2 size={14} />
+                                                <span>{t('indexPage.deleteIndex')}</span>
+                                            </button>
+                                        </>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -1103,37 +1346,90 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                                 {t('restModal.noSavedQueries')}
                                             </div>
                                         ) : (
-                                            Object.entries(groupedSavedQueries).map(([groupPrefix, queries]) => (
-                                                <div key={groupPrefix} className="saved-queries-group">
-                                                    <div className="saved-queries-group-header">
-                                                        {groupPrefix}
+                                            <>
+                                                <div className="saved-queries-filter">
+                                                    <Search size={12} />
+                                                    <input
+                                                        type="text"
+                                                        value={savedQueryFilter}
+                                                        onChange={(e) => setSavedQueryFilter(e.target.value)}
+                                                        placeholder={t('savedQueries.filterPlaceholder')}
+                                                        autoFocus
+                                                    />
+                                                </div>
+                                                {groupedSavedQueries.length === 0 && (
+                                                    <div className="saved-queries-empty">
+                                                        {t('savedQueries.noMatches')}
                                                     </div>
-                                                    {queries.map((query) => (
-                                                        <div
-                                                            key={query.id}
-                                                            className="saved-query-item"
-                                                            onClick={() => {
-                                                                handleLoadSavedQuery(query);
-                                                                setShowSavedQueriesDropdown(false);
-                                                            }}
-                                                        >
-                                                            <div className="saved-query-info">
-                                                                <span className="saved-query-name">{query.name}</span>
-                                                                <span className="saved-query-index">{query.index_pattern}</span>
-                                                            </div>
-                                                            <button
-                                                                type="button"
-                                                                className="saved-query-delete"
-                                                                onClick={(e) => handleDeleteSavedQuery(query.id, e)}
-                                                                title={t('common.delete')}
-                                                            >
-                                                                <Trash2 size={12} />
-                                                            </button>
+                                                )}
+                                                {groupedSavedQueries.map(([folder, queries]) => (
+                                                    <div key={folder ?? ''} className="saved-queries-group">
+                                                        <div className="saved-queries-group-header">
+                                                            {folder ?? t('savedQueries.unfiled')}
                                                         </div>
-                                                    ))}
-                                                </div>
-                                            ))
+                                                        {queries.map((query) => (
+                                                            <div
+                                                                key={query.id}
+                                                                className={`saved-query-item ${loadedSavedQuery?.id === query.id ? 'active' : ''}`}
+                                                                onClick={() => {
+                                                                    handleLoadSavedQuery(query);
+                                                                    setShowSavedQueriesDropdown(false);
+                                                                }}
+                                                                title={query.description || undefined}
+                                                            >
+                                                                <div className="saved-query-info">
+                                                                    <span className="saved-query-name">
+                                                                        {query.name}
+                                                                        {query.connection_id !== null && (
+                                                                            <span className="saved-query-scope" title={t('savedQueries.scopeConnection')}>
+                                                                                <Plug size={10} />
+                                                                            </span>
+                                                                        )}
+                                                                    </span>
+                                                                    <span className="saved-query-index">
+                                                                        {query.index_pattern}
+                                                                        {query.last_used_at && (
+                                                                            <> · {t('savedQueries.lastUsed', {
+                                                                                when: formatRelativeDate(parseServerTimestamp(query.last_used_at)),
+                                                                            })}</>
+                                                                        )}
+                                                                    </span>
+                                                                    {query.tags.length > 0 && (
+                                                                        <span className="saved-query-tags">
+                                                                            {query.tags.map((tag) => (
+                                                                                <span key={tag} className="saved-query-tag">{tag}</span>
+                                                                            ))}
+                                                                        </span>
+                                                                    )}
+                                                                </div>
+                                                                <button
+                                                                    type="button"
+                                                                    className="saved-query-edit"
+                                                                    onClick={(e) => handleEditSavedQuery(query, e)}
+                                                                    title={t('savedQueries.edit')}
+                                                                >
+                                                                    <Pencil size={12} />
+                                                                </button>
+                                                                <button
+                                                                    type="button"
+                                                                    className="saved-query-delete"
+                                                                    onClick={(e) => handleDeleteSavedQuery(query.id, e)}
+                                                                    title={t('common.delete')}
+                                                                >
+                                                                    <Trash2 size={12} />
+                                                                </button>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                ))}
+                                            </>
                                         )}
+                                        <SavedQueriesTransferActions
+                                            onImport={() => {
+                                                setShowSavedQueriesDropdown(false);
+                                                setShowImportQueriesModal(true);
+                                            }}
+                                        />
                                     </div>
                                 )}
                             </div>
@@ -1272,6 +1568,18 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                         </button>
                     )}
 
+                    {/* Aggregation Builder Toggle Button */}
+                    {queryBuilderFields.length > 0 && (
+                        <button
+                            className={`filter-toggle-btn query-builder-toggle ${showAggregationBuilder ? 'active' : ''} ${aggregationNodes.length > 0 ? 'has-filters' : ''}`}
+                            onClick={() => setShowAggregationBuilder(!showAggregationBuilder)}
+                            title={t('aggregations.title')}
+                        >
+                            <BarChart3 size={14} />
+                            <span className="toggle-label">{t('aggregations.toggle')}</span>
+                        </button>
+                    )}
+
                     <button
                         className={`search-btn ${showQueryBuilder && queryBuilderQuery ? 'query-builder-active' : ''}`}
                         onClick={() => handleSimpleSearch()}
@@ -1345,6 +1653,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
 
                         // Combine all queries
                         const combinedQuery = buildCombinedQuery(simpleSearchQuery, filterQuery, queryBuilderQuery);
+                        setSearchHighlight(simpleQuery, searchField);
                         performSearch(combinedQuery);
                     }}
                 />
@@ -1362,6 +1671,21 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                 </div>
             )}
 
+            {/* Aggregation Builder */}
+            {showAggregationBuilder && queryBuilderFields.length > 0 && (
+                <div className="query-builder-container aggregation-builder-container">
+                    <AggregationBuilder
+                        indexName={indexName}
+                        query={currentQuery}
+                        fields={queryBuilderFields}
+                        nodes={aggregationNodes}
+                        onNodesChange={setAggregationNodes}
+                        chartType={aggregationChartType}
+                        onChartTypeChange={setAggregationChartType}
+                    />
+                </div>
+            )}
+
             {/* Documents Section */}
             <div className="documents-section">
                 <div className="documents-header">
@@ -1374,7 +1698,10 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                         >
                             <RefreshCw size={12} className={loading ? 'spin' : ''} />
                         </button>
-                        <span>{formatDocCount(total)}</span> {t('indexPage.pagination.results')}
+                        <span>
+                            {totalRelation === 'gte' && '≥ '}
+                            {formatDocCount(total)}
+                        </span> {t('indexPage.pagination.results')}
                         {took > 0 && (
                             <span style={{ marginLeft: '8px', opacity: 0.7 }}>
                                 ({took}{t('indexPage.pagination.ms')})
@@ -1389,11 +1716,19 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                         </button>
                         <button
                             className="btn btn-icon btn-sm view-query-btn"
-                            onClick={() => setShowSaveQueryModal(true)}
+                            onClick={() => openSaveQueryModal(loadedSavedQuery ? 'update' : 'create', loadedSavedQuery)}
                             title={t('restModal.saveQuery')}
                         >
                             <Save size={14} />
                         </button>
+                        <button
+                            className="btn btn-icon btn-sm view-query-btn"
+                            onClick={() => setShowExportModal(true)}
+                            disabled={total === 0}
+                            title={t('searchExport.title')}
+                        >
+                            <Download size={14} />
+                        </button>
                     </div>
 
                     <div className="documents-header-actions">
@@ -1497,6 +1832,18 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                                                 {field}
                                                             </span>
                                                             <div className="column-reorder-buttons">
+                                                                {getFieldStatsTarget(queryBuilderFields, field) && (
+                                                                    <button
+                                                                        className="column-reorder-btn"
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            setStatsField(field);
+                                                                        }}
+                                                                        title={t('fieldStats.show')}
+                                                                    >
+                                                                        <Sigma size={12} />
+                                                                    </button>
+                                                                )}
                                                                 <button
                                                                     className="column-reorder-btn"
                                                                     onClick={(e) => {
@@ -1549,6 +1896,18 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                                                 <span className="column-selector-label">
                                                                     {field}
                                                                 </span>
+                                                                {getFieldStatsTarget(queryBuilderFields, field) && (
+                                                                    <button
+                                                                        className="column-reorder-btn column-stats-btn"
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            setStatsField(field);
+                                                                        }}
+                                                                        title={t('fieldStats.show')}
+                                                                    >
+                                                                        <Sigma size={12} />
+                                                                    </button>
+                                                                )}
                                                             </div>
                                                         );
                                                     })
@@ -1603,12 +1962,12 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                     <ChevronLeft size={16} />
                                 </button>
                                 <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
-                                    {page + 1} / {totalPages}
+                                    {page + 1} / {totalPages}{totalRelation === 'gte' && '+'}
                                 </span>
                                 <button
                                     className="btn btn-icon btn-sm"
                                     onClick={() => handlePageChange(page + 1)}
-                                    disabled={page >= totalPages - 1 || loading}
+                                    disabled={!hasNextPage || loading}
                                 >
                                     <ChevronRight size={16} />
                                 </button>
@@ -1636,6 +1995,11 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                         sortOrder={sortOrder}
                         onSort={handleColumnSort}
                         sortableFields={sortableFields}
+                        canEdit={canEdit}
+                        totalMatching={total}
+                        currentQuery={currentQuery}
+                        availableFields={availableFields}
+                        onExportAllMatching={() => setShowExportModal(true)}
                     />
                 </div>
             </div>
@@ -1761,9 +2125,18 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                             <FileJson size={14} />
                             Mappings
                         </button>
+                        <button
+                            className={`index-info-tab ${indexInfoTab === 'lifecycle' ? 'active' : ''}`}
+                            onClick={() => setIndexInfoTab('lifecycle')}
+                        >
+                            <Hourglass size={14} />
+                            {t('ilm.lifecycleTab')}
+                        </button>
                     </div>
                     <div className="index-info-content">
-                        {loadingIndexInfo ? (
+                        {indexInfoTab === 'lifecycle' ? (
+                            <IndexLifecyclePanel indexName={indexName} connectionRole={connectionRole} />
+                        ) : loadingIndexInfo ? (
                             <div className="index-info-loading">
                                 <Loader size={24} className="spin" />
                                 <span>{t('common.loading')}</span>
@@ -2009,17 +2382,99 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                 </div>
             </Modal>
 
+            <SavedQueriesImportModal
+                isOpen={showImportQueriesModal}
+                onClose={() => setShowImportQueriesModal(false)}
+                onImported={loadSavedSearchQueries}
+            />
+
+            {/* Import Documents Modal */}
+            <Modal
+                isOpen={showImportModal}
+                onClose={() => setShowImportModal(false)}
+                title={t('bulkImport.title')}
+                size="lg"
+            >
+                <BulkImportWizard
+                    indexName={indexName}
+                    onClose={() => setShowImportModal(false)}
+                    onImported={() => {
+                        loadIndexInfo();
+                        handleRefresh();
+                    }}
+                />
+            </Modal>
+
+            {/* Delete / Update Matching Modal */}
+            <ByQueryOperationModal
+                isOpen={byQueryOperation !== null}
+                onClose={() => setByQueryOperation(null)}
+                operation={byQueryOperation ?? 'delete'}
+                indexName={indexName}
+                query={currentQuery}
+                onCompleted={() => {
+                    loadIndexInfo();
+                    handleRefresh();
+                }}
+            />
+
+            {/* Export Results Modal */}
+            <SearchExportModal
+                isOpen={showExportModal}
+                onClose={() => setShowExportModal(false)}
+                indexName={indexName}
+                query={currentQuery}
+                sort={sortField ? [{ [sortField]: { order: sortOrder } }] : undefined}
+                columns={selectedColumns}
+            />
+
+            {/* Field Statistics Modal */}
+            {statsField && getFieldStatsTarget(queryBuilderFields, statsField) && (
+                <Modal
+                    isOpen
+                    onClose={() => setStatsField(null)}
+                    title={t('fieldStats.title', { field: statsField })}
+                >
+                    <FieldStatsPanel
+                        indexName={indexName}
+                        query={currentQuery}
+                        target={getFieldStatsTarget(queryBuilderFields, statsField)!}
+                        onFilter={handleStatisticFilter}
+                    />
+                </Modal>
+            )}
+
             {/* Save Query Modal */}
             {showSaveQueryModal && (
                 <div className="rest-save-modal-overlay" onClick={() => setShowSaveQueryModal(false)}>
                     <div className="rest-save-modal" onClick={(e) => e.stopPropagation()}>
                         <div className="rest-save-modal-header">
-                            <h4>{t('restModal.saveQuery')}</h4>
+                            <h4>{saveQueryMode === 'details' ? t('savedQueries.editQuery') : t('restModal.saveQuery')}</h4>
                             <button className="btn btn-ghost btn-icon" onClick={() => setShowSaveQueryModal(false)}>
                                 <X size={16} />
                             </button>
                         </div>
                         <div className="rest-save-modal-body">
+                            {saveQueryMode !== 'details' && saveQueryTarget && (
+                                <div className="saved-query-mode">
+                                    <label>
+                                        <input
+                                            type="radio"
+                                            checked={saveQueryMode === 'update'}
+                                            onChange={() => setSaveQueryMode('update')}
+                                        />
+                                        {t('savedQueries.updateExisting', { name: saveQueryTarget.name })}
+                                    </label>
+                                    <label>
+                                        <input
+                                            type="radio"
+                                            checked={saveQueryMode === 'create'}
+                                            onChange={() => setSaveQueryMode('create')}
+                                        />
+                                        {t('savedQueries.saveAsNew')}
+                                    </label>
+                                </div>
+                            )}
                             <label>
                                 {t('restModal.queryName')} <span className="required">*</span>
                             </label>
@@ -2028,8 +2483,16 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                                 value={saveQueryName}
                                 onChange={(e) => setSaveQueryName(e.target.value)}
                                 placeholder={t('restModal.queryNamePlaceholder')}
+                                maxLength={255}
                                 autoFocus
                             />
+                            <SavedQueryFields
+                                values={saveQueryFields}
+                                onChange={setSaveQueryFields}
+                                folders={getQueryFolders(savedSearchQueries)}
+                                canScopeToConnection={!!connectionId}
+                                disabled={savingQuery}
+                            />
                             {saveQueryError && (
                                 <div className="rest-save-error">
                                     <AlertCircle size={14} />
@@ -2038,7 +2501,7 @@ export const IndexPage: React.FC<IndexPageProps> = ({
                             )}
                             <div className="rest-save-preview">
                                 <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
-                                    {t('indexPage.index')}: <strong>{indexName}</strong>
+                                    {t('indexPage.index')}: <strong>{saveQueryMode === 'details' && saveQueryTarget ? saveQueryTarget.index_pattern : indexName}</strong>
                                 </span>
                             </div>
                         </div>
@@ -1,6 +1,8 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { ChevronRight, ChevronDown, Search, X, ChevronUp, Check, Pencil, Pin, PinOff, ChevronsUpDown, ChevronsDownUp, Copy } from 'lucide-react';
+import { ChevronRight, ChevronDown, Search, X, ChevronUp, Check, Pencil, Pin, PinOff, ChevronsUpDown, ChevronsDownUp, Copy, Highlighter } from 'lucide-react';
+import { HighlightFragments } from './HighlightFragments';
+import { stripHighlight } from '../utils/highlight';
 
 // Pin storage helper functions
 const PINNED_FIELDS_KEY = 'es_viewer_pinned_fields';
@@ -31,6 +33,7 @@ interface JsonViewerProps {
     forcePinnedFields?: string[]; // Fields that are always pinned and cannot be unpinned
     enableCopy?: boolean; // Enable copy button for JSON
     loading?: boolean; // Show loading state
+    highlights?: Record<string, string[]>; // Highlighted fragments of a search hit, by field
 }
 
 interface JsonNodeProps {
@@ -49,6 +52,7 @@ interface JsonNodeProps {
     showPinButton?: boolean;
     expandTrigger?: number; // 0: no action, positive: expand all, negative: collapse all
     isLastItem?: boolean; // Whether this is the last item in parent array/object
+    highlights?: Record<string, string[]>;
 }
 
 const getValueColor = (value: any): string => {
@@ -96,6 +100,21 @@ const highlightMatch = (
     );
 };
 
+// Fragments of the field at this path that belong to the value; array items only get their own
+const getValueHighlight = (
+    highlights: Record<string, string[]> | undefined,
+    path: string,
+    value: any
+): string[] | undefined => {
+    if (!highlights) return undefined;
+    const field = path.split('.').slice(1).filter(part => !/^\d+$/.test(part)).join('.');
+    const fragments = highlights[field] ?? highlights[`${field}.keyword`];
+    if (!fragments) return undefined;
+    const text = String(value);
+    const own = fragments.filter(fragment => text.includes(stripHighlight(fragment)));
+    return own.length > 0 ? own : undefined;
+};
+
 const containsSearchTerm = (value: any, key: string | null, query: string): boolean => {
     if (!query) return false;
     const lowerQuery = query.toLowerCase();
@@ -125,6 +144,7 @@ const JsonNode: React.FC<JsonNodeProps> = ({
     showPinButton = false,
     expandTrigger = 0,
     isLastItem = false,
+    highlights,
 }) => {
     const { t } = useTranslation();
     const isObject = value !== null && typeof value === 'object';
@@ -164,6 +184,7 @@ const JsonNode: React.FC<JsonNodeProps> = ({
         const valueColor = getValueColor(value);
         const keyMatches = keyName && searchQuery && keyName.toLowerCase().includes(searchQuery.toLowerCase());
         const valueMatches = searchQuery && valueStr.toLowerCase().includes(searchQuery.toLowerCase());
+        const fragments = searchQuery ? undefined : getValueHighlight(highlights, path, value);
 
         return (
             <div className={`json-line ${isPinned ? 'json-pinned' : ''}`}>
@@ -200,7 +221,9 @@ const JsonNode: React.FC<JsonNodeProps> = ({
                     </>
                 )}
                 <span className={`json-value ${valueMatches ? 'json-match' : ''}`} style={{ color: valueColor }}>
-                    {searchQuery ? highlightMatch(valueStr, searchQuery, matchCounter, currentMatchIndex) : valueStr}
+                    {fragments
+                        ? <HighlightFragments fragments={fragments} />
+                        : searchQuery ? highlightMatch(valueStr, searchQuery, matchCounter, currentMatchIndex) : valueStr}
                 </span>
                 {!isLastItem && <span className="json-comma">,</span>}
             </div>
@@ -321,6 +344,7 @@ const JsonNode: React.FC<JsonNodeProps> = ({
                             showPinButton={showPinButton}
                             expandTrigger={expandTrigger}
                             isLastItem={index === sortedEntries.length - 1}
+                            highlights={highlights}
                         />
                     ))}
                     <div className="json-line">
@@ -347,9 +371,12 @@ export const JsonViewer: React.FC<JsonViewerProps> = ({
     forcePinnedFields = [],
     enableCopy = false,
     loading = false,
+    highlights,
 }) => {
     const { t } = useTranslation();
     const [internalSearch, setInternalSearch] = useState('');
+    const [showFullValues, setShowFullValues] = useState(false);
+    const hasHighlights = !!highlights && Object.keys(highlights).length > 0;
     const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
     const contentRef = useRef<HTMLDivElement>(null);
 
@@ -563,6 +590,15 @@ export const JsonViewer: React.FC<JsonViewerProps> = ({
                         >
                             <ChevronsUpDown size={14} />
                         </button>
+                        {hasHighlights && (
+                            <button
+                                className={`btn btn-icon-sm ${showFullValues ? '' : 'btn-primary'}`}
+                                onClick={() => setShowFullValues(!showFullValues)}
+                                title={showFullValues ? t('documentViewer.showMatches') : t('documentViewer.showFullValues')}
+                            >
+                                <Highlighter size={14} />
+                            </button>
+                        )}
                         {enableCopy && (
                             <button
                                 className="btn btn-icon-sm"
@@ -601,6 +637,15 @@ export const JsonViewer: React.FC<JsonViewerProps> = ({
                     >
                         <ChevronsUpDown size={14} />
                     </button>
+                    {hasHighlights && (
+                        <button
+                            className={`btn btn-icon-sm ${showFullValues ? '' : 'btn-primary'}`}
+                            onClick={() => setShowFullValues(!showFullValues)}
+                            title={showFullValues ? t('documentViewer.showMatches') : t('documentViewer.showFullValues')}
+                        >
+                            <Highlighter size={14} />
+                        </button>
+                    )}
                     {enableCopy && (
                         <button
                             className="btn btn-icon-sm"
@@ -673,6 +718,7 @@ export const JsonViewer: React.FC<JsonViewerProps> = ({
                         onTogglePin={enablePinning ? handleTogglePin : undefined}
                         showPinButton={enablePinning}
                         expandTrigger={expandTrigger}
+                        highlights={showFullValues ? undefined : highlights}
                     />
                 </div>
             )}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, LogIn, Loader2, Eye, EyeOff } from 'lucide-react';
+import { login, AuthUser } from '../api/elasticsearchClient';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { translateError } from '../utils/errorHandler';
+
+interface LoginPageProps {
+    onLogin: (user: AuthUser) => void;
+}
+
+export const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
+    const { t } = useTranslation();
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [showPassword, setShowPassword] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!username.trim() || !password) {
+            setError(t('auth.credentialsRequired'));
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const result = await login(username.trim(), password);
+            onLogin(result.user);
+        } catch (err: any) {
+            setError(translateError(err));
+            setPassword('');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="login-screen">
+            <div className="login-language">
+                <LanguageSwitcher />
+            </div>
+            <form className="login-card connection-modal-form" onSubmit={handleSubmit}>
+                <div className="login-brand">
+                    <div className="brand-logo">
+                        <Search size={22} />
+                    </div>
+                    <span className="brand-name">Elastic<span className="brand-accent">Scope</span></span>
+                </div>
+                <p className="login-subtitle">{t('auth.subtitle')}</p>
+
+                <div className="form-group">
+                    <label htmlFor="login-username">{t('auth.username')}</label>
+                    <input
+                        id="login-username"
+                        type="text"
+                        autoComplete="username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        disabled={loading}
+                        autoFocus
+                    />
+                </div>
+
+                <div className="form-group">
+                    <label htmlFor="login-password">{t('auth.password')}</label>
+                    <div className="input-with-toggle">
+                        <input
+                            id="login-password"
+                            type={showPassword ? 'text' : 'password'}
+                            autoComplete="current-password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            disabled={loading}
+                        />
+                        <button
+                            type="button"
+                            className="input-toggle-btn"
+                            onClick={() => setShowPassword((v) => !v)}
+                            tabIndex={-1}
+                            disabled={loading}
+                            aria-label={showPassword ? t('connection.hidePassword') : t('connection.showPassword')}
+                        >
+                            {showPassword ? <EyeOff size={15} /> : <Eye size={15} />}
+                        </button>
+                    </div>
+                </div>
+
+                {error && <div className="error-message">{error}</div>}
+
+                <div className="modal-actions">
+                    <button type="submit" className="btn btn-primary" disabled={loading}>
+                        {loading ? <Loader2 size={16} className="spin" /> : <LogIn size={16} />}
+                        {loading ? t('auth.loggingIn') : t('auth.login')}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -34,7 +34,7 @@ export interface FieldInfo {
 }
 
 // Operators for different field types
-type OperatorType =
+export type OperatorType =
     | 'equals'
     | 'not_equals'
     | 'contains'
@@ -452,6 +452,23 @@ const createEmptyCondition = (): QueryCondition => ({
     enabled: true,
 });
 
+/**
+ * Add a condition from outside the builder, e.g. a field statistic. Conditions
+ * narrow the results, so an OR root with conditions is wrapped in a new AND group.
+ */
+export const addConditionToGroup = (
+    group: QueryGroup,
+    field: string,
+    operator: OperatorType,
+    value = ''
+): QueryGroup => {
+    const condition = { ...createEmptyCondition(), field, operator, value };
+    if (group.logic === 'OR' && (group.conditions.length > 0 || group.groups.length > 0)) {
+        return { ...createEmptyGroup(), conditions: [condition], groups: [group] };
+    }
+    return { ...group, conditions: [...group.conditions, condition] };
+};
+
 export const QueryBuilder: React.FC<QueryBuilderProps> = ({
     fields,
     onQueryChange,
@@ -0,0 +1,139 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { RequestPolicyAction, RequestPolicyRuleInput } from '../api/elasticsearchClient';
+
+const ACTIONS: RequestPolicyAction[] = ['allow', 'confirm', 'deny'];
+const METHODS = ['*', 'GET', 'POST', 'PUT', 'DELETE', 'HEAD', 'PATCH'];
+
+interface RequestPolicyEditorProps {
+    rules: RequestPolicyRuleInput[];
+    defaults: RequestPolicyRuleInput[];
+    onChange: (rules: RequestPolicyRuleInput[]) => void;
+    disabled?: boolean;
+}
+
+// Ordered allow/confirm/deny rules for REST console requests of one connection
+export const RequestPolicyEditor: React.FC<RequestPolicyEditorProps> = ({
+    rules,
+    defaults,
+    onChange,
+    disabled,
+}) => {
+    const { t } = useTranslation();
+
+    const updateRule = (index: number, changes: Partial<RequestPolicyRuleInput>) => {
+        onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    };
+
+    const moveRule = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= rules.length) return;
+        const next = [...rules];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const addRule = () => {
+        onChange([...rules, { action: 'confirm', method: '*', path_pattern: '/' }]);
+    };
+
+    return (
+        <div className="policy-editor">
+            <span className="form-hint">{t('connection.policy.hint')}</span>
+
+            {rules.length === 0 ? (
+                <div className="policy-empty">{t('connection.policy.noRules')}</div>
+            ) : (
+                <div className="policy-rules">
+                    {rules.map((rule, index) => (
+                        <div key={index} className="policy-rule">
+                            <select
+                                className={`policy-action policy-action-${rule.action}`}
+                                value={rule.action}
+                                onChange={(e) => updateRule(index, { action: e.target.value as RequestPolicyAction })}
+                                disabled={disabled}
+                                aria-label={t('connection.policy.action')}
+                            >
+                                {ACTIONS.map((action) => (
+                                    <option key={action} value={action}>{t(`connection.policy.actions.${action}`)}</option>
+                                ))}
+                            </select>
+                            <select
+                                className="policy-method"
+                                value={rule.method}
+                                onChange={(e) => updateRule(index, { method: e.target.value })}
+                                disabled={disabled}
+                                aria-label={t('connection.policy.method')}
+                            >
+                                {METHODS.map((method) => (
+                                    <option key={method} value={method}>
+                                        {method === '*' ? t('connection.policy.anyMethod') : method}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                className="policy-path"
+                                value={rule.path_pattern}
+                                onChange={(e) => updateRule(index, { path_pattern: e.target.value })}
+                                placeholder="/_snapshot/**"
+                                spellCheck={false}
+                                disabled={disabled}
+                                aria-label={t('connection.policy.path')}
+                            />
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon"
+                                onClick={() => moveRule(index, -1)}
+                                disabled={disabled || index === 0}
+                                title={t('connection.policy.moveUp')}
+                            >
+                                <ArrowUp size={13} />
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon"
+                                onClick={() => moveRule(index, 1)}
+                                disabled={disabled || index === rules.length - 1}
+                                title={t('connection.policy.moveDown')}
+                            >
+                                <ArrowDown size={13} />
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon"
+                                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                                disabled={disabled}
+                                title={t('connection.policy.removeRule')}
+                            >
+                                <Trash2 size={13} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <button type="button" className="btn btn-secondary btn-sm policy-add" onClick={addRule} disabled={disabled}>
+                <Plus size={13} />
+                {t('connection.policy.addRule')}
+            </button>
+
+            {defaults.length > 0 && (
+                <details className="policy-defaults">
+                    <summary>{t('connection.policy.defaults')}</summary>
+                    <ul>
+                        {defaults.map((rule, index) => (
+                            <li key={index}>
+                                <span className={`policy-badge policy-action-${rule.action}`}>
+                                    {t(`connection.policy.actions.${rule.action}`)}
+                                </span>
+                                <code>{rule.method === '*' ? t('connection.policy.anyMethod') : rule.method} {rule.path_pattern}</code>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { History, ChevronDown, Loader, Search, Trash2 } from 'lucide-react';
+import {
+    getRestHistory,
+    getRestHistoryEntry,
+    deleteRestHistoryEntry,
+    clearRestHistory,
+    RestHistoryEntry,
+    RestHistorySummary,
+    RestHistorySettings,
+} from '../api/elasticsearchClient';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { translateError } from '../utils/errorHandler';
+import { formatDate, parseServerTimestamp } from '../utils/formatters';
+
+const PAGE_SIZE = 50;
+
+interface RestHistoryPanelProps {
+    // Active connection; the history is reloaded when it changes
+    connectionId: number;
+    onOpen: (entry: RestHistoryEntry) => void;
+}
+
+// Dropdown listing the REST requests the user ran on the active connection
+export const RestHistoryPanel: React.FC<RestHistoryPanelProps> = ({ connectionId, onOpen }) => {
+    const { t } = useTranslation();
+    const [isOpen, setIsOpen] = useState(false);
+    const [entries, setEntries] = useState<RestHistorySummary[]>([]);
+    const [total, setTotal] = useState(0);
+    const [settings, setSettings] = useState<RestHistorySettings | null>(null);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [openingId, setOpeningId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const panelRef = useRef<HTMLDivElement>(null);
+
+    const close = useCallback(() => setIsOpen(false), []);
+    useClickOutside(panelRef, close, isOpen);
+
+    const loadHistory = useCallback(async (offset = 0) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const page = await getRestHistory({ search: search.trim() || undefined, limit: PAGE_SIZE, offset });
+            setEntries(prev => (offset === 0 ? page.entries : [...prev, ...page.entries]));
+            setTotal(page.total);
+            setSettings(page.settings);
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    }, [search, connectionId]);
+
+    // Debounce the search so typing does not fire a request per key
+    useEffect(() => {
+        if (!isOpen) return;
+        const timer = setTimeout(() => loadHistory(), 300);
+        return () => clearTimeout(timer);
+    }, [isOpen, loadHistory]);
+
+    const handleOpen = async (summary: RestHistorySummary) => {
+        setOpeningId(summary.id);
+        try {
+            const entry = await getRestHistoryEntry(summary.id);
+            onOpen(entry);
+            setIsOpen(false);
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setOpeningId(null);
+        }
+    };
+
+    const handleDelete = async (id: number, e: React.MouseEvent) => {
+        e.stopPropagation();
+        try {
+            await deleteRestHistoryEntry(id);
+            setEntries(prev => prev.filter(entry => entry.id !== id));
+            setTotal(prev => Math.max(0, prev - 1));
+        } catch (err) {
+            setError(translateError(err));
+        }
+    };
+
+    const handleClear = async () => {
+        if (!confirm(t('restHistory.clearConfirm'))) return;
+        try {
+            await clearRestHistory();
+            setEntries([]);
+            setTotal(0);
+        } catch (err) {
+            setError(translateError(err));
+        }
+    };
+
+    return (
+        <div className="rest-queries-dropdown" ref={panelRef}>
+            <button
+                className="btn btn-ghost btn-sm"
+                onClick={() => setIsOpen(!isOpen)}
+                title={t('restHistory.title')}
+            >
+                <History size={16} />
+                {t('restHistory.button')}
+                <ChevronDown size={14} style={{
+                    transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)',
+                    transition: 'transform 0.15s ease'
+                }} />
+            </button>
+            {isOpen && (
+                <div className="rest-queries-menu rest-history-menu">
+                    <div className="rest-queries-filter">
+                        <Search size={12} />
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder={t('restHistory.searchPlaceholder')}
+                            autoFocus
+                        />
+                    </div>
+
+                    {error && <div className="rest-history-error">{error}</div>}
+
+                    {entries.length === 0 && !loading && (
+                        <div className="rest-queries-empty">
+                            {search.trim() ? t('savedQueries.noMatches') : t('restHistory.empty')}
+                        </div>
+                    )}
+
+                    {entries.map((entry) => (
+                        <div
+                            key={entry.id}
+                            className="rest-query-item rest-history-item"
+                            onClick={() => handleOpen(entry)}
+                            title={t('restHistory.openInTab')}
+                        >
+                            <div className="rest-query-info">
+                                <span className={`rest-query-method method-${entry.method.toLowerCase()}`}>
+                                    {entry.method}
+                                </span>
+                                <span className="rest-query-name">{entry.path}</span>
+                            </div>
+                            <div className="rest-history-meta">
+                                <span className={`rest-history-status ${entry.status_code < 400 ? 'ok' : 'failed'}`}>
+                                    {entry.status_code}
+                                </span>
+                                <span>{entry.execution_time_ms} ms</span>
+                                <span>{formatDate(parseServerTimestamp(entry.created_at))}</span>
+                            </div>
+                            {openingId === entry.id ? (
+                                <Loader size={12} className="spin" />
+                            ) : (
+                                <button
+                                    className="rest-query-delete"
+                                    onClick={(e) => handleDelete(entry.id, e)}
+                                    title={t('common.delete')}
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+
+                    {loading && (
+                        <div className="rest-queries-loading">
+                            <Loader size={16} className="spin" />
+                        </div>
+                    )}
+
+                    {!loading && entries.length < total && (
+                        <button className="rest-history-more" onClick={() => loadHistory(entries.length)}>
+                            {t('restHistory.loadMore', { count: total - entries.length })}
+                        </button>
+                    )}
+
+                    <div className="rest-history-footer">
+                        <span>
+                            {settings && (settings.enabled
+                                ? (settings.retention_days > 0
+                                    ? t('restHistory.retention', { count: settings.max_entries, days: settings.retention_days })
+                                    : t('restHistory.retentionNoAge', { count: settings.max_entries }))
+                                : t('restHistory.disabled'))}
+                        </span>
+                        {entries.length > 0 && (
+                            <button onClick={handleClear}>{t('restHistory.clear')}</button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -3,7 +3,7 @@ import { useTranslation } from 'react-i18next';
 import {
     Play, Loader, Clock, AlertCircle, CheckCircle, Save, FolderOpen,
     Trash2, ChevronDown, Plus, X, Maximize2, Tag, Search, Hash, FileJson, Settings,
-    BarChart3, RefreshCw, Zap, FlaskConical, Copy, ChevronsDownUp, ChevronsUpDown, Replace
+    BarChart3, RefreshCw, Zap, FlaskConical, Copy, ChevronsDownUp, ChevronsUpDown, Replace, Lock, ShieldAlert, Pencil, Plug
 } from 'lucide-react';
 import CodeMirror from '@uiw/react-codemirror';
 import { json, jsonParseLinter } from '@codemirror/lang-json';
@@ -16,11 +16,23 @@ import { EditorState } from '@codemirror/state';
 import { search as cmSearch, searchKeymap, openSearchPanel } from '@codemirror/search';
 import type { EditorView as EditorViewType } from '@codemirror/view';
 import {
-    executeRestRequest, getSavedQueries, createSavedQuery, deleteSavedQuery, SavedQuery,
-    getIndices, IndexInfo
+    executeRestRequest, getSavedQueries, createSavedQuery, updateSavedQuery, deleteSavedQuery, markSavedQueryUsed, SavedQuery,
+    getIndices, IndexInfo, ConnectionRole, RequestConfirmation, RestHistoryEntry
 } from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
 import { MethodSelector } from './MethodSelector';
+import { SavedQueryFields, SavedQueryFieldValues, EMPTY_SAVED_QUERY_FIELDS } from './SavedQueryFields';
+import { SavedQueriesTransferActions, SavedQueriesImportModal } from './SavedQueriesTransfer';
+import { RestHistoryPanel } from './RestHistoryPanel';
+import {
+    filterSavedQueries,
+    formatTagsInput,
+    getQueryFolders,
+    groupSavedQueriesByFolder,
+    parseTagsInput,
+} from '../utils/savedQueries';
 import { restPanelWidthStorage } from '../utils/storage';
+import { hasRole, isReadRestRequest } from '../utils/permissions';
 import { DEFAULT_SEARCH_BODY, PRESET_QUERIES, PresetQuery } from '../constants';
 import '../styles/components/rest-page.css';
 import '../styles/components/rest-modal.css';
@@ -36,6 +48,8 @@ interface RestTab {
     error: string | null;
     executionTime: number | null;
     statusCode: number | null;
+    // Saved query the tab was loaded from or last saved as
+    savedQueryId?: number;
 }
 
 const DEFAULT_TAB: RestTab = {
@@ -54,10 +68,12 @@ const DEFAULT_TAB: RestTab = {
 interface RestPageProps {
     initialIndex?: string;
     connectionId: number;
+    connectionRole: ConnectionRole | null;
+    readOnly?: boolean;
     refreshTrigger?: number;
 }
 
-export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId, refreshTrigger }) => {
+export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId, connectionRole, readOnly, refreshTrigger }) => {
     const { t } = useTranslation();
 
     // -------------------------------------------------------------------------
@@ -138,10 +154,20 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
     // Other state
     const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
     const [showSaveModal, setShowSaveModal] = useState(false);
+    const [showImportModal, setShowImportModal] = useState(false);
     const [queryName, setQueryName] = useState('');
+    const [queryFields, setQueryFields] = useState<SavedQueryFieldValues>(EMPTY_SAVED_QUERY_FIELDS);
+    // 'update' overwrites saveTarget with the active tab, 'details' only renames/re-files it
+    const [saveMode, setSaveMode] = useState<'create' | 'update' | 'details'>('create');
+    const [saveTarget, setSaveTarget] = useState<SavedQuery | null>(null);
+    const [queriesFilter, setQueriesFilter] = useState('');
     const [saveError, setSaveError] = useState<string | null>(null);
     const [saving, setSaving] = useState(false);
     const [showQueriesDropdown, setShowQueriesDropdown] = useState(false);
+
+    // Typed confirmation demanded by the connection's request policy
+    const [pendingConfirmation, setPendingConfirmation] = useState<RequestConfirmation | null>(null);
+    const [confirmInput, setConfirmInput] = useState('');
     const [loadingQueries, setLoadingQueries] = useState(false);
 
     // CodeMirror editor view refs (for fold/unfold commands)
@@ -246,7 +272,7 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         }
     }, [activeTabId, connectionId]);
 
-    // Load saved queries
+    // Load saved queries (shared ones plus those of the active connection)
     const loadSavedQueries = useCallback(async () => {
         setLoadingQueries(true);
         try {
@@ -257,7 +283,7 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         } finally {
             setLoadingQueries(false);
         }
-    }, []);
+    }, [connectionId]);
 
     useEffect(() => {
         loadSavedQueries();
@@ -301,6 +327,40 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         setActiveTabId(newTab.id);
     };
 
+    // Re-open a past request in a new tab, together with its recorded response
+    const handleOpenHistoryEntry = (entry: RestHistoryEntry) => {
+        let body = entry.body || '';
+        try {
+            body = body ? JSON.stringify(JSON.parse(body), null, 2) : '';
+        } catch {
+            // keep the body as recorded
+        }
+
+        let response: any = null;
+        if (entry.response !== null && !entry.response_truncated) {
+            try {
+                response = JSON.parse(entry.response);
+            } catch {
+                response = entry.response;
+            }
+        }
+
+        const newTab: RestTab = {
+            ...DEFAULT_TAB,
+            id: Date.now().toString(),
+            name: entry.path,
+            method: (['GET', 'POST', 'PUT', 'DELETE'].includes(entry.method) ? entry.method : 'GET') as RestTab['method'],
+            path: entry.path,
+            body,
+            response,
+            error: entry.response_truncated ? t('restHistory.responseTruncated') : null,
+            statusCode: entry.status_code,
+            executionTime: entry.execution_time_ms
+        };
+        setTabs(prev => [...prev, newTab]);
+        setActiveTabId(newTab.id);
+    };
+
     const handleCloseTab = (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
         if (tabs.length === 1) {
@@ -408,9 +468,13 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         }
     };
 
+    // Viewers, and everyone on a read-only connection, may only send requests that read data
+    const requestAllowed = hasRole(connectionRole, 'editor') || isReadRestRequest(activeTab.method, activeTab.path);
+
     // Execution Logic
-    const handleExecute = async () => {
+    const handleExecute = async (confirmation?: { confirmToken: string; confirmPhrase: string }) => {
         const currentTab = activeTab;
+        if (!requestAllowed) return;
 
         updateActiveTab({
             loading: true,
@@ -440,6 +504,7 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                 method: currentTab.method,
                 path: currentTab.path,
                 body: parsedBody,
+                ...confirmation,
             });
 
             const endTime = performance.now();
@@ -452,6 +517,23 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         } catch (err: any) {
             const endTime = performance.now();
 
+            if (err.errorCode === 'CONFIRMATION_REQUIRED' && err.confirmation) {
+                setConfirmInput('');
+                setPendingConfirmation(err.confirmation);
+                updateActiveTab({ loading: false });
+                return;
+            }
+
+            if (err.errorCode) {
+                updateActiveTab({
+                    loading: false,
+                    error: translateError(err),
+                    statusCode: null,
+                    executionTime: Math.round(endTime - startTime)
+                });
+                return;
+            }
+
             let response = null;
             let statusCode = 500;
             let errorMessage = err.message || t('common.unknownError');
@@ -477,7 +559,46 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         }
     };
 
+    const handleConfirmRequest = () => {
+        if (!pendingConfirmation || confirmInput !== pendingConfirmation.phrase) return;
+        const { token, phrase } = pendingConfirmation;
+        setPendingConfirmation(null);
+        handleExecute({ confirmToken: token, confirmPhrase: phrase });
+    };
+
     // Saved Queries Logic
+    const groupedQueries = React.useMemo(
+        () => groupSavedQueriesByFolder(filterSavedQueries(savedQueries, queriesFilter)),
+        [savedQueries, queriesFilter]
+    );
+
+    const openSaveModal = (mode: 'create' | 'update' | 'details', target: SavedQuery | null) => {
+        setSaveMode(mode);
+        setSaveTarget(target);
+        setQueryName(target?.name || '');
+        setQueryFields(target
+            ? {
+                folder: target.folder || '',
+                tags: formatTagsInput(target.tags),
+                description: target.description || '',
+                connectionScoped: target.connection_id !== null,
+            }
+            : EMPTY_SAVED_QUERY_FIELDS);
+        setSaveError(null);
+        setShowSaveModal(true);
+    };
+
+    const handleOpenSave = () => {
+        const loaded = savedQueries.find(q => q.id === activeTab.savedQueryId) || null;
+        openSaveModal(loaded ? 'update' : 'create', loaded);
+    };
+
+    const handleEditQuery = (query: SavedQuery, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setShowQueriesDropdown(false);
+        openSaveModal('details', query);
+    };
+
     const handleSaveQuery = async () => {
         if (!queryName.trim()) {
             setSaveError('Query name is required');
@@ -488,18 +609,30 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
         setSaveError(null);
 
         try {
-            await createSavedQuery({
+            const details = {
                 name: queryName.trim(),
-                method: activeTab.method,
-                path: activeTab.path,
-                body: activeTab.body,
-            });
+                folder: queryFields.folder.trim() || null,
+                tags: parseTagsInput(queryFields.tags),
+                description: queryFields.description.trim() || null,
+                connection_id: queryFields.connectionScoped && connectionId ? connectionId : null,
+            };
+
+            if (saveMode === 'details' && saveTarget) {
+                const updated = await updateSavedQuery(saveTarget.id, details);
+                setTabs(prev => prev.map(tab => tab.savedQueryId === updated.id ? { ...tab, name: updated.name } : tab));
+            } else {
+                const request = { method: activeTab.method, path: activeTab.path, body: activeTab.body };
+                const saved = saveMode === 'update' && saveTarget
+                    ? await updateSavedQuery(saveTarget.id, { ...details, ...request })
+                    : await createSavedQuery({ ...details, ...request });
+                updateActiveTab({ name: saved.name, savedQueryId: saved.id });
+            }
+
             setShowSaveModal(false);
             setQueryName('');
             loadSavedQueries();
-            updateActiveTab({ name: queryName.trim() });
         } catch (err: any) {
-            setSaveError(err.message || t('restModal.saveError'));
+            setSaveError(translateError(err) || t('restModal.saveError'));
         } finally {
             setSaving(false);
         }
@@ -511,12 +644,16 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
             path: query.path,
             body: query.body || '',
             name: query.name,
+            savedQueryId: query.id,
             response: null,
             statusCode: null,
             executionTime: null,
             error: null
         });
         setShowQueriesDropdown(false);
+        markSavedQueryUsed(query.id).catch((err) => {
+            console.error('Failed to record query use:', err);
+        });
     };
 
     const handleDeleteQuery = async (id: number, e: React.MouseEvent) => {
@@ -691,6 +828,8 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                 <div className="rest-tabs-spacer" />
 
                 <div className="rest-header-actions">
+                    <RestHistoryPanel connectionId={connectionId} onOpen={handleOpenHistoryEntry} />
+
                     <div className="rest-queries-dropdown">
                         <button
                             className="btn btn-ghost btn-sm"
@@ -715,35 +854,81 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                                         {t('restModal.noSavedQueries')}
                                     </div>
                                 ) : (
-                                    savedQueries.map((query) => (
-                                        <div
-                                            key={query.id}
-                                            className="rest-query-item"
-                                            onClick={() => handleLoadQuery(query)}
-                                        >
-                                            <div className="rest-query-info">
-                                                <span className={`rest-query-method method-${query.method.toLowerCase()}`}>
-                                                    {query.method}
-                                                </span>
-                                                <span className="rest-query-name">{query.name}</span>
-                                            </div>
-                                            <button
-                                                className="rest-query-delete"
-                                                onClick={(e) => handleDeleteQuery(query.id, e)}
-                                                title={t('common.delete')}
-                                            >
-                                                <Trash2 size={12} />
-                                            </button>
+                                    <>
+                                        <div className="rest-queries-filter">
+                                            <Search size={12} />
+                                            <input
+                                                type="text"
+                                                value={queriesFilter}
+                                                onChange={(e) => setQueriesFilter(e.target.value)}
+                                                placeholder={t('savedQueries.filterPlaceholder')}
+                                                autoFocus
+                                            />
                                         </div>
-                                    ))
+                                        {groupedQueries.length === 0 && (
+                                            <div className="rest-queries-empty">
+                                                {t('savedQueries.noMatches')}
+                                            </div>
+                                        )}
+                                        {groupedQueries.map(([folder, queries]) => (
+                                            <div key={folder ?? ''} className="rest-queries-group">
+                                                <div className="rest-queries-group-header">
+                                                    {folder ?? t('savedQueries.unfiled')}
+                                                </div>
+                                                {queries.map((query) => (
+                                                    <div
+                                                        key={query.id}
+                                                        className={`rest-query-item ${activeTab.savedQueryId === query.id ? 'active' : ''}`}
+                                                        onClick={() => handleLoadQuery(query)}
+                                                        title={query.description || query.path}
+                                                    >
+                                                        <div className="rest-query-info">
+                                                            <span className={`rest-query-method method-${query.method.toLowerCase()}`}>
+                                                                {query.method}
+                                                            </span>
+                                                            <span className="rest-query-name">{query.name}</span>
+                                                            {query.connection_id !== null && (
+                                                                <span className="saved-query-scope" title={t('savedQueries.scopeConnection')}>
+                                                                    <Plug size={10} />
+                                                                </span>
+                                                            )}
+                                                            {query.tags.map((tag) => (
+                                                                <span key={tag} className="saved-query-tag">{tag}</span>
+                                                            ))}
+                                                        </div>
+                                                        <button
+                                                            className="rest-query-edit"
+                                                            onClick={(e) => handleEditQuery(query, e)}
+                                                            title={t('savedQueries.edit')}
+                                                        >
+                                                            <Pencil size={12} />
+                                                        </button>
+                                                        <button
+                                                            className="rest-query-delete"
+                                                            onClick={(e) => handleDeleteQuery(query.id, e)}
+                                                            title={t('common.delete')}
+                                                        >
+                                                            <Trash2 size={12} />
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </>
                                 )}
+                                <SavedQueriesTransferActions
+                                    onImport={() => {
+                                        setShowQueriesDropdown(false);
+                                        setShowImportModal(true);
+                                    }}
+                                />
                             </div>
                         )}
                     </div>
 
                     <button
                         className="btn btn-ghost btn-sm"
-                        onClick={() => setShowSaveModal(true)}
+                        onClick={handleOpenSave}
                         title={t('restModal.saveQuery')}
                     >
                         <Save size={16} />
@@ -767,8 +952,9 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                     />
                     <button
                         className="btn btn-primary"
-                        onClick={handleExecute}
-                        disabled={activeTab.loading || !activeTab.path.trim()}
+                        onClick={() => handleExecute()}
+                        disabled={activeTab.loading || !activeTab.path.trim() || !requestAllowed}
+                        title={!requestAllowed ? t('permissions.readOnlyRequest') : undefined}
                     >
                         {activeTab.loading ? (
                             <Loader size={16} className="spin" />
@@ -779,6 +965,13 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                     </button>
                 </div>
 
+                {!requestAllowed && (
+                    <div className="rest-permission-notice">
+                        <Lock size={12} />
+                        <span>{readOnly ? t('permissions.readOnlyConnection') : t('permissions.readOnlyRequest')}</span>
+                    </div>
+                )}
+
                 {indices.length > 0 && (
                     <div className="rest-index-pills">
                         {indices.map(idx => (
@@ -994,17 +1187,98 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                 </div>
             </div>
 
+            {/* Request Policy Confirmation Modal */}
+            {pendingConfirmation && (
+                <div className="rest-save-modal-overlay" onClick={() => setPendingConfirmation(null)}>
+                    <div className="rest-save-modal rest-confirm-modal" onClick={(e) => e.stopPropagation()}>
+                        <div className="rest-save-modal-header">
+                            <h4>
+                                <ShieldAlert size={15} />
+                                {t('restModal.confirmation.title')}
+                            </h4>
+                            <button className="btn btn-ghost btn-icon" onClick={() => setPendingConfirmation(null)}>
+                                <X size={16} />
+                            </button>
+                        </div>
+                        <div className="rest-save-modal-body">
+                            <p className="rest-confirm-message">
+                                {pendingConfirmation.rule?.source === 'connection'
+                                    ? t('restModal.confirmation.connectionRule', { pattern: pendingConfirmation.rule.path_pattern })
+                                    : t('restModal.confirmation.defaultRule', { pattern: pendingConfirmation.rule?.path_pattern ?? '' })}
+                            </p>
+                            <div className="rest-save-preview">
+                                <span className={`rest-query-method method-${pendingConfirmation.method.toLowerCase()}`}>
+                                    {pendingConfirmation.method}
+                                </span>
+                                <span className="rest-save-path">{pendingConfirmation.path}</span>
+                            </div>
+                            <label className="rest-confirm-label">
+                                {t('restModal.confirmation.typeToConfirm')} <code>{pendingConfirmation.phrase}</code>
+                            </label>
+                            <input
+                                type="text"
+                                value={confirmInput}
+                                onChange={(e) => setConfirmInput(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleConfirmRequest()}
+                                spellCheck={false}
+                                autoComplete="off"
+                                autoFocus
+                            />
+                        </div>
+                        <div className="rest-save-modal-footer">
+                            <button className="btn btn-secondary" onClick={() => setPendingConfirmation(null)}>
+                                {t('common.cancel')}
+                            </button>
+                            <button
+                                className="btn btn-danger"
+                                onClick={handleConfirmRequest}
+                                disabled={confirmInput !== pendingConfirmation.phrase}
+                            >
+                                <Play size={14} />
+                                {t('restModal.confirmation.send')}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Save Query Modal */}
+            <SavedQueriesImportModal
+                isOpen={showImportModal}
+                onClose={() => setShowImportModal(false)}
+                onImported={loadSavedQueries}
+            />
+
             {showSaveModal && (
                 <div className="rest-save-modal-overlay" onClick={() => setShowSaveModal(false)}>
                     <div className="rest-save-modal" onClick={(e) => e.stopPropagation()}>
                         <div className="rest-save-modal-header">
-                            <h4>{t('restModal.saveQuery')}</h4>
+                            <h4>{saveMode === 'details' ? t('savedQueries.editQuery') : t('restModal.saveQuery')}</h4>
                             <button className="btn btn-ghost btn-icon" onClick={() => setShowSaveModal(false)}>
                                 <X size={16} />
                             </button>
                         </div>
                         <div className="rest-save-modal-body">
+                            {saveMode !== 'details' && saveTarget && (
+                                <div className="saved-query-mode">
+                                    <label>
+                                        <input
+                                            type="radio"
+                                            checked={saveMode === 'update'}
+                                            onChange={() => setSaveMode('update')}
+                                        />
+                                        {t('savedQueries.updateExisting', { name: saveTarget.name })}
+                                    </label>
+                                    <label>
+                                        <input
+                                            type="radio"
+                                            checked={saveMode === 'create'}
+                                            onChange={() => setSaveMode('create')}
+                                        />
+                                        {t('savedQueries.saveAsNew')}
+                                    </label>
+                                </div>
+                            )}
                             <label>
                                 {t('restModal.queryName')} <span className="required">*</span>
                             </label>
@@ -1013,8 +1287,16 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                                 value={queryName}
                                 onChange={(e) => setQueryName(e.target.value)}
                                 placeholder={t('restModal.queryNamePlaceholder')}
+                                maxLength={255}
                                 autoFocus
                             />
+                            <SavedQueryFields
+                                values={queryFields}
+                                onChange={setQueryFields}
+                                folders={getQueryFolders(savedQueries)}
+                                canScopeToConnection={connectionId > 0}
+                                disabled={saving}
+                            />
                             {saveError && (
                                 <div className="rest-save-error">
                                     <AlertCircle size={14} />
@@ -1022,10 +1304,10 @@ export const RestPage: React.FC<RestPageProps> = ({ initialIndex, connectionId,
                                 </div>
                             )}
                             <div className="rest-save-preview">
-                                <span className={`rest-query-method method-${activeTab.method.toLowerCase()}`}>
-                                    {activeTab.method}
+                                <span className={`rest-query-method method-${(saveMode === 'details' && saveTarget ? saveTarget.method : activeTab.method).toLowerCase()}`}>
+                                    {saveMode === 'details' && saveTarget ? saveTarget.method : activeTab.method}
                                 </span>
-                                <span className="rest-save-path">{activeTab.path}</span>
+                                <span className="rest-save-path">{saveMode === 'details' && saveTarget ? saveTarget.path : activeTab.path}</span>
                             </div>
                         </div>
                         <div className="rest-save-modal-footer">
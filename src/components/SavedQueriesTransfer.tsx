@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, Upload, Loader, AlertCircle, FileJson } from 'lucide-react';
+import {
+    exportSavedQueriesData,
+    importSavedQueriesData,
+    SavedQueriesExportData,
+    QueryImportStrategy,
+    QueryImportResult,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { Modal } from './Modal';
+
+const IMPORT_STRATEGIES: QueryImportStrategy[] = ['skip', 'rename', 'overwrite'];
+
+interface SavedQueriesTransferActionsProps {
+    onImport: () => void;
+}
+
+// Import and export buttons for the footer of the saved query dropdowns
+export const SavedQueriesTransferActions: React.FC<SavedQueriesTransferActionsProps> = ({ onImport }) => {
+    const { t } = useTranslation();
+    const [exporting, setExporting] = useState(false);
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const exportData = await exportSavedQueriesData();
+            if (exportData.queries.length === 0 && exportData.search_queries.length === 0) {
+                alert(t('savedQueries.noQueriesToExport'));
+                return;
+            }
+
+            const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `elasticscope-queries-${new Date().toISOString().split('T')[0]}.json`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Export error:', error);
+            alert(translateError(error) || t('savedQueries.exportError'));
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="saved-queries-transfer">
+            <button type="button" onClick={onImport} title={t('savedQueries.import')}>
+                <Upload size={12} />
+                {t('savedQueries.importShort')}
+            </button>
+            <button type="button" onClick={handleExport} disabled={exporting} title={t('savedQueries.export')}>
+                {exporting ? <Loader size={12} className="spin" /> : <Download size={12} />}
+                {t('savedQueries.exportShort')}
+            </button>
+        </div>
+    );
+};
+
+interface SavedQueriesImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: () => void;
+}
+
+/**
+ * Import of a saved queries export file. The outcome of every query is
+ * previewed for the chosen duplicate strategy before anything is saved.
+ */
+export const SavedQueriesImportModal: React.FC<SavedQueriesImportModalProps> = ({ isOpen, onClose, onImported }) => {
+    const { t } = useTranslation();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [data, setData] = useState<SavedQueriesExportData | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [strategy, setStrategy] = useState<QueryImportStrategy>('skip');
+    const [preview, setPreview] = useState<QueryImportResult | null>(null);
+    const [loadingPreview, setLoadingPreview] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setData(null);
+            setFileName('');
+            setStrategy('skip');
+            setPreview(null);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    // Preview again whenever the file or the duplicate strategy changes
+    useEffect(() => {
+        if (!data) return;
+        let cancelled = false;
+        setLoadingPreview(true);
+        setError(null);
+        importSavedQueriesData(data, strategy, true)
+            .then((result) => {
+                if (!cancelled) setPreview(result);
+            })
+            .catch((err) => {
+                if (!cancelled) {
+                    setPreview(null);
+                    setError(translateError(err) || t('savedQueries.importError'));
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setLoadingPreview(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [data, strategy, t]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setFileName(file.name);
+        setPreview(null);
+        try {
+            const importData: SavedQueriesExportData = JSON.parse(await file.text());
+            // Validate the data structure
+            if (!Array.isArray(importData?.queries) || !Array.isArray(importData?.search_queries)) {
+                setData(null);
+                setError(t('savedQueries.importError'));
+                return;
+            }
+            setData(importData);
+        } catch {
+            setData(null);
+            setError(t('savedQueries.importError'));
+        } finally {
+            // Reset the file input so the same file can be picked again
+            if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+            }
+        }
+    };
+
+    const handleImport = async () => {
+        if (!data) return;
+        setImporting(true);
+        setError(null);
+        try {
+            const result = await importSavedQueriesData(data, strategy);
+
+            let message = t('savedQueries.importSuccess', { count: result.imported });
+            if (result.overwritten > 0) {
+                message += '\n' + t('savedQueries.importOverwritten', { count: result.overwritten });
+            }
+            if (result.skipped > 0) {
+                message += '\n' + t('savedQueries.importDuplicate', { count: result.skipped });
+            }
+            if (result.invalid > 0) {
+                message += '\n' + t('savedQueries.importInvalid', { count: result.invalid });
+            }
+
+            alert(message);
+            onImported();
+            onClose();
+        } catch (err) {
+            setError(translateError(err) || t('savedQueries.importError'));
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const willSave = preview ? preview.imported + preview.overwritten : 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('savedQueries.importTitle')} size="lg">
+            <div className="query-import">
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    accept=".json"
+                    onChange={handleFile}
+                    style={{ display: 'none' }}
+                />
+                <div className="query-import-file">
+                    <button type="button" className="btn btn-secondary" onClick={() => fileInputRef.current?.click()}>
+                        <FileJson size={14} />
+                        {t('savedQueries.chooseFile')}
+                    </button>
+                    <span className="query-import-file-name">{fileName || t('savedQueries.noFileChosen')}</span>
+                </div>
+
+                <div className="query-import-strategy">
+                    <span>{t('savedQueries.duplicates')}</span>
+                    {IMPORT_STRATEGIES.map((option) => (
+                        <label key={option}>
+                            <input
+                                type="radio"
+                                checked={strategy === option}
+                                onChange={() => setStrategy(option)}
+                                disabled={importing}
+                            />
+                            {t(`savedQueries.strategies.${option}`)}
+                        </label>
+                    ))}
+                </div>
+
+                {error && (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {error}
+                    </div>
+                )}
+
+                {loadingPreview ? (
+                    <div className="query-import-loading">
+                        <Loader size={16} className="spin" />
+                    </div>
+                ) : preview && (
+                    <>
+                        <div className="query-import-summary">
+                            {t('savedQueries.previewSummary', {
+                                imported: preview.imported,
+                                overwritten: preview.overwritten,
+                                skipped: preview.skipped,
+                                invalid: preview.invalid,
+                            })}
+                        </div>
+                        <div className="query-import-list">
+                            {preview.items.length === 0 ? (
+                                <div className="query-import-empty">{t('savedQueries.importEmpty')}</div>
+                            ) : preview.items.map((item, i) => (
+                                <div key={i} className="query-import-item">
+                                    <span className={`query-import-kind ${item.kind}`}>
+                                        {t(`savedQueries.kinds.${item.kind}`)}
+                                    </span>
+                                    <span className="query-import-name" title={item.name}>
+                                        {item.name}
+                                        {item.action === 'rename' && <> → {item.final_name}</>}
+                                    </span>
+                                    <span className="query-import-scope">
+                                        {item.connection_name ?? t('savedQueries.scopeGlobal')}
+                                    </span>
+                                    <span
+                                        className={`query-import-action ${item.action}`}
+                                        title={item.error ? translateError({ errorCode: item.error }) : undefined}
+                                    >
+                                        {t(`savedQueries.actions.${item.action}`)}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <div className="modal-actions">
+                    <button type="button" className="btn btn-secondary" onClick={onClose} disabled={importing}>
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-primary"
+                        onClick={handleImport}
+                        disabled={!preview || willSave === 0 || loadingPreview || importing}
+                    >
+                        {importing ? <Loader size={14} className="spin" /> : <Upload size={14} />}
+                        {t('savedQueries.importCount', { count: willSave })}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+
+export interface SavedQueryFieldValues {
+    folder: string;
+    // Comma separated, parsed with parseTagsInput on save
+    tags: string;
+    description: string;
+    // Only offered for the active saved connection; otherwise the query is shared by all connections
+    connectionScoped: boolean;
+}
+
+export const EMPTY_SAVED_QUERY_FIELDS: SavedQueryFieldValues = {
+    folder: '',
+    tags: '',
+    description: '',
+    connectionScoped: false,
+};
+
+interface SavedQueryFieldsProps {
+    values: SavedQueryFieldValues;
+    onChange: (values: SavedQueryFieldValues) => void;
+    // Existing folders offered as suggestions
+    folders: string[];
+    // Whether the query can be limited to the active connection (not possible for ad-hoc connections)
+    canScopeToConnection: boolean;
+    disabled?: boolean;
+}
+
+// Scope, folder, tags and description inputs shared by the save dialogs of REST and search queries
+export const SavedQueryFields: React.FC<SavedQueryFieldsProps> = ({
+    values,
+    onChange,
+    folders,
+    canScopeToConnection,
+    disabled
+}) => {
+    const { t } = useTranslation();
+    const update = (changes: Partial<SavedQueryFieldValues>) => onChange({ ...values, ...changes });
+
+    return (
+        <>
+            {canScopeToConnection && (
+                <div className="saved-query-field">
+                    <label>{t('savedQueries.scope')}</label>
+                    <div className="saved-query-mode">
+                        <label>
+                            <input
+                                type="radio"
+                                checked={values.connectionScoped}
+                                onChange={() => update({ connectionScoped: true })}
+                                disabled={disabled}
+                            />
+                            {t('savedQueries.scopeConnection')}
+                        </label>
+                        <label>
+                            <input
+                                type="radio"
+                                checked={!values.connectionScoped}
+                                onChange={() => update({ connectionScoped: false })}
+                                disabled={disabled}
+                            />
+                            {t('savedQueries.scopeGlobal')}
+                        </label>
+                    </div>
+                </div>
+            )}
+            <div className="saved-query-field">
+                <label>{t('savedQueries.folder')}</label>
+                <input
+                    type="text"
+                    value={values.folder}
+                    onChange={(e) => update({ folder: e.target.value })}
+                    placeholder={t('savedQueries.folderPlaceholder')}
+                    list="saved-query-folders"
+                    maxLength={100}
+                    disabled={disabled}
+                />
+                <datalist id="saved-query-folders">
+                    {folders.map((folder) => (
+                        <option key={folder} value={folder} />
+                    ))}
+                </datalist>
+            </div>
+            <div className="saved-query-field">
+                <label>{t('savedQueries.tags')}</label>
+                <input
+                    type="text"
+                    value={values.tags}
+                    onChange={(e) => update({ tags: e.target.value })}
+                    placeholder={t('savedQueries.tagsPlaceholder')}
+                    disabled={disabled}
+                />
+            </div>
+            <div className="saved-query-field">
+                <label>{t('savedQueries.description')}</label>
+                <textarea
+                    value={values.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                    placeholder={t('savedQueries.descriptionPlaceholder')}
+                    rows={2}
+                    maxLength={1000}
+                    disabled={disabled}
+                />
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, Loader, AlertCircle } from 'lucide-react';
+import { exportSearchResults, SearchExportFormat, SearchExportProgress } from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDocCount } from '../utils/formatters';
+import { Modal } from './Modal';
+
+const EXPORT_FORMATS: SearchExportFormat[] = ['csv', 'ndjson', 'json'];
+
+interface SearchExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    indexName: string;
+    // Query and sort of the current search; null exports every document
+    query: object | null;
+    sort?: object;
+    // Selected columns, used for CSV
+    columns: string[];
+}
+
+// Export of every document matching the current search, streamed by the server
+export const SearchExportModal: React.FC<SearchExportModalProps> = ({
+    isOpen,
+    onClose,
+    indexName,
+    query,
+    sort,
+    columns,
+}) => {
+    const { t } = useTranslation();
+    const [format, setFormat] = useState<SearchExportFormat>('csv');
+    const [progress, setProgress] = useState<SearchExportProgress | null>(null);
+    const [exporting, setExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setProgress(null);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    // Stop a running export when the page goes away
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleExport = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setExporting(true);
+        setError(null);
+        setProgress(null);
+        try {
+            const blob = await exportSearchResults(
+                { index: indexName, query, sort, format, columns },
+                setProgress,
+                controller.signal
+            );
+
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${indexName}-${new Date().toISOString().split('T')[0]}.${format}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            onClose();
+        } catch (err: any) {
+            if (err?.name === 'AbortError') {
+                setProgress(null);
+            } else {
+                console.error('Export error:', err);
+                setError(translateError(err) || t('searchExport.error'));
+            }
+        } finally {
+            abortRef.current = null;
+            setExporting(false);
+        }
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
+
+    const handleClose = () => {
+        handleCancel();
+        onClose();
+    };
+
+    const percent = progress && progress.total > 0 ? Math.round((progress.rows / progress.total) * 100) : 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title={t('searchExport.title')}>
+            <div className="search-export">
+                <div className="query-import-strategy">
+                    <span>{t('searchExport.format')}</span>
+                    {EXPORT_FORMATS.map((option) => (
+                        <label key={option}>
+                            <input
+                                type="radio"
+                                checked={format === option}
+                                onChange={() => setFormat(option)}
+                                disabled={exporting}
+                            />
+                            {t(`searchExport.formats.${option}`)}
+                        </label>
+                    ))}
+                </div>
+
+                <p className="search-export-hint">
+                    {format === 'csv'
+                        ? t('searchExport.csvColumns', { columns: ['_id', ...columns].join(', ') })
+                        : t('searchExport.fullDocuments')}
+                </p>
+
+                {error && (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {error}
+                    </div>
+                )}
+
+                {progress && (
+                    <div className="search-export-progress">
+                        <div className="search-export-progress-track">
+                            <div className="search-export-progress-bar" style={{ width: `${percent}%` }} />
+                        </div>
+                        <span>
+                            {t('searchExport.progress', {
+                                rows: formatDocCount(progress.rows),
+                                total: formatDocCount(progress.total),
+                                percent,
+                            })}
+                        </span>
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    {exporting ? (
+                        <button type="button" className="btn btn-secondary" onClick={handleCancel}>
+                            {t('searchExport.cancel')}
+                        </button>
+                    ) : (
+                        <button type="button" className="btn btn-secondary" onClick={onClose}>
+                            {t('common.cancel')}
+                        </button>
+                    )}
+                    <button type="button" className="btn btn-primary" onClick={handleExport} disabled={exporting}>
+                        {exporting ? <Loader size={14} className="spin" /> : <Download size={14} />}
+                        {t('searchExport.start')}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
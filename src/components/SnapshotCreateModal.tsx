@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader, AlertCircle, Camera } from 'lucide-react';
+import { getIndices, createSnapshot } from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { Modal } from './Modal';
+import { IndexChecklist } from './IndexChecklist';
+
+interface SnapshotCreateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    repository: string;
+    // Called with the snapshot name once Elasticsearch accepted it
+    onCreated: (snapshot: string) => void;
+}
+
+// snapshot-2026.01.31-142500
+const defaultSnapshotName = () => {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `snapshot-${now.getFullYear()}.${pad(now.getMonth() + 1)}.${pad(now.getDate())}-` +
+        `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+};
+
+export const SnapshotCreateModal: React.FC<SnapshotCreateModalProps> = ({ isOpen, onClose, repository, onCreated }) => {
+    const { t } = useTranslation();
+    const [name, setName] = useState('');
+    const [indices, setIndices] = useState<string[]>([]);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [includeGlobalState, setIncludeGlobalState] = useState(false);
+    const [loadingIndices, setLoadingIndices] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(defaultSnapshotName());
+        setSelected([]);
+        setIncludeGlobalState(false);
+        setError(null);
+        setLoadingIndices(true);
+        getIndices()
+            .then((result) => setIndices(result.map((index) => index.index).sort()))
+            .catch((err) => setError(translateError(err)))
+            .finally(() => setLoadingIndices(false));
+    }, [isOpen]);
+
+    const handleCreate = async () => {
+        setCreating(true);
+        setError(null);
+        try {
+            await createSnapshot(repository, name.trim(), selected, includeGlobalState);
+            onCreated(name.trim());
+            onClose();
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('snapshots.createTitle', { repository })} size="lg">
+            <div className="bulk-import">
+                <div className="snapshot-field">
+                    <label>{t('snapshots.name')}</label>
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+
+                <div className="snapshot-field">
+                    <label>{t('snapshots.indices')}</label>
+                    {loadingIndices ? (
+                        <Loader size={14} className="spin" />
+                    ) : (
+                        <IndexChecklist indices={indices} selected={selected} onChange={setSelected} />
+                    )}
+                </div>
+
+                <label className="snapshot-option">
+                    <input
+                        type="checkbox"
+                        checked={includeGlobalState}
+                        onChange={(e) => setIncludeGlobalState(e.target.checked)}
+                    />
+                    {t('snapshots.includeGlobalState')}
+                </label>
+
+                {error && (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {error}
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    <button type="button" className="btn btn-secondary" onClick={onClose}>
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-primary"
+                        onClick={handleCreate}
+                        disabled={creating || !name.trim() || selected.length === 0}
+                    >
+                        {creating ? <Loader size={14} className="spin" /> : <Camera size={14} />}
+                        {t('snapshots.create')}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
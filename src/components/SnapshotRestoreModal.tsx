@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader, AlertCircle, AlertTriangle, RotateCcw } from 'lucide-react';
+import { restoreSnapshot, SnapshotInfo } from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { Modal } from './Modal';
+import { IndexChecklist } from './IndexChecklist';
+
+interface SnapshotRestoreModalProps {
+    repository: string;
+    // Snapshot to restore; the modal is closed while null
+    snapshot: SnapshotInfo | null;
+    onClose: () => void;
+    onRestored: (snapshot: string) => void;
+}
+
+const DEFAULT_RENAME_PATTERN = '(.+)';
+const DEFAULT_RENAME_REPLACEMENT = 'restored-$1';
+
+// Names the selected indices get, or null when the pattern is not a valid expression
+const previewNames = (indices: string[], pattern: string, replacement: string): string[] | null => {
+    try {
+        const regex = new RegExp(pattern);
+        return indices.map((index) => index.replace(regex, replacement));
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Restore indices of a snapshot. Renaming is on by default, since an open index
+ * with the same name makes the restore fail.
+ */
+export const SnapshotRestoreModal: React.FC<SnapshotRestoreModalProps> = ({
+    repository,
+    snapshot,
+    onClose,
+    onRestored,
+}) => {
+    const { t } = useTranslation();
+    const [selected, setSelected] = useState<string[]>([]);
+    const [rename, setRename] = useState(true);
+    const [renamePattern, setRenamePattern] = useState(DEFAULT_RENAME_PATTERN);
+    const [renameReplacement, setRenameReplacement] = useState(DEFAULT_RENAME_REPLACEMENT);
+    const [restoring, setRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!snapshot) return;
+        // System indices are left out unless picked explicitly
+        setSelected(snapshot.indices.filter((index) => !index.startsWith('.')));
+        setRename(true);
+        setRenamePattern(DEFAULT_RENAME_PATTERN);
+        setRenameReplacement(DEFAULT_RENAME_REPLACEMENT);
+        setError(null);
+    }, [snapshot]);
+
+    if (!snapshot) return null;
+
+    const preview = rename ? previewNames(selected, renamePattern, renameReplacement) : selected;
+
+    const handleRestore = async () => {
+        setRestoring(true);
+        setError(null);
+        try {
+            await restoreSnapshot(repository, snapshot.snapshot, {
+                indices: selected,
+                ...(rename ? { renamePattern, renameReplacement } : {}),
+            });
+            onRestored(snapshot.snapshot);
+            onClose();
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setRestoring(false);
+        }
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} title={t('snapshots.restoreTitle', { snapshot: snapshot.snapshot })} size="lg">
+            <div className="bulk-import">
+                <div className="snapshot-field">
+                    <label>{t('snapshots.indices')}</label>
+                    <IndexChecklist indices={snapshot.indices} selected={selected} onChange={setSelected} />
+                </div>
+
+                <label className="snapshot-option">
+                    <input type="checkbox" checked={rename} onChange={(e) => setRename(e.target.checked)} />
+                    {t('snapshots.rename')}
+                </label>
+
+                {rename ? (
+                    <div className="snapshot-rename">
+                        <div className="snapshot-field">
+                            <label>{t('snapshots.renamePattern')}</label>
+                            <input type="text" value={renamePattern} onChange={(e) => setRenamePattern(e.target.value)} />
+                        </div>
+                        <div className="snapshot-field">
+                            <label>{t('snapshots.renameReplacement')}</label>
+                            <input
+                                type="text"
+                                value={renameReplacement}
+                                onChange={(e) => setRenameReplacement(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <p className="delete-modal-desc">
+                        <AlertTriangle size={16} className="inline-icon" />
+                        {t('snapshots.restoreInPlace')}
+                    </p>
+                )}
+
+                {preview === null ? (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {t('serverErrors.RENAME_PATTERN_INVALID')}
+                    </div>
+                ) : preview.length > 0 && (
+                    <div className="snapshot-field">
+                        <label>{t('snapshots.restoredAs')}</label>
+                        <div className="snapshot-restore-preview">
+                            {selected.map((index, i) => (
+                                <div key={index}>
+                                    <code>{index}</code>
+                                    {preview[i] !== index && <> → <code>{preview[i]}</code></>}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="rest-save-error">
+                        <AlertCircle size={14} />
+                        {error}
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    <button type="button" className="btn btn-secondary" onClick={onClose}>
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-primary"
+                        onClick={handleRestore}
+                        disabled={
+                            restoring ||
+                            selected.length === 0 ||
+                            preview === null ||
+                            (rename && (!renamePattern || !renameReplacement))
+                        }
+                    >
+                        {restoring ? <Loader size={14} className="spin" /> : <RotateCcw size={14} />}
+                        {t('snapshots.restore')}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
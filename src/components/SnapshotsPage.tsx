@@ -0,0 +1,419 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    Archive,
+    RefreshCw,
+    AlertCircle,
+    Camera,
+    RotateCcw,
+    Trash2,
+    Loader,
+    ChevronDown,
+    ChevronRight,
+    CheckCircle,
+} from 'lucide-react';
+import {
+    getSnapshotRepositories,
+    getSnapshots,
+    getSnapshotProgress,
+    deleteSnapshot,
+    SnapshotRepository,
+    SnapshotInfo,
+    SnapshotProgress,
+    ConnectionRole,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatBytes, formatDate } from '../utils/formatters';
+import { hasRole } from '../utils/permissions';
+import { Modal } from './Modal';
+import { SnapshotCreateModal } from './SnapshotCreateModal';
+import { SnapshotRestoreModal } from './SnapshotRestoreModal';
+
+const POLL_INTERVAL_MS = 2000;
+
+// States the snapshot status API reports while a snapshot is still being taken
+const RUNNING_STATES = ['INIT', 'STARTED', 'WAITING', 'IN_PROGRESS'];
+
+interface SnapshotsPageProps {
+    connectionId?: number | null;
+    connectionRole: ConnectionRole | null;
+}
+
+const formatDuration = (millis: number | null): string => {
+    if (millis === null) return '-';
+    if (millis < 1000) return `${millis} ms`;
+    const seconds = Math.round(millis / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Snapshot repositories and their snapshots: create, follow, restore and delete
+export const SnapshotsPage: React.FC<SnapshotsPageProps> = ({ connectionId, connectionRole }) => {
+    const { t } = useTranslation();
+    const [repositories, setRepositories] = useState<SnapshotRepository[]>([]);
+    const [repository, setRepository] = useState<string>('');
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [progress, setProgress] = useState<Record<string, SnapshotProgress>>({});
+    const [loading, setLoading] = useState(true);
+    const [loadingSnapshots, setLoadingSnapshots] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [restoreTarget, setRestoreTarget] = useState<SnapshotInfo | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<SnapshotInfo | null>(null);
+    const [deleteConfirmText, setDeleteConfirmText] = useState('');
+    const [deleting, setDeleting] = useState(false);
+    const [deleteError, setDeleteError] = useState<string | null>(null);
+
+    const canCreate = hasRole(connectionRole, 'editor');
+    const canManage = hasRole(connectionRole, 'admin');
+
+    const loadRepositories = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const result = await getSnapshotRepositories();
+            setRepositories(result.repositories);
+            setRepository((current) =>
+                result.repositories.some((repo) => repo.name === current)
+                    ? current
+                    : result.repositories[0]?.name || ''
+            );
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const loadSnapshots = useCallback(async () => {
+        if (!repository) {
+            setSnapshots([]);
+            return;
+        }
+        setLoadingSnapshots(true);
+        setError(null);
+        try {
+            const result = await getSnapshots(repository);
+            setSnapshots(result.snapshots);
+        } catch (err) {
+            setError(translateError(err));
+        } finally {
+            setLoadingSnapshots(false);
+        }
+    }, [repository]);
+
+    useEffect(() => {
+        loadRepositories();
+    }, [connectionId, loadRepositories]);
+
+    useEffect(() => {
+        setProgress({});
+        setExpanded(null);
+        loadSnapshots();
+    }, [loadSnapshots]);
+
+    // Follow running snapshots; the list is reloaded once none of them is running anymore
+    useEffect(() => {
+        const running = snapshots.filter((snapshot) => snapshot.state === 'IN_PROGRESS').map((snapshot) => snapshot.snapshot);
+        if (!repository || running.length === 0) return;
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const poll = async () => {
+            const results = await Promise.all(
+                running.map((name) => getSnapshotProgress(repository, name).catch(() => null))
+            );
+            if (stopped) return;
+            setProgress((current) => {
+                const next = { ...current };
+                results.forEach((result, i) => {
+                    if (result) next[running[i]] = result;
+                });
+                return next;
+            });
+            if (results.some((result) => !result || !RUNNING_STATES.includes(result.state))) {
+                loadSnapshots();
+                return;
+            }
+            timer = setTimeout(poll, POLL_INTERVAL_MS);
+        };
+
+        poll();
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    }, [repository, snapshots]);
+
+    const closeDeleteModal = () => {
+        setDeleteTarget(null);
+        setDeleteConfirmText('');
+        setDeleteError(null);
+    };
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return;
+        setDeleting(true);
+        setDeleteError(null);
+        try {
+            await deleteSnapshot(repository, deleteTarget.snapshot);
+            setNotice(t('serverErrors.SNAPSHOT_DELETED', { snapshot: deleteTarget.snapshot }));
+            closeDeleteModal();
+            loadSnapshots();
+        } catch (err) {
+            setDeleteError(translateError(err));
+        } finally {
+            setDeleting(false);
+        }
+    };
+
+    const renderProgress = (snapshot: SnapshotInfo) => {
+        const current = progress[snapshot.snapshot];
+        if (!current) return <Loader size={12} className="spin" />;
+        const percent = current.bytes.total > 0
+            ? Math.round((current.bytes.processed / current.bytes.total) * 100)
+            : current.shards.total > 0 ? Math.round((current.shards.done / current.shards.total) * 100) : 0;
+        return (
+            <div className="snapshot-progress" title={`${formatBytes(current.bytes.processed)} / ${formatBytes(current.bytes.total)}`}>
+                <div className="search-export-progress-track">
+                    <div className="search-export-progress-bar" style={{ width: `${percent}%` }} />
+                </div>
+                <span>
+                    {t('snapshots.shardProgress', { done: current.shards.done, total: current.shards.total })}
+                </span>
+            </div>
+        );
+    };
+
+    if (loading) {
+        return (
+            <div className="cluster-monitor-loading">
+                <RefreshCw size={32} className="spin" />
+                <p>{t('common.loading')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="snapshots-page">
+            <div className="cluster-monitor-header">
+                <div className="cluster-monitor-title">
+                    <Archive size={24} />
+                    <h2>{t('snapshots.title')}</h2>
+                </div>
+                <div className="cluster-monitor-controls">
+                    {repositories.length > 0 && (
+                        <select
+                            className="refresh-interval-select"
+                            value={repository}
+                            onChange={(e) => setRepository(e.target.value)}
+                            title={t('snapshots.repository')}
+                        >
+                            {repositories.map((repo) => (
+                                <option key={repo.name} value={repo.name}>
+                                    {repo.name} ({repo.type}{repo.location ? `: ${repo.location}` : ''})
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        onClick={() => (repositories.length > 0 ? loadSnapshots() : loadRepositories())}
+                        title={t('common.refresh')}
+                    >
+                        <RefreshCw size={16} className={loadingSnapshots ? 'spin' : ''} />
+                    </button>
+                    {canCreate && repository && (
+                        <button className="btn btn-sm btn-primary" onClick={() => setShowCreateModal(true)}>
+                            <Camera size={16} />
+                            {t('snapshots.create')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="rest-save-error">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            {notice && (
+                <div className="snapshot-notice" onClick={() => setNotice(null)}>
+                    <CheckCircle size={14} />
+                    {notice}
+                </div>
+            )}
+
+            {repositories.length === 0 ? (
+                <div className="snapshots-empty">
+                    <p>{t('snapshots.noRepositories')}</p>
+                    <pre>{'PUT _snapshot/backups\n{\n  "type": "fs",\n  "settings": { "location": "/path/in/path.repo" }\n}'}</pre>
+                </div>
+            ) : snapshots.length === 0 ? (
+                <div className="snapshots-empty">
+                    {loadingSnapshots ? <Loader size={16} className="spin" /> : <p>{t('snapshots.noSnapshots')}</p>}
+                </div>
+            ) : (
+                <table className="snapshots-table">
+                    <thead>
+                        <tr>
+                            <th>{t('snapshots.name')}</th>
+                            <th>{t('snapshots.state')}</th>
+                            <th>{t('snapshots.indices')}</th>
+                            <th>{t('snapshots.started')}</th>
+                            <th>{t('snapshots.duration')}</th>
+                            <th>{t('snapshots.shards')}</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {snapshots.map((snapshot) => {
+                            const isExpanded = expanded === snapshot.snapshot;
+                            const isRunning = snapshot.state === 'IN_PROGRESS';
+                            return (
+                                <React.Fragment key={snapshot.uuid || snapshot.snapshot}>
+                                    <tr
+                                        className="snapshots-row"
+                                        onClick={() => setExpanded(isExpanded ? null : snapshot.snapshot)}
+                                    >
+                                        <td>
+                                            {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                                            <span className="snapshots-name">{snapshot.snapshot}</span>
+                                        </td>
+                                        <td>
+                                            <span className={`snapshot-state ${snapshot.state.toLowerCase()}`}>
+                                                {t(`snapshots.states.${snapshot.state}`, { defaultValue: snapshot.state })}
+                                            </span>
+                                        </td>
+                                        <td>{snapshot.indices.length}</td>
+                                        <td>{formatDate(snapshot.startTime)}</td>
+                                        <td>{isRunning ? renderProgress(snapshot) : formatDuration(snapshot.durationMs)}</td>
+                                        <td>
+                                            {snapshot.shards.successful}/{snapshot.shards.total}
+                                            {snapshot.shards.failed > 0 && (
+                                                <span className="snapshot-failed-shards">
+                                                    {' '}({t('snapshots.failedShards', { failed: snapshot.shards.failed })})
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="snapshots-actions" onClick={(e) => e.stopPropagation()}>
+                                            {canManage && !isRunning && (
+                                                <>
+                                                    <button
+                                                        className="btn btn-ghost btn-icon-sm"
+                                                        onClick={() => setRestoreTarget(snapshot)}
+                                                        disabled={snapshot.state === 'FAILED' || snapshot.state === 'INCOMPATIBLE'}
+                                                        title={t('snapshots.restore')}
+                                                    >
+                                                        <RotateCcw size={14} />
+                                                    </button>
+                                                    <button
+                                                        className="btn btn-ghost btn-icon-sm btn-danger-subtle"
+                                                        onClick={() => setDeleteTarget(snapshot)}
+                                                        title={t('common.delete')}
+                                                    >
+                                                        <Trash2 size={14} />
+                                                    </button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                    {isExpanded && (
+                                        <tr className="snapshots-details">
+                                            <td colSpan={7}>
+                                                <div className="snapshot-indices">
+                                                    {snapshot.indices.map((index) => <code key={index}>{index}</code>)}
+                                                </div>
+                                                {snapshot.includeGlobalState && (
+                                                    <p className="snapshot-meta">{t('snapshots.includesGlobalState')}</p>
+                                                )}
+                                                {snapshot.failures.length > 0 && (
+                                                    <div className="bulk-import-failures">
+                                                        {snapshot.failures.map((failure, i) => (
+                                                            <div key={i} className="bulk-import-failure">
+                                                                <span className="bulk-import-failure-row">{failure.index}</span>
+                                                                <span className="bulk-import-failure-reason">{failure.reason}</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+
+            <SnapshotCreateModal
+                isOpen={showCreateModal}
+                onClose={() => setShowCreateModal(false)}
+                repository={repository}
+                onCreated={(name) => {
+                    setNotice(t('serverErrors.SNAPSHOT_STARTED', { snapshot: name }));
+                    loadSnapshots();
+                }}
+            />
+
+            <SnapshotRestoreModal
+                repository={repository}
+                snapshot={restoreTarget}
+                onClose={() => setRestoreTarget(null)}
+                onRestored={(name) => setNotice(t('serverErrors.SNAPSHOT_RESTORE_STARTED', { snapshot: name }))}
+            />
+
+            <Modal
+                isOpen={deleteTarget !== null}
+                onClose={closeDeleteModal}
+                title={t('snapshots.deleteTitle')}
+            >
+                {deleteTarget && (
+                    <div className="bulk-import">
+                        <p className="delete-modal-desc">
+                            {t('snapshots.deleteWarning', { snapshot: deleteTarget.snapshot, repository })}
+                        </p>
+                        <div className="delete-modal-input-wrapper">
+                            <label>
+                                {t('snapshots.deleteConfirm')} <code>{deleteTarget.snapshot}</code>
+                            </label>
+                            <input
+                                type="text"
+                                value={deleteConfirmText}
+                                onChange={(e) => setDeleteConfirmText(e.target.value)}
+                                placeholder={deleteTarget.snapshot}
+                            />
+                        </div>
+                        {deleteError && (
+                            <div className="rest-save-error">
+                                <AlertCircle size={14} />
+                                {deleteError}
+                            </div>
+                        )}
+                        <div className="modal-actions">
+                            <button type="button" className="btn btn-secondary" onClick={closeDeleteModal}>
+                                {t('common.cancel')}
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-danger"
+                                onClick={handleDelete}
+                                disabled={deleting || deleteConfirmText !== deleteTarget.snapshot}
+                            >
+                                {deleting ? <Loader size={14} className="spin" /> : <Trash2 size={14} />}
+                                {t('common.delete')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
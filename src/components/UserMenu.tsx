@@ -0,0 +1,162 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, User, Users, KeyRound, LogOut, Loader2, Save } from 'lucide-react';
+import { changePassword, AuthUser } from '../api/elasticsearchClient';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { translateError } from '../utils/errorHandler';
+import { Modal } from './Modal';
+import { UsersModal } from './UsersModal';
+
+interface UserMenuProps {
+    user: AuthUser;
+    onLogout: () => void;
+}
+
+export const UserMenu: React.FC<UserMenuProps> = ({ user, onLogout }) => {
+    const { t } = useTranslation();
+    const [isOpen, setIsOpen] = useState(false);
+    const [showUsers, setShowUsers] = useState(false);
+    const [showPasswordForm, setShowPasswordForm] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    const closeDropdown = useCallback(() => setIsOpen(false), []);
+    useClickOutside(dropdownRef, closeDropdown, isOpen);
+
+    return (
+        <div className="user-menu" ref={dropdownRef}>
+            <button
+                className="language-trigger user-menu-trigger"
+                onClick={() => setIsOpen(!isOpen)}
+                title={user.username}
+            >
+                <User size={14} />
+                <span className="user-menu-name">{user.username}</span>
+                <ChevronDown size={14} className={`dropdown-arrow ${isOpen ? 'open' : ''}`} />
+            </button>
+
+            {isOpen && (
+                <div className="language-dropdown user-menu-dropdown">
+                    {user.is_admin && (
+                        <button
+                            className="language-option"
+                            onClick={() => { setShowUsers(true); setIsOpen(false); }}
+                        >
+                            <Users size={14} />
+                            <span className="language-name">{t('auth.manageUsers')}</span>
+                        </button>
+                    )}
+                    <button
+                        className="language-option"
+                        onClick={() => { setShowPasswordForm(true); setIsOpen(false); }}
+                    >
+                        <KeyRound size={14} />
+                        <span className="language-name">{t('auth.changePassword')}</span>
+                    </button>
+                    <button
+                        className="language-option"
+                        onClick={() => { setIsOpen(false); onLogout(); }}
+                    >
+                        <LogOut size={14} />
+                        <span className="language-name">{t('auth.logout')}</span>
+                    </button>
+                </div>
+            )}
+
+            <Modal
+                isOpen={showUsers}
+                onClose={() => setShowUsers(false)}
+                title={t('auth.manageUsers')}
+                size="lg"
+            >
+                <UsersModal currentUserId={user.id} />
+            </Modal>
+
+            <Modal
+                isOpen={showPasswordForm}
+                onClose={() => setShowPasswordForm(false)}
+                title={t('auth.changePassword')}
+                size="sm"
+            >
+                <ChangePasswordForm onDone={() => setShowPasswordForm(false)} />
+            </Modal>
+        </div>
+    );
+};
+
+const ChangePasswordForm: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+    const { t } = useTranslation();
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newPassword !== confirmPassword) {
+            setError(t('auth.passwordMismatch'));
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        try {
+            await changePassword(currentPassword, newPassword);
+            onDone();
+        } catch (err: any) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form className="connection-modal-form" onSubmit={handleSubmit}>
+            <div className="form-group">
+                <label htmlFor="current-password">{t('auth.currentPassword')}</label>
+                <input
+                    id="current-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    disabled={loading}
+                />
+            </div>
+            <div className="form-group">
+                <label htmlFor="new-password">{t('auth.newPassword')}</label>
+                <input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    disabled={loading}
+                />
+            </div>
+            <div className="form-group">
+                <label htmlFor="confirm-password">{t('auth.confirmPassword')}</label>
+                <input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    disabled={loading}
+                />
+            </div>
+
+            {error && <div className="error-message">{error}</div>}
+
+            <div className="modal-actions">
+                <button type="button" className="btn btn-secondary" onClick={onDone} disabled={loading}>
+                    {t('common.cancel')}
+                </button>
+                <button type="submit" className="btn btn-primary" disabled={loading}>
+                    {loading ? <Loader2 size={16} className="spin" /> : <Save size={16} />}
+                    {t('common.save')}
+                </button>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, Pencil, Loader2, Save, ShieldCheck, X, KeySquare } from 'lucide-react';
+import {
+    getUsers,
+    createUser,
+    updateUser,
+    deleteUser,
+    getSavedConnections,
+    getUserPermissions,
+    setUserPermission,
+    deleteUserPermission,
+    ManagedUser,
+    UserInput,
+    SavedConnection,
+    ConnectionRole,
+} from '../api/elasticsearchClient';
+import { translateError } from '../utils/errorHandler';
+import { formatDate, parseServerTimestamp } from '../utils/formatters';
+
+interface UsersModalProps {
+    currentUserId: number;
+}
+
+export const UsersModal: React.FC<UsersModalProps> = ({ currentUserId }) => {
+    const { t } = useTranslation();
+    const [users, setUsers] = useState<ManagedUser[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [permissionsUser, setPermissionsUser] = useState<ManagedUser | null>(null);
+
+    useEffect(() => {
+        loadUsers();
+    }, []);
+
+    const loadUsers = async () => {
+        setLoading(true);
+        try {
+            setUsers(await getUsers());
+        } catch (err: any) {
+            setError(translateError(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const startEdit = (user: ManagedUser | null) => {
+        setError(null);
+        setPermissionsUser(null);
+        setEditingId(user ? user.id : 'new');
+        setUsername(user?.username || '');
+        setPassword('');
+        setIsAdmin(user?.is_admin || false);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError(null);
+
+        try {
+            const input: UserInput = { username: username.trim(), is_admin: isAdmin };
+            if (password) input.password = password;
+
+            if (editingId === 'new') {
+                await createUser(input);
+            } else if (editingId !== null) {
+                await updateUser(editingId, input);
+            }
+
+            setEditingId(null);
+            await loadUsers();
+        } catch (err: any) {
+            setError(translateError(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (user: ManagedUser) => {
+        if (!confirm(t('auth.deleteUserConfirm', { username: user.username }))) return;
+        try {
+            await deleteUser(user.id);
+            await loadUsers();
+        } catch (err: any) {
+            setError(translateError(err));
+        }
+    };
+
+    return (
+        <div className="users-modal">
+            {loading ? (
+                <div className="welcome-loading">
+                    <Loader2 size={20} className="spin" />
+                </div>
+            ) : (
+                <table className="users-table">
+                    <thead>
+                        <tr>
+                            <th>{t('auth.username')}</th>
+                            <th>{t('auth.role')}</th>
+                            <th>{t('auth.lastLogin')}</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {users.map((user) => (
+                            <tr key={user.id}>
+                                <td>{user.username}</td>
+                                <td>
+                                    {user.is_admin ? (
+                                        <span className="user-admin-badge">
+                                            <ShieldCheck size={12} />
+                                            {t('auth.admin')}
+                                        </span>
+                                    ) : t('auth.user')}
+                                </td>
+                                <td>{formatDate(parseServerTimestamp(user.last_login_at))}</td>
+                                <td className="users-table-actions">
+                                    <button
+                                        className="btn btn-icon"
+                                        onClick={() => { setEditingId(null); setPermissionsUser(user); }}
+                                        disabled={user.is_admin}
+                                        title={user.is_admin ? t('permissions.adminHasAll') : t('permissions.title')}
+                                    >
+                                        <KeySquare size={14} />
+                                    </button>
+                                    <button
+                                        className="btn btn-icon"
+                                        onClick={() => startEdit(user)}
+                                        title={t('common.edit')}
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
+                                    <button
+                                        className="btn btn-icon btn-delete"
+                                        onClick={() => handleDelete(user)}
+                                        disabled={user.id === currentUserId}
+                                        title={t('common.delete')}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {permissionsUser && (
+                <UserPermissionsEditor user={permissionsUser} onClose={() => setPermissionsUser(null)} />
+            )}
+
+            {editingId === null ? (
+                <button className="btn btn-secondary" onClick={() => startEdit(null)}>
+                    <Plus size={16} />
+                    {t('auth.addUser')}
+                </button>
+            ) : (
+                <form className="connection-modal-form users-form" onSubmit={handleSave}>
+                    <div className="form-row">
+                        <div className="form-group">
+                            <label htmlFor="user-username">{t('auth.username')}</label>
+                            <input
+                                id="user-username"
+                                type="text"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                disabled={saving}
+                            />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="user-password">
+                                {editingId === 'new' ? t('auth.password') : t('auth.newPasswordOptional')}
+                            </label>
+                            <input
+                                id="user-password"
+                                type="password"
+                                autoComplete="new-password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                disabled={saving}
+                            />
+                        </div>
+                    </div>
+                    <label className="form-checkbox">
+                        <input
+                            type="checkbox"
+                            checked={isAdmin}
+                            onChange={(e) => setIsAdmin(e.target.checked)}
+                            disabled={saving || editingId === currentUserId}
+                        />
+                        {t('auth.isAdmin')}
+                    </label>
+                    <div className="modal-actions">
+                        <button type="button" className="btn btn-secondary" onClick={() => setEditingId(null)} disabled={saving}>
+                            <X size={16} />
+                            {t('common.cancel')}
+                        </button>
+                        <button type="submit" className="btn btn-primary" disabled={saving}>
+                            {saving ? <Loader2 size={16} className="spin" /> : <Save size={16} />}
+                            {t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {error && <div className="error-message">{error}</div>}
+        </div>
+    );
+};
+
+interface UserPermissionsEditorProps {
+    user: ManagedUser;
+    onClose: () => void;
+}
+
+const ROLE_OPTIONS: ConnectionRole[] = ['viewer', 'editor', 'admin'];
+
+const UserPermissionsEditor: React.FC<UserPermissionsEditorProps> = ({ user, onClose }) => {
+    const { t } = useTranslation();
+    const [connections, setConnections] = useState<SavedConnection[]>([]);
+    const [roles, setRoles] = useState<Record<number, ConnectionRole>>({});
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const [allConnections, permissions] = await Promise.all([
+                    getSavedConnections(),
+                    getUserPermissions(user.id),
+                ]);
+                setConnections(allConnections);
+                setRoles(Object.fromEntries(permissions.map((p) => [p.connection_id, p.role])));
+            } catch (err: any) {
+                setError(translateError(err));
+            } finally {
+                setLoading(false);
+            }
+        };
+        load();
+    }, [user.id]);
+
+    const handleChange = async (connectionId: number, value: ConnectionRole | '') => {
+        setSavingId(connectionId);
+        setError(null);
+        try {
+            if (value) {
+                await setUserPermission(user.id, connectionId, value);
+                setRoles((prev) => ({ ...prev, [connectionId]: value }));
+            } else {
+                await deleteUserPermission(user.id, connectionId);
+                setRoles((prev) => {
+                    const next = { ...prev };
+                    delete next[connectionId];
+                    return next;
+                });
+            }
+        } catch (err: any) {
+            setError(translateError(err));
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    return (
+        <div className="user-permissions">
+            <div className="user-permissions-header">
+                <span>{t('permissions.titleFor', { username: user.username })}</span>
+                <button className="btn btn-icon" onClick={onClose} title={t('common.close')}>
+                    <X size={14} />
+                </button>
+            </div>
+            {loading ? (
+                <div className="welcome-loading">
+                    <Loader2 size={20} className="spin" />
+                </div>
+            ) : connections.length === 0 ? (
+                <div className="no-connections">{t('connection.noSavedConnections')}</div>
+            ) : (
+                <table className="users-table">
+                    <tbody>
+                        {connections.map((conn) => (
+                            <tr key={conn.id}>
+                                <td>
+                                    <span className="connection-color-dot" style={{ backgroundColor: conn.color }} />
+                                    {conn.name}
+                                </td>
+                                <td className="users-table-actions">
+                                    <select
+                                        className="page-size-select"
+                                        value={roles[conn.id] || ''}
+                                        onChange={(e) => handleChange(conn.id, e.target.value as ConnectionRole | '')}
+                                        disabled={savingId === conn.id}
+                                    >
+                                        <option value="">{t('permissions.noAccess')}</option>
+                                        {ROLE_OPTIONS.map((role) => (
+                                            <option key={role} value={role}>{t(`permissions.roles.${role}`)}</option>
+                                        ))}
+                                    </select>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {error && <div className="error-message">{error}</div>}
+        </div>
+    );
+};
@@ -2,10 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Plus, Loader, Server } from 'lucide-react';
 import { getSavedConnections, connectWithSavedConnection, SavedConnection } from '../api/elasticsearchClient';
+import { formatConnectionEndpoint } from '../utils/formatters';
 
 interface WelcomeScreenProps {
     onConnectionSuccess: () => void;
-    onAddNewConnection: () => void;
+    // Missing for users who may not save connections
+    onAddNewConnection?: () => void;
 }
 
 export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
@@ -84,7 +86,7 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
                                             <Server size={16} />
                                             <span className="connection-card-name">{conn.name}</span>
                                         </div>
-                                        <span className="connection-card-url">{conn.url}</span>
+                                        <span className="connection-card-url">{formatConnectionEndpoint(conn)}</span>
                                     </div>
                                     {connecting === conn.id && (
                                         <Loader size={16} className="spin connection-card-loader" />
@@ -93,13 +95,15 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
                             ))}
                         </div>
 
-                        <button
-                            className="btn btn-secondary btn-add-connection"
-                            onClick={onAddNewConnection}
-                        >
-                            <Plus size={16} />
-                            {t('connection.addNew')}
-                        </button>
+                        {onAddNewConnection && (
+                            <button
+                                className="btn btn-secondary btn-add-connection"
+                                onClick={onAddNewConnection}
+                            >
+                                <Plus size={16} />
+                                {t('connection.addNew')}
+                            </button>
+                        )}
 
                         {error && (
                             <div className="error-message">
@@ -110,14 +114,20 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
                 ) : (
                     <div className="welcome-empty">
                         <h3>{t('welcome.noConnections')}</h3>
-                        <p>{t('welcome.addFirstConnection')}</p>
-                        <button
-                            className="btn btn-primary btn-lg"
-                            onClick={onAddNewConnection}
-                        >
-                            <Plus size={18} />
-                            {t('welcome.addFirstButton')}
-                        </button>
+                        {onAddNewConnection ? (
+                            <>
+                                <p>{t('welcome.addFirstConnection')}</p>
+                                <button
+                                    className="btn btn-primary btn-lg"
+                                    onClick={onAddNewConnection}
+                                >
+                                    <Plus size={18} />
+                                    {t('welcome.addFirstButton')}
+                                </button>
+                            </>
+                        ) : (
+                            <p>{t('welcome.askAdmin')}</p>
+                        )}
                     </div>
                 )}
             </div>
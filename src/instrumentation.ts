@@ -0,0 +1,13 @@
+// Runs once when the server starts, so a missing ENCRYPTION_KEY stops `next start`
+// instead of surfacing on the first API request
+export const register = async () => {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+    const { checkEncryptionKey } = await import('../server/database/encryption');
+    try {
+        checkEncryptionKey();
+    } catch (error: any) {
+        // A throwing hook only fails requests; exit so the refusal is visible
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+    }
+};
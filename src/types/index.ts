@@ -19,12 +19,21 @@ export interface SearchHit {
     _id: string;
     _score: number;
     _source: Record<string, any>;
+    // Fragments per field with the matched terms marked, when highlighting was requested
+    highlight?: Record<string, string[]>;
 }
 
 export interface SearchResult {
     total: number;
+    // 'gte' when the total is a lower bound
+    totalRelation?: 'eq' | 'gte';
     hits: SearchHit[];
     took: number;
+    // Deep paging: point in time to keep using and cursor of the next page
+    pitId?: string;
+    searchAfter?: unknown[];
+    // The point in time had expired and was reopened, earlier cursors are invalid
+    pitRestarted?: boolean;
 }
 
 // ==================== FILTER TYPES ====================
@@ -49,6 +58,46 @@ export interface Facet {
     buckets: FacetBucket[];
 }
 
+// ==================== AGGREGATION TYPES ====================
+
+export type AggregationType =
+    | 'terms'
+    | 'histogram'
+    | 'date_histogram'
+    | 'range'
+    | 'stats'
+    | 'percentiles'
+    | 'cardinality'
+    | 'missing';
+
+// One aggregation of the aggregation builder; bucket aggregations may hold sub-aggregations
+export interface AggregationNode {
+    // Name of the aggregation in the response
+    id: string;
+    type: AggregationType;
+    field: string;
+    // terms: number of buckets
+    size?: number;
+    // histogram: numeric step; date_histogram: calendar unit (day) or fixed interval (30m)
+    interval?: number | string;
+    ranges?: Array<{ from?: number; to?: number }>;
+    percents?: number[];
+    children?: AggregationNode[];
+}
+
+export type AggregationChartType = 'bar' | 'line' | 'pie' | 'table';
+
+// Builder state stored with saved searches
+export interface AggregationBuilderState {
+    nodes: AggregationNode[];
+    chartType: AggregationChartType;
+}
+
+export interface AggregationRunResult {
+    aggregations: Record<string, any> | null;
+    took: number;
+}
+
 // ==================== CLUSTER TYPES ====================
 
 export interface ClusterHealth {
@@ -116,6 +165,188 @@ export interface ClusterStats {
     };
 }
 
+// ==================== SNAPSHOT TYPES ====================
+
+export interface SnapshotRepository {
+    name: string;
+    type: string;
+    // Filesystem path or bucket, whichever the repository type uses
+    location: string | null;
+}
+
+export interface SnapshotInfo {
+    snapshot: string;
+    uuid: string;
+    // IN_PROGRESS, SUCCESS, PARTIAL, FAILED or INCOMPATIBLE
+    state: string;
+    indices: string[];
+    includeGlobalState: boolean;
+    startTime: number | null;
+    endTime: number | null;
+    durationMs: number | null;
+    shards: { total: number; successful: number; failed: number };
+    failures: Array<{ index: string; reason: string }>;
+}
+
+export interface SnapshotProgress {
+    state: string;
+    shards: { done: number; failed: number; total: number };
+    bytes: { processed: number; total: number };
+}
+
+export interface SnapshotRestoreOptions {
+    // Empty restores every index of the snapshot
+    indices: string[];
+    renamePattern?: string;
+    renameReplacement?: string;
+}
+
+// ==================== ILM TYPES ====================
+
+export type IlmPhase = 'hot' | 'warm' | 'cold' | 'frozen' | 'delete';
+
+export interface IlmPhaseDefinition {
+    // Age of the index (since rollover or creation) at which the phase starts, e.g. "30d"
+    min_age?: string;
+    actions: Record<string, any>;
+}
+
+export interface IlmPolicyBody {
+    phases: Partial<Record<IlmPhase, IlmPhaseDefinition>>;
+    _meta?: Record<string, any>;
+}
+
+export interface IlmPolicy {
+    name: string;
+    version: number | null;
+    modifiedDate: string | null;
+    policy: IlmPolicyBody;
+    // Not reported by clusters before 7.12
+    inUseBy: { indices: string[]; dataStreams: string[]; composableTemplates: string[] } | null;
+}
+
+// _ilm/explain entry of an index
+export interface IlmExplain {
+    index: string;
+    managed: boolean;
+    policy?: string;
+    phase?: string;
+    action?: string;
+    // "ERROR" when the lifecycle stopped; failed_step and step_info tell why
+    step?: string;
+    age?: string;
+    failed_step?: string;
+    step_info?: Record<string, any>;
+    is_auto_retryable_error?: boolean;
+    failed_step_retry_count?: number;
+    lifecycle_date_millis?: number;
+    phase_time_millis?: number;
+}
+
+// ==================== AUTH TYPES ====================
+
+export interface AuthUser {
+    id: number;
+    username: string;
+    is_admin: boolean;
+}
+
+export interface AuthStatus {
+    authEnabled: boolean;
+    user: AuthUser | null;
+}
+
+export interface ManagedUser extends AuthUser {
+    last_login_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface UserInput {
+    username: string;
+    password?: string;
+    is_admin?: boolean;
+}
+
+export type ConnectionRole = 'viewer' | 'editor' | 'admin';
+
+export interface ConnectionPermission {
+    id: number;
+    user_id: number;
+    connection_id: number;
+    role: ConnectionRole;
+    created_at: string;
+    updated_at: string;
+}
+
+// ==================== REQUEST POLICY TYPES ====================
+
+export type RequestPolicyAction = 'allow' | 'confirm' | 'deny';
+
+export interface RequestPolicyRuleInput {
+    action: RequestPolicyAction;
+    // HTTP method, or `*` for any method
+    method: string;
+    path_pattern: string;
+}
+
+export interface RequestPolicyRule extends RequestPolicyRuleInput {
+    id: number;
+    connection_id: number;
+    position: number;
+    created_at: string;
+}
+
+export interface RequestPolicy {
+    rules: RequestPolicyRule[];
+    // Built-in rules evaluated after the connection's own rules
+    defaults: RequestPolicyRuleInput[];
+}
+
+export interface RequestConfirmation {
+    token: string;
+    phrase: string;
+    method: string;
+    path: string;
+    rule: (RequestPolicyRuleInput & { source: 'connection' | 'default' }) | null;
+    expiresAt: string;
+}
+
+// ==================== AUDIT TYPES ====================
+
+export interface AuditLogEntry {
+    id: number;
+    connection_id: number | null;
+    connection_name: string | null;
+    user_id: number | null;
+    username: string | null;
+    session_hash: string | null;
+    action: string;
+    method: string;
+    path: string;
+    target: string | null;
+    body_hash: string | null;
+    result: 'success' | 'failure';
+    status_code: number;
+    error: string | null;
+    created_at: string;
+}
+
+export interface AuditLogFilter {
+    connectionId?: number;
+    username?: string;
+    action?: string;
+    result?: 'success' | 'failure';
+    search?: string;
+    from?: string;
+    to?: string;
+}
+
+export interface AuditLogPage {
+    entries: AuditLogEntry[];
+    total: number;
+}
+
 // ==================== CONNECTION TYPES ====================
 
 export interface ConnectionStatus {
@@ -124,15 +355,29 @@ export interface ConnectionStatus {
     connected: boolean;
     name: string;
     color: string;
+    role: ConnectionRole | null;
+    readOnly: boolean;
 }
 
+export type ConnectionAuthType = 'basic' | 'apiKey' | 'bearer' | 'none';
+
 export interface SavedConnection {
     id: number;
     name: string;
     url: string;
+    cloud_id: string | null;
+    auth_type: ConnectionAuthType;
     username: string | null;
     password: string | null;
+    auth_token: string | null;
     color: string;
+    tls_verify: boolean;
+    tls_ca: string | null;
+    tls_cert: string | null;
+    tls_key: string | null;
+    tls_ca_fingerprint: string | null;
+    read_only: boolean;
+    role?: ConnectionRole;
     created_at: string;
     updated_at: string;
 }
@@ -140,14 +385,40 @@ export interface SavedConnection {
 export interface CreateConnectionInput {
     name: string;
     url: string;
+    cloud_id?: string;
+    auth_type?: ConnectionAuthType;
     username?: string;
     password?: string;
+    auth_token?: string;
     color?: string;
+    tls_verify?: boolean;
+    tls_ca?: string;
+    tls_cert?: string;
+    tls_key?: string;
+    tls_ca_fingerprint?: string;
+    read_only?: boolean;
 }
 
 // ==================== QUERY TYPES ====================
 
-export interface SavedQuery {
+// Organisation fields shared by saved REST and search queries
+export interface SavedQueryMetadata {
+    // Connection the query belongs to, or null when it is shared by all connections
+    connection_id: number | null;
+    folder: string | null;
+    tags: string[];
+    description: string | null;
+    last_used_at: string | null;
+}
+
+export interface SavedQueryMetadataInput {
+    connection_id?: number | null;
+    folder?: string | null;
+    tags?: string[];
+    description?: string | null;
+}
+
+export interface SavedQuery extends SavedQueryMetadata {
     id: number;
     name: string;
     method: string;
@@ -157,14 +428,14 @@ export interface SavedQuery {
     updated_at: string;
 }
 
-export interface CreateQueryInput {
+export interface CreateQueryInput extends SavedQueryMetadataInput {
     name: string;
     method: string;
     path: string;
     body?: string;
 }
 
-export interface SavedSearchQuery {
+export interface SavedSearchQuery extends SavedQueryMetadata {
     id: number;
     name: string;
     index_pattern: string;
@@ -176,7 +447,7 @@ export interface SavedSearchQuery {
     updated_at: string;
 }
 
-export interface CreateSearchQueryInput {
+export interface CreateSearchQueryInput extends SavedQueryMetadataInput {
     name: string;
     index_pattern: string;
     query: string; // JSON stringified query
@@ -224,12 +495,97 @@ export interface CopyResult {
     errors?: number;
 }
 
+// Bulk Import Types
+export interface BulkImportDocument {
+    // Left out to let Elasticsearch generate the id
+    id?: string;
+    source: Record<string, unknown>;
+}
+
+export interface BulkImportInput {
+    documents: BulkImportDocument[];
+    // 'create' fails for ids that already exist instead of overwriting them
+    op_type?: 'index' | 'create';
+    // Set on the last batch so the documents are searchable when the import ends
+    refresh?: boolean;
+}
+
+export interface BulkImportItemError {
+    // Position of the document in the batch
+    position: number;
+    id: string | null;
+    status: number;
+    type: string | null;
+    reason: string;
+}
+
+export interface BulkImportResult {
+    indexed: number;
+    failed: number;
+    errors: BulkImportItemError[];
+    took: number;
+}
+
+// Document Bulk Action Types
+export type DocumentBulkAction = 'delete' | 'set' | 'unset';
+
+export interface DocumentBulkActionInput {
+    action: DocumentBulkAction;
+    // Dotted path of the field to set or unset
+    field?: string;
+    value?: unknown;
+    // Selected documents; without ids the action applies to every document matching `query`
+    ids?: string[];
+    query?: object | null;
+}
+
+export interface DocumentBulkActionResult {
+    succeeded: number;
+    failed: number;
+    errors: BulkImportItemError[];
+    took: number;
+}
+
 // ==================== REST API TYPES ====================
 
 export interface RestRequestInput {
     method: 'GET' | 'POST' | 'PUT' | 'DELETE';
     path: string;
     body?: object;
+    // Answer to a CONFIRMATION_REQUIRED challenge
+    confirmToken?: string;
+    confirmPhrase?: string;
+}
+
+export interface RestHistoryEntry {
+    id: number;
+    connection_id: number | null;
+    user_id: number | null;
+    method: string;
+    path: string;
+    body: string | null;
+    status_code: number;
+    execution_time_ms: number;
+    // Serialized response, cut to the configured size when `response_truncated`
+    response: string | null;
+    response_truncated: boolean;
+    created_at: string;
+}
+
+export type RestHistorySummary = Omit<RestHistoryEntry, 'response'>;
+
+// Server-side retention limits, configured with the REST_HISTORY_* variables
+export interface RestHistorySettings {
+    enabled: boolean;
+    max_entries: number;
+    retention_days: number;
+    max_payload_kb: number;
+}
+
+export interface RestHistoryPage {
+    entries: RestHistorySummary[];
+    total: number;
+    settings: RestHistorySettings;
 }
 
 // ==================== INDEX CREATION TYPES ====================
@@ -0,0 +1,323 @@
+import type { AggregationNode, AggregationType } from '../types';
+import type { FieldInfo } from '../components/QueryBuilder';
+
+export const AGGREGATION_TYPES: AggregationType[] = [
+    'terms',
+    'histogram',
+    'date_histogram',
+    'range',
+    'stats',
+    'percentiles',
+    'cardinality',
+    'missing',
+];
+
+export const CALENDAR_INTERVALS = ['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+// Sub-aggregations can be nested this deep; mirrors the server limit
+export const MAX_AGGREGATION_DEPTH = 3;
+
+const NUMERIC_TYPES = ['long', 'integer', 'short', 'byte', 'double', 'float', 'half_float', 'scaled_float', 'unsigned_long'];
+const DATE_TYPES = ['date', 'date_nanos'];
+
+// Mapping types an aggregation can run on; text fields only through their .keyword subfield
+const FIELD_TYPES: Record<AggregationType, string[]> = {
+    terms: ['keyword', 'boolean', 'ip', ...NUMERIC_TYPES, ...DATE_TYPES],
+    histogram: NUMERIC_TYPES,
+    date_histogram: DATE_TYPES,
+    range: NUMERIC_TYPES,
+    stats: NUMERIC_TYPES,
+    percentiles: NUMERIC_TYPES,
+    cardinality: ['keyword', 'boolean', 'ip', ...NUMERIC_TYPES, ...DATE_TYPES],
+    missing: ['keyword', 'boolean', 'ip', ...NUMERIC_TYPES, ...DATE_TYPES],
+};
+
+export const isBucketAggregation = (type: AggregationType): boolean =>
+    type === 'terms' || type === 'histogram' || type === 'date_histogram' || type === 'range';
+
+/**
+ * Fields an aggregation type can use. Fields inside nested objects are left out,
+ * they would need a nested aggregation around them.
+ */
+export const getAggregationFields = (fields: FieldInfo[], type: AggregationType): string[] => {
+    const result: string[] = [];
+    for (const field of fields) {
+        if (field.isNested || field.nestedPath) continue;
+        if (FIELD_TYPES[type].includes(field.type)) result.push(field.name);
+        const keyword = field.fields?.keyword;
+        if (keyword && FIELD_TYPES[type].includes(keyword.type)) result.push(keyword.name);
+    }
+    return result;
+};
+
+const collectIds = (nodes: AggregationNode[], ids: Set<string>) => {
+    for (const node of nodes) {
+        ids.add(node.id);
+        collectIds(node.children || [], ids);
+    }
+};
+
+export const createAggregationNode = (type: AggregationType, existing: AggregationNode[]): AggregationNode => {
+    const ids = new Set<string>();
+    collectIds(existing, ids);
+    let n = 1;
+    while (ids.has(`${type}_${n}`)) n++;
+
+    const node: AggregationNode = { id: `${type}_${n}`, type, field: '' };
+    if (type === 'terms') node.size = 10;
+    if (type === 'histogram') node.interval = 100;
+    if (type === 'date_histogram') node.interval = 'day';
+    if (type === 'range') node.ranges = [{ to: 100 }, { from: 100, to: 1000 }, { from: 1000 }];
+    if (type === 'percentiles') node.percents = [50, 95, 99];
+    if (isBucketAggregation(type)) node.children = [];
+    return node;
+};
+
+// ==================== TEXT INPUTS ====================
+
+// "-100, 100-500, 500-" <-> [{ to: 100 }, { from: 100, to: 500 }, { from: 500 }]
+export const formatRanges = (ranges: AggregationNode['ranges']): string =>
+    (ranges || []).map(range => `${range.from ?? ''}-${range.to ?? ''}`).join(', ');
+
+export const parseRanges = (text: string): AggregationNode['ranges'] =>
+    text.split(',').map(part => part.trim()).filter(Boolean).flatMap(part => {
+        const match = part.match(/^(-?\d+(?:\.\d+)?)?\s*-\s*(-?\d+(?:\.\d+)?)?$/);
+        if (!match || (match[1] === undefined && match[2] === undefined)) return [];
+        return [{
+            ...(match[1] !== undefined ? { from: Number(match[1]) } : {}),
+            ...(match[2] !== undefined ? { to: Number(match[2]) } : {}),
+        }];
+    });
+
+export const parsePercents = (text: string): number[] =>
+    text.split(',').map(part => part.trim()).filter(Boolean).map(Number)
+        .filter(value => Number.isFinite(value) && value >= 0 && value <= 100);
+
+// ==================== RESULTS ====================
+
+export interface ChartPoint {
+    label: string;
+    value: number;
+}
+
+export interface AggregationTable {
+    // One column per bucket level, then the document count and metric values
+    keyColumns: string[];
+    valueColumns: string[];
+    rows: Array<{ keys: string[]; values: Record<string, number | null> }>;
+}
+
+// Metrics with one value are labelled by their name alone
+const isSingleValueMetric = (type: AggregationType) => type === 'cardinality' || type === 'missing';
+
+const bucketLabel = (bucket: any): string => String(bucket.key_as_string ?? bucket.key);
+
+// Buckets of a bucket aggregation result; keyed range results become a list
+const getBuckets = (result: any): any[] => {
+    const buckets = result?.buckets;
+    if (Array.isArray(buckets)) return buckets;
+    if (buckets && typeof buckets === 'object') return Object.entries(buckets).map(([key, bucket]: [string, any]) => ({ key, ...bucket }));
+    return [];
+};
+
+// Values of a metric aggregation result, labelled for tables and charts
+export const getMetricValues = (node: AggregationNode, result: any): Array<[string, number | null]> => {
+    if (!result) return [];
+    if (node.type === 'stats') {
+        return (['avg', 'min', 'max', 'sum', 'count'] as const).map(key => [key, result[key] ?? null]);
+    }
+    if (node.type === 'percentiles') {
+        // Date fields also return "50.0_as_string" entries
+        return Object.entries(result.values || {})
+            .filter(([percent]) => !percent.endsWith('_as_string'))
+            .map(([percent, value]) => [`p${Number(percent)}`, value as number | null]);
+    }
+    if (node.type === 'missing') return [[node.id, result.doc_count ?? null]];
+    return [[node.id, result.value ?? null]];
+};
+
+/**
+ * Chart data of a top-level aggregation. Buckets are charted by their first metric
+ * sub-aggregation when there is one (stats by its average), otherwise by document count.
+ */
+export const getChartData = (node: AggregationNode, result: any): ChartPoint[] => {
+    if (!isBucketAggregation(node.type)) {
+        return getMetricValues(node, result)
+            .filter((entry): entry is [string, number] => entry[1] !== null)
+            .map(([label, value]) => ({ label, value }));
+    }
+
+    const metric = (node.children || []).find(child => !isBucketAggregation(child.type));
+    return getBuckets(result).map(bucket => {
+        const value = metric ? getMetricValues(metric, bucket[metric.id])[0]?.[1] : bucket.doc_count;
+        return { label: bucketLabel(bucket), value: value ?? 0 };
+    });
+};
+
+/**
+ * Flatten a result into table rows. The first bucket sub-aggregation of each level
+ * is expanded into rows; metric sub-aggregations become value columns.
+ */
+export const getAggregationTable = (node: AggregationNode, result: any): AggregationTable => {
+    const keyColumns: string[] = [];
+    const valueColumns: string[] = [];
+
+    // Columns follow the first bucket chain of the definition
+    let level: AggregationNode | undefined = node;
+    while (level) {
+        if (isBucketAggregation(level.type)) {
+            keyColumns.push(level.id);
+            if (!valueColumns.includes('doc_count')) valueColumns.push('doc_count');
+        }
+        const metrics = isBucketAggregation(level.type)
+            ? (level.children || []).filter(child => !isBucketAggregation(child.type))
+            : [level];
+        for (const metric of metrics) {
+            const labels = metric.type === 'stats'
+                ? ['avg', 'min', 'max', 'sum', 'count']
+                : metric.type === 'percentiles'
+                    ? (metric.percents || []).map(percent => `p${percent}`)
+                    : [metric.id];
+            labels.forEach(label => valueColumns.push(isSingleValueMetric(metric.type) ? label : `${metric.id}.${label}`));
+        }
+        level = isBucketAggregation(level.type)
+            ? (level.children || []).find(child => isBucketAggregation(child.type))
+            : undefined;
+    }
+
+    const metricRow = (metric: AggregationNode, metricResult: any): Record<string, number | null> => {
+        const values: Record<string, number | null> = {};
+        for (const [label, value] of getMetricValues(metric, metricResult)) {
+            values[isSingleValueMetric(metric.type) ? label : `${metric.id}.${label}`] = value;
+        }
+        return values;
+    };
+
+    const rows: AggregationTable['rows'] = [];
+    const walk = (current: AggregationNode, currentResult: any, keys: string[]) => {
+        if (!isBucketAggregation(current.type)) {
+            rows.push({ keys, values: metricRow(current, currentResult) });
+            return;
+        }
+        const metrics = (current.children || []).filter(child => !isBucketAggregation(child.type));
+        const next = (current.children || []).find(child => isBucketAggregation(child.type));
+
+        for (const bucket of getBuckets(currentResult)) {
+            const values: Record<string, number | null> = { doc_count: bucket.doc_count };
+            for (const metric of metrics) Object.assign(values, metricRow(metric, bucket[metric.id]));
+
+            const nestedBuckets = next ? getBuckets(bucket[next.id]) : [];
+            if (!next || nestedBuckets.length === 0) {
+                rows.push({ keys: [...keys, bucketLabel(bucket)], values });
+                continue;
+            }
+            const start = rows.length;
+            walk(next, bucket[next.id], [...keys, bucketLabel(bucket)]);
+            // Values of this level repeat on every row of the level below, except its count
+            for (const row of rows.slice(start)) {
+                for (const [column, value] of Object.entries(values)) {
+                    if (column !== 'doc_count') row.values[column] = value;
+                }
+            }
+        }
+    };
+    walk(node, result, []);
+
+    return { keyColumns, valueColumns, rows };
+};
+
+// ==================== FIELD STATISTICS ====================
+
+export type FieldStatsKind = 'keyword' | 'numeric' | 'date';
+
+export interface FieldStatsTarget {
+    // Field the statistics run on; text fields use their .keyword subfield
+    field: string;
+    kind: FieldStatsKind;
+}
+
+export const FIELD_STATS_PERCENTS = [1, 5, 25, 50, 75, 95, 99];
+
+const KEYWORD_TYPES = ['keyword', 'boolean', 'ip'];
+
+/**
+ * Resolve a column to the field its statistics can run on, or null when the field
+ * can't be aggregated (nested, object or text without a .keyword subfield).
+ */
+export const getFieldStatsTarget = (fields: FieldInfo[], name: string): FieldStatsTarget | null => {
+    const info = fields.find(field => field.name === name || field.fields?.keyword?.name === name);
+    if (!info || info.isNested || info.nestedPath) return null;
+
+    const field = info.name === name ? info : info.fields!.keyword!;
+    if (NUMERIC_TYPES.includes(field.type)) return { field: field.name, kind: 'numeric' };
+    if (DATE_TYPES.includes(field.type)) return { field: field.name, kind: 'date' };
+    if (KEYWORD_TYPES.includes(field.type)) return { field: field.name, kind: 'keyword' };
+    if (field.fields?.keyword) return { field: field.fields.keyword.name, kind: 'keyword' };
+    return null;
+};
+
+export const buildFieldStatsNodes = ({ field, kind }: FieldStatsTarget): AggregationNode[] => {
+    const nodes: AggregationNode[] = [{ id: 'missing', type: 'missing', field }];
+    if (kind !== 'date') {
+        nodes.push(
+            { id: 'top_values', type: 'terms', field, size: 10 },
+            { id: 'cardinality', type: 'cardinality', field }
+        );
+    }
+    if (kind !== 'keyword') {
+        nodes.push(
+            { id: 'stats', type: 'stats', field },
+            { id: 'percentiles', type: 'percentiles', field, percents: FIELD_STATS_PERCENTS }
+        );
+    }
+    return nodes;
+};
+
+export interface FieldStatistic {
+    label: string;
+    // Dates are shown and filtered by their formatted value
+    display: string;
+}
+
+export interface FieldStatistics {
+    missing: number;
+    cardinality?: number;
+    topValues?: Array<{ key: string; count: number }>;
+    // Documents with a value outside the top values
+    otherCount?: number;
+    summary?: FieldStatistic[];
+}
+
+export const getFieldStatistics = (target: FieldStatsTarget, aggregations: Record<string, any>): FieldStatistics => {
+    const result: FieldStatistics = { missing: aggregations.missing?.doc_count ?? 0 };
+    const format = (value: number, asString?: string) =>
+        target.kind === 'date' && asString ? asString : String(Number(value.toFixed(4)));
+
+    if (aggregations.top_values) {
+        result.topValues = getBuckets(aggregations.top_values).map(bucket => ({
+            key: bucketLabel(bucket),
+            count: bucket.doc_count,
+        }));
+        result.otherCount = aggregations.top_values.sum_other_doc_count ?? 0;
+    }
+    if (aggregations.cardinality) result.cardinality = aggregations.cardinality.value ?? 0;
+
+    if (aggregations.stats) {
+        const stats = aggregations.stats;
+        const summary: FieldStatistic[] = [];
+        for (const key of ['min', 'max', 'avg'] as const) {
+            if (stats[key] === null || stats[key] === undefined) continue;
+            summary.push({ label: key, display: format(stats[key], stats[`${key}_as_string`]) });
+        }
+        const values = aggregations.percentiles?.values || {};
+        for (const [percent, value] of Object.entries(values)) {
+            if (percent.endsWith('_as_string') || value === null) continue;
+            summary.push({
+                label: `p${Number(percent)}`,
+                display: format(value as number, values[`${percent}_as_string`]),
+            });
+        }
+        result.summary = summary;
+    }
+    return result;
+};
@@ -0,0 +1,245 @@
+import type { BulkImportDocument } from '../types';
+
+export type ImportFileFormat = 'csv' | 'ndjson' | 'json';
+
+export type ImportFieldType = 'text' | 'keyword' | 'long' | 'double' | 'boolean' | 'date';
+
+export const IMPORT_FIELD_TYPES: ImportFieldType[] = ['text', 'keyword', 'long', 'double', 'boolean', 'date'];
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export interface ImportColumn {
+    // Header as it appears in the file
+    header: string;
+    field: string;
+    type: ImportFieldType;
+    include: boolean;
+}
+
+export interface ParsedImportFile {
+    format: ImportFileFormat;
+    // CSV only: header row and data rows as raw strings
+    headers: string[];
+    rows: string[][];
+    // NDJSON and JSON: the parsed objects
+    objects: Record<string, any>[];
+}
+
+// A row that could not be turned into a document, reported next to the bulk failures
+export interface ImportRowError {
+    row: number;
+    id?: string;
+    reason: string;
+}
+
+export const detectImportFormat = (fileName: string): ImportFileFormat => {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.ndjson') || name.endsWith('.jsonl')) return 'ndjson';
+    if (name.endsWith('.json')) return 'json';
+    return 'csv';
+};
+
+// ==================== PARSING ====================
+
+// The delimiter that splits the header line into the most columns
+export const detectCsvDelimiter = (text: string): string => {
+    const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+    return CSV_DELIMITERS.reduce((best, delimiter) =>
+        firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+    );
+};
+
+// RFC 4180 parser: quoted values may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+
+    if (value !== '' || row.length > 0) {
+        row.push(value);
+        rows.push(row);
+    }
+    // Blank lines are not records
+    return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+};
+
+/**
+ * Parse an uploaded file. JSON files may hold an array of documents or a search
+ * response (`hits.hits`). Throws with the offending line for invalid NDJSON.
+ */
+export const parseImportFile = (text: string, format: ImportFileFormat, delimiter = ','): ParsedImportFile => {
+    // Strip the byte order mark spreadsheet apps put in front of UTF-8 files
+    const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    if (format === 'csv') {
+        const [headers = [], ...rows] = parseCsv(content, delimiter);
+        return { format, headers: headers.map(header => header.trim()), rows, objects: [] };
+    }
+
+    let objects: unknown[];
+    if (format === 'ndjson') {
+        objects = [];
+        const lines = content.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            if (!lines[i].trim()) continue;
+            try {
+                objects.push(JSON.parse(lines[i]));
+            } catch {
+                throw new Error(`Line ${i + 1}: invalid JSON`);
+            }
+        }
+    } else {
+        const data = JSON.parse(content);
+        objects = Array.isArray(data) ? data : Array.isArray(data?.hits?.hits) ? data.hits.hits : [data];
+    }
+
+    if (objects.some(item => item === null || typeof item !== 'object' || Array.isArray(item))) {
+        throw new Error('Every entry must be a JSON object');
+    }
+    return { format, headers: [], rows: [], objects: objects as Record<string, any>[] };
+};
+
+// Search hits and our own exports wrap the document in _source next to its _id
+export const isHitShaped = (objects: Record<string, any>[]): boolean =>
+    objects.length > 0 && objects.every(item => item._source !== null && typeof item._source === 'object');
+
+// ==================== MAPPING ====================
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN_VALUES = ['true', 'false'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Guess a field type from the non-empty values of a column sample
+export const inferFieldType = (values: string[]): ImportFieldType => {
+    const sample = values.map(value => value.trim()).filter(Boolean);
+    if (sample.length === 0) return 'text';
+    if (sample.every(value => INTEGER_PATTERN.test(value))) return 'long';
+    if (sample.every(value => NUMBER_PATTERN.test(value))) return 'double';
+    if (sample.every(value => BOOLEAN_VALUES.includes(value.toLowerCase()))) return 'boolean';
+    if (sample.every(value => DATE_PATTERN.test(value))) return 'date';
+    return 'text';
+};
+
+export const createImportColumns = (parsed: ParsedImportFile): ImportColumn[] => {
+    const sample = parsed.rows.slice(0, 200);
+    return parsed.headers.map((header, i) => ({
+        header,
+        field: header || `column_${i + 1}`,
+        type: inferFieldType(sample.map(row => row[i] ?? '')),
+        include: true,
+    }));
+};
+
+const convertValue = (value: string, type: ImportFieldType): unknown => {
+    const trimmed = value.trim();
+    switch (type) {
+        case 'long':
+            if (!INTEGER_PATTERN.test(trimmed)) throw new Error(`"${value}" is not an integer`);
+            return Number(trimmed);
+        case 'double':
+            if (!NUMBER_PATTERN.test(trimmed)) throw new Error(`"${value}" is not a number`);
+            return Number(trimmed);
+        case 'boolean':
+            if (!BOOLEAN_VALUES.includes(trimmed.toLowerCase())) throw new Error(`"${value}" is not a boolean`);
+            return trimmed.toLowerCase() === 'true';
+        case 'date':
+            return trimmed;
+        default:
+            return value;
+    }
+};
+
+export interface ImportDocumentsResult {
+    documents: BulkImportDocument[];
+    // 1-based row number in the file of every document, for the report
+    rowNumbers: number[];
+    errors: ImportRowError[];
+}
+
+/**
+ * Turn the parsed file into bulk documents. CSV cells are converted to the
+ * mapped types, empty cells are left out. `idField` names the CSV column or
+ * JSON property holding the document id; hit-shaped JSON uses `_id`.
+ */
+export const buildImportDocuments = (
+    parsed: ParsedImportFile,
+    columns: ImportColumn[],
+    idField: string
+): ImportDocumentsResult => {
+    const result: ImportDocumentsResult = { documents: [], rowNumbers: [], errors: [] };
+
+    if (parsed.format === 'csv') {
+        const idIndex = idField ? parsed.headers.indexOf(idField) : -1;
+        parsed.rows.forEach((row, r) => {
+            // The header is row 1
+            const rowNumber = r + 2;
+            const id = idIndex >= 0 ? row[idIndex]?.trim() || undefined : undefined;
+            try {
+                const source: Record<string, unknown> = {};
+                columns.forEach((column, i) => {
+                    const cell = row[i];
+                    if (!column.include || cell === undefined || cell.trim() === '') return;
+                    source[column.field] = convertValue(cell, column.type);
+                });
+                result.documents.push({ id, source });
+                result.rowNumbers.push(rowNumber);
+            } catch (error: any) {
+                result.errors.push({ row: rowNumber, id, reason: error.message });
+            }
+        });
+        return result;
+    }
+
+    const hitShaped = isHitShaped(parsed.objects);
+    parsed.objects.forEach((item, r) => {
+        const source = hitShaped ? item._source : item;
+        const rawId = hitShaped ? item._id : idField ? item[idField] : undefined;
+        result.documents.push({
+            id: rawId === undefined || rawId === null || rawId === '' ? undefined : String(rawId),
+            source,
+        });
+        result.rowNumbers.push(r + 1);
+    });
+    return result;
+};
+
+// Explicit mappings for a new index from the CSV column types
+export const buildImportMappings = (columns: ImportColumn[]) => {
+    const properties: Record<string, object> = {};
+    for (const column of columns) {
+        if (!column.include) continue;
+        properties[column.field] = column.type === 'text'
+            ? { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } }
+            : { type: column.type };
+    }
+    return { properties };
+};
@@ -44,6 +44,17 @@ export const formatDate = (timestamp: number | null | undefined): string => {
     });
 };
 
+/**
+ * Parse a timestamp stored by the server database. SQLite returns UTC values
+ * without a zone ("2026-01-31 12:00:00"), which browsers would read as local time.
+ */
+export const parseServerTimestamp = (value: string | null | undefined): number | null => {
+    if (!value) return null;
+    const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+    const time = new Date(hasZone ? value : `${value.replace(' ', 'T')}Z`).getTime();
+    return isNaN(time) ? null : time;
+};
+
 /**
  * Format timestamp to relative time (e.g., "2d", "3w", "5mo")
  */
@@ -91,3 +102,13 @@ export const getPercentageColorClass = (percent: number): 'success' | 'warning'
     if (percent >= 70) return 'warning';
     return 'success';
 };
+
+/**
+ * Endpoint shown for a saved connection: its URL, or the deployment name for Elastic Cloud
+ */
+export const formatConnectionEndpoint = (connection: { url: string; cloud_id?: string | null }): string => {
+    if (connection.cloud_id) {
+        return `${connection.cloud_id.split(':')[0]} (Elastic Cloud)`;
+    }
+    return connection.url;
+};
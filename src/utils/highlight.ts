@@ -0,0 +1,45 @@
+// Markers the server asks Elasticsearch to put around highlighted terms.
+// Must match server/api/searchPaging.ts
+const HIGHLIGHT_PRE_TAG = '@@es-highlight@@';
+const HIGHLIGHT_POST_TAG = '@@/es-highlight@@';
+
+export interface HighlightPart {
+    text: string;
+    match: boolean;
+}
+
+// Split a fragment into plain and matched parts
+export const splitHighlight = (fragment: string): HighlightPart[] => {
+    const parts: HighlightPart[] = [];
+    let rest = fragment;
+    while (rest) {
+        const start = rest.indexOf(HIGHLIGHT_PRE_TAG);
+        const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_POST_TAG, start);
+        if (start === -1 || end === -1) {
+            parts.push({ text: rest, match: false });
+            break;
+        }
+        if (start > 0) parts.push({ text: rest.slice(0, start), match: false });
+        parts.push({ text: rest.slice(start + HIGHLIGHT_PRE_TAG.length, end), match: true });
+        rest = rest.slice(end + HIGHLIGHT_POST_TAG.length);
+    }
+    return parts;
+};
+
+export const stripHighlight = (fragment: string): string =>
+    fragment.split(HIGHLIGHT_PRE_TAG).join('').split(HIGHLIGHT_POST_TAG).join('');
+
+// Fragments of a field; matches on its .keyword subfield count for the field itself
+export const getFieldHighlight = (
+    highlight: Record<string, string[]> | undefined,
+    field: string
+): string[] | undefined => highlight?.[field] ?? highlight?.[`${field}.keyword`];
+
+// Highlighted fields other than the given ones, for matches outside the visible columns
+export const getOtherHighlights = (
+    highlight: Record<string, string[]> | undefined,
+    fields: string[]
+): Array<[string, string[]]> =>
+    Object.entries(highlight || {}).filter(
+        ([field]) => !fields.some(shown => field === shown || field === `${shown}.keyword`)
+    );
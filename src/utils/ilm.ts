@@ -0,0 +1,99 @@
+import type { IlmPhase, IlmPhaseDefinition, IlmPolicyBody } from '../types';
+
+export const ILM_PHASES: IlmPhase[] = ['hot', 'warm', 'cold', 'frozen', 'delete'];
+
+// A form field edits one setting of an action, or toggles an action without settings
+export interface IlmPhaseField {
+    action: string;
+    setting?: string;
+    type: 'text' | 'number' | 'flag';
+}
+
+// Common actions per phase; actions not listed here are kept as they are and edited as JSON
+export const PHASE_FIELDS: Record<IlmPhase, IlmPhaseField[]> = {
+    hot: [
+        { action: 'rollover', setting: 'max_age', type: 'text' },
+        { action: 'rollover', setting: 'max_primary_shard_size', type: 'text' },
+        { action: 'rollover', setting: 'max_docs', type: 'number' },
+        { action: 'forcemerge', setting: 'max_num_segments', type: 'number' },
+        { action: 'set_priority', setting: 'priority', type: 'number' },
+    ],
+    warm: [
+        { action: 'shrink', setting: 'number_of_shards', type: 'number' },
+        { action: 'forcemerge', setting: 'max_num_segments', type: 'number' },
+        { action: 'allocate', setting: 'number_of_replicas', type: 'number' },
+        { action: 'readonly', type: 'flag' },
+        { action: 'set_priority', setting: 'priority', type: 'number' },
+    ],
+    cold: [
+        { action: 'allocate', setting: 'number_of_replicas', type: 'number' },
+        { action: 'readonly', type: 'flag' },
+        { action: 'set_priority', setting: 'priority', type: 'number' },
+    ],
+    frozen: [
+        { action: 'searchable_snapshot', setting: 'snapshot_repository', type: 'text' },
+    ],
+    delete: [
+        { action: 'delete', setting: 'delete_searchable_snapshot', type: 'flag' },
+    ],
+};
+
+// Starting point when a phase is turned on in the form
+export const DEFAULT_PHASES: Record<IlmPhase, IlmPhaseDefinition> = {
+    hot: { min_age: '0ms', actions: { rollover: { max_age: '30d', max_primary_shard_size: '50gb' }, set_priority: { priority: 100 } } },
+    warm: { min_age: '7d', actions: { set_priority: { priority: 50 } } },
+    cold: { min_age: '30d', actions: { set_priority: { priority: 0 } } },
+    frozen: { min_age: '90d', actions: { searchable_snapshot: { snapshot_repository: '' } } },
+    delete: { min_age: '90d', actions: { delete: {} } },
+};
+
+export const createDefaultPolicy = (): IlmPolicyBody => ({
+    phases: {
+        hot: { min_age: '0ms', actions: { set_priority: { priority: 100 } } },
+        delete: { min_age: '30d', actions: { delete: {} } },
+    },
+});
+
+export const getFieldValue = (phase: IlmPhaseDefinition, field: IlmPhaseField): string | boolean => {
+    const action = phase.actions?.[field.action];
+    if (field.type === 'flag') {
+        return field.setting ? !!action?.[field.setting] : action !== undefined;
+    }
+    const value = field.setting ? action?.[field.setting] : undefined;
+    return value === undefined || value === null ? '' : String(value);
+};
+
+/**
+ * Phase with one form field changed. Clearing the last setting of an action
+ * removes the action; the delete action stays while its phase is on.
+ */
+export const setFieldValue = (
+    phase: IlmPhaseDefinition,
+    field: IlmPhaseField,
+    value: string | boolean
+): IlmPhaseDefinition => {
+    const actions = { ...(phase.actions || {}) };
+    const action = { ...(actions[field.action] || {}) };
+
+    if (!field.setting) {
+        if (value) actions[field.action] = action;
+        else delete actions[field.action];
+        return { ...phase, actions };
+    }
+
+    if (value === '' || value === false) {
+        delete action[field.setting];
+    } else {
+        action[field.setting] = field.type === 'number' ? Number(value) : value;
+    }
+    if (Object.keys(action).length > 0 || field.action === 'delete') {
+        actions[field.action] = action;
+    } else {
+        delete actions[field.action];
+    }
+    return { ...phase, actions };
+};
+
+// Actions of a phase that the form has no fields for
+export const getOtherActions = (phaseName: IlmPhase, phase: IlmPhaseDefinition): string[] =>
+    Object.keys(phase.actions || {}).filter(action => !PHASE_FIELDS[phaseName].some(field => field.action === action));
@@ -0,0 +1,54 @@
+const DATE_PATTERNS: Array<{ regex: RegExp; extract: (name: string, match: RegExpMatchArray) => string | null }> = [
+    { regex: /_(\d{8})(?:_(\d{1,9}))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
+    { regex: /_(\d{10,14})$/, extract: (name, match) => name.substring(0, match.index!) || null },
+    { regex: /[-_](\d{4}\.\d{2}\.\d{2})(?:[-_](\d+))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
+    { regex: /[-_](\d{4}-\d{2}-\d{2})(?:[-_](\d+))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
+    { regex: /-(\d{8})(?:-(\d{1,9}))?$/, extract: (name, match) => name.substring(0, match.index!) || null },
+    { regex: /-(\d{10,14})$/, extract: (name, match) => name.substring(0, match.index!) || null },
+    { regex: /[-_]v(\d{1,4})$/, extract: (name, match) => name.substring(0, match.index!) || null },
+];
+
+/**
+ * Prefix shared by time-based indices (logs-2024.01.31 -> logs), or null when the
+ * name has no date, timestamp or version suffix.
+ */
+export function extractGroupPrefix(indexName: string): string | null {
+    for (const pattern of DATE_PATTERNS) {
+        const match = indexName.match(pattern.regex);
+        if (match) {
+            const prefix = pattern.extract(indexName, match);
+            if (prefix && prefix.length > 0) return prefix;
+        }
+    }
+    return null;
+}
+
+/**
+ * Index names grouped by prefix like the index list does: a prefix needs at least
+ * two indices to form a group, the others are listed one by one after the groups.
+ */
+export function groupIndexNames(names: string[]): Array<{ prefix: string | null; indices: string[] }> {
+    const prefixMap = new Map<string, string[]>();
+    const ungrouped: string[] = [];
+
+    for (const name of names) {
+        const prefix = extractGroupPrefix(name);
+        if (prefix) {
+            if (!prefixMap.has(prefix)) prefixMap.set(prefix, []);
+            prefixMap.get(prefix)!.push(name);
+        } else {
+            ungrouped.push(name);
+        }
+    }
+
+    const groups: Array<{ prefix: string | null; indices: string[] }> = [];
+    for (const [prefix, indices] of prefixMap) {
+        if (indices.length >= 2) {
+            groups.push({ prefix, indices });
+        } else {
+            ungrouped.push(...indices);
+        }
+    }
+    groups.sort((a, b) => a.prefix!.localeCompare(b.prefix!));
+    return [...groups, ...ungrouped.sort().map(name => ({ prefix: null, indices: [name] }))];
+}
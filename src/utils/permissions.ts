@@ -0,0 +1,72 @@
+import type { ConnectionRole } from '../types';
+
+const ROLE_RANK: Record<ConnectionRole, number> = {
+    viewer: 1,
+    editor: 2,
+    admin: 3,
+};
+
+/**
+ * Whether the current role on a connection allows actions that need `required`.
+ * Mirrors the server-side check so the UI can hide what would be refused anyway.
+ */
+export const hasRole = (role: ConnectionRole | null | undefined, required: ConnectionRole): boolean =>
+    !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+
+/**
+ * Role the UI should act on. Read-only connections allow nothing beyond what a
+ * viewer can do, whatever the user was granted; the server refuses it anyway.
+ */
+export const getEffectiveRole = (role: ConnectionRole | null, readOnly: boolean): ConnectionRole | null =>
+    readOnly && role ? 'viewer' : role;
+
+// Read-only POST endpoints after an optional index; `{id}` is one path segment
+const READ_ONLY_POST_ENDPOINTS = [
+    '_search',
+    '_search/template',
+    '_search/scroll',
+    '_msearch',
+    '_msearch/template',
+    '_count',
+    '_field_caps',
+    '_validate/query',
+    '_explain/{id}',
+    '_mget',
+    '_termvectors',
+    '_termvectors/{id}',
+    '_mtermvectors',
+    '_analyze',
+    '_render/template',
+    '_render/template/{id}',
+    '_pit',
+].map(endpoint => endpoint.split('/'));
+
+// Read-only DELETE endpoints, which only close a point in time or scroll
+const READ_ONLY_DELETE_ENDPOINTS = [
+    '_pit',
+    '_search/scroll',
+    '_search/scroll/{id}',
+].map(endpoint => endpoint.split('/'));
+
+const matchesEndpoint = (patterns: string[][], endpoint: string[]): boolean =>
+    patterns.some(pattern =>
+        pattern.length === endpoint.length &&
+        pattern.every((part, i) => part === '{id}' || part === endpoint[i])
+    );
+
+/**
+ * Whether a REST console request only reads data, i.e. is allowed for viewers.
+ * The whole path has to be a read endpoint: `POST /logs/_doc/_search` indexes a document.
+ */
+export const isReadRestRequest = (method: string, path: string): boolean => {
+    const normalizedMethod = method.toUpperCase();
+    if (normalizedMethod === 'GET' || normalizedMethod === 'HEAD') return true;
+
+    const parts = path.split('?')[0].toLowerCase().split('/').filter(Boolean);
+    if (normalizedMethod === 'DELETE') return matchesEndpoint(READ_ONLY_DELETE_ENDPOINTS, parts);
+    if (normalizedMethod !== 'POST') return false;
+
+    // Index names never start with "_", except the `_all` alias
+    const endpoint = parts.length > 0 && (!parts[0].startsWith('_') || parts[0] === '_all') ? parts.slice(1) : parts;
+    return matchesEndpoint(READ_ONLY_POST_ENDPOINTS, endpoint);
+};
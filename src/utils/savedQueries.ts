@@ -0,0 +1,44 @@
+import type { SavedQueryMetadata } from '../types';
+import { parseServerTimestamp } from './formatters';
+
+type OrganizedQuery = SavedQueryMetadata & { name: string };
+
+// Split a comma separated tag list, dropping blanks and duplicates
+export const parseTagsInput = (value: string): string[] =>
+    Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+export const formatTagsInput = (tags: string[]): string => tags.join(', ');
+
+// Distinct folder names, for suggestions when saving
+export const getQueryFolders = (queries: OrganizedQuery[]): string[] =>
+    Array.from(new Set(queries.map(q => q.folder).filter((f): f is string => !!f)))
+        .sort((a, b) => a.localeCompare(b));
+
+// Case-insensitive match on name, folder, description and tags
+export const filterSavedQueries = <T extends OrganizedQuery>(queries: T[], filter: string): T[] => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return queries;
+    return queries.filter(q =>
+        [q.name, q.folder, q.description, ...q.tags].some(value => value?.toLowerCase().includes(needle))
+    );
+};
+
+/**
+ * Group queries by folder: named folders alphabetically, then queries without
+ * a folder (`null`). Within a group the most recently used queries come first.
+ */
+export const groupSavedQueriesByFolder = <T extends OrganizedQuery>(queries: T[]): [string | null, T[]][] => {
+    const groups = new Map<string | null, T[]>();
+    for (const query of queries) {
+        const folder = query.folder || null;
+        groups.set(folder, [...(groups.get(folder) || []), query]);
+    }
+
+    const lastUsed = (q: T) => parseServerTimestamp(q.last_used_at) || 0;
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)))
+        .map(([folder, items]) => [
+            folder,
+            [...items].sort((a, b) => lastUsed(b) - lastUsed(a) || a.name.localeCompare(b.name))
+        ]);
+};